@@ -0,0 +1,307 @@
+import { type Response, type NextFunction } from "express";
+import Conversation from "../models/Conversation.js";
+import Dataset from "../models/Dataset.js";
+import Insight from "../models/Insight.js";
+import { type AuthRequest } from "../middleware/auth.js";
+import { CustomError } from "../middleware/errorHandler.js";
+import { loadDatasetRows } from "../services/datasetRowsService.js";
+import {
+  answerWithLLM,
+  answerStatistically,
+  type ChatAnswer,
+} from "../services/chatService.js";
+import {
+  resolveProvider,
+  LLMOutputError,
+  type ResolvedProvider,
+} from "../services/llmService.js";
+import { recordSpentUsage, recordUsage } from "../services/usageService.js";
+
+const QUESTION_MAX_LENGTH = 2000;
+
+const findOwnedDataset = async (req: AuthRequest) => {
+  const dataset = await Dataset.findOne({
+    _id: req.params.id,
+    userId: req.user?._id,
+  });
+
+  if (!dataset) throw new CustomError("Dataset not found", 404);
+  return dataset;
+};
+
+const findOwnedConversation = async (req: AuthRequest) => {
+  const conversation = await Conversation.findOne({
+    _id: req.params.conversationId,
+    datasetId: req.params.id,
+    userId: req.user?._id,
+  });
+
+  if (!conversation) throw new CustomError("Conversation not found", 404);
+  return conversation;
+};
+
+// @desc    List chat threads for a dataset
+// @route   GET /api/datasets/:id/chat
+// @access  Private
+export const getConversations = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await findOwnedDataset(req);
+
+    const conversations = await Conversation.find({
+      datasetId: req.params.id,
+      userId: req.user?._id,
+    })
+      .select("title lastMessageAt createdAt updatedAt")
+      .sort({ lastMessageAt: -1 })
+      .lean();
+
+    res.status(200).json({
+      success: true,
+      count: conversations.length,
+      data: conversations,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Start a chat thread for a dataset
+// @route   POST /api/datasets/:id/chat
+// @access  Private
+export const createConversation = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await findOwnedDataset(req);
+
+    const conversation = await Conversation.create({
+      userId: req.user?._id,
+      datasetId: req.params.id,
+      title: (req.body?.title || "New conversation").slice(0, 150),
+      messages: [],
+    });
+
+    res.status(201).json({
+      success: true,
+      data: conversation,
+      message: "Conversation created successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get a chat thread with its messages
+// @route   GET /api/datasets/:id/chat/:conversationId
+// @access  Private
+export const getConversation = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const conversation = await findOwnedConversation(req);
+
+    res.status(200).json({ success: true, data: conversation });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Delete a chat thread
+// @route   DELETE /api/datasets/:id/chat/:conversationId
+// @access  Private
+export const deleteConversation = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const conversation = await findOwnedConversation(req);
+    await conversation.deleteOne();
+
+    res.status(200).json({
+      success: true,
+      data: {},
+      message: "Conversation deleted successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Ask a question in a chat thread
+// @route   POST /api/datasets/:id/chat/:conversationId/messages
+// @access  Private
+export const sendMessage = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { content, provider, model } = req.body;
+    const question = typeof content === "string" ? content.trim() : "";
+
+    if (!question) {
+      throw new CustomError("Please provide a message", 400);
+    }
+    if (question.length > QUESTION_MAX_LENGTH) {
+      throw new CustomError(
+        `Message cannot be more than ${QUESTION_MAX_LENGTH} characters`,
+        400
+      );
+    }
+
+    const dataset = await findOwnedDataset(req);
+    const conversation = await findOwnedConversation(req);
+
+    if (dataset.metadata.processingStatus !== "completed") {
+      throw new CustomError(
+        "Dataset must be fully processed before chatting about it",
+        400
+      );
+    }
+
+    let llm: ResolvedProvider | null;
+    try {
+      llm = resolveProvider({ provider, model }, req.user?.aiPreferences);
+    } catch (error: any) {
+      throw new CustomError(error.message, 400);
+    }
+
+    const rows = await loadDatasetRows(dataset);
+    const history = conversation.messages.map((m) => ({
+      role: m.role,
+      content: m.content,
+    }));
+
+    let answer: ChatAnswer;
+    if (llm) {
+      try {
+        answer = await answerWithLLM(llm, dataset, rows, history, question);
+      } catch (error: any) {
+        console.error(`${llm.provider.name} API Error:`, error);
+        await recordSpentUsage(error, llm, {
+          userId: req.user?._id,
+          operation: "chat",
+          datasetId: dataset._id,
+          conversationId: conversation._id,
+        });
+        if (error instanceof LLMOutputError) {
+          throw new CustomError(
+            `${error.message}. The model did not return a valid answer.`,
+            422,
+            error.errors
+          );
+        }
+        throw new CustomError(`Failed to answer: ${error.message}`, 500);
+      }
+    } else {
+      // No LLM configured - answer from the statistical engine
+      answer = answerStatistically(dataset, rows, question);
+    }
+
+    if (answer.completion) {
+      await recordUsage(answer.completion, {
+        userId: req.user?._id,
+        operation: "chat",
+        datasetId: dataset._id,
+        conversationId: conversation._id,
+      });
+    }
+
+    // The first question names the thread
+    if (conversation.messages.length === 0) {
+      conversation.title = question.slice(0, 150);
+    }
+
+    conversation.messages.push(
+      { role: "user", content: question },
+      {
+        role: "assistant",
+        content: answer.answer,
+        visualizations: answer.visualizations,
+        metrics: answer.metrics,
+        aiModel: answer.aiModel,
+        aiProvider: answer.aiProvider,
+      }
+    );
+    conversation.lastMessageAt = new Date();
+    await conversation.save();
+
+    res.status(201).json({
+      success: true,
+      data: conversation,
+      message: "Answer generated successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Save an assistant answer as an insight
+// @route   POST /api/datasets/:id/chat/:conversationId/messages/:messageId/insight
+// @access  Private
+export const saveMessageAsInsight = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const conversation = await findOwnedConversation(req);
+    const index = conversation.messages.findIndex(
+      (m) => m._id.toString() === req.params.messageId
+    );
+    const message = conversation.messages[index];
+
+    if (!message || message.role !== "assistant") {
+      throw new CustomError("Assistant message not found", 404);
+    }
+    if (message.savedInsightId) {
+      throw new CustomError("This answer has already been saved", 400);
+    }
+
+    // The question that prompted this answer becomes the insight's query
+    const question = conversation.messages
+      .slice(0, index)
+      .reverse()
+      .find((m) => m.role === "user")?.content;
+
+    const insight = await Insight.create({
+      userId: req.user?._id,
+      datasetId: conversation.datasetId,
+      title: (req.body?.title || question || conversation.title).slice(0, 150),
+      description: message.content.slice(0, 2000),
+      type: "custom",
+      aiGenerated: true,
+      confidence: 0,
+      query: (question || "").slice(0, 1000),
+      aiModel: message.aiModel,
+      aiProvider: message.aiProvider,
+      visualizations: message.visualizations,
+      metrics: message.metrics,
+      recommendations: [],
+      status: "published",
+      tags: ["chat"],
+    });
+
+    message.savedInsightId = insight._id as typeof message.savedInsightId;
+    await conversation.save();
+
+    await insight.populate("datasetId", "name fileType");
+
+    res.status(201).json({
+      success: true,
+      data: insight,
+      message: "Answer saved as insight",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,15 +1,39 @@
 import { Response, NextFunction } from "express";
 import Dataset from "../models/Dataset.js";
 import Insight from "../models/Insight.js";
+import Conversation from "../models/Conversation.js";
+import InsightJob from "../models/InsightJob.js";
 import { AuthRequest } from "../middleware/auth.js";
 import { CustomError } from "../middleware/errorHandler.js";
-import csv from "csv-parser";
-import { Readable } from "stream";
+import path from "path";
 import * as XLSX from "xlsx";
 import {
   downloadToBuffer,
   deleteFromCloudinary,
 } from "../services/cloudinaryService.js";
+import { clearDatasetCache } from "../services/generationCacheService.js";
+import {
+  loadDatasetRows,
+  parseRowsFromBuffer,
+  datasetParseOptions,
+} from "../services/datasetRowsService.js";
+import {
+  parseParquetRows,
+  parseArrowRows,
+} from "../services/columnarFileService.js";
+import {
+  COLUMN_POLICIES,
+  type ColumnPolicy,
+} from "../services/privacyService.js";
+import {
+  applySchemaToRows,
+  applySchemaUpdate,
+  validateSchemaUpdate,
+} from "../services/schemaService.js";
+import {
+  profileColumns,
+  PROFILE_ROW_LIMIT,
+} from "../services/columnProfileService.js";
 
 // @desc    Get all datasets for user
 // @route   GET /api/datasets
@@ -111,6 +135,122 @@ export const updateDataset = async (
   }
 };
 
+// @desc    Set how each column is treated before data is sent to an AI provider
+// @route   PUT /api/datasets/:id/privacy
+// @access  Private
+export const updateColumnPolicies = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { policies } = req.body;
+
+    if (!policies || typeof policies !== "object" || Array.isArray(policies)) {
+      throw new CustomError(
+        "Please provide policies as an object of column name to policy",
+        400
+      );
+    }
+
+    const dataset = await Dataset.findOne({
+      _id: req.params.id,
+      userId: req.user?._id,
+    });
+
+    if (!dataset) throw new CustomError("Dataset not found", 404);
+
+    const names = new Set(dataset.columns.map((column) => column.name));
+    const errors: string[] = [];
+    Object.entries(policies as Record<string, unknown>).forEach(
+      ([name, policy]) => {
+        if (!names.has(name)) errors.push(`Unknown column "${name}"`);
+        if (!COLUMN_POLICIES.includes(policy as ColumnPolicy)) {
+          errors.push(
+            `Invalid policy "${policy}" for "${name}" (expected ${COLUMN_POLICIES.join(", ")})`
+          );
+        }
+      }
+    );
+    if (errors.length > 0) {
+      throw new CustomError("Invalid column policies", 400, errors);
+    }
+
+    dataset.columns.forEach((column) => {
+      if (policies[column.name]) column.policy = policies[column.name];
+    });
+    dataset.metadata.lastModified = new Date();
+
+    await dataset.save();
+    res.status(200).json({
+      success: true,
+      data: dataset,
+      message: "Column privacy updated",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Override column types, nullable flags, display names, descriptions, units and roles
+// @route   PUT /api/datasets/:id/schema
+// @access  Private
+export const updateDatasetSchema = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const dataset = await Dataset.findOne({
+      _id: req.params.id,
+      userId: req.user?._id,
+    });
+
+    if (!dataset) throw new CustomError("Dataset not found", 404);
+    if (dataset.metadata.processingStatus !== "completed") {
+      throw new CustomError("Dataset is still being processed", 400);
+    }
+
+    const { value: updates, errors } = validateSchemaUpdate(
+      req.body,
+      dataset.columns.map((column) => column.name)
+    );
+    if (!updates) {
+      throw new CustomError("Invalid schema", 400, errors);
+    }
+
+    dataset.columns.forEach((column) => {
+      if (updates[column.name]) applySchemaUpdate(column, updates[column.name]);
+    });
+
+    // A new type or role changes how values are read, so those columns are profiled again
+    const reprofiled = Object.keys(updates).filter(
+      (name) => updates[name].type !== undefined || updates[name].role !== undefined
+    );
+    if (reprofiled.length > 0) {
+      const rows = await loadDatasetRows(dataset, PROFILE_ROW_LIMIT);
+      const profiles = profileColumns(
+        rows,
+        dataset.columns.filter((column) => reprofiled.includes(column.name))
+      );
+      dataset.columns.forEach((column) => {
+        if (profiles[column.name]) column.profile = profiles[column.name];
+      });
+      dataset.metadata.profiledRows = rows.length;
+    }
+    dataset.metadata.lastModified = new Date();
+
+    await dataset.save();
+    res.status(200).json({
+      success: true,
+      data: dataset,
+      message: "Dataset schema updated",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 // @desc    Delete dataset and Cloudinary file
 // @route   DELETE /api/datasets/:id
 // @access  Private
@@ -127,12 +267,23 @@ export const deleteDataset = async (
 
     if (!dataset) throw new CustomError("Dataset not found", 404);
 
-    // Delete associated insights
-    await Insight.deleteMany({ datasetId: dataset._id });
+    // Delete associated insights and chat threads
+    await Insight.deleteMany({
+      $or: [{ datasetId: dataset._id }, { baselineDatasetId: dataset._id }],
+    });
+    await Conversation.deleteMany({ datasetId: dataset._id });
+    await InsightJob.deleteMany({ datasetId: dataset._id });
+    await clearDatasetCache(dataset._id);
 
-    // Delete from Cloudinary
+    // Delete from Cloudinary, unless a copy or split sheet still uses the file
     const cloudPath = (dataset.metadata as any).cloudPath;
-    if (cloudPath) {
+    const shared = cloudPath
+      ? await Dataset.exists({
+          _id: { $ne: dataset._id },
+          "metadata.cloudPath": cloudPath,
+        })
+      : null;
+    if (cloudPath && !shared) {
       try {
         await deleteFromCloudinary(cloudPath, "raw");
         console.log(`✅ Deleted from Cloudinary: ${cloudPath}`);
@@ -168,7 +319,9 @@ export const getDatasetStats = async (
 
     if (!dataset) throw new CustomError("Dataset not found", 404);
 
-    const insightsCount = await Insight.countDocuments({ datasetId: dataset._id });
+    const insightsCount = await Insight.countDocuments({
+      $or: [{ datasetId: dataset._id }, { baselineDatasetId: dataset._id }],
+    });
 
     res.status(200).json({
       success: true,
@@ -185,6 +338,13 @@ export const getDatasetStats = async (
           storageType: "cloudinary",
         },
         columns: dataset.columns,
+        // Per-column statistics computed while processing
+        profile: {
+          profiledRows: dataset.metadata.profiledRows ?? 0,
+          columns: Object.fromEntries(
+            dataset.columns.map((column) => [column.name, column.profile?.kind ? column.profile : null])
+          ),
+        },
         insights: { total: insightsCount },
         tags: dataset.tags,
       },
@@ -223,13 +383,32 @@ export const getDatasetPreview = async (
 
     switch (dataset.fileType) {
       case "csv":
-        previewData = await readCSVPreviewFromBuffer(buffer, limit);
+        previewData = await parseRowsFromBuffer(
+          buffer,
+          "csv",
+          limit,
+          datasetParseOptions(dataset)
+        );
         break;
       case "json":
         previewData = readJSONPreviewFromBuffer(buffer, limit);
         break;
       case "excel":
-        previewData = readExcelPreviewFromBuffer(buffer, limit);
+        previewData = await parseRowsFromBuffer(
+          buffer,
+          "excel",
+          limit,
+          datasetParseOptions(dataset)
+        );
+        break;
+      case "jsonl":
+        previewData = await parseRowsFromBuffer(buffer, "jsonl", limit);
+        break;
+      case "parquet":
+        previewData = await parseParquetRows(buffer, limit);
+        break;
+      case "arrow":
+        previewData = parseArrowRows(buffer, limit);
         break;
       default:
         throw new CustomError("Unsupported file type for preview", 400);
@@ -239,7 +418,7 @@ export const getDatasetPreview = async (
       success: true,
       data: {
         columns: dataset.columns,
-        rows: previewData,
+        rows: applySchemaToRows(previewData, dataset.columns),
         totalRows: dataset.rowCount,
         previewRows: previewData.length,
         fileType: dataset.fileType,
@@ -250,7 +429,7 @@ export const getDatasetPreview = async (
   }
 };
 
-// @desc    Download dataset (redirect to Cloudinary URL)
+// @desc    Download dataset (redirect to Cloudinary URL, or ?format=csv to convert)
 // @route   GET /api/datasets/:id/download
 // @access  Private
 export const downloadDataset = async (
@@ -266,6 +445,31 @@ export const downloadDataset = async (
 
     if (!dataset) throw new CustomError("Dataset not found", 404);
 
+    // Columnar and spreadsheet files can be fetched as CSV for tools that cannot read them
+    if (req.query.format === "csv" && dataset.fileType !== "csv") {
+      const rows = await loadDatasetRows(dataset);
+      const sheet = XLSX.utils.json_to_sheet(
+        rows.map((row) =>
+          Object.fromEntries(
+            Object.entries(row).map(([key, value]) => [
+              key,
+              value !== null && typeof value === "object"
+                ? JSON.stringify(value)
+                : value,
+            ])
+          )
+        )
+      );
+
+      res.setHeader("Content-Type", "text/csv");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${path.parse(dataset.fileName).name}.csv"`
+      );
+      res.send(XLSX.utils.sheet_to_csv(sheet));
+      return;
+    }
+
     // Redirect to Cloudinary URL for download
     res.redirect(dataset.fileUrl);
   } catch (error) {
@@ -297,8 +501,12 @@ export const duplicateDataset = async (
       fileName: original.fileName,
       fileSize: original.fileSize,
       fileType: original.fileType,
+      contentHash: original.contentHash,
       columns: original.columns,
       rowCount: original.rowCount,
+      sheets: original.sheets,
+      sheetSelection: original.sheetSelection,
+      csvDialect: original.csvDialect,
       tags: original.tags,
       metadata: {
         uploadDate: new Date(),
@@ -319,21 +527,6 @@ export const duplicateDataset = async (
 // Buffer Preview Functions (NO local storage)
 // ============================================
 
-async function readCSVPreviewFromBuffer(buffer: Buffer, limit: number): Promise<any[]> {
-  return new Promise((resolve, reject) => {
-    const rows: any[] = [];
-    let count = 0;
-
-    Readable.from(buffer)
-      .pipe(csv())
-      .on("data", (row: any) => {
-        if (count < limit) { rows.push(row); count++; }
-      })
-      .on("end", () => resolve(rows))
-      .on("error", reject);
-  });
-}
-
 function readJSONPreviewFromBuffer(buffer: Buffer, limit: number): any[] {
   const data = JSON.parse(buffer.toString("utf-8"));
   let rows: any[] = [];
@@ -348,13 +541,6 @@ function readJSONPreviewFromBuffer(buffer: Buffer, limit: number): any[] {
   return rows.slice(0, limit);
 }
 
-function readExcelPreviewFromBuffer(buffer: Buffer, limit: number): any[] {
-  const workbook = XLSX.read(buffer, { type: "buffer" });
-  const sheetName = workbook.SheetNames[0];
-  const data: any[] = XLSX.utils.sheet_to_json(workbook.Sheets[sheetName]);
-  return data.slice(0, limit);
-}
-
 function formatBytes(bytes: number, decimals = 2): string {
   if (bytes === 0) return "0 Bytes";
   const k = 1024, dm = decimals < 0 ? 0 : decimals;
@@ -1,9 +1,107 @@
 import { type Response, type NextFunction } from "express";
-import Insight from "../models/Insight.js";
-import Dataset from "../models/Dataset.js";
-import { type AuthRequest } from "../middleware/auth.js";
+import mongoose from "mongoose";
+import Insight, {
+  type IInsight,
+  type InsightProvenance,
+  type InsightRevision,
+} from "../models/Insight.js";
+import Dataset, { type IDataset } from "../models/Dataset.js";
+import { assertAIQuota, type AuthRequest } from "../middleware/auth.js";
+import { type IUser } from "../models/User.js";
 import { CustomError } from "../middleware/errorHandler.js";
-import { OpenAI } from "openai";
+import {
+  generateStatisticalInsight,
+  resolveColumnNames,
+  STATISTICAL_ENGINE_MODEL,
+} from "../services/analyticsService.js";
+import {
+  loadDatasetRows,
+  ensureContentHash,
+  datasetParseOptions,
+  type DatasetRow,
+} from "../services/datasetRowsService.js";
+import { buildDatasetContext } from "../services/datasetContextService.js";
+import {
+  resolveProvider,
+  listProviders,
+  type ResolvedProvider,
+  completeJSON,
+  completionParameters,
+  LLMOutputError,
+  spentUsage,
+  withSpentUsage,
+  type ChatMessage,
+  type CompletionResult,
+  type CompletionUsage,
+} from "../services/llmService.js";
+import {
+  validateInsightResult,
+  type ValidatedInsight,
+} from "../services/insightValidationService.js";
+import {
+  executeChartSpec,
+  type ChartSpec,
+} from "../services/chartSpecService.js";
+import {
+  validateStructuredQuery,
+  executeStructuredQuery,
+  describeStructuredQuery,
+  queryResultPolicyColumns,
+  queryResultVisualizations,
+  translateWithLLM,
+  translateHeuristically,
+  type StructuredQuery,
+  type QueryResult,
+} from "../services/queryService.js";
+import {
+  recordUsage,
+  recordSpentUsage,
+  mergeUsage,
+  checkQuota,
+  type UsageCost,
+} from "../services/usageService.js";
+import {
+  INSIGHT_PACK_TYPES,
+  createInsightJob,
+  findActiveJob,
+  isActiveJobConflict,
+  isJobActive,
+  resetFailedItems,
+  runInsightJob,
+} from "../services/insightJobService.js";
+import InsightJob, { type IInsightJob } from "../models/InsightJob.js";
+import {
+  getActiveTemplate,
+  getTemplateVersion,
+  renderInsightPrompts,
+  templateLabel,
+  type ResolvedPromptTemplate,
+} from "../services/promptTemplateService.js";
+import {
+  buildCacheKey,
+  isCacheEnabled,
+  getCachedGeneration,
+  storeGeneration,
+} from "../services/generationCacheService.js";
+import { factCheckInsight } from "../services/factCheckService.js";
+import {
+  applyColumnPolicies,
+  withheldColumns,
+  type WithheldColumn,
+} from "../services/privacyService.js";
+import { schemaOverrides } from "../services/schemaService.js";
+import {
+  checkCompatibility,
+  compareDatasets,
+  comparisonVisualizations,
+  narrateComparisonWithLLM,
+  statisticalComparisonNarrative,
+} from "../services/datasetComparisonService.js";
+import {
+  AGENT_PROMPT_VERSION,
+  runInsightAgent,
+  type AgentTrace,
+} from "../services/insightAgentService.js";
 
 import dotenv from "dotenv";
 dotenv.config();
@@ -47,7 +145,9 @@ export const getInsights = async (
       ];
     }
 
+    // Prompts and earlier results are only needed on the detail view
     const insights = await Insight.find(filter)
+      .select("-provenance -history")
       .populate("datasetId", "name fileType rowCount")
       .populate("userId", "name email")
       .sort({ createdAt: -1 })
@@ -84,6 +184,7 @@ export const getInsight = async (
       userId: req.user?._id,
     })
       .populate("datasetId", "name fileType columns rowCount")
+      .populate("baselineDatasetId", "name fileType rowCount")
       .populate("userId", "name email avatar");
 
     if (!insight) {
@@ -170,198 +271,1171 @@ export const createInsight = async (
   }
 };
 
+interface ExecutedQuery {
+  query: StructuredQuery;
+  result: QueryResult;
+}
+
+/**
+ * Validate a user-edited structured query, or translate the natural-language
+ * query (LLM when available, keyword heuristics otherwise).
+ * The completion is returned when a model did the translation.
+ */
+const resolveStructuredQuery = async (
+  llm: ResolvedProvider | null,
+  dataset: IDataset,
+  rows: DatasetRow[],
+  query: string | undefined,
+  structuredQuery: unknown
+): Promise<{ query: StructuredQuery; completion?: CompletionResult }> => {
+  if (structuredQuery !== undefined && structuredQuery !== null) {
+    const { value, errors } = validateStructuredQuery(
+      structuredQuery,
+      resolveColumnNames(dataset, rows)
+    );
+    if (!value) {
+      throw new CustomError("Invalid structured query", 400, errors);
+    }
+    return { query: value };
+  }
+
+  if (!query) {
+    throw new CustomError("Please provide a query", 400);
+  }
+
+  if (!llm) return { query: translateHeuristically(dataset, rows, query) };
+
+  try {
+    return await translateWithLLM(llm, dataset, rows, query);
+  } catch (error: any) {
+    console.error(`${llm.provider.name} API Error:`, error);
+    if (error instanceof LLMOutputError) {
+      throw withSpentUsage(
+        new CustomError(
+          `${error.message}. The model could not translate the query.`,
+          422,
+          error.errors
+        ),
+        error.usage
+      );
+    }
+    throw withSpentUsage(
+      new CustomError(`Failed to translate query: ${error.message}`, 500),
+      spentUsage(error)
+    );
+  }
+};
+
+// AI output is validated against the Insight schema before it is saved;
+// chart data is always computed from the dataset rows, never taken from the model
+type AIInsightResult = Omit<ValidatedInsight, "visualizations"> & {
+  visualizations: Array<{
+    type: string;
+    data: any;
+    config: any;
+    spec?: ChartSpec;
+  }>;
+};
+
+// Progress stages reported while an insight is generated
+type GenerationStage =
+  | "loading"
+  | "querying"
+  | "profiling"
+  | "prompting"
+  | "token"
+  | "validating"
+  | "repairing"
+  | "tool"
+  | "verifying"
+  | "saving";
+
+// "single" sends one prompt with a data sample; "agent" lets the model call analysis tools
+const GENERATION_MODES = ["single", "agent"] as const;
+type GenerationMode = (typeof GENERATION_MODES)[number];
+
+interface GenerationOptions {
+  template: ResolvedPromptTemplate;
+  mode: GenerationMode;
+  temperature?: number;
+  executedQuery?: ExecutedQuery;
+  signal?: AbortSignal;
+  onProgress?: (stage: GenerationStage, data?: Record<string, unknown>) => void;
+}
+
+// usage: tokens the cancelled generation had already used, so they are still charged
+const throwIfCancelled = (signal?: AbortSignal, usage?: CompletionUsage) => {
+  // 499: the client closed the request before generation finished
+  if (signal?.aborted) {
+    throw withSpentUsage(new CustomError("Generation cancelled", 499), usage);
+  }
+};
+
+const generateAIInsightWithLLM = async (
+  llm: ResolvedProvider,
+  dataset: IDataset,
+  rows: DatasetRow[],
+  query: string,
+  insightType: string,
+  options: GenerationOptions
+): Promise<{
+  insight: AIInsightResult;
+  completion: CompletionResult;
+  withheld: WithheldColumn[];
+  agentTrace?: AgentTrace;
+  messages: ChatMessage[];
+  attempts?: number;
+}> => {
+  const { template, mode, temperature, executedQuery, signal, onProgress } =
+    options;
+  // Grouped values and measures come straight from the rows, so the column policies apply here too
+  const queryResult = executedQuery
+    ? `Query Result (${describeStructuredQuery(executedQuery.query)}, computed over all matching rows):
+${JSON.stringify(
+  applyColumnPolicies(
+    executedQuery.result.rows.slice(0, 50),
+    queryResultPolicyColumns(executedQuery.query, dataset.columns),
+    String(dataset._id)
+  )
+)}`
+    : "";
+
+  try {
+    if (mode === "agent") {
+      onProgress?.("prompting", {
+        provider: llm.provider.name,
+        model: llm.model,
+        mode,
+      });
+      const { value, completion, trace, messages } = await runInsightAgent(
+        llm,
+        { dataset, rows, insightType, query, queryResult },
+        {
+          temperature,
+          signal,
+          onStep: (step) => onProgress?.("tool", step),
+          onValidate: (attempt) => onProgress?.("validating", { attempt }),
+          onRepair: (attempt, errors) =>
+            onProgress?.("repairing", { attempt, errors }),
+        }
+      );
+
+      return {
+        insight: {
+          ...value,
+          visualizations: value.visualizations.map((spec) =>
+            executeChartSpec(spec, rows)
+          ),
+        },
+        completion,
+        withheld: withheldColumns(dataset.columns),
+        agentTrace: trace,
+        messages,
+      };
+    }
+
+    // Real statistics and a representative sample, sized to the token budget
+    onProgress?.("profiling");
+    const datasetContext = await buildDatasetContext(dataset, { rows });
+    const columns = resolveColumnNames(dataset, rows);
+
+    // Prompts come from the insight type's active template
+    const { systemPrompt, userPrompt } = renderInsightPrompts(template, {
+      datasetContext: datasetContext.text,
+      rowCount: String(datasetContext.context.rowCount),
+      insightType,
+      query: query || "",
+      queryResult,
+    });
+
+    onProgress?.("prompting", {
+      provider: llm.provider.name,
+      model: llm.model,
+      template: templateLabel(template),
+      contextTokens: datasetContext.tokens,
+    });
+    const { value, completion, attempts, messages } = await completeJSON(
+      llm,
+      [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt },
+      ],
+      (raw) => validateInsightResult(raw, columns),
+      {
+        temperature,
+        signal,
+        onToken: onProgress && ((delta) => onProgress("token", { delta })),
+        onValidate: (attempt) => onProgress?.("validating", { attempt }),
+        onRepair: (attempt, errors) =>
+          onProgress?.("repairing", { attempt, errors }),
+      }
+    );
+
+    return {
+      insight: {
+        ...value,
+        visualizations: value.visualizations.map((spec) =>
+          executeChartSpec(spec, rows)
+        ),
+      },
+      completion,
+      withheld: datasetContext.withheld,
+      messages,
+      attempts,
+    };
+  } catch (error: any) {
+    throwIfCancelled(signal, spentUsage(error));
+    console.error(`${llm.provider.name} API Error:`, error);
+    if (error instanceof LLMOutputError) {
+      throw withSpentUsage(
+        new CustomError(
+          `${error.message}. The model did not return a valid insight.`,
+          422,
+          error.errors
+        ),
+        error.usage
+      );
+    }
+    throw withSpentUsage(
+      new CustomError(`Failed to generate AI insight: ${error.message}`, 500),
+      spentUsage(error)
+    );
+  }
+};
+
+// Generation parameters, as sent to the generate endpoints
+interface GenerationRequest {
+  datasetId?: string;
+  query?: string;
+  structuredQuery?: unknown;
+  type?: string;
+  provider?: string;
+  model?: string;
+  temperature?: unknown;
+  force?: unknown;
+  mode?: string;
+  // Replays pin the template version the insight was generated with
+  templateVersion?: number;
+}
+
+// Earlier results kept on a regenerated insight
+const MAX_INSIGHT_HISTORY = 10;
+
+/**
+ * The requested sampling temperature, checked before any provider is called
+ */
+const parseTemperature = (temperature: unknown): number | undefined => {
+  if (temperature === undefined || temperature === null) return undefined;
+  if (typeof temperature !== "number" || !(temperature >= 0 && temperature <= 2)) {
+    throw new CustomError("Temperature must be a number between 0 and 2", 400);
+  }
+  return temperature;
+};
+
+const datasetVersion = (
+  dataset: IDataset,
+  rowCount: number
+): InsightProvenance["dataset"] => ({
+  contentHash: dataset.contentHash,
+  rowCount,
+  columnCount: dataset.columns.length,
+  lastModified: dataset.metadata.lastModified,
+});
+
+/**
+ * Store a regenerated result on an insight, keeping the current one as history
+ */
+const replaceInsightResult = async (
+  target: IInsight,
+  result: Record<string, unknown>
+) => {
+  const revision: InsightRevision = {
+    title: target.title,
+    description: target.description,
+    confidence: target.confidence,
+    visualizations: target.visualizations,
+    metrics: target.metrics,
+    recommendations: target.recommendations,
+    factChecks: target.factChecks,
+    aiModel: target.aiModel,
+    aiProvider: target.aiProvider,
+    provenance: target.provenance,
+    usage: target.usage,
+    replacedAt: new Date(),
+  };
+  target.set({
+    ...result,
+    cached: false,
+    history: [...target.history, revision].slice(-MAX_INSIGHT_HISTORY),
+  });
+  await target.save();
+  await target.populate("datasetId", "name fileType");
+  return target;
+};
+
+/**
+ * Shared generation pipeline for the JSON and streaming endpoints
+ */
+const createAIInsight = async (
+  user: IUser | undefined,
+  input: GenerationRequest,
+  options: Pick<GenerationOptions, "signal" | "onProgress"> & {
+    // Regenerate into this insight, keeping its current result as history
+    replace?: IInsight;
+  } = {}
+) => {
+  const { signal, onProgress, replace } = options;
+  const startedAt = Date.now();
+  const {
+    datasetId,
+    query,
+    structuredQuery,
+    type,
+    provider,
+    model,
+    temperature,
+    force,
+    mode: requestedMode,
+    templateVersion,
+  } = input;
+
+  if (!datasetId) {
+    throw new CustomError("Please provide a dataset ID", 400);
+  }
+  const requestTemperature = parseTemperature(temperature);
+
+  // Verify dataset exists and belongs to user
+  const dataset = await Dataset.findOne({
+    _id: datasetId,
+    userId: user?._id,
+  });
+
+  if (!dataset) {
+    throw new CustomError("Dataset not found", 404);
+  }
+
+  if (dataset.metadata.processingStatus !== "completed") {
+    throw new CustomError(
+      "Dataset must be fully processed before generating insights",
+      400
+    );
+  }
+
+  const insightType = type || "summary";
+  if (insightType === "comparison") {
+    throw new CustomError(
+      "Comparison insights need two datasets; use POST /api/insights/compare",
+      400
+    );
+  }
+
+  const mode = (requestedMode ||
+    process.env.AI_GENERATION_MODE ||
+    "single") as GenerationMode;
+  if (!GENERATION_MODES.includes(mode)) {
+    throw new CustomError(
+      `Generation mode must be one of: ${GENERATION_MODES.join(", ")}`,
+      400
+    );
+  }
+
+  // Request choice wins over the user's saved preference
+  // The statistical engine can be asked for explicitly, e.g. to replay its insights
+  let llm: ResolvedProvider | null;
+  try {
+    llm =
+      provider === "statistical"
+        ? null
+        : resolveProvider({ provider, model }, user?.aiPreferences);
+  } catch (error: any) {
+    throw new CustomError(error.message, 400);
+  }
+
+  const template =
+    templateVersion === undefined
+      ? await getActiveTemplate(insightType)
+      : await getTemplateVersion(insightType, templateVersion);
+  if (!template) {
+    throw new CustomError(
+      `Prompt template ${insightType}@v${templateVersion} does not exist`,
+      400
+    );
+  }
+  // Agent runs use their own prompt, so they record no template
+  const promptTemplate =
+    mode === "agent"
+      ? undefined
+      : { insightType: template.insightType, version: template.version };
+  const promptVersion =
+    mode === "agent" ? AGENT_PROMPT_VERSION : templateLabel(template);
+
+  // Identical requests on unchanged data reuse the stored result unless forced
+  let cacheKey: string | undefined;
+  if (llm && isCacheEnabled()) {
+    cacheKey = buildCacheKey({
+      userId: user?._id,
+      contentHash: await ensureContentHash(dataset),
+      insightType,
+      query,
+      structuredQuery,
+      provider: llm.provider.name,
+      model: llm.model,
+      promptVersion,
+      columnPolicies: withheldColumns(dataset.columns),
+      parseOptions: datasetParseOptions(dataset),
+      schema: schemaOverrides(dataset.columns),
+      requestTemperature,
+    });
+
+    const cached =
+      force === true || force === "true"
+        ? null
+        : await getCachedGeneration(cacheKey);
+    if (cached && !replace) {
+      onProgress?.("saving", { cached: true });
+      const insight = await Insight.create({
+        ...cached.result,
+        userId: user?._id,
+        datasetId,
+        type: insightType,
+        aiGenerated: true,
+        query: query || "",
+        cached: true,
+        status: "published",
+      });
+      await insight.populate("datasetId", "name fileType");
+      return insight;
+    }
+  }
+
+  let aiInsight: AIInsightResult;
+  let aiModel: string;
+  let aiProvider: string;
+  let usage: UsageCost | undefined;
+  let withheld: WithheldColumn[] | undefined;
+  let agentTrace: AgentTrace | undefined;
+  let messages: ChatMessage[] = [];
+  let rawResponse: string | undefined;
+  let attempts: number | undefined;
+
+  // Ledger records reference the insight before it is saved
+  const insightId =
+    (replace?._id as mongoose.Types.ObjectId | undefined) ||
+    new mongoose.Types.ObjectId();
+  const usageContext = {
+    userId: user?._id,
+    operation: "insight" as const,
+    datasetId,
+    insightId,
+  };
+
+  onProgress?.("loading", { dataset: dataset.name });
+  const rows = await loadDatasetRows(dataset);
+  throwIfCancelled(signal);
+
+  // Custom questions (or an edited structured query) run as an aggregation over the real rows
+  let executedQuery: ExecutedQuery | undefined;
+  if (structuredQuery || (insightType === "custom" && query)) {
+    onProgress?.("querying");
+    const resolved = await resolveStructuredQuery(
+      llm,
+      dataset,
+      rows,
+      query,
+      structuredQuery
+    ).catch(async (error) => {
+      await recordSpentUsage(error, llm, { ...usageContext, operation: "query" });
+      throw error;
+    });
+    if (resolved.completion) {
+      usage = await recordUsage(resolved.completion, {
+        ...usageContext,
+        operation: "query",
+      });
+    }
+    executedQuery = {
+      query: resolved.query,
+      result: executeStructuredQuery(resolved.query, rows),
+    };
+    throwIfCancelled(signal);
+  }
+
+  if (llm) {
+    const result = await generateAIInsightWithLLM(
+      llm,
+      dataset,
+      rows,
+      query || "",
+      insightType,
+      {
+        template,
+        mode,
+        temperature: requestTemperature,
+        executedQuery,
+        signal,
+        onProgress,
+      }
+    ).catch(async (error) => {
+      // Failed, invalid and cancelled generations still used provider tokens
+      await recordSpentUsage(error, llm, usageContext);
+      throw error;
+    });
+    aiInsight = result.insight;
+    aiModel = result.completion.model;
+    aiProvider = result.completion.provider;
+    withheld = result.withheld;
+    agentTrace = result.agentTrace;
+    messages = result.messages;
+    rawResponse = result.completion.content;
+    attempts = result.attempts;
+    usage = mergeUsage(
+      usage,
+      await recordUsage(result.completion, usageContext)
+    );
+  } else {
+    // No LLM configured - compute the insight locally from the dataset rows
+    onProgress?.("profiling");
+    aiInsight = generateStatisticalInsight(dataset, rows, insightType, query);
+    aiModel = STATISTICAL_ENGINE_MODEL;
+    aiProvider = "statistical";
+  }
+
+  if (executedQuery) {
+    aiInsight.visualizations = [
+      ...queryResultVisualizations(executedQuery.query, executedQuery.result),
+      ...aiInsight.visualizations,
+    ];
+  }
+
+  // Numbers in the text are checked against the rows they claim to describe
+  onProgress?.("verifying");
+  const factChecks = factCheckInsight(
+    aiInsight,
+    rows,
+    resolveColumnNames(dataset, rows),
+    dataset.columns
+  );
+
+  throwIfCancelled(signal);
+  onProgress?.("saving");
+
+  const provenance: InsightProvenance = {
+    generatedAt: new Date(),
+    durationMs: Date.now() - startedAt,
+    parameters: {
+      provider: llm ? llm.provider.name : "statistical",
+      model: llm ? llm.model : STATISTICAL_ENGINE_MODEL,
+      ...(llm && {
+        mode,
+        ...completionParameters({ temperature: requestTemperature }),
+      }),
+      insightType,
+      query: query || undefined,
+      structuredQuery: executedQuery?.query,
+      promptTemplate: llm ? promptTemplate : undefined,
+    },
+    messages,
+    rawResponse,
+    attempts,
+    dataset: datasetVersion(dataset, rows.length),
+  };
+
+  if (cacheKey) {
+    await storeGeneration(cacheKey, {
+      userId: user?._id as mongoose.Types.ObjectId,
+      datasetId: dataset._id as mongoose.Types.ObjectId,
+      insightType,
+      promptVersion,
+      result: {
+        title: aiInsight.title,
+        description: aiInsight.description,
+        confidence: aiInsight.confidence,
+        visualizations:
+          aiInsight.visualizations as IInsight["visualizations"],
+        metrics: aiInsight.metrics,
+        recommendations: aiInsight.recommendations,
+        factChecks,
+        structuredQuery: executedQuery?.query,
+        aiModel,
+        aiProvider: aiProvider as IInsight["aiProvider"],
+        promptTemplate,
+        withheldColumns: withheld,
+        agentTrace,
+        provenance,
+      },
+    });
+  }
+
+  const result = {
+    title: aiInsight.title,
+    description: aiInsight.description,
+    confidence: aiInsight.confidence,
+    structuredQuery: executedQuery?.query,
+    aiModel,
+    aiProvider,
+    // The statistical engine does not use a prompt
+    promptTemplate: llm ? promptTemplate : undefined,
+    withheldColumns: withheld,
+    agentTrace,
+    provenance,
+    usage,
+    visualizations: aiInsight.visualizations,
+    metrics: aiInsight.metrics,
+    recommendations: aiInsight.recommendations,
+    factChecks,
+  };
+
+  if (replace) return replaceInsightResult(replace, result);
+
+  // Create insight record
+  const insight = await Insight.create({
+    ...result,
+    _id: insightId,
+    userId: user?._id,
+    datasetId,
+    type: insightType,
+    aiGenerated: true,
+    query: query || "",
+    status: "published",
+  });
+
+  await insight.populate("datasetId", "name fileType");
+  return insight;
+};
+
 // @desc    Generate AI insight
 // @route   POST /api/insights/generate
 // @access  Private
-// export const generateAIInsight = async (
-//   req: AuthRequest,
-//   res: Response,
-//   next: NextFunction
-// ): Promise<void> => {
-//   try {
-//     const { datasetId, query, type } = req.body;
-
-//     if (!datasetId) {
-//       throw new CustomError("Please provide a dataset ID", 400);
-//     }
-
-//     // Verify dataset exists and belongs to user
-//     const dataset = await Dataset.findOne({
-//       _id: datasetId,
-//       userId: req.user?._id,
-//     });
-
-//     if (!dataset) {
-//       throw new CustomError("Dataset not found", 404);
-//     }
-
-//     if (dataset.metadata.processingStatus !== "completed") {
-//       throw new CustomError(
-//         "Dataset must be fully processed before generating insights",
-//         400
-//       );
-//     }
-
-//     // TODO: Integrate with actual AI service (OpenAI, Claude, etc.)
-//     // For now, generate mock AI insight
-//     const insightType = type || "summary";
-//     const aiInsight = generateMockAIInsight(dataset, query, insightType);
-
-//     const insight = await Insight.create({
-//       userId: req.user?._id,
-//       datasetId,
-//       title: aiInsight.title,
-//       description: aiInsight.description,
-//       type: insightType,
-//       aiGenerated: true,
-//       confidence: aiInsight.confidence,
-//       query: query || "",
-//       aiModel: "gpt-4", // Placeholder
-//       visualizations: aiInsight.visualizations,
-//       metrics: aiInsight.metrics,
-//       recommendations: aiInsight.recommendations,
-//       status: "published",
-//     });
-
-//     await insight.populate("datasetId", "name fileType");
-
-//     res.status(201).json({
-//       success: true,
-//       data: insight,
-//       message: "AI insight generated successfully",
-//     });
-//   } catch (error) {
-//     next(error);
-//   }
-// };
-
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+export const generateAIInsight = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const insight = await createAIInsight(req.user, req.body);
+
+    res.status(201).json({
+      success: true,
+      data: insight,
+      message: insight.cached
+        ? "AI insight served from cache"
+        : "AI insight generated successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Generate AI insight, streaming progress as Server-Sent Events
+// @route   POST /api/insights/generate/stream
+// @access  Private
+export const streamAIInsight = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  // Closing the connection cancels generation, including the upstream model call
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+
+  const send = (event: string, data: unknown) => {
+    if (!res.writableEnded) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  };
+
+  try {
+    const insight = await createAIInsight(req.user, req.body, {
+      signal: controller.signal,
+      onProgress: (stage, data) =>
+        stage === "token" ? send("token", data) : send("stage", { stage, ...data }),
+    });
+    send("done", insight);
+  } catch (error: any) {
+    if (!controller.signal.aborted) {
+      send("error", {
+        error: error.message || "Failed to generate insight",
+        ...(error instanceof CustomError && error.errors && { details: error.errors }),
+      });
+    }
+  } finally {
+    res.end();
+  }
+};
+
+// Comparison parameters, as sent to the compare endpoint
+interface ComparisonRequest {
+  datasetId?: string;
+  baselineDatasetId?: string;
+  provider?: string;
+  model?: string;
+  temperature?: unknown;
+}
+
+/**
+ * Compare a dataset with an earlier one and save the result as a comparison insight
+ */
+const createComparisonInsight = async (
+  user: IUser | undefined,
+  input: ComparisonRequest,
+  options: { replace?: IInsight } = {}
+) => {
+  const { replace } = options;
+  const startedAt = Date.now();
+  const { datasetId, baselineDatasetId, provider, model, temperature } = input;
+
+  if (!datasetId || !baselineDatasetId) {
+    throw new CustomError(
+      "Please provide a dataset ID and a baseline dataset ID",
+      400
+    );
+  }
+
+  if (String(datasetId) === String(baselineDatasetId)) {
+    throw new CustomError("Choose two different datasets to compare", 400);
+  }
+  const requestTemperature = parseTemperature(temperature);
+
+  const [dataset, baselineDataset] = await Promise.all([
+    Dataset.findOne({ _id: datasetId, userId: user?._id }),
+    Dataset.findOne({ _id: baselineDatasetId, userId: user?._id }),
+  ]);
+
+  if (!dataset || !baselineDataset) {
+    throw new CustomError("Dataset not found", 404);
+  }
+
+  if (
+    dataset.metadata.processingStatus !== "completed" ||
+    baselineDataset.metadata.processingStatus !== "completed"
+  ) {
+    throw new CustomError(
+      "Both datasets must be fully processed before they can be compared",
+      400
+    );
+  }
+
+  let llm: ResolvedProvider | null;
+  try {
+    llm =
+      provider === "statistical"
+        ? null
+        : resolveProvider({ provider, model }, user?.aiPreferences);
+  } catch (error: any) {
+    throw new CustomError(error.message, 400);
+  }
+
+  const [rows, baselineRows] = await Promise.all([
+    loadDatasetRows(dataset),
+    loadDatasetRows(baselineDataset),
+  ]);
+
+  const incompatibilities = checkCompatibility(
+    resolveColumnNames(baselineDataset, baselineRows),
+    resolveColumnNames(dataset, rows)
+  );
+  if (incompatibilities.length > 0) {
+    throw new CustomError(
+      "The datasets do not have compatible schemas",
+      400,
+      incompatibilities
+    );
+  }
+
+  const report = compareDatasets(
+    { dataset: baselineDataset, rows: baselineRows },
+    { dataset, rows }
+  );
+
+  const insightId =
+    (replace?._id as mongoose.Types.ObjectId | undefined) ||
+    new mongoose.Types.ObjectId();
+
+  let narrative: ValidatedInsight;
+  let aiModel: string;
+  let aiProvider: string;
+  let usage: UsageCost | undefined;
+  let messages: ChatMessage[] = [];
+  let rawResponse: string | undefined;
+  let attempts: number | undefined;
+
+  if (llm) {
+    try {
+      const result = await narrateComparisonWithLLM(llm, report, {
+        temperature: requestTemperature,
+      });
+      narrative = result.value;
+      aiModel = result.completion.model;
+      aiProvider = result.completion.provider;
+      messages = result.messages;
+      rawResponse = result.completion.content;
+      attempts = result.attempts;
+      usage = await recordUsage(result.completion, {
+        userId: user?._id,
+        operation: "insight",
+        datasetId,
+        insightId,
+      });
+    } catch (error: any) {
+      console.error(`${llm.provider.name} API Error:`, error);
+      await recordSpentUsage(error, llm, {
+        userId: user?._id,
+        operation: "insight",
+        datasetId,
+        insightId,
+      });
+      if (error instanceof LLMOutputError) {
+        throw new CustomError(
+          `${error.message}. The model did not return a valid comparison.`,
+          422,
+          error.errors
+        );
+      }
+      throw new CustomError(
+        `Failed to generate comparison insight: ${error.message}`,
+        500
+      );
+    }
+  } else {
+    narrative = statisticalComparisonNarrative(report);
+    aiModel = STATISTICAL_ENGINE_MODEL;
+    aiProvider = "statistical";
+  }
+
+  const result = {
+    title: narrative.title,
+    description: narrative.description,
+    confidence: narrative.confidence,
+    metrics: narrative.metrics,
+    recommendations: narrative.recommendations,
+    visualizations: comparisonVisualizations(report),
+    // Claims cite both datasets, so they cannot be checked against either one alone
+    factChecks: [],
+    comparison: report,
+    aiModel,
+    aiProvider,
+    withheldColumns: llm ? report.withheld : undefined,
+    usage,
+    provenance: {
+      generatedAt: new Date(),
+      durationMs: Date.now() - startedAt,
+      parameters: {
+        provider: llm ? llm.provider.name : "statistical",
+        model: llm ? llm.model : STATISTICAL_ENGINE_MODEL,
+        ...(llm && completionParameters({ temperature: requestTemperature })),
+        insightType: "comparison",
+      },
+      messages,
+      rawResponse,
+      attempts,
+      dataset: datasetVersion(dataset, rows.length),
+      baselineDataset: datasetVersion(baselineDataset, baselineRows.length),
+    } satisfies InsightProvenance,
+  };
+
+  if (replace) return replaceInsightResult(replace, result);
+
+  const insight = await Insight.create({
+    ...result,
+    _id: insightId,
+    userId: user?._id,
+    datasetId,
+    baselineDatasetId,
+    type: "comparison",
+    aiGenerated: true,
+    query: "",
+    status: "published",
+  });
+
+  await insight.populate("datasetId", "name fileType");
+  await insight.populate("baselineDatasetId", "name fileType");
+  return insight;
+};
+
+// @desc    Compare a dataset with an earlier one as an AI insight
+// @route   POST /api/insights/compare
+// @access  Private
+export const generateComparisonInsight = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const insight = await createComparisonInsight(req.user, req.body);
+
+    res.status(201).json({
+      success: true,
+      data: insight,
+      message: "Comparison insight generated successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Generation request that repeats an insight's recorded setup
+ */
+const replayRequest = (insight: IInsight): GenerationRequest => {
+  const parameters = insight.provenance?.parameters;
+  return {
+    datasetId: insight.datasetId.toString(),
+    type: insight.type,
+    query: insight.query || undefined,
+    structuredQuery: insight.structuredQuery,
+    // Insights from before provenance was recorded fall back to their stored fields
+    provider: parameters?.provider || insight.aiProvider,
+    model: parameters?.model || insight.aiModel,
+    temperature: parameters?.temperature,
+    mode: parameters?.mode || (insight.agentTrace ? "agent" : undefined),
+    templateVersion: (parameters?.promptTemplate || insight.promptTemplate)
+      ?.version,
+    // A replay is always a fresh generation
+    force: true,
+  };
+};
+
+// @desc    Regenerate an AI insight with its original setup against current data
+// @route   POST /api/insights/:id/regenerate
+// @access  Private
+export const regenerateInsight = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const insight = await Insight.findOne({
+      _id: req.params.id,
+      userId: req.user?._id,
+    });
+
+    if (!insight) {
+      throw new CustomError("Insight not found", 404);
+    }
+
+    if (!insight.aiGenerated) {
+      throw new CustomError("Only AI-generated insights can be regenerated", 400);
+    }
+
+    // The quota applies to the provider being replayed, not the user's default
+    const parameters = insight.provenance?.parameters;
+    if (req.user) {
+      await assertAIQuota(req.user, {
+        provider: parameters?.provider || insight.aiProvider,
+        model: parameters?.model || insight.aiModel,
+      });
+    }
+
+    const regenerated =
+      insight.type === "comparison"
+        ? await createComparisonInsight(
+            req.user,
+            {
+              datasetId: insight.datasetId.toString(),
+              baselineDatasetId: insight.baselineDatasetId?.toString(),
+              provider: parameters?.provider || insight.aiProvider,
+              model: parameters?.model || insight.aiModel,
+              temperature: parameters?.temperature,
+            },
+            { replace: insight }
+          )
+        : await createAIInsight(req.user, replayRequest(insight), {
+            replace: insight,
+          });
+
+    res.status(200).json({
+      success: true,
+      data: regenerated,
+      message: "Insight regenerated; the previous result was kept in its history",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Translate a natural-language question into a structured query
+// @route   POST /api/insights/query/translate
+// @access  Private
+export const translateQuery = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { datasetId, query, provider, model } = req.body;
+
+    if (!datasetId || !query) {
+      throw new CustomError("Please provide a dataset ID and a query", 400);
+    }
+
+    const dataset = await Dataset.findOne({
+      _id: datasetId,
+      userId: req.user?._id,
+    });
+
+    if (!dataset) {
+      throw new CustomError("Dataset not found", 404);
+    }
+
+    let llm: ResolvedProvider | null;
+    try {
+      llm = resolveProvider({ provider, model }, req.user?.aiPreferences);
+    } catch (error: any) {
+      throw new CustomError(error.message, 400);
+    }
+
+    const rows = await loadDatasetRows(dataset);
+    const usageContext = {
+      userId: req.user?._id,
+      operation: "query" as const,
+      datasetId: dataset._id,
+    };
+    const { query: structuredQuery, completion } = await resolveStructuredQuery(
+      llm,
+      dataset,
+      rows,
+      query,
+      undefined
+    ).catch(async (error) => {
+      await recordSpentUsage(error, llm, usageContext);
+      throw error;
+    });
+    if (completion) {
+      await recordUsage(completion, usageContext);
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        structuredQuery,
+        description: describeStructuredQuery(structuredQuery),
+        translatedBy: llm ? llm.provider.name : "heuristic",
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Run a structured query against a dataset
+// @route   POST /api/insights/query/run
+// @access  Private
+export const runQuery = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { datasetId, structuredQuery } = req.body;
+
+    if (!datasetId || !structuredQuery) {
+      throw new CustomError(
+        "Please provide a dataset ID and a structured query",
+        400
+      );
+    }
+
+    const dataset = await Dataset.findOne({
+      _id: datasetId,
+      userId: req.user?._id,
+    });
 
-interface AIInsightResult {
-  title: string;
-  description: string;
-  confidence: number;
-  visualizations: Array<{
-    type: string;
-    data: any;
-    config: any;
-  }>;
-  metrics: Array<{
-    name: string;
-    value: number | string;
-    trend?: string;
-  }>;
-  recommendations: string[];
-}
+    if (!dataset) {
+      throw new CustomError("Dataset not found", 404);
+    }
 
-const generateAIInsightWithOpenAI = async (
-  dataset: any,
-  query: string,
-  insightType: string
-): Promise<AIInsightResult> => {
-  try {
-    // Prepare dataset context for OpenAI
-    const datasetContext = {
-      name: dataset.name,
-      fileType: dataset.fileType,
-      rowCount: dataset.metadata.rowCount,
-      columns: dataset.metadata.columns,
-      summary: dataset.metadata.summary,
-      // Include sample data if available (limit to avoid token limits)
-      sampleData: dataset.sampleData?.slice(0, 10),
-    };
+    const rows = await loadDatasetRows(dataset);
+    const { query: validated } = await resolveStructuredQuery(
+      null,
+      dataset,
+      rows,
+      undefined,
+      structuredQuery
+    );
 
-    // Create a detailed prompt based on insight type
-    const systemPrompt = `You are a data analysis expert. Analyze the provided dataset and generate actionable insights. 
-Return your response as a valid JSON object with the following structure:
-{
-  "title": "Brief, descriptive title for the insight",
-  "description": "Detailed analysis and findings (2-3 paragraphs)",
-  "confidence": 0.85,
-  "visualizations": [
-    {
-      "type": "bar|line|pie|scatter",
-      "data": { ... },
-      "config": { "xAxis": "...", "yAxis": "...", "title": "..." }
-    }
-  ],
-  "metrics": [
-    {
-      "name": "Metric name",
-      "value": "value or number",
-      "trend": "up|down|stable"
-    }
-  ],
-  "recommendations": ["Actionable recommendation 1", "Actionable recommendation 2"]
-}`;
-
-    const userPrompt = `Dataset Information:
-${JSON.stringify(datasetContext, null, 2)}
-
-Insight Type: ${insightType}
-${query ? `Specific Query: ${query}` : ""}
-
-Please analyze this dataset and provide:
-1. Key patterns and trends
-2. Statistical insights
-3. Anomalies or outliers
-4. Correlations between variables
-5. Actionable recommendations
-
-Focus on providing specific, data-driven insights with concrete metrics.`;
-
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt },
-      ],
-      temperature: 0.7,
-      max_tokens: 2000,
-      response_format: { type: "json_object" },
+    res.status(200).json({
+      success: true,
+      data: {
+        structuredQuery: validated,
+        description: describeStructuredQuery(validated),
+        result: executeStructuredQuery(validated, rows),
+      },
     });
+  } catch (error) {
+    next(error);
+  }
+};
 
-    const responseContent = completion.choices[0]?.message?.content;
-    if (!responseContent) {
-      throw new Error("No response from OpenAI");
+/**
+ * Generator for insight pack items: each item goes through the normal pipeline,
+ * with the user's quota checked before every model call
+ */
+const generateJobItem =
+  (user: IUser, job: IInsightJob) => async (insightType: string) => {
+    const { provider, model } = job.options;
+    let usesModel = false;
+    try {
+      usesModel = !!resolveProvider({ provider, model }, user.aiPreferences);
+    } catch {
+      // Reported by the pipeline itself
     }
 
-    const aiInsight: AIInsightResult = JSON.parse(responseContent);
+    if (usesModel) {
+      const status = await checkQuota(user);
+      if (status.exceeded) throw new CustomError(status.reason || "Monthly AI quota reached", 429);
+    }
 
-    // Validate and set defaults
-    return {
-      title: aiInsight.title || "AI-Generated Insight",
-      description: aiInsight.description || "No description available",
-      confidence: Math.min(Math.max(aiInsight.confidence || 0.7, 0), 1),
-      visualizations: aiInsight.visualizations || [],
-      metrics: aiInsight.metrics || [],
-      recommendations: aiInsight.recommendations || [],
-    };
-  } catch (error: any) {
-    console.error("OpenAI API Error:", error);
-    throw new CustomError(
-      `Failed to generate AI insight: ${error.message}`,
-      500
-    );
-  }
+    const insight = await createAIInsight(user, {
+      datasetId: job.datasetId.toString(),
+      type: insightType,
+      provider,
+      model,
+    });
+    return insight._id;
+  };
+
+const ACTIVE_JOB_MESSAGE =
+  "An insight pack is already being generated for this dataset";
+
+// Two requests can pass the active-job check at once; the index refuses the second
+const toJobConflict = (error: unknown) =>
+  isActiveJobConflict(error) ? new CustomError(ACTIVE_JOB_MESSAGE, 409) : error;
+
+const startInsightJob = (user: IUser, job: IInsightJob) => {
+  // Runs after the response is sent; progress is saved on the job document
+  runInsightJob(job._id, generateJobItem(user, job)).catch(async (error) => {
+    console.error("Insight job failed:", error);
+    await InsightJob.updateOne(
+      { _id: job._id },
+      { status: "failed", error: error.message, completedAt: new Date() }
+    ).catch(console.error);
+  });
 };
 
-export const generateAIInsight = async (
+// @desc    Queue a background job that generates a full insight pack for a dataset
+// @route   POST /api/insights/jobs
+// @access  Private
+export const createInsightPackJob = async (
   req: AuthRequest,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
   try {
-    const { datasetId, query, type } = req.body;
+    const { datasetId, provider, model, types } = req.body;
 
     if (!datasetId) {
       throw new CustomError("Please provide a dataset ID", 400);
     }
 
-    // Verify dataset exists and belongs to user
     const dataset = await Dataset.findOne({
       _id: datasetId,
       userId: req.user?._id,
@@ -378,46 +1452,164 @@ export const generateAIInsight = async (
       );
     }
 
-    // Validate OpenAI API key
-    if (!process.env.OPENAI_API_KEY) {
+    const insightTypes: string[] = Array.isArray(types)
+      ? types
+      : [...INSIGHT_PACK_TYPES];
+    const invalid = insightTypes.filter(
+      (t) => !(INSIGHT_PACK_TYPES as readonly string[]).includes(t)
+    );
+    if (insightTypes.length === 0 || invalid.length > 0) {
       throw new CustomError(
-        "OpenAI API key not configured. Please set OPENAI_API_KEY environment variable.",
-        500
+        `Insight pack types must be some of: ${INSIGHT_PACK_TYPES.join(", ")}`,
+        400
       );
     }
 
-    const insightType = type || "summary";
+    // Checked now rather than when the first item runs
+    if (provider !== "statistical") {
+      try {
+        resolveProvider({ provider, model }, req.user?.aiPreferences);
+      } catch (error: any) {
+        throw new CustomError(error.message, 400);
+      }
+    }
 
-    // Generate AI insight using OpenAI
-    const aiInsight = await generateAIInsightWithOpenAI(
-      dataset,
-      query,
-      insightType
-    );
+    if (await findActiveJob(dataset._id)) {
+      throw new CustomError(ACTIVE_JOB_MESSAGE, 409);
+    }
 
-    // Create insight record
-    const insight = await Insight.create({
+    const job = await createInsightJob(
+      req.user?._id,
+      dataset._id,
+      { provider, model },
+      [...new Set(insightTypes)]
+    ).catch((error) => {
+      throw toJobConflict(error);
+    });
+    startInsightJob(req.user as IUser, job);
+
+    res.status(202).json({
+      success: true,
+      data: job,
+      message: "Insight pack queued",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get recent insight pack jobs
+// @route   GET /api/insights/jobs
+// @access  Private
+export const getInsightJobs = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { datasetId } = req.query;
+
+    const jobs = await InsightJob.find({
       userId: req.user?._id,
-      datasetId,
-      title: aiInsight.title,
-      description: aiInsight.description,
-      type: insightType,
-      aiGenerated: true,
-      confidence: aiInsight.confidence,
-      query: query || "",
-      aiModel: "gpt-4o-mini",
-      visualizations: aiInsight.visualizations,
-      metrics: aiInsight.metrics,
-      recommendations: aiInsight.recommendations,
-      status: "published",
+      ...(datasetId && { datasetId }),
+    })
+      .sort({ createdAt: -1 })
+      .limit(20)
+      .populate("datasetId", "name");
+
+    res.status(200).json({
+      success: true,
+      data: jobs,
     });
+  } catch (error) {
+    next(error);
+  }
+};
 
-    await insight.populate("datasetId", "name fileType");
+// @desc    Get an insight pack job
+// @route   GET /api/insights/jobs/:jobId
+// @access  Private
+export const getInsightJob = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const job = await InsightJob.findOne({
+      _id: req.params.jobId,
+      userId: req.user?._id,
+    }).populate("datasetId", "name");
 
-    res.status(201).json({
+    if (!job) {
+      throw new CustomError("Job not found", 404);
+    }
+
+    res.status(200).json({
       success: true,
-      data: insight,
-      message: "AI insight generated successfully",
+      data: job,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Retry the failed items of a finished insight pack job
+// @route   POST /api/insights/jobs/:jobId/retry
+// @access  Private
+export const retryInsightJob = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const job = await InsightJob.findOne({
+      _id: req.params.jobId,
+      userId: req.user?._id,
+    });
+
+    if (!job) {
+      throw new CustomError("Job not found", 404);
+    }
+
+    if (isJobActive(job)) {
+      throw new CustomError("Job is still running", 409);
+    }
+
+    // Another pack may have been started for the dataset since this one ended
+    const retried = await resetFailedItems(job).catch((error) => {
+      throw toJobConflict(error);
+    });
+    if (!retried) {
+      throw new CustomError("Job has no failed items to retry", 400);
+    }
+
+    startInsightJob(req.user as IUser, job);
+
+    res.status(202).json({
+      success: true,
+      data: job,
+      message: "Failed items queued again",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    List AI providers available for generation
+// @route   GET /api/insights/providers
+// @access  Private
+export const getAIProviders = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    res.status(200).json({
+      success: true,
+      data: {
+        providers: listProviders(),
+        preference: req.user?.aiPreferences || {},
+      },
     });
   } catch (error) {
     next(error);
@@ -463,6 +1655,10 @@ export const updateInsight = async (
       insight.recommendations = recommendations;
     if (status !== undefined) insight.status = status;
     if (tags !== undefined) insight.tags = tags;
+    // Edited text no longer matches the checked claims; they can be re-run
+    if (description !== undefined || metrics !== undefined) {
+      insight.factChecks = [];
+    }
 
     await insight.save();
     await insight.populate("datasetId", "name fileType");
@@ -535,8 +1731,12 @@ export const duplicateInsight = async (
       visualizations: originalInsight.visualizations,
       metrics: originalInsight.metrics,
       recommendations: originalInsight.recommendations,
+      factChecks: originalInsight.factChecks,
       query: originalInsight.query,
+      structuredQuery: originalInsight.structuredQuery,
       aiModel: originalInsight.aiModel,
+      aiProvider: originalInsight.aiProvider,
+      provenance: originalInsight.provenance,
       tags: originalInsight.tags,
       status: "draft",
     });
@@ -553,6 +1753,116 @@ export const duplicateInsight = async (
   }
 };
 
+// @desc    Re-run stored chart specs against the current dataset rows
+// @route   POST /api/insights/:id/visualizations/refresh
+// @access  Private
+export const refreshVisualizations = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const insight = await Insight.findOne({
+      _id: req.params.id,
+      userId: req.user?._id,
+    });
+
+    if (!insight) {
+      throw new CustomError("Insight not found", 404);
+    }
+
+    if (!insight.visualizations.some((viz) => viz.spec)) {
+      throw new CustomError(
+        "This insight has no chart specs to re-run",
+        400
+      );
+    }
+
+    const dataset = await Dataset.findOne({
+      _id: insight.datasetId,
+      userId: req.user?._id,
+    });
+
+    if (!dataset) {
+      throw new CustomError("Dataset not found", 404);
+    }
+
+    const rows = await loadDatasetRows(dataset);
+
+    // Charts without a spec were computed by the statistical engine and are kept as-is
+    insight.visualizations = insight.visualizations.map((viz) =>
+      viz.spec ? executeChartSpec(viz.spec, rows) : viz
+    );
+    insight.markModified("visualizations");
+    await insight.save();
+
+    await insight.populate("datasetId", "name fileType columns rowCount");
+
+    res.status(200).json({
+      success: true,
+      data: insight,
+      message: "Visualizations refreshed from dataset",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Re-check the numeric claims of an insight against the dataset rows
+// @route   POST /api/insights/:id/fact-check
+// @access  Private
+export const factCheckInsightClaims = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const insight = await Insight.findOne({
+      _id: req.params.id,
+      userId: req.user?._id,
+    });
+
+    if (!insight) {
+      throw new CustomError("Insight not found", 404);
+    }
+
+    if (insight.type === "comparison") {
+      throw new CustomError(
+        "Comparison insights cite two datasets and cannot be checked against one",
+        400
+      );
+    }
+
+    const dataset = await Dataset.findOne({
+      _id: insight.datasetId,
+      userId: req.user?._id,
+    });
+
+    if (!dataset) {
+      throw new CustomError("Dataset not found", 404);
+    }
+
+    const rows = await loadDatasetRows(dataset);
+    insight.factChecks = factCheckInsight(
+      insight,
+      rows,
+      resolveColumnNames(dataset, rows),
+      dataset.columns
+    );
+    await insight.save();
+
+    await insight.populate("datasetId", "name fileType columns rowCount");
+
+    res.status(200).json({
+      success: true,
+      data: insight,
+      message: "Claims checked against dataset",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 // @desc    Get insights by dataset
 // @route   GET /api/insights/dataset/:datasetId
 // @access  Private
@@ -572,10 +1882,15 @@ export const getInsightsByDataset = async (
       throw new CustomError("Dataset not found", 404);
     }
 
+    // Comparisons are listed under both of their datasets
     const insights = await Insight.find({
-      datasetId: req.params.datasetId,
+      $or: [
+        { datasetId: req.params.datasetId },
+        { baselineDatasetId: req.params.datasetId },
+      ],
       userId: req.user?._id,
     })
+      .select("-provenance -history")
       .sort({ createdAt: -1 })
       .lean();
 
@@ -628,6 +1943,7 @@ export const getInsightStats = async (
     })
       .sort({ createdAt: -1 })
       .limit(5)
+      .select("-provenance -history")
       .populate("datasetId", "name")
       .lean();
 
@@ -782,239 +2098,3 @@ export const archiveInsight = async (
     next(error);
   }
 };
-
-// Helper function to generate mock AI insights
-function generateMockAIInsight(dataset: any, query: string, type: string) {
-  const insights: any = {
-    trend: {
-      title: `Trend Analysis: ${dataset.name}`,
-      description: `Analysis shows clear patterns in the data over time. The dataset contains ${dataset.rowCount} rows across ${dataset.columns.length} columns, with significant trends identified in key metrics.`,
-      confidence: 87,
-      visualizations: [
-        {
-          type: "line",
-          data: {
-            labels: ["Week 1", "Week 2", "Week 3", "Week 4"],
-            datasets: [
-              {
-                label: "Trend",
-                data: [65, 72, 78, 85],
-                borderColor: "rgb(75, 192, 192)",
-                tension: 0.1,
-              },
-            ],
-          },
-          config: { responsive: true, maintainAspectRatio: false },
-        },
-      ],
-      metrics: [
-        { name: "Growth Rate", value: "15.4%", unit: "percentage" },
-        { name: "Average Value", value: 75, unit: "units" },
-        { name: "Trend Strength", value: "Strong", unit: "categorical" },
-      ],
-      recommendations: [
-        "Continue monitoring the upward trend",
-        "Consider seasonal adjustments in analysis",
-        "Investigate potential outliers for deeper insights",
-        "Set up alerts for significant deviations",
-      ],
-    },
-    correlation: {
-      title: `Correlation Analysis: ${dataset.name}`,
-      description: `Strong correlations discovered between multiple variables in the dataset. Analysis of ${dataset.rowCount} records reveals meaningful relationships that can drive decision-making.`,
-      confidence: 92,
-      visualizations: [
-        {
-          type: "scatter",
-          data: {
-            datasets: [
-              {
-                label: "Correlation",
-                data: [
-                  { x: 10, y: 15 },
-                  { x: 20, y: 25 },
-                  { x: 30, y: 35 },
-                  { x: 40, y: 45 },
-                ],
-                backgroundColor: "rgba(255, 99, 132, 0.5)",
-              },
-            ],
-          },
-          config: {},
-        },
-      ],
-      metrics: [
-        { name: "Correlation Coefficient", value: "0.89", unit: "coefficient" },
-        { name: "P-Value", value: "< 0.001", unit: "statistical" },
-        { name: "R-Squared", value: "0.79", unit: "coefficient" },
-      ],
-      recommendations: [
-        "Leverage this correlation for predictive modeling",
-        "Verify causation with domain experts",
-        "Monitor correlation stability over time",
-        "Use insights to optimize related processes",
-      ],
-    },
-    anomaly: {
-      title: `Anomaly Detection: ${dataset.name}`,
-      description: `Identified ${
-        Math.floor(Math.random() * 10) + 1
-      } anomalies in the dataset. These outliers may represent data quality issues, special events, or opportunities for investigation.`,
-      confidence: 78,
-      visualizations: [
-        {
-          type: "scatter",
-          data: {
-            datasets: [
-              {
-                label: "Normal",
-                data: Array.from({ length: 50 }, () => ({
-                  x: Math.random() * 100,
-                  y: Math.random() * 100,
-                })),
-                backgroundColor: "rgba(75, 192, 192, 0.5)",
-              },
-              {
-                label: "Anomalies",
-                data: Array.from({ length: 5 }, () => ({
-                  x: Math.random() * 100 + 50,
-                  y: Math.random() * 100 + 50,
-                })),
-                backgroundColor: "rgba(255, 99, 132, 1)",
-              },
-            ],
-          },
-          config: {},
-        },
-      ],
-      metrics: [
-        { name: "Anomalies Found", value: 7, unit: "count" },
-        { name: "Severity Score", value: "Medium", unit: "categorical" },
-        { name: "Detection Rate", value: "95%", unit: "percentage" },
-      ],
-      recommendations: [
-        "Investigate identified anomalies for root causes",
-        "Consider data quality checks at source",
-        "Set up automated anomaly detection",
-        "Document and track anomaly patterns",
-      ],
-    },
-    prediction: {
-      title: `Predictive Analysis: ${dataset.name}`,
-      description: `Based on historical patterns in ${dataset.rowCount} records, the model predicts future trends with high confidence. Predictions are based on multiple features across ${dataset.columns.length} dimensions.`,
-      confidence: 84,
-      visualizations: [
-        {
-          type: "line",
-          data: {
-            labels: ["Current", "Month +1", "Month +2", "Month +3", "Month +4"],
-            datasets: [
-              {
-                label: "Historical",
-                data: [100, 110, 115, 120, null],
-                borderColor: "rgb(75, 192, 192)",
-              },
-              {
-                label: "Predicted",
-                data: [null, null, null, 120, 128, 136, 145],
-                borderColor: "rgb(255, 99, 132)",
-                borderDash: [5, 5],
-              },
-            ],
-          },
-          config: {},
-        },
-      ],
-      metrics: [
-        { name: "Predicted Growth", value: "20%", unit: "percentage" },
-        { name: "Confidence Interval", value: "±5%", unit: "percentage" },
-        { name: "Model Accuracy", value: "89%", unit: "percentage" },
-      ],
-      recommendations: [
-        "Use predictions for resource planning",
-        "Regularly update model with new data",
-        "Monitor prediction accuracy over time",
-        "Consider ensemble methods for better accuracy",
-      ],
-    },
-    summary: {
-      title: `Data Summary: ${dataset.name}`,
-      description: `Comprehensive overview of ${dataset.name} showing key statistics and patterns across all ${dataset.columns.length} columns and ${dataset.rowCount} rows.`,
-      confidence: 94,
-      visualizations: [
-        {
-          type: "bar",
-          data: {
-            labels: dataset.columns.map((col: any) => col.name).slice(0, 5),
-            datasets: [
-              {
-                label: "Distribution",
-                data: [65, 59, 80, 81, 56],
-                backgroundColor: [
-                  "rgba(255, 99, 132, 0.5)",
-                  "rgba(54, 162, 235, 0.5)",
-                  "rgba(255, 206, 86, 0.5)",
-                  "rgba(75, 192, 192, 0.5)",
-                  "rgba(153, 102, 255, 0.5)",
-                ],
-              },
-            ],
-          },
-          config: {},
-        },
-      ],
-      metrics: [
-        { name: "Total Records", value: dataset.rowCount, unit: "rows" },
-        { name: "Columns", value: dataset.columns.length, unit: "fields" },
-        { name: "Data Quality", value: "96%", unit: "percentage" },
-        { name: "Completeness", value: "94%", unit: "percentage" },
-      ],
-      recommendations: [
-        "Data quality is excellent for analysis",
-        "All columns are properly formatted",
-        "Ready for advanced analytics",
-        "Consider creating additional derived metrics",
-      ],
-    },
-    custom: {
-      title: `Custom Analysis: ${dataset.name}`,
-      description:
-        query ||
-        `Custom analysis performed on ${dataset.name}. Analysis tailored to specific requirements with ${dataset.rowCount} data points.`,
-      confidence: 75,
-      visualizations: [
-        {
-          type: "pie",
-          data: {
-            labels: ["Category A", "Category B", "Category C", "Category D"],
-            datasets: [
-              {
-                data: [30, 25, 25, 20],
-                backgroundColor: [
-                  "rgba(255, 99, 132, 0.8)",
-                  "rgba(54, 162, 235, 0.8)",
-                  "rgba(255, 206, 86, 0.8)",
-                  "rgba(75, 192, 192, 0.8)",
-                ],
-              },
-            ],
-          },
-          config: {},
-        },
-      ],
-      metrics: [
-        { name: "Primary Metric", value: 85, unit: "score" },
-        { name: "Secondary Metric", value: "72%", unit: "percentage" },
-        { name: "Analysis Depth", value: "High", unit: "categorical" },
-      ],
-      recommendations: [
-        "Review custom analysis parameters",
-        "Validate findings with domain experts",
-        "Consider automated reporting for similar analyses",
-        "Document methodology for reproducibility",
-      ],
-    },
-  };
-
-  return insights[type] || insights.summary;
-}
@@ -0,0 +1,132 @@
+import { type Response, type NextFunction } from "express";
+import { type AuthRequest } from "../middleware/auth.js";
+import { CustomError } from "../middleware/errorHandler.js";
+import {
+  TEMPLATE_INSIGHT_TYPES,
+  TEMPLATE_VARIABLES,
+  isTemplateInsightType,
+  validateTemplate,
+  getActiveTemplate,
+  getTemplateVersions,
+  createTemplateVersion,
+  activateTemplateVersion,
+  type TemplateInsightType,
+} from "../services/promptTemplateService.js";
+
+const parseInsightType = (req: AuthRequest): TemplateInsightType => {
+  const { insightType } = req.params;
+  if (!isTemplateInsightType(insightType)) {
+    throw new CustomError(`Unknown insight type '${insightType}'`, 404);
+  }
+  return insightType;
+};
+
+// @desc    Get the active prompt template for every insight type
+// @route   GET /api/prompt-templates
+// @access  Private (admin)
+export const getPromptTemplates = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const templates = await Promise.all(
+      TEMPLATE_INSIGHT_TYPES.map((type) => getActiveTemplate(type))
+    );
+
+    res.status(200).json({
+      success: true,
+      data: {
+        templates,
+        variables: TEMPLATE_VARIABLES,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get all versions of an insight type's prompt template
+// @route   GET /api/prompt-templates/:insightType
+// @access  Private (admin)
+export const getPromptTemplateVersions = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const versions = await getTemplateVersions(parseInsightType(req));
+
+    res.status(200).json({
+      success: true,
+      data: versions,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Save a new version of an insight type's prompt template
+// @route   POST /api/prompt-templates/:insightType
+// @access  Private (admin)
+export const createPromptTemplateVersion = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const insightType = parseInsightType(req);
+    const { value, errors } = validateTemplate(req.body);
+
+    if (!value) {
+      throw new CustomError("Invalid prompt template", 400, errors);
+    }
+
+    const template = await createTemplateVersion(
+      insightType,
+      value,
+      req.user?._id,
+      typeof req.body.notes === "string" ? req.body.notes : undefined
+    );
+
+    res.status(201).json({
+      success: true,
+      data: template,
+      message: `Prompt template version ${template.version} saved and activated`,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Make an earlier template version active (0 restores the built-in one)
+// @route   POST /api/prompt-templates/:insightType/versions/:version/activate
+// @access  Private (admin)
+export const activatePromptTemplateVersion = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const insightType = parseInsightType(req);
+    const version = Number(req.params.version);
+
+    if (!Number.isInteger(version) || version < 0) {
+      throw new CustomError("Version must be a non-negative integer", 400);
+    }
+
+    const template = await activateTemplateVersion(insightType, version);
+
+    if (!template) {
+      throw new CustomError("Template version not found", 404);
+    }
+
+    res.status(200).json({
+      success: true,
+      data: template,
+      message: `Prompt template version ${version} activated`,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
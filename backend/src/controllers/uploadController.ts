@@ -1,22 +1,111 @@
 import { Response, NextFunction } from "express";
-import Dataset from "../models/Dataset.js";
+import Dataset, { type IDataset } from "../models/Dataset.js";
 import { AuthRequest } from "../middleware/auth.js";
 import { CustomError } from "../middleware/errorHandler.js";
 import path from "path";
-import csv from "csv-parser";
+import os from "os";
+import fs from "fs";
 import { Readable } from "stream";
+import { pipeline } from "stream/promises";
 import * as XLSX from "xlsx";
+import UploadSession, { type IUploadSession } from "../models/UploadSession.js";
+import { detectFileType } from "../middleware/upload.js";
 import {
   uploadBufferToCloudinary,
+  uploadFileToCloudinary,
+  downloadStream,
   downloadToBuffer,
   isCloudinaryConfigured,
 } from "../services/cloudinaryService.js";
+import {
+  hashContent,
+  parseRowsFromBuffer,
+  parseRowsFromStream,
+  datasetParseOptions,
+  MAX_IN_MEMORY_FILE_SIZE,
+  STREAMED_FILE_TYPES,
+  streamJSONLines,
+  type ParseOptions,
+  type JSONLinesSummary,
+  type MalformedLine,
+} from "../services/datasetRowsService.js";
+import { detectDatasetPII } from "../services/privacyService.js";
+import {
+  readParquetSchema,
+  readArrowSchema,
+  type FileSchema,
+} from "../services/columnarFileService.js";
+import {
+  createTypeInference,
+  inferColumnTypes,
+  exampleValues,
+  type InferredColumn,
+} from "../services/typeInferenceService.js";
+import {
+  readWorkbook,
+  listSheets,
+  readSheetRows,
+  validateSheetRequest,
+  resolveSheetRequest,
+  type DatasetSheet,
+  type SheetRequest,
+  type SheetSelection,
+} from "../services/excelSheetService.js";
+import {
+  detectCSVDialect,
+  detectCSVDialectFromFile,
+  validateCSVDialect,
+  csvRowStream,
+  type CSVDialect,
+} from "../services/csvDialectService.js";
+import {
+  applySchemaToRows,
+  carryOverSchema,
+} from "../services/schemaService.js";
+import {
+  profileColumns,
+  PROFILE_ROW_LIMIT,
+} from "../services/columnProfileService.js";
+import {
+  UPLOAD_CHUNK_SIZE,
+  MAX_CHUNKED_UPLOAD_SIZE,
+  partCount,
+  expectedPartSize,
+  missingParts,
+  sessionExpiry,
+  writePart,
+  assembleParts,
+  removeSessionFiles,
+  purgeExpiredSessions,
+} from "../services/chunkedUploadService.js";
 
 // Extend AuthRequest to include file with buffer
 interface UploadRequest extends AuthRequest {
   file?: Express.Multer.File & { buffer: Buffer };
 }
 
+// Processing choices made at upload or re-process time
+interface ProcessOptions {
+  // Excel: which sheets to read, or "split" to make a dataset per sheet
+  sheets?: SheetRequest;
+  // CSV: dialect values chosen by the user instead of the detected ones
+  csv?: Partial<CSVDialect>;
+}
+
+// File to process: still in memory after a direct upload, or assembled on disk
+type FileSource = { buffer: Buffer } | { filePath: string };
+
+// Column as found while processing; columnar files keep their declared type names
+type DetectedColumn = Omit<InferredColumn, "type"> & { type: string };
+
+// Upload field "sheetMode": single (default), stack or split
+function parseSheetMode(raw: unknown): SheetRequest | undefined {
+  if (raw === undefined || raw === "") return undefined;
+  const { value, errors } = validateSheetRequest({ mode: raw });
+  if (!value) throw new CustomError("Invalid sheet mode", 400, errors);
+  return value;
+}
+
 // @desc    Upload file directly to Cloudinary (NO local storage)
 // @route   POST /api/upload
 // @access  Private
@@ -34,17 +123,14 @@ export const uploadFile = async (
       throw new CustomError("Cloud storage is not configured", 500);
     }
 
-    const { name, description, tags } = req.body;
+    const { name, description, tags, sheetMode } = req.body;
+    const sheets = parseSheetMode(sheetMode);
 
     // Determine file type
-    const ext = path.extname(req.file.originalname).toLowerCase();
-    let fileType: "csv" | "json" | "excel" | "other" = "other";
-    if (ext === ".csv") fileType = "csv";
-    else if (ext === ".json") fileType = "json";
-    else if (ext === ".xlsx" || ext === ".xls") fileType = "excel";
+    const fileType = detectFileType(req.file.originalname);
 
     if (fileType === "other") {
-      throw new CustomError("Invalid file type. Only CSV, JSON, Excel supported.", 400);
+      throw new CustomError("Invalid file type. Only CSV, JSON, JSON Lines, Excel, Parquet, Arrow supported.", 400);
     }
 
     // Parse tags
@@ -80,6 +166,7 @@ export const uploadFile = async (
       fileName: req.file.originalname,
       fileSize: req.file.size,
       fileType,
+      contentHash: hashContent(req.file.buffer),
       columns: [],
       rowCount: 0,
       tags: parsedTags,
@@ -93,10 +180,11 @@ export const uploadFile = async (
     });
 
     // Process file in background (from buffer or re-download)
-    processFileFromBuffer(
+    processFileFromSource(
       dataset.id.toString(),
-      req.file.buffer,
-      fileType
+      { buffer: req.file.buffer },
+      fileType,
+      { sheets }
     ).catch(console.error);
 
     res.status(201).json({
@@ -128,6 +216,34 @@ export const processFile = async (
       throw new CustomError("Already processing", 400);
     }
 
+    // Optional new sheet selection for Excel workbooks
+    let sheets: SheetRequest | undefined;
+    if (req.body?.sheets !== undefined) {
+      if (dataset.fileType !== "excel") {
+        throw new CustomError("Sheet selection only applies to Excel workbooks", 400);
+      }
+      const { value, errors } = validateSheetRequest(req.body.sheets);
+      if (!value) throw new CustomError("Invalid sheet selection", 400, errors);
+      if (dataset.sheets.length > 0) {
+        const resolved = resolveSheetRequest(value, dataset.sheets);
+        if (!resolved.value) {
+          throw new CustomError("Invalid sheet selection", 400, resolved.errors);
+        }
+      }
+      sheets = value;
+    }
+
+    // Optional CSV dialect overrides
+    let csvOverrides: Partial<CSVDialect> | undefined;
+    if (req.body?.csv !== undefined) {
+      if (dataset.fileType !== "csv") {
+        throw new CustomError("CSV options only apply to CSV files", 400);
+      }
+      const { value, errors } = validateCSVDialect(req.body.csv);
+      if (!value) throw new CustomError("Invalid CSV options", 400, errors);
+      csvOverrides = value;
+    }
+
     dataset.metadata.processingStatus = "processing";
     await dataset.save();
 
@@ -135,7 +251,8 @@ export const processFile = async (
     processFileFromUrl(
       dataset.id.toString(),
       dataset.fileUrl,
-      dataset.fileType
+      dataset.fileType,
+      { sheets, csv: csvOverrides }
     ).catch(console.error);
 
     res.status(200).json({
@@ -173,6 +290,7 @@ export const getUploadStatus = async (
         fileType: dataset.fileType,
         status: dataset.metadata.processingStatus,
         errorMessage: dataset.metadata.errorMessage,
+        malformedLines: dataset.metadata.malformedLines,
         storageType: "cloudinary",
       },
     });
@@ -193,7 +311,7 @@ export const validateFile = async (
     if (!req.file) throw new CustomError("Please upload a file", 400);
 
     const ext = path.extname(req.file.originalname).toLowerCase();
-    const allowed = [".csv", ".json", ".xlsx", ".xls"];
+    const allowed = [".csv", ".json", ".jsonl", ".ndjson", ".xlsx", ".xls", ".parquet", ".arrow", ".feather"];
 
     if (!allowed.includes(ext)) {
       throw new CustomError("Invalid file type", 400);
@@ -222,42 +340,453 @@ export const validateFile = async (
 };
 
 // ============================================
-// Processing Functions (from buffer - NO disk)
+// Resumable Chunked Uploads
+// ============================================
+
+// Session as sent to the client, with what is still left to upload
+function serializeSession(session: IUploadSession) {
+  const missing = missingParts(session.receivedParts, session.totalParts);
+  const uploadedBytes = session.receivedParts.reduce(
+    (total, index) =>
+      total + expectedPartSize(session.fileSize, session.chunkSize, index),
+    0
+  );
+
+  return {
+    ...session.toJSON(),
+    missingParts: missing,
+    uploadedBytes,
+  };
+}
+
+async function findSession(req: AuthRequest): Promise<IUploadSession> {
+  const session = await UploadSession.findOne({
+    _id: req.params.sessionId,
+    userId: req.user?._id,
+  });
+
+  if (!session || (session.status !== "completed" && session.expiresAt < new Date())) {
+    throw new CustomError("Upload session not found or expired", 404);
+  }
+  return session;
+}
+
+// @desc    Start a resumable chunked upload
+// @route   POST /api/upload/sessions
+// @access  Private
+export const createUploadSession = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { fileName, fileSize, lastModified, name, description, tags, sheetMode } =
+      req.body;
+    const sheets = parseSheetMode(sheetMode);
+
+    if (!fileName || typeof fileName !== "string") {
+      throw new CustomError("File name is required", 400);
+    }
+    if (!Number.isInteger(fileSize) || fileSize <= 0) {
+      throw new CustomError("File size must be a positive integer", 400);
+    }
+    if (fileSize > MAX_CHUNKED_UPLOAD_SIZE) {
+      throw new CustomError(
+        `File too large. Max: ${formatBytes(MAX_CHUNKED_UPLOAD_SIZE)}`,
+        400
+      );
+    }
+
+    const fileType = detectFileType(fileName);
+    if (fileType === "other") {
+      throw new CustomError("Invalid file type. Only CSV, JSON, JSON Lines, Excel, Parquet, Arrow supported.", 400);
+    }
+    if (!STREAMED_FILE_TYPES.includes(fileType) && fileSize > MAX_IN_MEMORY_FILE_SIZE) {
+      throw new CustomError(
+        `File too large. Max for ${fileType} files: ${formatBytes(MAX_IN_MEMORY_FILE_SIZE)}`,
+        400
+      );
+    }
+
+    if (!isCloudinaryConfigured()) {
+      throw new CustomError("Cloud storage is not configured", 500);
+    }
+
+    // Abandoned sessions are cleaned up lazily whenever a new one starts
+    purgeExpiredSessions().catch(console.error);
+
+    const session = await UploadSession.create({
+      userId: req.user?._id,
+      fileName,
+      fileSize,
+      fileType,
+      lastModified: typeof lastModified === "number" ? lastModified : undefined,
+      chunkSize: UPLOAD_CHUNK_SIZE,
+      totalParts: partCount(fileSize, UPLOAD_CHUNK_SIZE),
+      name,
+      description,
+      tags: Array.isArray(tags) ? tags : [],
+      sheetMode: sheets?.mode,
+      expiresAt: sessionExpiry(),
+    });
+
+    res.status(201).json({
+      success: true,
+      data: serializeSession(session),
+      message: "Upload session started",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Get upload session progress (used to resume)
+// @route   GET /api/upload/sessions/:sessionId
+// @access  Private
+export const getUploadSession = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const session = await findSession(req);
+
+    res.status(200).json({
+      success: true,
+      data: serializeSession(session),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Upload one part of a chunked upload (raw request body)
+// @route   PUT /api/upload/sessions/:sessionId/parts/:index
+// @access  Private
+export const uploadPart = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const session = await findSession(req);
+    if (session.status !== "uploading") {
+      throw new CustomError("Upload session is no longer accepting parts", 409);
+    }
+
+    const index = Number(req.params.index);
+    if (!Number.isInteger(index) || index < 0 || index >= session.totalParts) {
+      throw new CustomError(
+        `Part index must be between 0 and ${session.totalParts - 1}`,
+        400
+      );
+    }
+
+    // Refused before any of the body is written when the declared size is wrong
+    const expectedSize = expectedPartSize(session.fileSize, session.chunkSize, index);
+    const declaredSize = req.headers["content-length"];
+    if (declaredSize !== undefined && Number(declaredSize) !== expectedSize) {
+      throw new CustomError(
+        `Part ${index} must be ${expectedSize} bytes, got ${declaredSize}`,
+        Number(declaredSize) > expectedSize ? 413 : 400
+      );
+    }
+
+    try {
+      await writePart(session.id.toString(), index, req, expectedSize);
+    } catch (error) {
+      throw new CustomError(
+        `Part ${index} was not stored: ${error instanceof Error ? error.message : "upload interrupted"}`,
+        400
+      );
+    }
+
+    const updated = await UploadSession.findByIdAndUpdate(
+      session._id,
+      {
+        $addToSet: { receivedParts: index },
+        expiresAt: sessionExpiry(),
+      },
+      { new: true }
+    );
+
+    res.status(200).json({
+      success: true,
+      data: serializeSession(updated || session),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Assemble the parts, store the file and create the dataset
+// @route   POST /api/upload/sessions/:sessionId/complete
+// @access  Private
+export const completeUploadSession = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const session = await findSession(req);
+
+    // Completing twice (e.g. a retried request) returns the same dataset
+    if (session.status === "completed") {
+      const dataset = await Dataset.findById(session.datasetId);
+      if (!dataset) throw new CustomError("Dataset not found", 404);
+      res.status(200).json({
+        success: true,
+        data: dataset,
+        message: "Upload already completed",
+      });
+      return;
+    }
+
+    const missing = missingParts(session.receivedParts, session.totalParts);
+    if (missing.length > 0) {
+      throw new CustomError(
+        "Upload is missing parts",
+        400,
+        missing.map((index) => `Part ${index} has not been uploaded`)
+      );
+    }
+
+    // Claim the session so concurrent completes do not create two datasets
+    const claimed = await UploadSession.findOneAndUpdate(
+      { _id: session._id, status: "uploading" },
+      { status: "completing" },
+      { new: true }
+    );
+    if (!claimed) {
+      throw new CustomError("Upload is already being completed", 409);
+    }
+
+    const sessionId = session.id.toString();
+    let dataset;
+    try {
+      const assembled = await assembleParts(sessionId, session.totalParts);
+      if (assembled.size !== session.fileSize) {
+        throw new CustomError(
+          `Assembled file has ${assembled.size} bytes, expected ${session.fileSize}`,
+          400
+        );
+      }
+
+      console.log(`📤 Chunked upload to Cloudinary: ${session.fileName}`);
+
+      const result = await uploadFileToCloudinary(
+        assembled.filePath,
+        session.fileName,
+        {
+          userId: req.user?.id.toString(),
+          publicId: `${Date.now()}-${path.parse(session.fileName).name}`,
+          resourceType: "raw",
+          tags: session.tags,
+        }
+      );
+
+      console.log(`✅ Uploaded to Cloudinary: ${result.secure_url}`);
+
+      dataset = await Dataset.create({
+        userId: req.user?._id,
+        name: session.name || session.fileName,
+        description: session.description || "",
+        fileUrl: result.secure_url,
+        fileName: session.fileName,
+        fileSize: session.fileSize,
+        fileType: session.fileType,
+        contentHash: assembled.contentHash,
+        columns: [],
+        rowCount: 0,
+        tags: session.tags,
+        metadata: {
+          uploadDate: new Date(),
+          lastModified: new Date(),
+          processingStatus: "pending",
+          storageType: "cloudinary",
+          cloudPath: result.public_id,
+        },
+      });
+
+      claimed.status = "completed";
+      claimed.datasetId = dataset._id as typeof claimed.datasetId;
+      await claimed.save();
+
+      // Process in background, then drop the parts
+      processFileFromDisk(
+        dataset.id.toString(),
+        assembled.filePath,
+        session.fileType,
+        { sheets: session.sheetMode ? { mode: session.sheetMode } : undefined }
+      )
+        .catch(console.error)
+        .finally(() => removeSessionFiles(sessionId).catch(console.error));
+    } catch (error) {
+      // Parts are still on disk, so the client can retry the complete call
+      await UploadSession.findByIdAndUpdate(session._id, { status: "uploading" });
+      throw error;
+    }
+
+    res.status(201).json({
+      success: true,
+      data: dataset,
+      message: "File uploaded to cloud. Processing started.",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Abandon a chunked upload and delete its parts
+// @route   DELETE /api/upload/sessions/:sessionId
+// @access  Private
+export const cancelUploadSession = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const session = await findSession(req);
+    if (session.status === "completing") {
+      throw new CustomError("Upload is being completed", 409);
+    }
+
+    await removeSessionFiles(session.id.toString());
+    await session.deleteOne();
+
+    res.status(200).json({
+      success: true,
+      message: "Upload cancelled",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// ============================================
+// Processing Functions
 // ============================================
 
-async function processFileFromBuffer(
+async function processFileFromSource(
   datasetId: string,
-  buffer: Buffer,
-  fileType: string
+  source: FileSource,
+  fileType: string,
+  options: ProcessOptions = {}
 ): Promise<void> {
   try {
-    console.log(`📊 Processing file from buffer: ${datasetId}`);
+    console.log(`📊 Processing file: ${datasetId}`);
+
+    // Only streamed formats stay on disk; the rest are read into memory once
+    if (!STREAMED_FILE_TYPES.includes(fileType)) {
+      source = { buffer: await readWholeFile(source) };
+    }
 
-    let columns: Array<{ name: string; type: string; nullable: boolean }> = [];
+    const dataset = await Dataset.findById(datasetId);
+    if (!dataset) throw new Error("Dataset not found");
+
+    let columns: DetectedColumn[] = [];
     let rowCount = 0;
+    let malformed: Omit<JSONLinesSummary, "rowCount"> | undefined;
+    let parseOptions: ParseOptions = datasetParseOptions(dataset);
+    let sheets: DatasetSheet[] = [];
+    let splitSheets: string[] = [];
 
     switch (fileType) {
-      case "csv":
-        ({ columns, rowCount } = await processCSVBuffer(buffer));
+      case "csv": {
+        // Overrides apply on top of a fresh detection; otherwise keep what was stored
+        const dialect = options.csv
+          ? { ...(await detectSourceDialect(source)), ...options.csv }
+          : parseOptions.csv || (await detectSourceDialect(source));
+        parseOptions = { ...parseOptions, csv: dialect };
+        ({ columns, rowCount } = await processCSV(openSource(source), dialect));
         break;
+      }
       case "json":
-        ({ columns, rowCount } = processJSONBuffer(buffer));
+        ({ columns, rowCount } = processJSONBuffer(await readWholeFile(source)));
+        break;
+      case "jsonl":
+        ({ columns, rowCount, ...malformed } = await processJSONLines(openSource(source)));
         break;
-      case "excel":
-        ({ columns, rowCount } = processExcelBuffer(buffer));
+      case "excel": {
+        const workbook = readWorkbook(await readWholeFile(source));
+        sheets = listSheets(workbook);
+
+        const request =
+          options.sheets || parseOptions.sheets || { mode: "single" as const };
+        const { value: resolved, errors } = resolveSheetRequest(request, sheets);
+        if (!resolved) throw new Error(errors.join("; "));
+
+        // Split: this dataset keeps the first sheet, the others get their own
+        let selection: SheetSelection;
+        if (resolved.mode === "split") {
+          const [own, ...others] = resolved.sheets;
+          selection = { mode: "single", sheets: [own] };
+          splitSheets = others;
+        } else {
+          selection = { mode: resolved.mode, sheets: resolved.sheets };
+        }
+
+        parseOptions = { ...parseOptions, sheets: selection };
+        ({ columns, rowCount } = processExcelSheets(workbook, selection));
+        break;
+      }
+      // Columnar files declare their schema; nothing to guess
+      case "parquet":
+        ({ columns, rowCount } = withSchemaTypes(readParquetSchema(await readWholeFile(source))));
+        break;
+      case "arrow":
+        ({ columns, rowCount } = withSchemaTypes(readArrowSchema(await readWholeFile(source))));
         break;
       default:
         throw new Error(`Unsupported file type: ${fileType}`);
     }
 
+    const rows = STREAMED_FILE_TYPES.includes(fileType)
+      ? await parseRowsFromStream(openSource(source), fileType, PROFILE_ROW_LIMIT, parseOptions)
+      : await parseRowsFromBuffer(await readWholeFile(source), fileType, PROFILE_ROW_LIMIT, parseOptions);
+    columns = columns.map((column) =>
+      column.examples.length > 0
+        ? column
+        : { ...column, examples: exampleValues(rows, column.name) }
+    );
+
+    // Schema edits carry over to the re-processed columns, and profiles follow them
+    const schemaColumns = carryOverSchema(columns, dataset.columns);
+    const profiles = profileColumns(applySchemaToRows(rows, schemaColumns), schemaColumns);
+
+    // Flag personal data so it can be withheld from AI prompts
+    const scannedColumns = detectDatasetPII(
+      rows,
+      schemaColumns.map((column) => ({ ...column, profile: profiles[column.name] })),
+      dataset.columns
+    );
+
     await Dataset.findByIdAndUpdate(datasetId, {
-      columns,
+      columns: scannedColumns,
       rowCount,
+      sheets,
+      sheetSelection: parseOptions.sheets,
+      csvDialect: parseOptions.csv,
       "metadata.processingStatus": "completed",
+      "metadata.errorMessage": "",
+      "metadata.malformedLines": malformed?.malformedLines ?? 0,
+      "metadata.malformedLineSamples": malformed?.malformedSamples ?? [],
+      "metadata.profiledRows": rows.length,
       "metadata.lastModified": new Date(),
     });
 
-    console.log(`✅ Processed: ${columns.length} columns, ${rowCount} rows`);
+    const flagged = scannedColumns.filter((column) => column.pii).length;
+    console.log(
+      `✅ Processed: ${columns.length} columns, ${rowCount} rows, ${flagged} with personal data`
+    );
+
+    // One after another, so only one workbook is parsed at a time
+    for (const sheet of splitSheets) {
+      const sibling = await createSheetDataset(dataset, sheet);
+      await processFileFromSource(sibling.id.toString(), source, fileType, {
+        sheets: { mode: "single", sheets: [sheet] },
+      });
+    }
   } catch (error) {
     console.error("❌ Processing failed:", error);
     await Dataset.findByIdAndUpdate(datasetId, {
@@ -268,15 +797,51 @@ async function processFileFromBuffer(
   }
 }
 
+// Dataset reading one sheet of a split workbook; shares the uploaded file
+async function createSheetDataset(parent: IDataset, sheet: string): Promise<IDataset> {
+  return Dataset.create({
+    userId: parent.userId,
+    name: `${parent.name} - ${sheet}`.slice(0, 100),
+    description: parent.description,
+    fileUrl: parent.fileUrl,
+    fileName: parent.fileName,
+    fileSize: parent.fileSize,
+    fileType: parent.fileType,
+    contentHash: parent.contentHash,
+    tags: parent.tags,
+    sheetSelection: { mode: "single", sheets: [sheet] },
+    metadata: {
+      uploadDate: new Date(),
+      lastModified: new Date(),
+      processingStatus: "processing",
+      storageType: "cloudinary",
+      cloudPath: (parent.metadata as any).cloudPath,
+    },
+  });
+}
+
 async function processFileFromUrl(
   datasetId: string,
   fileUrl: string,
-  fileType: string
+  fileType: string,
+  options: ProcessOptions = {}
 ): Promise<void> {
   try {
     console.log(`📥 Downloading for processing: ${datasetId}`);
-    const buffer = await downloadToBuffer(fileUrl);
-    await processFileFromBuffer(datasetId, buffer, fileType);
+    if (!STREAMED_FILE_TYPES.includes(fileType)) {
+      const buffer = await downloadToBuffer(fileUrl);
+      await processFileFromSource(datasetId, { buffer }, fileType, options);
+      return;
+    }
+
+    // Streamed formats are read more than once, so they land on disk rather than in memory
+    const filePath = path.join(os.tmpdir(), `dataset-${datasetId}-${Date.now()}`);
+    try {
+      await pipeline(await downloadStream(fileUrl), fs.createWriteStream(filePath));
+      await processFileFromSource(datasetId, { filePath }, fileType, options);
+    } finally {
+      await fs.promises.rm(filePath, { force: true });
+    }
   } catch (error) {
     console.error("❌ Download/processing failed:", error);
     await Dataset.findByIdAndUpdate(datasetId, {
@@ -286,47 +851,45 @@ async function processFileFromUrl(
   }
 }
 
+async function processFileFromDisk(
+  datasetId: string,
+  filePath: string,
+  fileType: string,
+  options: ProcessOptions = {}
+): Promise<void> {
+  try {
+    await processFileFromSource(datasetId, { filePath }, fileType, options);
+  } catch (error) {
+    console.error("❌ Read/processing failed:", error);
+    await Dataset.findByIdAndUpdate(datasetId, {
+      "metadata.processingStatus": "failed",
+      "metadata.errorMessage": error instanceof Error ? error.message : "Failed",
+    });
+  }
+}
+
 // ============================================
-// Buffer Processing Functions
+// Format Processing Functions
 // ============================================
 
-async function processCSVBuffer(buffer: Buffer): Promise<{
-  columns: Array<{ name: string; type: string; nullable: boolean }>;
-  rowCount: number;
-}> {
+async function processCSV(
+  source: Readable,
+  dialect: CSVDialect
+): Promise<{ columns: DetectedColumn[]; rowCount: number }> {
+  const inference = createTypeInference();
+
   return new Promise((resolve, reject) => {
-    const columns: Map<string, Set<string>> = new Map();
-    let rowCount = 0;
-    let headers: string[] = [];
-
-    const stream = Readable.from(buffer);
-    
-    stream
-      .pipe(csv())
-      .on("headers", (h: string[]) => {
-        headers = h;
-        h.forEach((header) => columns.set(header, new Set()));
-      })
-      .on("data", (row: any) => {
-        rowCount++;
-        headers.forEach((h) => {
-          columns.get(h)?.add(detectType(row[h]));
-        });
-      })
-      .on("end", () => {
-        const columnInfo = Array.from(columns.entries()).map(([name, types]) => ({
-          name,
-          type: getMostCommonType(Array.from(types)),
-          nullable: types.has("null"),
-        }));
-        resolve({ columns: columnInfo, rowCount });
-      })
+    csvRowStream(source, dialect)
+      .on("data", (row: any) => inference.observe(row))
+      .on("end", () =>
+        resolve({ columns: inference.columns(), rowCount: inference.rowCount() })
+      )
       .on("error", reject);
   });
 }
 
 function processJSONBuffer(buffer: Buffer): {
-  columns: Array<{ name: string; type: string; nullable: boolean }>;
+  columns: DetectedColumn[];
   rowCount: number;
 } {
   const data = JSON.parse(buffer.toString("utf-8"));
@@ -339,49 +902,60 @@ function processJSONBuffer(buffer: Buffer): {
     rows = arrayKey ? data[arrayKey] : [data];
   }
 
-  const columns: Map<string, Set<string>> = new Map();
-  rows.forEach((row: any) => {
-    if (typeof row === "object" && row !== null) {
-      Object.keys(row).forEach((key) => {
-        if (!columns.has(key)) columns.set(key, new Set());
-        columns.get(key)?.add(detectType(row[key]));
-      });
-    }
+  return { columns: inferColumnTypes(rows), rowCount: rows.length };
+}
+
+// Streams the file line by line; malformed lines are counted, not fatal
+async function processJSONLines(source: Readable): Promise<{
+  columns: DetectedColumn[];
+  rowCount: number;
+  malformedLines: number;
+  malformedSamples: MalformedLine[];
+}> {
+  const inference = createTypeInference();
+  const summary = await streamJSONLines(source, (row) => {
+    inference.observe(row);
   });
 
+  if (summary.rowCount === 0) {
+    throw new Error(
+      summary.malformedLines > 0
+        ? `No valid JSON lines (${summary.malformedLines} malformed)`
+        : "File contains no rows"
+    );
+  }
+
   return {
-    columns: Array.from(columns.entries()).map(([name, types]) => ({
-      name,
-      type: getMostCommonType(Array.from(types)),
-      nullable: types.has("null"),
-    })),
-    rowCount: rows.length,
+    columns: inference.columns(),
+    rowCount: summary.rowCount,
+    malformedLines: summary.malformedLines,
+    malformedSamples: summary.malformedSamples,
   };
 }
 
-function processExcelBuffer(buffer: Buffer): {
-  columns: Array<{ name: string; type: string; nullable: boolean }>;
+function processExcelSheets(
+  workbook: XLSX.WorkBook,
+  selection: SheetSelection
+): {
+  columns: DetectedColumn[];
   rowCount: number;
 } {
-  const workbook = XLSX.read(buffer, { type: "buffer" });
-  const sheetName = workbook.SheetNames[0];
-  const data: any[] = XLSX.utils.sheet_to_json(workbook.Sheets[sheetName]);
-
-  const columns: Map<string, Set<string>> = new Map();
-  data.forEach((row: any) => {
-    Object.keys(row).forEach((key) => {
-      if (!columns.has(key)) columns.set(key, new Set());
-      columns.get(key)?.add(detectType(row[key]));
-    });
-  });
+  const data: any[] = readSheetRows(workbook, selection);
+  return { columns: inferColumnTypes(data), rowCount: data.length };
+}
 
+// Columnar files declare their types; examples come from the first rows
+function withSchemaTypes(schema: FileSchema): {
+  columns: DetectedColumn[];
+  rowCount: number;
+} {
   return {
-    columns: Array.from(columns.entries()).map(([name, types]) => ({
-      name,
-      type: getMostCommonType(Array.from(types)),
-      nullable: types.has("null"),
+    columns: schema.columns.map((column) => ({
+      ...column,
+      confidence: 100,
+      examples: [],
     })),
-    rowCount: data.length,
+    rowCount: schema.rowCount,
   };
 }
 
@@ -389,32 +963,29 @@ function processExcelBuffer(buffer: Buffer): {
 // Helpers
 // ============================================
 
-function detectType(value: any): string {
-  if (value === null || value === undefined || value === "") return "null";
-  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "float";
-  if (typeof value === "boolean") return "boolean";
-  if (typeof value === "string") {
-    if (!isNaN(Date.parse(value))) return "date";
-    if (!isNaN(Number(value)) && value.trim() !== "") return "number";
-    return "string";
+function openSource(source: FileSource): Readable {
+  return "buffer" in source
+    ? Readable.from([source.buffer])
+    : fs.createReadStream(source.filePath);
+}
+
+// Formats parsed whole must fit in memory, however large the upload was allowed to be
+async function readWholeFile(source: FileSource): Promise<Buffer> {
+  if ("buffer" in source) return source.buffer;
+
+  const { size } = await fs.promises.stat(source.filePath);
+  if (size > MAX_IN_MEMORY_FILE_SIZE) {
+    throw new Error(
+      `File too large to process in memory. Max: ${formatBytes(MAX_IN_MEMORY_FILE_SIZE)}`
+    );
   }
-  if (Array.isArray(value)) return "array";
-  if (typeof value === "object") return "object";
-  return "unknown";
+  return fs.promises.readFile(source.filePath);
 }
 
-function getMostCommonType(types: string[]): string {
-  if (types.length === 0) return "unknown";
-  const nonNull = types.filter((t) => t !== "null");
-  if (nonNull.length === 0) return "null";
-  if (nonNull.length === 1) return nonNull[0];
-  
-  const counts = new Map<string, number>();
-  nonNull.forEach((t) => counts.set(t, (counts.get(t) || 0) + 1));
-  
-  let max = 0, result = "string";
-  counts.forEach((c, t) => { if (c > max) { max = c; result = t; } });
-  return result;
+async function detectSourceDialect(source: FileSource): Promise<CSVDialect> {
+  return "buffer" in source
+    ? detectCSVDialect(source.buffer)
+    : detectCSVDialectFromFile(source.filePath);
 }
 
 function formatBytes(bytes: number, decimals = 2): string {
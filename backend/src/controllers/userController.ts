@@ -7,6 +7,8 @@ import jwt, {
 import User from "../models/User.js";
 import type { AuthRequest } from "../middleware/auth.js";
 import { CustomError } from "../middleware/errorHandler.js";
+import { isProviderName } from "../services/llmService.js";
+import { getUsageSummary } from "../services/usageService.js";
 
 type TimeString = `${number}${"s" | "m" | "h" | "d" | "y"}`;
 
@@ -134,7 +136,7 @@ export const updateProfile = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const { name, email, avatar } = req.body;
+    const { name, email, avatar, aiPreferences } = req.body;
 
     const user = await User.findById(req.user?._id);
 
@@ -146,6 +148,16 @@ export const updateProfile = async (
     user.email = email || user.email;
     user.avatar = avatar || user.avatar;
 
+    if (aiPreferences !== undefined) {
+      if (aiPreferences.provider && !isProviderName(aiPreferences.provider)) {
+        throw new CustomError(`Unknown AI provider '${aiPreferences.provider}'`, 400);
+      }
+      user.aiPreferences = {
+        provider: aiPreferences.provider || undefined,
+        model: aiPreferences.model || undefined,
+      };
+    }
+
     const updatedUser = await user.save();
 
     res.status(200).json({
@@ -182,3 +194,81 @@ export const deleteAccount = async (
     next(error);
   }
 };
+
+// @desc    Get AI usage for the current month, with history and quota
+// @route   GET /api/user/usage
+// @access  Private
+export const getUsage = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const user = await User.findById(req.user?._id);
+
+    if (!user) {
+      throw new CustomError("User not found", 404);
+    }
+
+    const months = Math.min(Math.max(Number(req.query.months) || 6, 1), 24);
+    const summary = await getUsageSummary(user, months);
+
+    res.status(200).json({
+      success: true,
+      data: summary,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// @desc    Set or clear a user's monthly AI quota override
+// @route   PUT /api/user/:id/quota
+// @access  Private (admin)
+export const updateUserQuota = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { monthlyTokens, monthlyCost } = req.body;
+
+    const user = await User.findById(req.params.id);
+
+    if (!user) {
+      throw new CustomError("User not found", 404);
+    }
+
+    // null clears the override so the role's quota applies again
+    for (const [name, value] of Object.entries({ monthlyTokens, monthlyCost })) {
+      if (
+        value !== undefined &&
+        value !== null &&
+        (typeof value !== "number" || !Number.isFinite(value) || value < 0)
+      ) {
+        throw new CustomError(`${name} must be a non-negative number or null`, 400);
+      }
+    }
+
+    user.aiQuota = {
+      monthlyTokens:
+        monthlyTokens === undefined
+          ? user.aiQuota?.monthlyTokens
+          : monthlyTokens ?? undefined,
+      monthlyCost:
+        monthlyCost === undefined
+          ? user.aiQuota?.monthlyCost
+          : monthlyCost ?? undefined,
+    };
+
+    const updatedUser = await user.save();
+
+    res.status(200).json({
+      success: true,
+      data: updatedUser,
+      message: "AI quota updated successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
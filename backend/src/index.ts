@@ -7,6 +7,9 @@ import userRoutes from "./routes/userRoutes.js";
 import insightRoutes from "./routes/insightRoutes.js";
 import datasetRoutes from "./routes/datasetRoutes.js";
 import uploadRoutes from "./routes/uploadRoutes.js";
+import promptTemplateRoutes from "./routes/promptTemplateRoutes.js";
+import { errorHandler } from "./middleware/errorHandler.js";
+import { failInterruptedJobs } from "./services/insightJobService.js";
 import cors from "cors";
 dotenv.config();
 
@@ -19,10 +22,17 @@ app.use("/api/user", userRoutes);
 app.use("/api/insights", insightRoutes);
 app.use("/api/datasets", datasetRoutes);
 app.use("/api/upload", uploadRoutes);
+app.use("/api/prompt-templates", promptTemplateRoutes);
+
+// JSON error responses (status, message and validation details) for every route
+app.use(errorHandler);
 
 mongoose
   .connect(process.env.MONGO_URI || "")
-  .then(() => console.log("✅ Connected to MongoDB"))
+  .then(() => {
+    console.log("✅ Connected to MongoDB");
+    return failInterruptedJobs();
+  })
   .catch((err) => console.error("❌ MongoDB connection error:", err));
 
 const PORT = process.env.PORT || 4000;
@@ -3,6 +3,12 @@ import jwt from "jsonwebtoken";
 import { CustomError } from "./errorHandler.js";
 import User from "../models/User.js";
 import type { IUser } from "../models/User.js";
+import {
+  resolveProvider,
+  type ProviderSelection,
+  type ResolvedProvider,
+} from "../services/llmService.js";
+import { checkQuota } from "../services/usageService.js";
 
 // Extend Express Request interface to include user
 export interface AuthRequest extends Request {
@@ -241,6 +247,57 @@ export const rateLimitByUser = (
   };
 };
 
+/**
+ * Throw a 429 when the user is over their monthly AI quota and the given
+ * provider choice resolves to a model provider. Invalid choices are left to
+ * the handler to report.
+ */
+export const assertAIQuota = async (
+  user: IUser,
+  choice: ProviderSelection
+): Promise<void> => {
+  let llm: ResolvedProvider | null;
+  try {
+    llm = resolveProvider(choice, user.aiPreferences);
+  } catch {
+    return;
+  }
+
+  if (!llm) return;
+
+  const status = await checkQuota(user);
+  if (status.exceeded) {
+    throw new CustomError(
+      `${status.reason}. Usage resets on ${status.resetsAt.toISOString().slice(0, 10)}.`,
+      429
+    );
+  }
+};
+
+/**
+ * Enforce the user's monthly AI quota before a model provider is called.
+ * Requests that will use the statistical engine (no provider configured) pass through.
+ * Routes whose provider is not in the body (regenerate) call assertAIQuota themselves.
+ * @middleware
+ */
+export const enforceAIQuota = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (req.user) {
+      await assertAIQuota(req.user, {
+        provider: req.body?.provider,
+        model: req.body?.model,
+      });
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * Verify email (for future email verification feature)
  * @middleware
@@ -51,16 +51,19 @@ export const errorHandler = (
   res.status(statusCode).json({
     success: false,
     error: message,
+    ...(err instanceof CustomError && err.errors && { details: err.errors }),
     ...(process.env.NODE_ENV === "development" && { stack: err.stack }),
   });
 };
 
 export class CustomError extends Error {
   statusCode: number;
+  errors?: any;
 
-  constructor(message: string, statusCode: number) {
+  constructor(message: string, statusCode: number, errors?: any) {
     super(message);
     this.statusCode = statusCode;
+    this.errors = errors;
     Error.captureStackTrace(this, this.constructor);
   }
 }
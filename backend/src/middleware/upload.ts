@@ -6,6 +6,10 @@ import { CustomError } from "./errorHandler.js";
 // Use MEMORY storage - no disk writes at all
 const storage = multer.memoryStorage();
 
+// Formats browsers rarely know a MIME type for: JSON Lines, Parquet and
+// Arrow IPC (".feather" is the Arrow IPC file format)
+const EXTENSION_ONLY_TYPES = [".jsonl", ".ndjson", ".parquet", ".arrow", ".feather"];
+
 // File filter function
 const fileFilter = (
   req: Request,
@@ -16,6 +20,10 @@ const fileFilter = (
   const ext = path.extname(file.originalname).toLowerCase();
   const extname = allowedExtensions.test(ext.substring(1));
 
+  if (EXTENSION_ONLY_TYPES.includes(ext)) {
+    return cb(null, true);
+  }
+
   const allowedMimeTypes = [
     "text/csv",
     "application/csv",
@@ -31,7 +39,7 @@ const fileFilter = (
   }
   
   cb(new CustomError(
-    `Invalid file type. Only CSV, JSON, and Excel files are allowed. Received: ${file.mimetype}`,
+    `Invalid file type. Only CSV, JSON, JSON Lines, Excel, Parquet and Arrow files are allowed. Received: ${file.mimetype}`,
     400
   ) as any);
 };
@@ -98,13 +106,20 @@ export const validateFileMetadata = (req: Request, res: any, next: any) => {
 };
 
 // File type detector
-export const detectFileType = (filename: string): string => {
+export const detectFileType = (
+  filename: string
+): "csv" | "json" | "jsonl" | "excel" | "parquet" | "arrow" | "other" => {
   const ext = path.extname(filename).toLowerCase();
   switch (ext) {
     case ".csv": return "csv";
     case ".json": return "json";
+    case ".jsonl":
+    case ".ndjson": return "jsonl";
     case ".xlsx":
     case ".xls": return "excel";
+    case ".parquet": return "parquet";
+    case ".arrow":
+    case ".feather": return "arrow";
     default: return "other";
   }
 };
@@ -0,0 +1,145 @@
+import mongoose, { Document, Schema } from "mongoose";
+import type { ChartSpec } from "../services/chartSpecService.js";
+
+export interface IMessage {
+  _id: mongoose.Types.ObjectId;
+  role: "user" | "assistant";
+  content: string;
+  visualizations: Array<{
+    type: "line" | "area" | "bar" | "pie" | "scatter" | "heatmap" | "table";
+    data: any;
+    config: any;
+    spec?: ChartSpec;
+  }>;
+  metrics: Array<{
+    name: string;
+    value: number | string;
+    unit?: string;
+    trend?: "up" | "down" | "stable";
+  }>;
+  aiModel?: string;
+  aiProvider?: "openai" | "local" | "fake" | "statistical";
+  savedInsightId?: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+export interface IConversation extends Document {
+  userId: mongoose.Types.ObjectId;
+  datasetId: mongoose.Types.ObjectId;
+  title: string;
+  messages: mongoose.Types.DocumentArray<IMessage>;
+  lastMessageAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const messageSchema = new Schema<IMessage>(
+  {
+    role: {
+      type: String,
+      enum: ["user", "assistant"],
+      required: true,
+    },
+    content: {
+      type: String,
+      required: [true, "Message content is required"],
+      trim: true,
+      maxlength: [4000, "Message cannot be more than 4000 characters"],
+    },
+    visualizations: [
+      {
+        type: {
+          type: String,
+          enum: ["line", "area", "bar", "pie", "scatter", "heatmap", "table"],
+          required: true,
+        },
+        data: {
+          type: Schema.Types.Mixed,
+          required: true,
+        },
+        config: {
+          type: Schema.Types.Mixed,
+          default: {},
+        },
+        spec: {
+          type: Schema.Types.Mixed,
+        },
+      },
+    ],
+    metrics: [
+      {
+        name: {
+          type: String,
+          required: true,
+          trim: true,
+        },
+        value: {
+          type: Schema.Types.Mixed,
+          required: true,
+        },
+        unit: {
+          type: String,
+          trim: true,
+        },
+        trend: {
+          type: String,
+          enum: ["up", "down", "stable"],
+        },
+      },
+    ],
+    aiModel: {
+      type: String,
+      trim: true,
+    },
+    aiProvider: {
+      type: String,
+      enum: ["openai", "local", "fake", "statistical"],
+    },
+    savedInsightId: {
+      type: Schema.Types.ObjectId,
+      ref: "Insight",
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+const conversationSchema = new Schema<IConversation>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User ID is required"],
+      index: true,
+    },
+    datasetId: {
+      type: Schema.Types.ObjectId,
+      ref: "Dataset",
+      required: [true, "Dataset ID is required"],
+      index: true,
+    },
+    title: {
+      type: String,
+      required: [true, "Please provide a conversation title"],
+      trim: true,
+      maxlength: [150, "Title cannot be more than 150 characters"],
+    },
+    messages: [messageSchema],
+    lastMessageAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for listing a user's threads on a dataset
+conversationSchema.index({ userId: 1, datasetId: 1, lastMessageAt: -1 });
+
+export default mongoose.model<IConversation>(
+  "Conversation",
+  conversationSchema
+);
@@ -1,4 +1,11 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { COLUMN_POLICIES, PII_KINDS, type ColumnPII, type ColumnPolicy } from '../services/privacyService.js';
+import type { MalformedLine } from '../services/datasetRowsService.js';
+import type { DatasetSheet, SheetSelection } from '../services/excelSheetService.js';
+import { CSV_ENCODINGS, type CSVDialect } from '../services/csvDialectService.js';
+import type { ValueFormat } from '../services/typeInferenceService.js';
+import { COLUMN_ROLES, SCHEMA_FIELDS, type ColumnRole, type SchemaField } from '../services/schemaService.js';
+import { PROFILE_KINDS, type ColumnProfile } from '../services/columnProfileService.js';
 
 export interface IDataset extends Document {
   userId: mongoose.Types.ObjectId;
@@ -7,18 +14,44 @@ export interface IDataset extends Document {
   fileUrl: string;
   fileName: string;
   fileSize: number;
-  fileType: 'csv' | 'json' | 'excel' | 'other';
+  fileType: 'csv' | 'json' | 'jsonl' | 'excel' | 'parquet' | 'arrow' | 'other';
+  contentHash?: string;
   columns: Array<{
     name: string;
     type: string;
     nullable: boolean;
+    // Share of values that fit the type (0-100), and a few of them
+    confidence?: number;
+    examples?: string[];
+    format?: ValueFormat;
+    // Schema set by the user on top of what was inferred
+    displayName?: string;
+    description?: string;
+    unit?: string;
+    role?: ColumnRole;
+    inferredType?: string;
+    inferredNullable?: boolean;
+    overridden?: SchemaField[];
+    // Statistics computed while processing
+    profile?: ColumnProfile;
+    pii?: ColumnPII;
+    policy: ColumnPolicy;
   }>;
   rowCount: number;
+  // Excel: every sheet in the workbook, and the ones this dataset reads
+  sheets: DatasetSheet[];
+  sheetSelection?: SheetSelection;
+  // CSV: how the file is read, detected while processing or set by the user
+  csvDialect?: CSVDialect;
   metadata: {
     uploadDate: Date;
     lastModified: Date;
     processingStatus: 'pending' | 'processing' | 'completed' | 'failed';
     errorMessage?: string;
+    malformedLines?: number;
+    malformedLineSamples?: MalformedLine[];
+    // Rows the column profiles were computed from
+    profiledRows?: number;
   };
   tags: string[];
   isPublic: boolean;
@@ -61,11 +94,15 @@ const datasetSchema = new Schema<IDataset>(
     fileType: {
       type: String,
       enum: {
-        values: ['csv', 'json', 'excel', 'other'],
+        values: ['csv', 'json', 'jsonl', 'excel', 'parquet', 'arrow', 'other'],
         message: '{VALUE} is not a valid file type'
       },
       required: [true, 'File type is required']
     },
+    // SHA-256 of the uploaded file, used to key cached AI generations
+    contentHash: {
+      type: String
+    },
     columns: [
       {
         name: { 
@@ -81,6 +118,90 @@ const datasetSchema = new Schema<IDataset>(
         nullable: { 
           type: Boolean, 
           default: true 
+        },
+        // How sure type inference was, from the share of values that fit the type
+        confidence: {
+          type: Number,
+          min: 0,
+          max: 100
+        },
+        examples: [{ type: String }],
+        // How text values are written: decimal comma, currency, percent, date pattern
+        format: {
+          decimalSeparator: { type: String, enum: ['.', ','] },
+          currency: { type: String },
+          percent: { type: Boolean },
+          datePattern: { type: String }
+        },
+        // Set by the user in the schema editor
+        displayName: {
+          type: String,
+          trim: true,
+          maxlength: [100, 'Display name cannot be more than 100 characters']
+        },
+        description: {
+          type: String,
+          trim: true,
+          maxlength: [500, 'Column description cannot be more than 500 characters']
+        },
+        unit: {
+          type: String,
+          trim: true,
+          maxlength: [30, 'Unit cannot be more than 30 characters']
+        },
+        role: {
+          type: String,
+          enum: {
+            values: COLUMN_ROLES,
+            message: '{VALUE} is not a valid column role'
+          }
+        },
+        // Inferred type and nullable flag, kept while the user overrides them
+        inferredType: { type: String },
+        inferredNullable: { type: Boolean },
+        // Fields the user has set, kept when the file is processed again
+        overridden: [{ type: String, enum: SCHEMA_FIELDS }],
+        // Null and distinct counts, top values, and for numeric and date columns
+        // summary statistics and a histogram (dates as ISO strings, std in days)
+        profile: {
+          kind: { type: String, enum: PROFILE_KINDS },
+          count: { type: Number },
+          nulls: { type: Number },
+          distinct: { type: Number },
+          min: { type: Schema.Types.Mixed },
+          max: { type: Schema.Types.Mixed },
+          mean: { type: Schema.Types.Mixed },
+          median: { type: Schema.Types.Mixed },
+          std: { type: Number },
+          topValues: [
+            {
+              _id: false,
+              value: { type: String },
+              count: { type: Number }
+            }
+          ],
+          histogram: [
+            {
+              _id: false,
+              from: { type: Schema.Types.Mixed },
+              to: { type: Schema.Types.Mixed },
+              count: { type: Number }
+            }
+          ]
+        },
+        // Personal data detected while processing
+        pii: {
+          kind: { type: String, enum: PII_KINDS },
+          confidence: { type: Number, min: 0, max: 100 }
+        },
+        // How the column's values are treated before they are sent to an AI provider
+        policy: {
+          type: String,
+          enum: {
+            values: COLUMN_POLICIES,
+            message: '{VALUE} is not a valid column policy'
+          },
+          default: 'send'
         }
       }
     ],
@@ -89,6 +210,39 @@ const datasetSchema = new Schema<IDataset>(
       default: 0,
       min: [0, 'Row count cannot be negative']
     },
+    // Sheets found in an Excel workbook while processing
+    sheets: [
+      {
+        _id: false,
+        name: { type: String, required: true },
+        rowCount: { type: Number, default: 0 },
+        columns: [{ type: String }]
+      }
+    ],
+    // Sheets this dataset reads: one, or several with the same columns stacked
+    sheetSelection: {
+      mode: {
+        type: String,
+        enum: {
+          values: ['single', 'stack'],
+          message: '{VALUE} is not a valid sheet mode'
+        }
+      },
+      sheets: [{ type: String }]
+    },
+    csvDialect: {
+      delimiter: { type: String },
+      quote: { type: String },
+      encoding: {
+        type: String,
+        enum: {
+          values: CSV_ENCODINGS,
+          message: '{VALUE} is not a supported encoding'
+        }
+      },
+      hasHeader: { type: Boolean },
+      skipLines: { type: Number, min: 0 }
+    },
     metadata: {
       uploadDate: {
         type: Date,
@@ -110,6 +264,22 @@ const datasetSchema = new Schema<IDataset>(
         type: String,
         default: ''
       },
+      // JSON Lines skipped while processing because they were not valid JSON objects
+      malformedLines: {
+        type: Number,
+        default: 0
+      },
+      malformedLineSamples: [
+        {
+          _id: false,
+          line: { type: Number },
+          error: { type: String }
+        }
+      ],
+      profiledRows: {
+        type: Number,
+        default: 0
+      },
       storageType: {
         type: String,
         enum: ['local', 'gcs', 'cloudinary'],
@@ -0,0 +1,88 @@
+import mongoose, { Document, Schema } from "mongoose";
+import type { IInsight } from "./Insight.js";
+
+export interface IGenerationCache extends Document {
+  key: string;
+  userId: mongoose.Types.ObjectId;
+  datasetId: mongoose.Types.ObjectId;
+  insightType: string;
+  promptVersion: string;
+  result: Pick<
+    IInsight,
+    | "title"
+    | "description"
+    | "confidence"
+    | "visualizations"
+    | "metrics"
+    | "recommendations"
+    | "factChecks"
+    | "structuredQuery"
+    | "aiModel"
+    | "aiProvider"
+    | "promptTemplate"
+    | "withheldColumns"
+    | "agentTrace"
+    | "provenance"
+  >;
+  hits: number;
+  lastHitAt?: Date;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+const generationCacheSchema = new Schema<IGenerationCache>(
+  {
+    // SHA-256 of dataset content hash, type, normalized query, model, prompt version and column policies
+    key: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    datasetId: {
+      type: Schema.Types.ObjectId,
+      ref: "Dataset",
+      required: true,
+      index: true,
+    },
+    insightType: {
+      type: String,
+      required: true,
+    },
+    promptVersion: {
+      type: String,
+      required: true,
+    },
+    // Validated generation output, with chart data already computed
+    result: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    hits: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    lastHitAt: {
+      type: Date,
+    },
+    // Entries are removed by MongoDB once they expire
+    expiresAt: {
+      type: Date,
+      required: true,
+      index: { expires: 0 },
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+export default mongoose.model<IGenerationCache>(
+  "GenerationCache",
+  generationCacheSchema
+);
@@ -1,8 +1,64 @@
 import mongoose, { Document, Schema } from "mongoose";
+import type { ChartSpec } from "../services/chartSpecService.js";
+import type { StructuredQuery } from "../services/queryService.js";
+import type { FactCheck } from "../services/factCheckService.js";
+import type { WithheldColumn } from "../services/privacyService.js";
+import type { AgentTrace } from "../services/insightAgentService.js";
+import type { ChatMessage } from "../services/llmService.js";
+import type { DatasetComparison } from "../services/datasetComparisonService.js";
+
+// How an AI insight was produced, enough to explain and replay it
+export interface InsightProvenance {
+  generatedAt: Date;
+  durationMs: number;
+  parameters: {
+    provider: string;
+    model: string;
+    mode?: "single" | "agent";
+    temperature?: number;
+    maxTokens?: number;
+    insightType: string;
+    query?: string;
+    structuredQuery?: StructuredQuery;
+    promptTemplate?: { insightType: string; version: number };
+  };
+  // Exact conversation sent for the accepted completion (empty for the statistical engine)
+  messages: ChatMessage[];
+  rawResponse?: string;
+  attempts?: number;
+  dataset: DatasetVersion;
+  // Earlier dataset of a comparison insight
+  baselineDataset?: DatasetVersion;
+}
+
+export interface DatasetVersion {
+  contentHash?: string;
+  rowCount: number;
+  columnCount: number;
+  lastModified?: Date;
+}
+
+// Earlier result of a regenerated insight
+export interface InsightRevision {
+  title: string;
+  description: string;
+  confidence: number;
+  visualizations: IInsight["visualizations"];
+  metrics: IInsight["metrics"];
+  recommendations: string[];
+  factChecks: FactCheck[];
+  aiModel?: string;
+  aiProvider?: IInsight["aiProvider"];
+  provenance?: InsightProvenance;
+  usage?: IInsight["usage"];
+  replacedAt: Date;
+}
 
 export interface IInsight extends Document {
   userId: mongoose.Types.ObjectId;
   datasetId: mongoose.Types.ObjectId;
+  // Comparison insights: the earlier dataset that datasetId is compared against
+  baselineDatasetId?: mongoose.Types.ObjectId;
   title: string;
   description: string;
   type:
@@ -11,22 +67,44 @@ export interface IInsight extends Document {
     | "correlation"
     | "prediction"
     | "summary"
-    | "custom";
+    | "custom"
+    | "comparison";
   aiGenerated: boolean;
+  cached: boolean;
   confidence: number;
   visualizations: Array<{
-    type: "line" | "bar" | "pie" | "scatter" | "heatmap" | "table";
+    type: "line" | "area" | "bar" | "pie" | "scatter" | "heatmap" | "table";
     data: any;
     config: any;
+    spec?: ChartSpec;
   }>;
   metrics: Array<{
     name: string;
     value: number | string;
     unit?: string;
+    trend?: "up" | "down" | "stable";
   }>;
   recommendations: string[];
+  factChecks: FactCheck[];
   query?: string;
+  structuredQuery?: StructuredQuery;
   aiModel?: string;
+  aiProvider?: "openai" | "local" | "fake" | "statistical";
+  promptTemplate?: {
+    insightType: string;
+    version: number;
+  };
+  withheldColumns?: WithheldColumn[];
+  agentTrace?: AgentTrace;
+  comparison?: DatasetComparison;
+  provenance?: InsightProvenance;
+  history: InsightRevision[];
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    cost: number;
+  };
   status: "draft" | "published" | "archived";
   tags: string[];
   sharedWith: mongoose.Types.ObjectId[];
@@ -56,6 +134,11 @@ const insightSchema = new Schema<IInsight>(
       required: [true, "Dataset ID is required"],
       index: true,
     },
+    baselineDatasetId: {
+      type: Schema.Types.ObjectId,
+      ref: "Dataset",
+      index: true,
+    },
     title: {
       type: String,
       required: [true, "Please provide a title for the insight"],
@@ -78,6 +161,7 @@ const insightSchema = new Schema<IInsight>(
           "prediction",
           "summary",
           "custom",
+          "comparison",
         ],
         message: "{VALUE} is not a valid insight type",
       },
@@ -87,6 +171,11 @@ const insightSchema = new Schema<IInsight>(
       type: Boolean,
       default: false,
     },
+    // Served from the generation cache rather than a new completion
+    cached: {
+      type: Boolean,
+      default: false,
+    },
     confidence: {
       type: Number,
       min: [0, "Confidence must be at least 0"],
@@ -97,7 +186,7 @@ const insightSchema = new Schema<IInsight>(
       {
         type: {
           type: String,
-          enum: ["line", "bar", "pie", "scatter", "heatmap", "table"],
+          enum: ["line", "area", "bar", "pie", "scatter", "heatmap", "table"],
           required: true,
         },
         data: {
@@ -108,6 +197,10 @@ const insightSchema = new Schema<IInsight>(
           type: Schema.Types.Mixed,
           default: {},
         },
+        // Chart spec the data was computed from, kept so it can be re-run
+        spec: {
+          type: Schema.Types.Mixed,
+        },
       },
     ],
     metrics: [
@@ -125,6 +218,10 @@ const insightSchema = new Schema<IInsight>(
           type: String,
           trim: true,
         },
+        trend: {
+          type: String,
+          enum: ["up", "down", "stable"],
+        },
       },
     ],
     recommendations: [
@@ -134,15 +231,109 @@ const insightSchema = new Schema<IInsight>(
         maxlength: [500, "Each recommendation cannot exceed 500 characters"],
       },
     ],
+    // Numeric claims of the description and metrics, checked against the dataset rows
+    factChecks: [
+      {
+        _id: false,
+        source: {
+          type: String,
+          enum: ["description", "metric"],
+          required: true,
+        },
+        text: { type: String },
+        claim: { type: String, required: true },
+        value: { type: Number, required: true },
+        unit: { type: String },
+        status: {
+          type: String,
+          enum: ["verified", "unverifiable", "contradicted"],
+          required: true,
+        },
+        expected: { type: Number },
+        basis: { type: String },
+        start: { type: Number },
+        end: { type: Number },
+        metricIndex: { type: Number },
+      },
+    ],
     query: {
       type: String,
       trim: true,
       maxlength: [1000, "Query cannot exceed 1000 characters"],
     },
+    // Validated, executable form of the query (filters, group-by, measures, sort, limit)
+    structuredQuery: {
+      type: Schema.Types.Mixed,
+    },
     aiModel: {
       type: String,
       trim: true,
     },
+    aiProvider: {
+      type: String,
+      enum: ["openai", "local", "fake", "statistical"],
+    },
+    // Prompt template version the insight was generated with (0 is built-in)
+    promptTemplate: {
+      insightType: { type: String },
+      version: { type: Number, min: 0 },
+    },
+    // Columns masked, hashed or left out of the prompts behind this insight
+    withheldColumns: {
+      type: [
+        {
+          _id: false,
+          name: { type: String, required: true },
+          policy: {
+            type: String,
+            enum: ["mask", "hash", "exclude"],
+            required: true,
+          },
+          kind: { type: String },
+        },
+      ],
+      default: undefined,
+    },
+    // Tool calls made by the analysis agent, in order, when it generated the insight
+    agentTrace: {
+      type: {
+        _id: false,
+        maxSteps: { type: Number, min: 1 },
+        steps: [
+          {
+            _id: false,
+            step: { type: Number, required: true },
+            tool: { type: String, required: true },
+            arguments: { type: Schema.Types.Mixed },
+            reason: { type: String },
+            result: { type: Schema.Types.Mixed },
+            error: { type: String },
+            durationMs: { type: Number, min: 0 },
+          },
+        ],
+      },
+      default: undefined,
+    },
+    // Schema differences, distribution shifts and changed aggregates of a comparison insight
+    comparison: {
+      type: Schema.Types.Mixed,
+    },
+    // Prompt, parameters, raw response and dataset version behind the result
+    provenance: {
+      type: Schema.Types.Mixed,
+    },
+    // Previous results, newest last, kept when the insight is regenerated
+    history: {
+      type: Schema.Types.Mixed,
+      default: () => [],
+    },
+    // Tokens and estimated cost (USD) of the model calls behind this insight
+    usage: {
+      promptTokens: { type: Number, min: 0 },
+      completionTokens: { type: Number, min: 0 },
+      totalTokens: { type: Number, min: 0 },
+      cost: { type: Number, min: 0 },
+    },
     status: {
       type: String,
       enum: ["draft", "published", "archived"],
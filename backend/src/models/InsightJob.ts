@@ -0,0 +1,108 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export type InsightJobStatus =
+  | "queued"
+  | "running"
+  | "completed"
+  | "partial"
+  | "failed";
+
+export interface IInsightJobItem {
+  _id: mongoose.Types.ObjectId;
+  insightType: string;
+  status: "pending" | "running" | "completed" | "failed";
+  insightId?: mongoose.Types.ObjectId;
+  error?: string;
+  startedAt?: Date;
+  completedAt?: Date;
+}
+
+export interface IInsightJob extends Document {
+  userId: mongoose.Types.ObjectId;
+  datasetId: mongoose.Types.ObjectId;
+  status: InsightJobStatus;
+  items: mongoose.Types.DocumentArray<IInsightJobItem>;
+  options: {
+    provider?: string;
+    model?: string;
+  };
+  error?: string;
+  startedAt?: Date;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const insightJobItemSchema = new Schema<IInsightJobItem>({
+  insightType: {
+    type: String,
+    required: true,
+  },
+  status: {
+    type: String,
+    enum: ["pending", "running", "completed", "failed"],
+    default: "pending",
+  },
+  insightId: {
+    type: Schema.Types.ObjectId,
+    ref: "Insight",
+  },
+  error: {
+    type: String,
+  },
+  startedAt: {
+    type: Date,
+  },
+  completedAt: {
+    type: Date,
+  },
+});
+
+// Background job that generates one insight per type for a dataset
+const insightJobSchema = new Schema<IInsightJob>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User ID is required"],
+    },
+    datasetId: {
+      type: Schema.Types.ObjectId,
+      ref: "Dataset",
+      required: [true, "Dataset ID is required"],
+    },
+    // completed: every item succeeded; partial: some failed; failed: none succeeded
+    status: {
+      type: String,
+      enum: ["queued", "running", "completed", "partial", "failed"],
+      default: "queued",
+    },
+    items: [insightJobItemSchema],
+    options: {
+      provider: { type: String },
+      model: { type: String },
+    },
+    error: {
+      type: String,
+    },
+    startedAt: {
+      type: Date,
+    },
+    completedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+insightJobSchema.index({ userId: 1, createdAt: -1 });
+insightJobSchema.index({ datasetId: 1, createdAt: -1 });
+// At most one queued or running pack per dataset, even when requests race
+insightJobSchema.index(
+  { datasetId: 1 },
+  { unique: true, partialFilterExpression: { status: { $in: ["queued", "running"] } } }
+);
+
+export default mongoose.model<IInsightJob>("InsightJob", insightJobSchema);
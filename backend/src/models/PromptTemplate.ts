@@ -0,0 +1,73 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface IPromptTemplate extends Document {
+  insightType: string;
+  version: number;
+  systemPrompt: string;
+  userPrompt: string;
+  notes?: string;
+  isActive: boolean;
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+// Versions are immutable: an edit creates the next version for the insight type
+const promptTemplateSchema = new Schema<IPromptTemplate>(
+  {
+    insightType: {
+      type: String,
+      required: [true, "Insight type is required"],
+      enum: {
+        values: [
+          "trend",
+          "anomaly",
+          "correlation",
+          "prediction",
+          "summary",
+          "custom",
+        ],
+        message: "{VALUE} is not a valid insight type",
+      },
+    },
+    version: {
+      type: Number,
+      required: true,
+      min: [1, "Version must be at least 1"],
+    },
+    systemPrompt: {
+      type: String,
+      required: [true, "Please provide a system prompt"],
+      maxlength: [20000, "System prompt cannot be more than 20000 characters"],
+    },
+    userPrompt: {
+      type: String,
+      required: [true, "Please provide a user prompt"],
+      maxlength: [20000, "User prompt cannot be more than 20000 characters"],
+    },
+    notes: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Notes cannot be more than 500 characters"],
+    },
+    // At most one active version per insight type; none means the built-in prompt
+    isActive: {
+      type: Boolean,
+      default: false,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+promptTemplateSchema.index({ insightType: 1, version: -1 }, { unique: true });
+promptTemplateSchema.index({ insightType: 1, isActive: 1 });
+
+export default mongoose.model<IPromptTemplate>(
+  "PromptTemplate",
+  promptTemplateSchema
+);
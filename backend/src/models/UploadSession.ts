@@ -0,0 +1,109 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export type UploadSessionStatus = "uploading" | "completing" | "completed";
+
+export interface IUploadSession extends Document {
+  userId: mongoose.Types.ObjectId;
+  fileName: string;
+  fileSize: number;
+  fileType: "csv" | "json" | "jsonl" | "excel" | "parquet" | "arrow";
+  lastModified?: number;
+  chunkSize: number;
+  totalParts: number;
+  receivedParts: number[];
+  name?: string;
+  description?: string;
+  tags: string[];
+  sheetMode?: "single" | "stack" | "split";
+  status: UploadSessionStatus;
+  datasetId?: mongoose.Types.ObjectId;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Resumable chunked upload; parts are kept on disk until the session completes
+const uploadSessionSchema = new Schema<IUploadSession>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User ID is required"],
+    },
+    fileName: {
+      type: String,
+      required: [true, "File name is required"],
+    },
+    fileSize: {
+      type: Number,
+      required: [true, "File size is required"],
+      min: [1, "File size must be positive"],
+    },
+    fileType: {
+      type: String,
+      enum: ["csv", "json", "jsonl", "excel", "parquet", "arrow"],
+      required: [true, "File type is required"],
+    },
+    // Browser-reported modification time, so a resumed upload can match the same file
+    lastModified: {
+      type: Number,
+    },
+    chunkSize: {
+      type: Number,
+      required: true,
+    },
+    totalParts: {
+      type: Number,
+      required: true,
+    },
+    receivedParts: {
+      type: [Number],
+      default: [],
+    },
+    name: {
+      type: String,
+      trim: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+    },
+    tags: [
+      {
+        type: String,
+        trim: true,
+        lowercase: true,
+      },
+    ],
+    // Excel: how the workbook's sheets are read once the file is processed
+    sheetMode: {
+      type: String,
+      enum: ["single", "stack", "split"],
+    },
+    status: {
+      type: String,
+      enum: ["uploading", "completing", "completed"],
+      default: "uploading",
+    },
+    datasetId: {
+      type: Schema.Types.ObjectId,
+      ref: "Dataset",
+    },
+    // Pushed forward on every part; abandoned sessions are purged after this
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+uploadSessionSchema.index({ userId: 1, createdAt: -1 });
+uploadSessionSchema.index({ expiresAt: 1 });
+
+export default mongoose.model<IUploadSession>(
+  "UploadSession",
+  uploadSessionSchema
+);
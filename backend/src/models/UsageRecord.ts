@@ -0,0 +1,82 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface IUsageRecord extends Document {
+  userId: mongoose.Types.ObjectId;
+  datasetId?: mongoose.Types.ObjectId;
+  insightId?: mongoose.Types.ObjectId;
+  conversationId?: mongoose.Types.ObjectId;
+  operation: "insight" | "chat" | "query";
+  provider: "openai" | "local" | "fake";
+  aiModel: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+  createdAt: Date;
+}
+
+// Append-only ledger: one record per completed model call
+const usageRecordSchema = new Schema<IUsageRecord>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User ID is required"],
+    },
+    datasetId: {
+      type: Schema.Types.ObjectId,
+      ref: "Dataset",
+    },
+    insightId: {
+      type: Schema.Types.ObjectId,
+      ref: "Insight",
+    },
+    conversationId: {
+      type: Schema.Types.ObjectId,
+      ref: "Conversation",
+    },
+    operation: {
+      type: String,
+      enum: ["insight", "chat", "query"],
+      required: [true, "Operation is required"],
+    },
+    provider: {
+      type: String,
+      enum: ["openai", "local", "fake"],
+      required: [true, "Provider is required"],
+    },
+    aiModel: {
+      type: String,
+      required: [true, "Model is required"],
+      trim: true,
+    },
+    promptTokens: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    completionTokens: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    totalTokens: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    // Estimated cost in USD
+    cost: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+usageRecordSchema.index({ userId: 1, createdAt: -1 });
+
+export default mongoose.model<IUsageRecord>("UsageRecord", usageRecordSchema);
@@ -8,6 +8,15 @@ export interface IUser extends Document {
   role: "user" | "admin";
   avatar?: string;
   isActive: boolean;
+  aiPreferences?: {
+    provider?: "openai" | "local" | "fake";
+    model?: string;
+  };
+  // Per-user monthly limits; unset fields fall back to the role's quota
+  aiQuota?: {
+    monthlyTokens?: number;
+    monthlyCost?: number;
+  };
   createdAt: Date;
   updatedAt: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
@@ -51,6 +60,30 @@ const userSchema = new Schema<IUser>(
       type: Boolean,
       default: true,
     },
+    aiPreferences: {
+      provider: {
+        type: String,
+        enum: {
+          values: ["openai", "local", "fake"],
+          message: "{VALUE} is not a valid AI provider",
+        },
+      },
+      model: {
+        type: String,
+        trim: true,
+        maxlength: [100, "Model name cannot be more than 100 characters"],
+      },
+    },
+    aiQuota: {
+      monthlyTokens: {
+        type: Number,
+        min: [0, "Token quota cannot be negative"],
+      },
+      monthlyCost: {
+        type: Number,
+        min: [0, "Cost quota cannot be negative"],
+      },
+    },
   },
   {
     timestamps: true,
@@ -60,7 +93,7 @@ const userSchema = new Schema<IUser>(
 // Hash password before saving
 userSchema.pre("save", async function (next) {
   if (!this.isModified("password")) {
-    next();
+    return next();
   }
   const salt = await bcrypt.genSalt(10);
   this.password = await bcrypt.hash(this.password, salt);
@@ -0,0 +1,33 @@
+import express from "express";
+import {
+  getConversations,
+  createConversation,
+  getConversation,
+  deleteConversation,
+  sendMessage,
+  saveMessageAsInsight,
+} from "../controllers/chatController.js";
+import { rateLimitByUser, enforceAIQuota } from "../middleware/auth.js";
+
+// Mounted at /api/datasets/:id/chat (protected by the dataset router)
+const router = express.Router({ mergeParams: true });
+
+// Chat threads
+router.get("/", getConversations);
+router.post("/", createConversation);
+router.get("/:conversationId", getConversation);
+router.delete("/:conversationId", deleteConversation);
+
+// Messages (AI answers share the generation rate limit and quota)
+router.post(
+  "/:conversationId/messages",
+  rateLimitByUser(20, 60000),
+  enforceAIQuota,
+  sendMessage
+);
+router.post(
+  "/:conversationId/messages/:messageId/insight",
+  saveMessageAsInsight
+);
+
+export default router;
@@ -3,6 +3,8 @@ import {
   getDatasets,
   getDataset,
   updateDataset,
+  updateColumnPolicies,
+  updateDatasetSchema,
   deleteDataset,
   getDatasetStats,
   getDatasetPreview,
@@ -10,6 +12,7 @@ import {
   duplicateDataset,
 } from "../controllers/datasetController.js";
 import { protect, rateLimitByUser } from "../middleware/auth.js";
+import chatRoutes from "./chatRoutes.js";
 
 const router = express.Router();
 
@@ -25,6 +28,8 @@ router.get("/", getDatasets);
 
 // Dataset operations
 router.put("/:id", updateDataset);
+router.put("/:id/privacy", updateColumnPolicies);
+router.put("/:id/schema", updateDatasetSchema);
 router.delete("/:id", deleteDataset);
 
 // Dataset analytics and utilities
@@ -33,4 +38,7 @@ router.get("/:id/preview", getDatasetPreview);
 router.get("/:id/download", rateLimitByUser(10, 60000), downloadDataset); // 10 downloads per minute
 router.post("/:id/duplicate", duplicateDataset);
 
+// Conversational analysis threads
+router.use("/:id/chat", chatRoutes);
+
 export default router;
@@ -6,7 +6,19 @@ import {
   updateInsight,
   deleteInsight,
   generateAIInsight,
+  streamAIInsight,
+  regenerateInsight,
+  generateComparisonInsight,
+  getAIProviders,
+  translateQuery,
+  runQuery,
+  createInsightPackJob,
+  getInsightJobs,
+  getInsightJob,
+  retryInsightJob,
   duplicateInsight,
+  refreshVisualizations,
+  factCheckInsightClaims,
   getInsightsByDataset,
   getInsightStats,
   shareInsight,
@@ -14,7 +26,11 @@ import {
   publishInsight,
   archiveInsight,
 } from "../controllers/insightController.js";
-import { protect, rateLimitByUser } from "../middleware/auth.js";
+import {
+  protect,
+  rateLimitByUser,
+  enforceAIQuota,
+} from "../middleware/auth.js";
 
 const router = express.Router();
 
@@ -26,8 +42,25 @@ router.use(protect);
 // Insight statistics and analytics
 router.get("/stats", getInsightStats);
 
-// AI insight generation (with rate limiting to prevent abuse)
-router.post("/generate", rateLimitByUser(20, 60000), generateAIInsight); // 20 AI requests per minute
+// AI providers available to the current user
+router.get("/providers", getAIProviders);
+
+// AI insight generation (with rate limiting and monthly quotas to prevent abuse)
+router.post("/generate", rateLimitByUser(20, 60000), enforceAIQuota, generateAIInsight); // 20 AI requests per minute
+router.post("/generate/stream", rateLimitByUser(20, 60000), enforceAIQuota, streamAIInsight); // progress as Server-Sent Events
+
+router.post("/compare", rateLimitByUser(20, 60000), enforceAIQuota, generateComparisonInsight); // two versions of a dataset
+router.post("/:id/regenerate", rateLimitByUser(20, 60000), regenerateInsight); // same setup, current data; quota checked against the replayed provider
+
+// Natural-language query translation and execution
+router.post("/query/translate", rateLimitByUser(20, 60000), enforceAIQuota, translateQuery);
+router.post("/query/run", runQuery);
+
+// Background insight packs (one insight per type for a dataset)
+router.get("/jobs", getInsightJobs);
+router.post("/jobs", rateLimitByUser(20, 60000), enforceAIQuota, createInsightPackJob);
+router.get("/jobs/:jobId", getInsightJob);
+router.post("/jobs/:jobId/retry", rateLimitByUser(20, 60000), enforceAIQuota, retryInsightJob);
 
 // Get insights by dataset
 router.get("/dataset/:datasetId", getInsightsByDataset);
@@ -41,6 +74,8 @@ router.delete("/:id", deleteInsight);
 
 // Insight utilities
 router.post("/:id/duplicate", duplicateInsight);
+router.post("/:id/visualizations/refresh", refreshVisualizations);
+router.post("/:id/fact-check", factCheckInsightClaims);
 
 // Insight sharing
 router.post("/:id/share", shareInsight);
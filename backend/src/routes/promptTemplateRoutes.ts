@@ -0,0 +1,25 @@
+import express from "express";
+import {
+  getPromptTemplates,
+  getPromptTemplateVersions,
+  createPromptTemplateVersion,
+  activatePromptTemplateVersion,
+} from "../controllers/promptTemplateController.js";
+import { protect, authorize } from "../middleware/auth.js";
+
+const router = express.Router();
+
+// ============================================
+// Prompt templates are managed by admins only
+// ============================================
+router.use(protect, authorize("admin"));
+
+router.get("/", getPromptTemplates);
+router.get("/:insightType", getPromptTemplateVersions);
+router.post("/:insightType", createPromptTemplateVersion);
+router.post(
+  "/:insightType/versions/:version/activate",
+  activatePromptTemplateVersion
+);
+
+export default router;
@@ -4,6 +4,11 @@ import {
   processFile,
   getUploadStatus,
   validateFile,
+  createUploadSession,
+  getUploadSession,
+  uploadPart,
+  completeUploadSession,
+  cancelUploadSession,
 } from "../controllers/uploadController.js";
 import { protect } from "../middleware/auth.js";
 import {
@@ -31,6 +36,7 @@ router.use(protect);
  *          - file: File (required)
  *          - name: string (optional)
  *          - description: string (optional)
+ *          - sheetMode: single | stack | split, for Excel (optional)
  *          - tags: string[] as JSON (optional)
  */
 router.post(
@@ -50,6 +56,52 @@ router.post(
  */
 router.post("/validate", upload.single("file"), validateFile);
 
+// ============================================
+// Resumable Chunked Upload Routes
+// ============================================
+
+/**
+ * @route   POST /api/upload/sessions
+ * @desc    Start a chunked upload; returns the chunk size and part count
+ * @access  Private
+ * @body    {fileName, fileSize, lastModified?, name?, description?, tags?, sheetMode?}
+ */
+router.post("/sessions", createUploadSession);
+
+/**
+ * @route   GET /api/upload/sessions/:sessionId
+ * @desc    Get received and missing parts, to resume an interrupted upload
+ * @access  Private
+ * @param   sessionId - Upload session ID
+ */
+router.get("/sessions/:sessionId", getUploadSession);
+
+/**
+ * @route   PUT /api/upload/sessions/:sessionId/parts/:index
+ * @desc    Upload one part; re-sending a part replaces it
+ * @access  Private
+ * @param   sessionId - Upload session ID
+ * @param   index - Zero-based part number
+ * @body    application/octet-stream - the part's bytes
+ */
+router.put("/sessions/:sessionId/parts/:index", uploadPart);
+
+/**
+ * @route   POST /api/upload/sessions/:sessionId/complete
+ * @desc    Assemble all parts and create the dataset
+ * @access  Private
+ * @param   sessionId - Upload session ID
+ */
+router.post("/sessions/:sessionId/complete", completeUploadSession);
+
+/**
+ * @route   DELETE /api/upload/sessions/:sessionId
+ * @desc    Cancel a chunked upload and delete its parts
+ * @access  Private
+ * @param   sessionId - Upload session ID
+ */
+router.delete("/sessions/:sessionId", cancelUploadSession);
+
 // ============================================
 // Processing Routes
 // ============================================
@@ -59,6 +111,8 @@ router.post("/validate", upload.single("file"), validateFile);
  * @desc    Manually trigger file processing for a dataset
  * @access  Private
  * @param   datasetId - Dataset ID
+ * @body    sheets - Optional Excel sheet selection { mode: single|stack|split, sheets? }
+ *          csv - Optional CSV dialect overrides { delimiter?, quote?, encoding?, hasHeader?, skipLines? }
  */
 router.post("/:datasetId/process", processFile);
 
@@ -5,8 +5,10 @@ import {
   getProfile,
   updateProfile,
   deleteAccount,
+  getUsage,
+  updateUserQuota,
 } from "../controllers/userController.js";
-import { protect } from "../middleware/auth.js";
+import { protect, authorize } from "../middleware/auth.js";
 
 const router = express.Router();
 
@@ -18,6 +20,10 @@ router.post("/login", login);
 router.get("/profile", protect, getProfile);
 router.put("/profile", protect, updateProfile);
 router.delete("/account", protect, deleteAccount);
+router.get("/usage", protect, getUsage);
+
+// Admin routes
+router.put("/:id/quota", protect, authorize("admin"), updateUserQuota);
 
 // TODO: Add change password route
 
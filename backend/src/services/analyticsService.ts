@@ -0,0 +1,760 @@
+import type { IInsight } from '../models/Insight.js';
+import type { DatasetRow } from './datasetRowsService.js';
+import { columnGroup, type SchemaColumn } from './schemaService.js';
+
+/**
+ * Local statistical insight engine.
+ * Computes trend, anomaly, correlation, prediction and summary insights
+ * directly from dataset rows - deterministic and usable without an LLM.
+ */
+
+export const STATISTICAL_ENGINE_MODEL = 'statistical-engine';
+
+export type InsightType = IInsight['type'];
+
+export interface GeneratedInsight {
+  title: string;
+  description: string;
+  confidence: number; // 0-100, same scale as Insight.confidence
+  visualizations: Array<{
+    type: IInsight['visualizations'][number]['type'];
+    data: any;
+    config: any;
+  }>;
+  metrics: Array<{
+    name: string;
+    value: number | string;
+    unit?: string;
+  }>;
+  recommendations: string[];
+}
+
+export interface DatasetInfo {
+  name: string;
+  columns: SchemaColumn[];
+}
+
+export interface ColumnGroups {
+  numeric: string[];
+  temporal: string[];
+  categorical: string[];
+}
+
+interface Series {
+  column: string;
+  labels: string[];
+  values: number[];
+}
+
+const MAX_CHART_POINTS = 30;
+const MAX_CORRELATION_COLUMNS = 15;
+const FORECAST_PERIODS = 5;
+const TITLE_MAX_LENGTH = 150;
+
+/**
+ * Generate an insight of the requested type from dataset rows
+ */
+export function generateStatisticalInsight(
+  dataset: DatasetInfo,
+  rows: DatasetRow[],
+  type: string,
+  query?: string
+): GeneratedInsight {
+  const columns = resolveColumnNames(dataset, rows);
+  const groups = classifyColumns(rows, columns, dataset.columns);
+
+  switch (type) {
+    case 'trend':
+      return buildTrendInsight(dataset, rows, groups);
+    case 'anomaly':
+      return buildAnomalyInsight(dataset, rows, groups);
+    case 'correlation':
+      return buildCorrelationInsight(dataset, rows, groups);
+    case 'prediction':
+      return buildPredictionInsight(dataset, rows, groups);
+    case 'custom':
+      return buildCustomInsight(dataset, rows, columns, groups, query);
+    case 'summary':
+    default:
+      return buildSummaryInsight(dataset, rows, columns, groups);
+  }
+}
+
+// ============================================
+// Insight Builders
+// ============================================
+
+function buildTrendInsight(
+  dataset: DatasetInfo,
+  rows: DatasetRow[],
+  groups: ColumnGroups
+): GeneratedInsight {
+  const best = findStrongestTrend(rows, groups);
+  if (!best) return notEnoughNumericData(dataset, 'Trend Analysis', rows.length);
+
+  const { series, fit } = best;
+  const change = percentChange(series.values);
+  const direction = trendDirection(fit.r2, change);
+  const orderedBy = groups.temporal[0] || 'row order';
+
+  return {
+    title: truncate(`Trend Analysis: ${series.column} is ${directionLabel(direction)} in ${dataset.name}`),
+    description:
+      `Across ${series.values.length} observations ordered by ${orderedBy}, ` +
+      `${series.column} ${direction === 'stable' ? 'stayed broadly stable' : `moved ${direction}`} ` +
+      `(${formatSigned(change)}% from the start to the end of the series). ` +
+      `A linear fit explains ${round(fit.r2 * 100, 1)}% of the variance (slope ${round(fit.slope, 4)} per step).`,
+    confidence: scoreConfidence(fit.r2, series.values.length),
+    visualizations: [
+      {
+        type: 'line',
+        data: downsample(series).map((point) => ({ name: point.label, [series.column]: point.value })),
+        config: {
+          title: `${series.column} over ${orderedBy}`,
+          xKey: 'name',
+          lines: [{ dataKey: series.column, name: series.column }]
+        }
+      }
+    ],
+    metrics: [
+      { name: `${series.column} change`, value: round(change, 2), unit: '%' },
+      { name: 'Slope per step', value: round(fit.slope, 4) },
+      { name: 'R²', value: round(fit.r2, 3) },
+      { name: 'Data points', value: series.values.length, unit: 'rows' }
+    ],
+    recommendations: trendRecommendations(series.column, direction, fit.r2)
+  };
+}
+
+function buildAnomalyInsight(
+  dataset: DatasetInfo,
+  rows: DatasetRow[],
+  groups: ColumnGroups
+): GeneratedInsight {
+  const results = groups.numeric
+    .map((column) => detectOutliers(column, numericValues(rows, column)))
+    .filter((r): r is OutlierResult => r !== null)
+    .sort((a, b) => b.count - a.count);
+
+  if (results.length === 0) return notEnoughNumericData(dataset, 'Anomaly Detection', rows.length);
+
+  const total = results.reduce((sum, r) => sum + r.count, 0);
+  const top = results[0];
+  const checked = results.reduce((sum, r) => sum + r.sampleSize, 0);
+  const rate = checked > 0 ? (total / checked) * 100 : 0;
+
+  const description =
+    total === 0
+      ? `No values fell outside the 1.5×IQR fences across ${results.length} numeric columns in ${dataset.name}.`
+      : `Found ${total} outlying values across ${results.length} numeric columns in ${dataset.name} ` +
+        `(${round(rate, 2)}% of checked values). ${top.column} is the most affected with ${top.count} ` +
+        `value${top.count === 1 ? '' : 's'} outside [${round(top.lowerFence, 2)}, ${round(top.upperFence, 2)}]; ` +
+        `the most extreme lies ${round(top.maxZ, 2)} standard deviations from the mean.`;
+
+  return {
+    title: truncate(`Anomaly Detection: ${total} outlier${total === 1 ? '' : 's'} in ${dataset.name}`),
+    description,
+    confidence: scoreConfidence(total === 0 ? 0.8 : Math.min(1, top.maxZ / 5), checked),
+    visualizations: [
+      {
+        type: 'bar',
+        data: results.slice(0, MAX_CHART_POINTS).map((r) => ({ name: r.column, value: r.count })),
+        config: {
+          title: 'Outliers per column',
+          xKey: 'name',
+          bars: [{ dataKey: 'value', name: 'Outliers' }]
+        }
+      }
+    ],
+    metrics: [
+      { name: 'Anomalies Found', value: total, unit: 'count' },
+      { name: 'Anomaly Rate', value: round(rate, 2), unit: '%' },
+      { name: 'Most Affected Column', value: top.column },
+      { name: 'Max Deviation', value: round(top.maxZ, 2), unit: 'σ' }
+    ],
+    recommendations:
+      total === 0
+        ? ['No action needed - values are within expected ranges', 'Re-run detection after new data is added']
+        : [
+            `Review the ${top.count} outlying rows in ${top.column} for data entry errors`,
+            `Confirm whether values above ${round(top.upperFence, 2)} in ${top.column} reflect real events`,
+            'Exclude or cap confirmed errors before building forecasts',
+            'Set up alerts for values outside the computed fences'
+          ]
+  };
+}
+
+function buildCorrelationInsight(
+  dataset: DatasetInfo,
+  rows: DatasetRow[],
+  groups: ColumnGroups
+): GeneratedInsight {
+  const columns = groups.numeric.slice(0, MAX_CORRELATION_COLUMNS);
+  const pairs: Array<{ a: string; b: string; r: number; n: number }> = [];
+
+  for (let i = 0; i < columns.length; i++) {
+    for (let j = i + 1; j < columns.length; j++) {
+      const { xs, ys } = pairedValues(rows, columns[i], columns[j]);
+      const r = pearson(xs, ys);
+      if (r !== null) pairs.push({ a: columns[i], b: columns[j], r, n: xs.length });
+    }
+  }
+
+  if (pairs.length === 0) {
+    return notEnoughNumericData(dataset, 'Correlation Analysis', rows.length, 2);
+  }
+
+  pairs.sort((p, q) => Math.abs(q.r) - Math.abs(p.r));
+  const top = pairs[0];
+  const strong = pairs.filter((p) => Math.abs(p.r) >= 0.7);
+
+  return {
+    title: truncate(`Correlation Analysis: ${top.a} and ${top.b} in ${dataset.name}`),
+    description:
+      `Computed Pearson correlations for ${pairs.length} pairs of numeric columns. ` +
+      `The strongest relationship is between ${top.a} and ${top.b} (r = ${round(top.r, 3)}, ` +
+      `${correlationStrength(top.r)} ${top.r >= 0 ? 'positive' : 'negative'}, n = ${top.n}). ` +
+      `${strong.length} pair${strong.length === 1 ? '' : 's'} show a strong correlation (|r| ≥ 0.7).`,
+    confidence: scoreConfidence(Math.abs(top.r), top.n),
+    visualizations: [
+      {
+        type: 'bar',
+        data: pairs.slice(0, 10).map((p) => ({ name: `${p.a} ↔ ${p.b}`, value: round(p.r, 3) })),
+        config: {
+          title: 'Strongest correlations (Pearson r)',
+          xKey: 'name',
+          bars: [{ dataKey: 'value', name: 'r' }]
+        }
+      }
+    ],
+    metrics: [
+      { name: 'Correlation Coefficient', value: round(top.r, 3), unit: 'coefficient' },
+      { name: 'R-Squared', value: round(top.r * top.r, 3), unit: 'coefficient' },
+      { name: 'Pairs Analysed', value: pairs.length, unit: 'count' },
+      { name: 'Strong Pairs', value: strong.length, unit: 'count' }
+    ],
+    recommendations: [
+      Math.abs(top.r) >= 0.7
+        ? `Use ${top.a} as a predictor of ${top.b} (or vice versa) in forecasting models`
+        : 'No strong linear relationships found - consider non-linear or segmented analysis',
+      'Verify causation with domain experts before acting on correlations',
+      'Monitor correlation stability as new data arrives'
+    ]
+  };
+}
+
+function buildPredictionInsight(
+  dataset: DatasetInfo,
+  rows: DatasetRow[],
+  groups: ColumnGroups
+): GeneratedInsight {
+  const best = findStrongestTrend(rows, groups);
+  if (!best) return notEnoughNumericData(dataset, 'Predictive Analysis', rows.length);
+
+  const points = downsample(best.series);
+  const fit = linearRegression(points.map((_, i) => i), points.map((p) => p.value));
+  if (!fit) return notEnoughNumericData(dataset, 'Predictive Analysis', rows.length);
+
+  const column = best.series.column;
+  const forecast = Array.from({ length: FORECAST_PERIODS }, (_, k) =>
+    fit.intercept + fit.slope * (points.length + k)
+  );
+  const lastActual = points[points.length - 1].value;
+  const finalForecast = forecast[forecast.length - 1];
+  const predictedChange = lastActual !== 0 ? ((finalForecast - lastActual) / Math.abs(lastActual)) * 100 : 0;
+  const residualStd = standardDeviation(points.map((p, i) => p.value - (fit.intercept + fit.slope * i)));
+
+  const data = [
+    ...points.map((p, i) => ({
+      name: p.label,
+      actual: round(p.value, 4),
+      ...(i === points.length - 1 ? { forecast: round(p.value, 4) } : {})
+    })),
+    ...forecast.map((value, k) => ({ name: `Period +${k + 1}`, forecast: round(value, 4) }))
+  ];
+
+  return {
+    title: truncate(`Predictive Analysis: ${column} forecast for ${dataset.name}`),
+    description:
+      `A linear model fitted to ${points.length} aggregated periods of ${column} ` +
+      `(R² = ${round(fit.r2, 3)}) projects a value of ${round(finalForecast, 2)} ` +
+      `${FORECAST_PERIODS} periods ahead, ${formatSigned(predictedChange)}% versus the latest period. ` +
+      `Typical deviation from the fit is ±${round(residualStd, 2)}.`,
+    confidence: scoreConfidence(fit.r2 * 0.9, best.series.values.length),
+    visualizations: [
+      {
+        type: 'line',
+        data,
+        config: {
+          title: `${column}: actual vs forecast`,
+          xKey: 'name',
+          lines: [
+            { dataKey: 'actual', name: 'Actual' },
+            { dataKey: 'forecast', name: 'Forecast' }
+          ]
+        }
+      }
+    ],
+    metrics: [
+      { name: `Forecast ${column}`, value: round(finalForecast, 2) },
+      { name: 'Predicted Change', value: round(predictedChange, 2), unit: '%' },
+      { name: 'Confidence Interval', value: `±${round(residualStd * 1.96, 2)}` },
+      { name: 'Model Fit (R²)', value: round(fit.r2, 3) }
+    ],
+    recommendations: [
+      fit.r2 >= 0.5
+        ? `Use the ${column} forecast for short-term planning`
+        : `Treat the ${column} forecast with caution - the linear fit is weak`,
+      'Refresh the forecast as new periods are added',
+      'Compare forecasts against actuals to track accuracy'
+    ]
+  };
+}
+
+function buildSummaryInsight(
+  dataset: DatasetInfo,
+  rows: DatasetRow[],
+  columns: string[],
+  groups: ColumnGroups
+): GeneratedInsight {
+  const completenessByColumn = columns.map((column) => ({
+    name: column,
+    value: rows.length > 0 ? round((countPresent(rows, column) / rows.length) * 100, 1) : 0
+  }));
+  const totalCells = rows.length * columns.length;
+  const presentCells = completenessByColumn.reduce((sum, c) => sum + (c.value / 100) * rows.length, 0);
+  const completeness = totalCells > 0 ? (presentCells / totalCells) * 100 : 0;
+  const sparse = completenessByColumn.filter((c) => c.value < 80);
+
+  const numericMetrics = groups.numeric.slice(0, 3).map((column) => ({
+    name: `Average ${column}`,
+    value: round(mean(numericValues(rows, column)), 2)
+  }));
+
+  const recommendations: string[] = [];
+  if (sparse.length > 0) {
+    recommendations.push(
+      `Fill or drop missing values in ${sparse.slice(0, 3).map((c) => c.name).join(', ')}`
+    );
+  }
+  if (groups.temporal.length > 0 && groups.numeric.length > 0) {
+    recommendations.push(`Run a trend analysis over ${groups.temporal[0]}`);
+  }
+  if (groups.numeric.length >= 2) {
+    recommendations.push('Run a correlation analysis across the numeric columns');
+  }
+  recommendations.push('Run anomaly detection before building reports on this data');
+
+  return {
+    title: truncate(`Data Summary: ${dataset.name}`),
+    description:
+      `${dataset.name} contains ${rows.length} rows and ${columns.length} columns ` +
+      `(${groups.numeric.length} numeric, ${groups.temporal.length} date, ${groups.categorical.length} categorical). ` +
+      `Overall completeness is ${round(completeness, 1)}%` +
+      (sparse.length > 0 ? `; ${sparse.length} column${sparse.length === 1 ? ' is' : 's are'} less than 80% filled.` : '.'),
+    confidence: scoreConfidence(completeness / 100, rows.length),
+    visualizations: [
+      {
+        type: 'bar',
+        data: completenessByColumn.slice(0, MAX_CHART_POINTS),
+        config: {
+          title: 'Completeness per column (%)',
+          xKey: 'name',
+          bars: [{ dataKey: 'value', name: 'Filled %' }]
+        }
+      }
+    ],
+    metrics: [
+      { name: 'Total Records', value: rows.length, unit: 'rows' },
+      { name: 'Columns', value: columns.length, unit: 'fields' },
+      { name: 'Completeness', value: round(completeness, 1), unit: '%' },
+      ...numericMetrics
+    ],
+    recommendations
+  };
+}
+
+function buildCustomInsight(
+  dataset: DatasetInfo,
+  rows: DatasetRow[],
+  columns: string[],
+  groups: ColumnGroups,
+  query?: string
+): GeneratedInsight {
+  const mentioned = query
+    ? columns.filter((c) => query.toLowerCase().includes(c.toLowerCase()))
+    : [];
+  if (mentioned.length === 0) {
+    const summary = buildSummaryInsight(dataset, rows, columns, groups);
+    return {
+      ...summary,
+      title: truncate(`Custom Analysis: ${dataset.name}`),
+      description: query ? `${summary.description} Query: "${query}".` : summary.description
+    };
+  }
+
+  const metrics: GeneratedInsight['metrics'] = [];
+  const visualizations: GeneratedInsight['visualizations'] = [];
+
+  mentioned.forEach((column) => {
+    if (groups.numeric.includes(column)) {
+      const values = numericValues(rows, column);
+      metrics.push(
+        { name: `Average ${column}`, value: round(mean(values), 2) },
+        { name: `Min ${column}`, value: round(values.reduce((a, b) => Math.min(a, b), Infinity), 2) },
+        { name: `Max ${column}`, value: round(values.reduce((a, b) => Math.max(a, b), -Infinity), 2) }
+      );
+    } else {
+      const counts = valueCounts(rows, column).slice(0, 10);
+      if (counts.length > 0) {
+        metrics.push({ name: `Most common ${column}`, value: counts[0].name });
+        visualizations.push({
+          type: 'bar',
+          data: counts,
+          config: { title: `Top values of ${column}`, xKey: 'name', bars: [{ dataKey: 'value', name: 'Rows' }] }
+        });
+      }
+    }
+  });
+
+  return {
+    title: truncate(`Custom Analysis: ${mentioned.join(', ')} in ${dataset.name}`),
+    description:
+      `Analysis of ${mentioned.join(', ')} across ${rows.length} rows of ${dataset.name}` +
+      (query ? ` for the query "${query}".` : '.'),
+    confidence: scoreConfidence(0.7, rows.length),
+    visualizations,
+    metrics,
+    recommendations: [
+      'Validate findings with domain experts',
+      'Save this analysis as a recurring report if it is useful'
+    ]
+  };
+}
+
+function notEnoughNumericData(
+  dataset: DatasetInfo,
+  label: string,
+  rowCount: number,
+  required = 1
+): GeneratedInsight {
+  return {
+    title: truncate(`${label}: ${dataset.name}`),
+    description:
+      `${dataset.name} does not have enough numeric data for this analysis ` +
+      `(needs at least ${required} numeric column${required === 1 ? '' : 's'} with 3 or more values; ${rowCount} rows available).`,
+    confidence: 10,
+    visualizations: [],
+    metrics: [{ name: 'Total Records', value: rowCount, unit: 'rows' }],
+    recommendations: ['Check that numeric columns were detected correctly', 'Try a summary insight instead']
+  };
+}
+
+// ============================================
+// Column Helpers
+// ============================================
+
+export function resolveColumnNames(dataset: DatasetInfo, rows: DatasetRow[]): string[] {
+  if (dataset.columns?.length) return dataset.columns.map((c) => c.name);
+  const names = new Set<string>();
+  rows.slice(0, 100).forEach((row) => Object.keys(row).forEach((k) => names.add(k)));
+  return Array.from(names);
+}
+
+/**
+ * Classify columns by their actual values rather than the stored type,
+ * which may label numeric strings as dates. A role or type set by the user
+ * in the schema wins over the values.
+ */
+export function classifyColumns(rows: DatasetRow[], columns: string[], schema: SchemaColumn[] = []): ColumnGroups {
+  const groups: ColumnGroups = { numeric: [], temporal: [], categorical: [] };
+
+  columns.forEach((column) => {
+    const forced = columnGroup(schema.find((c) => c.name === column));
+    if (forced) {
+      groups[forced].push(column);
+      return;
+    }
+    const present = rows.map((row) => row[column]).filter(isPresent);
+    if (present.length < 3) {
+      groups.categorical.push(column);
+      return;
+    }
+    const numericShare = present.filter((v) => toNumber(v) !== null).length / present.length;
+    const dateShare = present.filter((v) => toDate(v) !== null).length / present.length;
+
+    if (numericShare >= 0.8) groups.numeric.push(column);
+    else if (dateShare >= 0.8) groups.temporal.push(column);
+    else groups.categorical.push(column);
+  });
+
+  return groups;
+}
+
+function findStrongestTrend(
+  rows: DatasetRow[],
+  groups: ColumnGroups
+): { series: Series; fit: RegressionFit } | null {
+  const ordered = orderRows(rows, groups.temporal[0]);
+  let best: { series: Series; fit: RegressionFit } | null = null;
+
+  groups.numeric.forEach((column) => {
+    const series = buildSeries(ordered, column, groups.temporal[0]);
+    const fit = linearRegression(series.values.map((_, i) => i), series.values);
+    if (fit && (!best || fit.r2 > best.fit.r2)) best = { series, fit };
+  });
+
+  return best;
+}
+
+function orderRows(rows: DatasetRow[], timeColumn?: string): DatasetRow[] {
+  if (!timeColumn) return rows;
+  return rows
+    .filter((row) => toDate(row[timeColumn]) !== null)
+    .sort((a, b) => toDate(a[timeColumn])!.getTime() - toDate(b[timeColumn])!.getTime());
+}
+
+function buildSeries(rows: DatasetRow[], column: string, timeColumn?: string): Series {
+  const labels: string[] = [];
+  const values: number[] = [];
+
+  rows.forEach((row, i) => {
+    const value = toNumber(row[column]);
+    if (value === null) return;
+    values.push(value);
+    labels.push(timeColumn ? toDate(row[timeColumn])!.toISOString().slice(0, 10) : `#${i + 1}`);
+  });
+
+  return { column, labels, values };
+}
+
+/**
+ * Average a long series into at most MAX_CHART_POINTS buckets
+ */
+function downsample(series: Series): Array<{ label: string; value: number }> {
+  const size = Math.max(1, Math.ceil(series.values.length / MAX_CHART_POINTS));
+  const points: Array<{ label: string; value: number }> = [];
+
+  for (let start = 0; start < series.values.length; start += size) {
+    const bucket = series.values.slice(start, start + size);
+    points.push({ label: series.labels[start], value: round(mean(bucket), 4) });
+  }
+
+  return points;
+}
+
+function numericValues(rows: DatasetRow[], column: string): number[] {
+  return rows.map((row) => toNumber(row[column])).filter((v): v is number => v !== null);
+}
+
+function pairedValues(rows: DatasetRow[], a: string, b: string): { xs: number[]; ys: number[] } {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  rows.forEach((row) => {
+    const x = toNumber(row[a]);
+    const y = toNumber(row[b]);
+    if (x !== null && y !== null) {
+      xs.push(x);
+      ys.push(y);
+    }
+  });
+  return { xs, ys };
+}
+
+export function valueCounts(rows: DatasetRow[], column: string): Array<{ name: string; value: number }> {
+  const counts = new Map<string, number>();
+  rows.forEach((row) => {
+    if (!isPresent(row[column])) return;
+    const key = String(row[column]);
+    counts.set(key, (counts.get(key) || 0) + 1);
+  });
+  return Array.from(counts.entries())
+    .map(([name, value]) => ({ name, value }))
+    .sort((a, b) => b.value - a.value);
+}
+
+function countPresent(rows: DatasetRow[], column: string): number {
+  return rows.filter((row) => isPresent(row[column])).length;
+}
+
+export function isPresent(value: any): boolean {
+  return value !== null && value !== undefined && value !== '';
+}
+
+export function toNumber(value: any): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  const cleaned = value.trim().replace(/^[$€£]/, '').replace(/,/g, '');
+  if (cleaned === '') return null;
+  const parsed = Number(cleaned);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+export function toDate(value: any): Date | null {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  // Plain numbers parse as years with Date.parse - they are not dates
+  if (toNumber(value) !== null) return null;
+  const time = Date.parse(value);
+  return isNaN(time) ? null : new Date(time);
+}
+
+// ============================================
+// Statistics
+// ============================================
+
+interface RegressionFit {
+  slope: number;
+  intercept: number;
+  r2: number;
+}
+
+interface OutlierResult {
+  column: string;
+  count: number;
+  sampleSize: number;
+  lowerFence: number;
+  upperFence: number;
+  maxZ: number;
+}
+
+export function mean(values: number[]): number {
+  if (values.length === 0) return 0;
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+export function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (values.length - 1));
+}
+
+export function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+  const pos = (sorted.length - 1) * q;
+  const base = Math.floor(pos);
+  const rest = pos - base;
+  return sorted[base + 1] !== undefined
+    ? sorted[base] + rest * (sorted[base + 1] - sorted[base])
+    : sorted[base];
+}
+
+export function pearson(xs: number[], ys: number[]): number | null {
+  if (xs.length < 3 || xs.length !== ys.length) return null;
+  const mx = mean(xs);
+  const my = mean(ys);
+  let num = 0, dx = 0, dy = 0;
+  for (let i = 0; i < xs.length; i++) {
+    num += (xs[i] - mx) * (ys[i] - my);
+    dx += (xs[i] - mx) ** 2;
+    dy += (ys[i] - my) ** 2;
+  }
+  if (dx === 0 || dy === 0) return null;
+  return num / Math.sqrt(dx * dy);
+}
+
+export function linearRegression(xs: number[], ys: number[]): RegressionFit | null {
+  if (xs.length < 3 || xs.length !== ys.length) return null;
+  const mx = mean(xs);
+  const my = mean(ys);
+  let sxy = 0, sxx = 0, syy = 0;
+  for (let i = 0; i < xs.length; i++) {
+    sxy += (xs[i] - mx) * (ys[i] - my);
+    sxx += (xs[i] - mx) ** 2;
+    syy += (ys[i] - my) ** 2;
+  }
+  if (sxx === 0) return null;
+  const slope = sxy / sxx;
+  const r2 = syy === 0 ? 0 : (sxy * sxy) / (sxx * syy);
+  return { slope, intercept: my - slope * mx, r2 };
+}
+
+function detectOutliers(column: string, values: number[]): OutlierResult | null {
+  if (values.length < 4) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const iqr = q3 - q1;
+  const lowerFence = q1 - 1.5 * iqr;
+  const upperFence = q3 + 1.5 * iqr;
+  const avg = mean(values);
+  const std = standardDeviation(values);
+
+  let count = 0, maxZ = 0;
+  values.forEach((v) => {
+    if (v < lowerFence || v > upperFence) count++;
+    if (std > 0) maxZ = Math.max(maxZ, Math.abs(v - avg) / std);
+  });
+
+  return { column, count, sampleSize: values.length, lowerFence, upperFence, maxZ };
+}
+
+export function percentChange(values: number[]): number {
+  if (values.length < 2) return 0;
+  const window = Math.max(1, Math.floor(values.length / 10));
+  const start = mean(values.slice(0, window));
+  const end = mean(values.slice(-window));
+  if (start === 0) return 0;
+  return ((end - start) / Math.abs(start)) * 100;
+}
+
+function trendDirection(r2: number, change: number): 'up' | 'down' | 'stable' {
+  if (r2 < 0.1 || Math.abs(change) < 2) return 'stable';
+  return change > 0 ? 'up' : 'down';
+}
+
+function directionLabel(direction: 'up' | 'down' | 'stable'): string {
+  if (direction === 'up') return 'trending up';
+  if (direction === 'down') return 'trending down';
+  return 'stable';
+}
+
+function trendRecommendations(column: string, direction: 'up' | 'down' | 'stable', r2: number): string[] {
+  const recommendations = [
+    direction === 'up'
+      ? `Investigate the drivers behind the growth in ${column}`
+      : direction === 'down'
+        ? `Investigate the causes of the decline in ${column}`
+        : `${column} is stable - focus monitoring on sudden deviations`
+  ];
+  if (r2 < 0.5) recommendations.push('The trend is noisy - consider seasonal or segmented analysis');
+  recommendations.push('Set up alerts for significant deviations from the trend');
+  return recommendations;
+}
+
+function correlationStrength(r: number): string {
+  const abs = Math.abs(r);
+  if (abs >= 0.7) return 'strong';
+  if (abs >= 0.4) return 'moderate';
+  if (abs >= 0.2) return 'weak';
+  return 'negligible';
+}
+
+/**
+ * Combine signal strength (0-1) and sample size into a 0-100 confidence score
+ */
+function scoreConfidence(strength: number, sampleSize: number): number {
+  const sampleFactor = Math.min(1, Math.log10(Math.max(sampleSize, 1)) / 3);
+  const score = 30 + Math.max(0, Math.min(1, strength)) * 55 + sampleFactor * 15;
+  return Math.round(Math.max(5, Math.min(99, score)));
+}
+
+export function round(value: number, decimals: number): number {
+  if (!Number.isFinite(value)) return 0;
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+function formatSigned(value: number): string {
+  const rounded = round(value, 2);
+  return rounded > 0 ? `+${rounded}` : `${rounded}`;
+}
+
+function truncate(text: string): string {
+  return text.length > TITLE_MAX_LENGTH ? `${text.slice(0, TITLE_MAX_LENGTH - 1)}…` : text;
+}
+
+export default {
+  generateStatisticalInsight,
+  STATISTICAL_ENGINE_MODEL
+};
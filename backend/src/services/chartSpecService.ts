@@ -0,0 +1,297 @@
+import type { DatasetRow } from './datasetRowsService.js';
+import type { ValidationResult } from './llmService.js';
+import { isPresent, round, toDate, toNumber } from './analyticsService.js';
+
+/**
+ * Chart specs: the model describes a chart (type, columns, aggregation,
+ * filters, limit) and the server computes its data from the real rows.
+ */
+
+export const CHART_TYPES = ['line', 'area', 'bar', 'pie', 'scatter', 'table'] as const;
+export const AGGREGATIONS = ['sum', 'avg', 'count', 'min', 'max', 'none'] as const;
+export const FILTER_OPERATORS = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'contains', 'in'] as const;
+
+export type ChartType = (typeof CHART_TYPES)[number];
+export type Aggregation = (typeof AGGREGATIONS)[number];
+export type FilterOperator = (typeof FILTER_OPERATORS)[number];
+
+export interface ChartFilter {
+  column: string;
+  operator: FilterOperator;
+  value: any;
+}
+
+export interface ChartSpec {
+  chartType: ChartType;
+  title?: string;
+  xColumn: string;
+  yColumn?: string;
+  aggregation: Aggregation;
+  filters: ChartFilter[];
+  limit: number;
+}
+
+export interface ComputedVisualization {
+  type: ChartType;
+  data: DatasetRow[];
+  config: Record<string, any>;
+  spec: ChartSpec;
+}
+
+const DEFAULT_LIMIT = 20;
+const DEFAULT_LINE_LIMIT = 50;
+const DEFAULT_SCATTER_LIMIT = 200;
+const MAX_LIMIT = 500;
+
+/**
+ * Validate a model-written chart spec against the dataset's columns
+ */
+export function validateChartSpec(raw: unknown, columns: string[], path = 'spec'): ValidationResult<ChartSpec> {
+  const errors: string[] = [];
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { errors: [`${path} must be an object`] };
+  }
+  const spec = raw as Record<string, any>;
+  const known = new Set(columns);
+  const columnList = columns.join(', ');
+
+  const chartType = typeof spec.chartType === 'string' ? spec.chartType.trim().toLowerCase() : spec.chartType;
+  if (!(CHART_TYPES as readonly unknown[]).includes(chartType)) {
+    errors.push(`${path}.chartType must be one of ${CHART_TYPES.join(', ')}`);
+  }
+
+  const aggregation = spec.aggregation === undefined ? 'none' : String(spec.aggregation).trim().toLowerCase();
+  if (!(AGGREGATIONS as readonly string[]).includes(aggregation)) {
+    errors.push(`${path}.aggregation must be one of ${AGGREGATIONS.join(', ')}`);
+  }
+
+  if (typeof spec.xColumn !== 'string' || !known.has(spec.xColumn)) {
+    errors.push(`${path}.xColumn must be one of the dataset columns: ${columnList}`);
+  }
+  if (spec.yColumn !== undefined && spec.yColumn !== null && (typeof spec.yColumn !== 'string' || !known.has(spec.yColumn))) {
+    errors.push(`${path}.yColumn must be one of the dataset columns: ${columnList}`);
+  }
+  if (!spec.yColumn && aggregation !== 'count') {
+    errors.push(`${path}.yColumn is required unless aggregation is "count"`);
+  }
+  if (chartType === 'scatter' && aggregation !== 'none') {
+    errors.push(`${path}.aggregation must be "none" for scatter charts`);
+  }
+
+  const filters = validateFilters(spec.filters, columns, `${path}.filters`, errors);
+
+  const requestedLimit = spec.limit === undefined ? undefined : Number(spec.limit);
+  if (requestedLimit !== undefined && (!Number.isInteger(requestedLimit) || requestedLimit < 1)) {
+    errors.push(`${path}.limit must be a positive integer`);
+  }
+
+  if (errors.length > 0) return { errors };
+
+  return {
+    value: {
+      chartType,
+      ...(typeof spec.title === 'string' && spec.title.trim() ? { title: spec.title.trim() } : {}),
+      xColumn: spec.xColumn,
+      ...(spec.yColumn ? { yColumn: spec.yColumn } : {}),
+      aggregation: aggregation as Aggregation,
+      filters,
+      limit: Math.min(requestedLimit || defaultLimit(chartType), MAX_LIMIT)
+    },
+    errors
+  };
+}
+
+/**
+ * Validate row filters against the dataset's columns
+ */
+export function validateFilters(raw: unknown, columns: string[], path: string, errors: string[]): ChartFilter[] {
+  const known = new Set(columns);
+  const columnList = columns.join(', ');
+  const filters: ChartFilter[] = [];
+  if (raw !== undefined && !Array.isArray(raw)) {
+    errors.push(`${path} must be an array`);
+  }
+  (Array.isArray(raw) ? raw : []).forEach((filter: any, i: number) => {
+    const filterPath = `${path}[${i}]`;
+    if (typeof filter !== 'object' || filter === null) {
+      errors.push(`${filterPath} must be an object`);
+    } else if (!known.has(filter.column)) {
+      errors.push(`${filterPath}.column must be one of the dataset columns: ${columnList}`);
+    } else if (!(FILTER_OPERATORS as readonly unknown[]).includes(filter.operator)) {
+      errors.push(`${filterPath}.operator must be one of ${FILTER_OPERATORS.join(', ')}`);
+    } else if (filter.operator === 'in' && !Array.isArray(filter.value)) {
+      errors.push(`${filterPath}.value must be an array for the "in" operator`);
+    } else {
+      filters.push({ column: filter.column, operator: filter.operator, value: filter.value });
+    }
+  });
+  return filters;
+}
+
+function defaultLimit(chartType: ChartType): number {
+  if (chartType === 'line' || chartType === 'area') return DEFAULT_LINE_LIMIT;
+  if (chartType === 'scatter') return DEFAULT_SCATTER_LIMIT;
+  return DEFAULT_LIMIT;
+}
+
+/**
+ * Run a chart spec against the dataset rows and build renderable data
+ */
+export function executeChartSpec(spec: ChartSpec, rows: DatasetRow[]): ComputedVisualization {
+  const filtered = rows.filter((row) => spec.filters.every((filter) => matchesFilter(row[filter.column], filter)));
+  const title = spec.title || describeChartSpec(spec);
+
+  if (spec.chartType === 'scatter' || spec.aggregation === 'none') {
+    const points = filtered
+      .filter((row) => isPresent(row[spec.xColumn]) && (!spec.yColumn || isPresent(row[spec.yColumn])))
+      .slice(0, spec.limit);
+
+    if (spec.chartType === 'scatter') {
+      return {
+        type: 'scatter',
+        data: points
+          .map((row) => ({ x: toNumber(row[spec.xColumn]), y: toNumber(row[spec.yColumn!]) }))
+          .filter((p) => p.x !== null && p.y !== null),
+        config: { title, xLabel: spec.xColumn, yLabel: spec.yColumn },
+        spec
+      };
+    }
+
+    const data = points.map((row) => ({
+      name: String(row[spec.xColumn]),
+      value: spec.yColumn ? toNumber(row[spec.yColumn]) ?? row[spec.yColumn] : 1
+    }));
+    return { type: spec.chartType, data: sortForChart(data, spec), config: buildConfig(spec, title), spec };
+  }
+
+  const groups = new Map<string, number[]>();
+  filtered.forEach((row) => {
+    if (!isPresent(row[spec.xColumn])) return;
+    const key = String(row[spec.xColumn]);
+    if (!groups.has(key)) groups.set(key, []);
+    if (spec.aggregation === 'count') {
+      groups.get(key)!.push(1);
+    } else {
+      const value = toNumber(row[spec.yColumn!]);
+      if (value !== null) groups.get(key)!.push(value);
+    }
+  });
+
+  const data = Array.from(groups.entries())
+    .filter(([, values]) => values.length > 0)
+    .map(([name, values]) => ({ name, value: round(aggregate(values, spec.aggregation), 4) }));
+
+  return {
+    type: spec.chartType,
+    data: sortForChart(data, spec).slice(0, spec.limit),
+    config: buildConfig(spec, title),
+    spec
+  };
+}
+
+/**
+ * Human-readable summary of a spec, e.g. "Sum of revenue by region"
+ */
+export function describeChartSpec(spec: ChartSpec): string {
+  const measure =
+    spec.aggregation === 'count'
+      ? 'Count of rows'
+      : spec.aggregation === 'none'
+        ? spec.yColumn
+        : `${AGGREGATION_LABELS[spec.aggregation]} of ${spec.yColumn}`;
+  return `${measure} by ${spec.xColumn}`;
+}
+
+const AGGREGATION_LABELS: Record<Aggregation, string> = {
+  sum: 'Sum',
+  avg: 'Average',
+  count: 'Count',
+  min: 'Minimum',
+  max: 'Maximum',
+  none: 'Value'
+};
+
+/**
+ * Test one cell value against a filter
+ */
+export function matchesFilter(value: any, filter: ChartFilter): boolean {
+  switch (filter.operator) {
+    case 'eq':
+      return compare(value, filter.value) === 0;
+    case 'neq':
+      return compare(value, filter.value) !== 0;
+    case 'gt':
+      return compare(value, filter.value) > 0;
+    case 'gte':
+      return compare(value, filter.value) >= 0;
+    case 'lt':
+      return compare(value, filter.value) < 0;
+    case 'lte':
+      return compare(value, filter.value) <= 0;
+    case 'contains':
+      return String(value ?? '').toLowerCase().includes(String(filter.value).toLowerCase());
+    case 'in':
+      return (filter.value as any[]).some((candidate) => compare(value, candidate) === 0);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Compare numbers numerically, dates chronologically and everything else as text
+ */
+export function compare(a: any, b: any): number {
+  const na = toNumber(a), nb = toNumber(b);
+  if (na !== null && nb !== null) return na - nb;
+  const da = toDate(a), db = toDate(b);
+  if (da && db) return da.getTime() - db.getTime();
+  return String(a ?? '').localeCompare(String(b ?? ''));
+}
+
+/**
+ * Reduce a group's values with the given aggregation
+ */
+export function aggregate(values: number[], aggregation: Aggregation): number {
+  switch (aggregation) {
+    case 'sum':
+    case 'count':
+      return values.reduce((sum, v) => sum + v, 0);
+    case 'avg':
+      return values.reduce((sum, v) => sum + v, 0) / values.length;
+    case 'min':
+      return values.reduce((a, b) => Math.min(a, b), Infinity);
+    case 'max':
+      return values.reduce((a, b) => Math.max(a, b), -Infinity);
+    default:
+      return values[0];
+  }
+}
+
+function sortForChart(data: Array<{ name: string; value: any }>, spec: ChartSpec) {
+  // Lines and areas read left to right along x; bars, pies and tables rank by value
+  if (spec.chartType === 'line' || spec.chartType === 'area') return [...data].sort((a, b) => compare(a.name, b.name));
+  return [...data].sort((a, b) => (toNumber(b.value) ?? 0) - (toNumber(a.value) ?? 0));
+}
+
+function buildConfig(spec: ChartSpec, title: string): Record<string, any> {
+  const seriesName = spec.aggregation === 'count' ? 'Count' : spec.yColumn || 'Value';
+  switch (spec.chartType) {
+    case 'line':
+      return { title, xKey: 'name', lines: [{ dataKey: 'value', name: seriesName }] };
+    case 'area':
+      return { title, xKey: 'name', areas: [{ dataKey: 'value', name: seriesName }] };
+    case 'pie':
+      return { title, nameKey: 'name', valueKey: 'value' };
+    case 'table':
+      return { title, columns: [spec.xColumn, seriesName] };
+    default:
+      return { title, xKey: 'name', bars: [{ dataKey: 'value', name: seriesName }] };
+  }
+}
+
+export default {
+  validateChartSpec,
+  validateFilters,
+  executeChartSpec,
+  describeChartSpec
+};
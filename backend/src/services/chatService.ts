@@ -0,0 +1,167 @@
+import type { IDataset } from '../models/Dataset.js';
+import type { IInsight } from '../models/Insight.js';
+import type { DatasetRow } from './datasetRowsService.js';
+import { buildDatasetContext } from './datasetContextService.js';
+import { executeChartSpec, type ChartSpec } from './chartSpecService.js';
+import { validateChartSpecs, validateMetrics } from './insightValidationService.js';
+import {
+  completeJSON,
+  estimateTokens,
+  type ChatMessage,
+  type CompletionResult,
+  type ResolvedProvider,
+  type ValidationResult
+} from './llmService.js';
+import {
+  generateStatisticalInsight,
+  resolveColumnNames,
+  STATISTICAL_ENGINE_MODEL
+} from './analyticsService.js';
+
+/**
+ * Conversational analysis over a dataset. Each answer is grounded in the
+ * dataset context and the most recent turns of the thread.
+ */
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ValidatedChatAnswer {
+  answer: string;
+  visualizations: ChartSpec[];
+  metrics: IInsight['metrics'];
+}
+
+export interface ChatAnswer {
+  answer: string;
+  visualizations: IInsight['visualizations'];
+  metrics: IInsight['metrics'];
+  aiModel: string;
+  aiProvider: string;
+  completion?: CompletionResult;
+}
+
+const ANSWER_MAX_LENGTH = 4000;
+const DEFAULT_HISTORY_TOKEN_BUDGET = 1500;
+const MAX_HISTORY_TURNS = 20;
+
+/**
+ * Validate a model chat response: a prose answer plus optional chart specs and metrics
+ */
+export function validateChatAnswer(raw: unknown, columns: string[]): ValidationResult<ValidatedChatAnswer> {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { errors: ['Response must be a JSON object'] };
+  }
+  const response = raw as Record<string, any>;
+  const errors: string[] = [];
+
+  if (typeof response.answer !== 'string' || response.answer.trim() === '') {
+    errors.push('answer must be a non-empty string');
+  } else if (response.answer.trim().length > ANSWER_MAX_LENGTH) {
+    errors.push(`answer must be at most ${ANSWER_MAX_LENGTH} characters`);
+  }
+  const visualizations = validateChartSpecs(response.visualizations, columns, errors);
+  const metrics = validateMetrics(response.metrics, errors);
+
+  if (errors.length > 0) return { errors };
+  return { value: { answer: response.answer.trim(), visualizations, metrics }, errors };
+}
+
+/**
+ * Keep the most recent turns that fit the history budget, oldest first
+ */
+export function selectHistory(turns: ChatTurn[], tokenBudget?: number): ChatTurn[] {
+  const budget =
+    tokenBudget || parseInt(process.env.AI_CHAT_HISTORY_TOKEN_BUDGET || '') || DEFAULT_HISTORY_TOKEN_BUDGET;
+  const selected: ChatTurn[] = [];
+  let used = 0;
+
+  for (const turn of turns.slice(-MAX_HISTORY_TURNS).reverse()) {
+    const cost = estimateTokens(turn.content);
+    if (used + cost > budget) break;
+    selected.unshift(turn);
+    used += cost;
+  }
+
+  // A thread should not open on an orphaned assistant reply
+  while (selected.length > 0 && selected[0].role === 'assistant') selected.shift();
+  return selected;
+}
+
+/**
+ * Answer a question about the dataset with the LLM, remembering earlier turns
+ */
+export async function answerWithLLM(
+  llm: ResolvedProvider,
+  dataset: IDataset,
+  rows: DatasetRow[],
+  history: ChatTurn[],
+  question: string
+): Promise<ChatAnswer> {
+  const datasetContext = await buildDatasetContext(dataset, { rows });
+  const columns = resolveColumnNames(dataset, rows);
+
+  const systemPrompt = `You are a data analysis assistant in an ongoing conversation about one dataset.
+Answer the user's latest question using the dataset information below and earlier turns of the conversation.
+Dataset Information (column statistics are computed over all ${datasetContext.context.rowCount} rows; sampleRows is a representative subset):
+${datasetContext.text}
+
+Return your response as a valid JSON object with the following structure:
+{
+  "answer": "Direct answer to the question, citing concrete numbers",
+  "visualizations": [
+    {
+      "chartType": "line|area|bar|pie|scatter|table",
+      "title": "Chart title",
+      "xColumn": "column to group by (x axis)",
+      "yColumn": "numeric column to measure (y axis)",
+      "aggregation": "sum|avg|count|min|max|none",
+      "filters": [{ "column": "...", "operator": "eq|neq|gt|gte|lt|lte|contains|in", "value": "..." }],
+      "limit": 20
+    }
+  ],
+  "metrics": [{ "name": "Metric name", "value": 0, "unit": "optional", "trend": "up|down|stable" }]
+}
+Rules: answer is at most ${ANSWER_MAX_LENGTH} characters. visualizations and metrics may be empty arrays.
+Chart columns must be exact column names from the dataset; the server computes chart data from the full dataset.`;
+
+  const messages: ChatMessage[] = [
+    { role: 'system', content: systemPrompt },
+    ...selectHistory(history),
+    { role: 'user', content: question }
+  ];
+
+  const { value, completion } = await completeJSON(llm, messages, (raw) => validateChatAnswer(raw, columns));
+
+  return {
+    answer: value.answer,
+    visualizations: value.visualizations.map((spec) => executeChartSpec(spec, rows)),
+    metrics: value.metrics,
+    aiModel: completion.model,
+    aiProvider: completion.provider,
+    completion
+  };
+}
+
+/**
+ * Answer without an LLM by running the statistical engine on the question
+ */
+export function answerStatistically(dataset: IDataset, rows: DatasetRow[], question: string): ChatAnswer {
+  const insight = generateStatisticalInsight(dataset, rows, 'custom', question);
+  return {
+    answer: insight.description,
+    visualizations: insight.visualizations,
+    metrics: insight.metrics,
+    aiModel: STATISTICAL_ENGINE_MODEL,
+    aiProvider: 'statistical'
+  };
+}
+
+export default {
+  validateChatAnswer,
+  selectHistory,
+  answerWithLLM,
+  answerStatistically
+};
@@ -0,0 +1,170 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import UploadSession from '../models/UploadSession.js';
+
+/**
+ * Resumable chunked uploads. The client sends a file in fixed-size parts;
+ * each part is streamed to a temp directory, so neither the request nor the
+ * file has to fit in memory. A part is written to a scratch file and renamed
+ * once complete, so a dropped connection never leaves a half-written part
+ * behind and the client only re-sends what is missing.
+ */
+
+export const UPLOAD_CHUNK_SIZE = parseInt(process.env.UPLOAD_CHUNK_SIZE || '') || 5 * 1024 * 1024;
+export const MAX_CHUNKED_UPLOAD_SIZE = parseInt(process.env.MAX_CHUNKED_UPLOAD_SIZE || '') || 500 * 1024 * 1024;
+
+// Idle time after which an unfinished session and its parts are discarded
+export const UPLOAD_SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+const UPLOAD_ROOT = process.env.UPLOAD_TMP_DIR || path.join(os.tmpdir(), 'dataset-uploads');
+
+export interface AssembledUpload {
+  filePath: string;
+  size: number;
+  contentHash: string;
+}
+
+// ============================================
+// Part layout
+// ============================================
+
+export function sessionDir(sessionId: string): string {
+  return path.join(UPLOAD_ROOT, sessionId);
+}
+
+function partPath(sessionId: string, index: number): string {
+  return path.join(sessionDir(sessionId), `${index}.part`);
+}
+
+export function partCount(fileSize: number, chunkSize: number): number {
+  return Math.ceil(fileSize / chunkSize);
+}
+
+/**
+ * Size a part must have: the chunk size, except for a shorter last part
+ */
+export function expectedPartSize(fileSize: number, chunkSize: number, index: number): number {
+  return Math.min(chunkSize, fileSize - index * chunkSize);
+}
+
+export function missingParts(received: number[], totalParts: number): number[] {
+  const have = new Set(received);
+  const missing: number[] = [];
+  for (let index = 0; index < totalParts; index++) {
+    if (!have.has(index)) missing.push(index);
+  }
+  return missing;
+}
+
+export function sessionExpiry(): Date {
+  return new Date(Date.now() + UPLOAD_SESSION_TTL_MS);
+}
+
+// ============================================
+// Storage
+// ============================================
+
+/**
+ * Stream one part to disk. Rejects, keeping nothing, when the connection drops
+ * or the part does not have the expected size; a part that runs past it is cut
+ * off as soon as it does, so a request cannot fill the disk.
+ */
+export async function writePart(
+  sessionId: string,
+  index: number,
+  source: Readable,
+  expectedSize: number
+): Promise<void> {
+  const target = partPath(sessionId, index);
+  const scratch = `${target}.${Date.now()}.tmp`;
+  await fs.promises.mkdir(sessionDir(sessionId), { recursive: true });
+
+  try {
+    await pipeline(source, sizeLimit(index, expectedSize), fs.createWriteStream(scratch));
+    const { size } = await fs.promises.stat(scratch);
+    if (size !== expectedSize) {
+      throw new Error(`Part ${index} has ${size} bytes, expected ${expectedSize}`);
+    }
+    await fs.promises.rename(scratch, target);
+  } catch (error) {
+    await fs.promises.rm(scratch, { force: true });
+    throw error;
+  }
+}
+
+function sizeLimit(index: number, limit: number): Transform {
+  let received = 0;
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      received += chunk.length;
+      if (received > limit) callback(new Error(`Part ${index} is larger than ${limit} bytes`));
+      else callback(null, chunk);
+    }
+  });
+}
+
+/**
+ * Concatenate all parts into one file, hashing it on the way
+ */
+export async function assembleParts(sessionId: string, totalParts: number): Promise<AssembledUpload> {
+  const filePath = path.join(sessionDir(sessionId), 'upload');
+  const hash = createHash('sha256');
+  const output = fs.createWriteStream(filePath);
+  let size = 0;
+
+  try {
+    for (let index = 0; index < totalParts; index++) {
+      for await (const chunk of fs.createReadStream(partPath(sessionId, index))) {
+        hash.update(chunk);
+        size += chunk.length;
+        if (!output.write(chunk)) {
+          await new Promise<void>((resolve) => output.once('drain', () => resolve()));
+        }
+      }
+    }
+  } finally {
+    await new Promise<void>((resolve, reject) => {
+      output.end((error?: Error | null) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  return { filePath, size, contentHash: hash.digest('hex') };
+}
+
+export async function removeSessionFiles(sessionId: string): Promise<void> {
+  await fs.promises.rm(sessionDir(sessionId), { recursive: true, force: true });
+}
+
+/**
+ * Drop sessions nobody touched within the TTL, together with their parts
+ */
+export async function purgeExpiredSessions(): Promise<number> {
+  const expired = await UploadSession.find({
+    status: { $ne: 'completed' },
+    expiresAt: { $lt: new Date() }
+  }).select('_id');
+
+  for (const session of expired) {
+    await removeSessionFiles(session.id.toString());
+  }
+  if (expired.length > 0) {
+    await UploadSession.deleteMany({ _id: { $in: expired.map((session) => session._id) } });
+  }
+  return expired.length;
+}
+
+export default {
+  UPLOAD_CHUNK_SIZE,
+  MAX_CHUNKED_UPLOAD_SIZE,
+  partCount,
+  expectedPartSize,
+  missingParts,
+  writePart,
+  assembleParts,
+  removeSessionFiles,
+  purgeExpiredSessions
+};
@@ -20,6 +20,9 @@ if (process.env.CLOUDINARY_CLOUD_NAME &&
   console.warn('⚠️  Cloudinary not configured - missing credentials');
 }
 
+// Part size for chunked uploads of large files (Cloudinary requires at least 5 MB)
+const CLOUDINARY_CHUNK_SIZE = 20 * 1024 * 1024;
+
 export interface CloudinaryUploadOptions {
   userId?: string;
   publicId?: string;
@@ -38,6 +41,75 @@ export interface CloudinaryUploadResult {
   original_filename: string;
 }
 
+/**
+ * Upload options shared by buffer and file uploads
+ */
+function buildUploadOptions(
+  originalFilename: string,
+  options: CloudinaryUploadOptions
+): { uploadOptions: any; ext: string } {
+  // Build folder path
+  const folderParts = ['datasets'];
+  if (options.userId) folderParts.push(options.userId);
+  if (options.folder) folderParts.push(options.folder);
+  const folder = folderParts.join('/');
+
+  // Get file extension
+  const ext = path.extname(originalFilename).toLowerCase();
+  
+  // Build public_id with extension for raw files
+  let publicId = options.publicId || `file_${Date.now()}`;
+  if (options.resourceType === 'raw' && !publicId.includes('.')) {
+    publicId = `${publicId}${ext}`;
+  }
+
+  const uploadOptions: any = {
+    folder,
+    public_id: publicId,
+    resource_type: options.resourceType || 'auto',
+    use_filename: true,
+    unique_filename: false,
+    overwrite: false
+  };
+
+  if (options.tags?.length) {
+    uploadOptions.tags = options.tags;
+  }
+
+  return { uploadOptions, ext };
+}
+
+/**
+ * Callback that settles an upload promise with the mapped result
+ */
+function uploadCallback(
+  originalFilename: string,
+  ext: string,
+  resolve: (result: CloudinaryUploadResult) => void,
+  reject: (error: Error) => void
+) {
+  return (error?: { message: string }, result?: UploadApiResponse) => {
+    if (error) {
+      console.error('❌ Cloudinary upload error:', error);
+      return reject(new Error(`Cloudinary upload failed: ${error.message}`));
+    }
+    if (!result) {
+      return reject(new Error('No result from Cloudinary'));
+    }
+
+    console.log(`✅ Upload successful: ${result.secure_url}`);
+    resolve({
+      public_id: result.public_id,
+      secure_url: result.secure_url,
+      url: result.url,
+      format: result.format || ext.substring(1),
+      resource_type: result.resource_type,
+      bytes: result.bytes,
+      original_filename: originalFilename
+    });
+  };
+}
+
 /**
  * Upload buffer directly to Cloudinary (NO local storage)
  */
@@ -51,59 +123,14 @@ export async function uploadBufferToCloudinary(
       return reject(new Error('Cloudinary is not properly configured'));
     }
 
-    // Build folder path
-    const folderParts = ['datasets'];
-    if (options.userId) folderParts.push(options.userId);
-    if (options.folder) folderParts.push(options.folder);
-    const folder = folderParts.join('/');
+    const { uploadOptions, ext } = buildUploadOptions(originalFilename, options);
 
-    // Get file extension
-    const ext = path.extname(originalFilename).toLowerCase();
-    
-    // Build public_id with extension for raw files
-    let publicId = options.publicId || `file_${Date.now()}`;
-    if (options.resourceType === 'raw' && !publicId.includes('.')) {
-      publicId = `${publicId}${ext}`;
-    }
-
-    const uploadOptions: any = {
-      folder,
-      public_id: publicId,
-      resource_type: options.resourceType || 'auto',
-      use_filename: true,
-      unique_filename: false,
-      overwrite: false
-    };
-
-    if (options.tags?.length) {
-      uploadOptions.tags = options.tags;
-    }
-
-    console.log(`📤 Streaming to Cloudinary: ${folder}/${publicId}`);
+    console.log(`📤 Streaming to Cloudinary: ${uploadOptions.folder}/${uploadOptions.public_id}`);
 
     // Use upload_stream for direct memory-to-cloud upload
     const uploadStream = cloudinary.uploader.upload_stream(
       uploadOptions,
-      (error, result) => {
-        if (error) {
-          console.error('❌ Cloudinary upload error:', error);
-          return reject(new Error(`Cloudinary upload failed: ${error.message}`));
-        }
-        if (!result) {
-          return reject(new Error('No result from Cloudinary'));
-        }
-
-        console.log(`✅ Upload successful: ${result.secure_url}`);
-        resolve({
-          public_id: result.public_id,
-          secure_url: result.secure_url,
-          url: result.url,
-          format: result.format || ext.substring(1),
-          resource_type: result.resource_type,
-          bytes: result.bytes,
-          original_filename: originalFilename
-        });
-      }
+      uploadCallback(originalFilename, ext, resolve, reject)
     );
 
     // Convert buffer to readable stream and pipe to Cloudinary
@@ -113,34 +140,72 @@ export async function uploadBufferToCloudinary(
 }
 
 /**
- * Download file from Cloudinary to buffer (NO local storage)
+ * Stream a file from disk to Cloudinary in chunks, for uploads too large to buffer
  */
-export async function downloadToBuffer(url: string): Promise<Buffer> {
+export async function uploadFileToCloudinary(
+  filePath: string,
+  originalFilename: string,
+  options: CloudinaryUploadOptions = {}
+): Promise<CloudinaryUploadResult> {
+  return new Promise((resolve, reject) => {
+    if (!isCloudinaryConfigured()) {
+      return reject(new Error('Cloudinary is not properly configured'));
+    }
+
+    const { uploadOptions, ext } = buildUploadOptions(originalFilename, options);
+
+    console.log(`📤 Chunked upload to Cloudinary: ${uploadOptions.folder}/${uploadOptions.public_id}`);
+
+    const uploadStream = cloudinary.uploader.upload_chunked_stream(
+      { ...uploadOptions, chunk_size: CLOUDINARY_CHUNK_SIZE },
+      uploadCallback(originalFilename, ext, resolve, reject)
+    );
+
+    const fileStream = fs.createReadStream(filePath);
+    fileStream.on('error', reject);
+    fileStream.pipe(uploadStream);
+  });
+}
+
+/**
+ * Open a download from Cloudinary as a stream, following redirects
+ */
+export async function downloadStream(url: string): Promise<Readable> {
   return new Promise((resolve, reject) => {
     const protocol = url.startsWith('https') ? https : http;
     
     const request = protocol.get(url, (response) => {
       if (response.statusCode === 301 || response.statusCode === 302) {
+        response.resume();
         if (response.headers.location) {
-          return downloadToBuffer(response.headers.location).then(resolve).catch(reject);
+          return downloadStream(response.headers.location).then(resolve).catch(reject);
         }
         return reject(new Error('Redirect without location'));
       }
       
       if (response.statusCode !== 200) {
+        response.resume();
         return reject(new Error(`HTTP ${response.statusCode}`));
       }
 
-      const chunks: Buffer[] = [];
-      response.on('data', (chunk) => chunks.push(chunk));
-      response.on('end', () => resolve(Buffer.concat(chunks)));
-      response.on('error', reject);
+      resolve(response);
     });
 
     request.on('error', reject);
   });
 }
 
+/**
+ * Download file from Cloudinary to buffer (NO local storage)
+ */
+export async function downloadToBuffer(url: string): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of await downloadStream(url)) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
 /**
  * Download from Cloudinary - supports both buffer and file output
  */
@@ -226,7 +291,9 @@ export function getPublicUrl(
 
 export default {
   uploadBufferToCloudinary,
+  uploadFileToCloudinary,
   downloadFromCloudinary,
+  downloadStream,
   downloadToBuffer,
   deleteFromCloudinary,
   isCloudinaryConfigured,
@@ -0,0 +1,148 @@
+import type { DatasetRow } from './datasetRowsService.js';
+import { columnGroup, type SchemaColumn } from './schemaService.js';
+import { parseValue } from './typeInferenceService.js';
+import { isPresent, mean, quantile, round, standardDeviation, valueCounts } from './analyticsService.js';
+
+/**
+ * Per-column profile computed while a dataset is processed: null and
+ * distinct counts, top values, and for numeric and date columns min, max,
+ * mean, median, standard deviation and a histogram. Dates are reported as
+ * ISO strings, with the standard deviation in days. Profiles cover the first
+ * PROFILE_ROW_LIMIT rows of very large files.
+ */
+
+export const PROFILE_KINDS = ['numeric', 'date', 'categorical'] as const;
+export type ProfileKind = (typeof PROFILE_KINDS)[number];
+
+export interface HistogramBin {
+  from: number | string;
+  to: number | string;
+  count: number;
+}
+
+export interface ColumnProfile {
+  kind: ProfileKind;
+  // Rows profiled, and how many of them have no value
+  count: number;
+  nulls: number;
+  distinct: number;
+  min?: number | string;
+  max?: number | string;
+  mean?: number | string;
+  median?: number | string;
+  std?: number;
+  topValues: Array<{ value: string; count: number }>;
+  histogram?: HistogramBin[];
+}
+
+export const PROFILE_ROW_LIMIT = 100_000;
+const TOP_VALUES = 5;
+const HISTOGRAM_BINS = 10;
+const MAX_VALUE_LENGTH = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NUMERIC_TYPES = ['integer', 'float', 'number'];
+
+// ============================================
+// Profiling
+// ============================================
+
+/**
+ * Profile each column of the rows. A column's role or overridden type
+ * decides how it is profiled, otherwise its inferred type; values are read
+ * with the column's format (decimal comma, percent, date pattern).
+ */
+export function profileColumns(rows: DatasetRow[], columns: SchemaColumn[]): Record<string, ColumnProfile> {
+  return Object.fromEntries(columns.map((column) => [column.name, profileColumn(rows, column)]));
+}
+
+function profileKind(column: SchemaColumn): ProfileKind {
+  const group =
+    columnGroup(column) ??
+    (NUMERIC_TYPES.includes(column.type) ? 'numeric' : column.type === 'date' ? 'temporal' : 'categorical');
+  return group === 'numeric' ? 'numeric' : group === 'temporal' ? 'date' : 'categorical';
+}
+
+function profileColumn(rows: DatasetRow[], column: SchemaColumn): ColumnProfile {
+  const { name } = column;
+  const kind = profileKind(column);
+  const present = rows.map((row) => row[name]).filter(isPresent);
+  const profile: ColumnProfile = {
+    kind,
+    count: rows.length,
+    nulls: rows.length - present.length,
+    distinct: new Set(present.map(valueKey)).size,
+    topValues: valueCounts(rows, name)
+      .slice(0, TOP_VALUES)
+      .map((entry) => ({ value: truncate(entry.name), count: entry.value }))
+  };
+
+  if (kind === 'numeric') {
+    // A measure role can make a text column numeric
+    const type = NUMERIC_TYPES.includes(column.type) ? column.type : 'number';
+    const values = present
+      .map((value) => parseValue(value, type, column.format))
+      .filter((v): v is number => typeof v === 'number');
+    const { std, ...described } = describeValues(values, (value) => round(value, 4));
+    Object.assign(profile, described);
+    if (std !== undefined) profile.std = round(std, 4);
+  } else if (kind === 'date') {
+    const times = present
+      .map((value) => parseValue(value, 'date', column.format))
+      .filter((v): v is string => typeof v === 'string')
+      .map((iso) => Date.parse(iso))
+      .filter((time) => !isNaN(time));
+    const { std, ...described } = describeValues(times, (time) => new Date(Math.round(time)).toISOString());
+    Object.assign(profile, described);
+    if (std !== undefined) profile.std = round(std / DAY_MS, 4);
+  }
+
+  return profile;
+}
+
+/**
+ * Summary statistics and an equal-width histogram; std stays in the units
+ * of the values, everything else goes through format
+ */
+function describeValues(
+  values: number[],
+  format: (value: number) => number | string
+): Partial<Pick<ColumnProfile, 'min' | 'max' | 'mean' | 'median' | 'std' | 'histogram'>> {
+  if (values.length === 0) return {};
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+
+  return {
+    min: format(min),
+    max: format(max),
+    mean: format(mean(values)),
+    median: format(quantile(sorted, 0.5)),
+    std: standardDeviation(values),
+    histogram: histogram(sorted, min, max).map((bin) => ({ ...bin, from: format(bin.from), to: format(bin.to) }))
+  };
+}
+
+function histogram(sorted: number[], min: number, max: number): Array<{ from: number; to: number; count: number }> {
+  if (min === max) return [{ from: min, to: max, count: sorted.length }];
+
+  const width = (max - min) / HISTOGRAM_BINS;
+  const counts = new Array<number>(HISTOGRAM_BINS).fill(0);
+  sorted.forEach((value) => {
+    counts[Math.min(HISTOGRAM_BINS - 1, Math.floor((value - min) / width))]++;
+  });
+  return counts.map((count, i) => ({ from: min + i * width, to: min + (i + 1) * width, count }));
+}
+
+function valueKey(value: unknown): string {
+  return value !== null && typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function truncate(value: string): string {
+  return value.length > MAX_VALUE_LENGTH ? `${value.slice(0, MAX_VALUE_LENGTH)}…` : value;
+}
+
+export default {
+  PROFILE_ROW_LIMIT,
+  profileColumns
+};
@@ -0,0 +1,213 @@
+import { DataType, tableFromIPC, type Field, type Table } from 'apache-arrow';
+import { parquetMetadata, parquetReadObjects, parquetSchema, type FileMetaData, type SchemaTree } from 'hyparquet';
+import { compressors } from 'hyparquet-compressors';
+import type { DatasetRow } from './datasetRowsService.js';
+
+/**
+ * Parquet and Arrow IPC files carry their schema, so column types and row
+ * counts are read from the file metadata rather than guessed from values.
+ * Values are converted to JSON-safe equivalents (64-bit integers, dates,
+ * nested vectors) so rows behave like those parsed from CSV or JSON.
+ */
+
+export interface FileSchema {
+  columns: Array<{ name: string; type: string; nullable: boolean }>;
+  rowCount: number;
+}
+
+// ============================================
+// Parquet
+// ============================================
+
+function parquetMetadataFromBuffer(buffer: Buffer): { arrayBuffer: ArrayBuffer; metadata: FileMetaData } {
+  const arrayBuffer = toArrayBuffer(buffer);
+  return { arrayBuffer, metadata: parquetMetadata(arrayBuffer) };
+}
+
+/**
+ * Dataset column type for a top-level Parquet field
+ */
+function parquetColumnType(node: SchemaTree): string {
+  const { element } = node;
+  const logical = element.logical_type?.type;
+  const converted = element.converted_type;
+
+  if (node.children.length > 0) {
+    return logical === 'LIST' || converted === 'LIST' ? 'array' : 'object';
+  }
+
+  if (logical === 'DATE' || logical === 'TIMESTAMP') return 'date';
+  if (logical === 'INTEGER') return 'integer';
+  if (logical === 'DECIMAL' || logical === 'FLOAT16') return 'float';
+  if (logical === 'JSON' || logical === 'BSON') return 'object';
+  if (logical) return 'string';
+
+  if (converted === 'DATE' || converted === 'TIMESTAMP_MILLIS' || converted === 'TIMESTAMP_MICROS') return 'date';
+  if (converted === 'DECIMAL') return 'float';
+  if (converted?.startsWith('INT_') || converted?.startsWith('UINT_')) return 'integer';
+  if (converted === 'JSON' || converted === 'BSON') return 'object';
+  if (converted) return 'string';
+
+  switch (element.type) {
+    case 'BOOLEAN':
+      return 'boolean';
+    case 'INT32':
+    case 'INT64':
+      return 'integer';
+    case 'INT96':
+      return 'date'; // legacy timestamp encoding
+    case 'FLOAT':
+    case 'DOUBLE':
+      return 'float';
+    case 'BYTE_ARRAY':
+    case 'FIXED_LEN_BYTE_ARRAY':
+      return 'string';
+    default:
+      return 'unknown';
+  }
+}
+
+export function readParquetSchema(buffer: Buffer): FileSchema {
+  const { metadata } = parquetMetadataFromBuffer(buffer);
+
+  return {
+    columns: parquetSchema(metadata).children.map((node) => ({
+      name: node.element.name,
+      type: parquetColumnType(node),
+      nullable: node.element.repetition_type !== 'REQUIRED'
+    })),
+    rowCount: Number(metadata.num_rows)
+  };
+}
+
+export async function parseParquetRows(buffer: Buffer, limit?: number): Promise<DatasetRow[]> {
+  const { arrayBuffer, metadata } = parquetMetadataFromBuffer(buffer);
+
+  const rows = await parquetReadObjects({
+    file: arrayBuffer,
+    metadata,
+    compressors,
+    rowEnd: limit === undefined ? undefined : Math.min(limit, Number(metadata.num_rows))
+  });
+
+  return rows.map((row) => mapValues(row, (value) => toPlainValue(value)));
+}
+
+// ============================================
+// Arrow IPC (file and stream formats)
+// ============================================
+
+function arrowColumnType(type: DataType): string {
+  if (DataType.isDictionary(type)) return arrowColumnType(type.dictionary);
+  if (DataType.isInt(type)) return 'integer';
+  if (DataType.isFloat(type) || DataType.isDecimal(type)) return 'float';
+  if (DataType.isBool(type)) return 'boolean';
+  if (DataType.isDate(type) || DataType.isTimestamp(type)) return 'date';
+  if (DataType.isList(type) || DataType.isLargeList(type) || DataType.isFixedSizeList(type)) return 'array';
+  if (DataType.isStruct(type) || DataType.isMap(type)) return 'object';
+  if (DataType.isNull(type)) return 'null';
+  if (
+    DataType.isUtf8(type) ||
+    DataType.isLargeUtf8(type) ||
+    DataType.isUtf8View(type) ||
+    DataType.isTime(type) ||
+    DataType.isDuration(type) ||
+    DataType.isInterval(type)
+  ) {
+    return 'string';
+  }
+  return 'unknown';
+}
+
+function readArrowTable(buffer: Buffer): Table {
+  return tableFromIPC(new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength));
+}
+
+export function readArrowSchema(buffer: Buffer): FileSchema {
+  const table = readArrowTable(buffer);
+
+  return {
+    columns: table.schema.fields.map((field) => ({
+      name: field.name,
+      type: arrowColumnType(field.type),
+      nullable: field.nullable
+    })),
+    rowCount: table.numRows
+  };
+}
+
+export function parseArrowRows(buffer: Buffer, limit?: number): DatasetRow[] {
+  let table = readArrowTable(buffer);
+  if (limit !== undefined) table = table.slice(0, limit);
+
+  const fields = new Map<string, Field>(table.schema.fields.map((field) => [field.name, field]));
+  const rows: DatasetRow[] = [];
+
+  for (const row of table) {
+    if (!row) continue;
+    rows.push(mapValues(row.toJSON(), (value, name) => toPlainValue(value, fields.get(name)?.type)));
+  }
+  return rows;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function toArrayBuffer(buffer: Buffer): ArrayBuffer {
+  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+}
+
+function mapValues(
+  row: Record<string, unknown>,
+  convert: (value: unknown, name: string) => unknown
+): DatasetRow {
+  const result: DatasetRow = {};
+  for (const [name, value] of Object.entries(row)) {
+    result[name] = convert(value, name);
+  }
+  return result;
+}
+
+/**
+ * JSON-safe value: BigInt as number (or string when too large), dates as ISO
+ * strings, Arrow vectors and rows as plain arrays and objects
+ */
+function toPlainValue(value: unknown, type?: DataType): unknown {
+  if (value === null || value === undefined) return null;
+
+  if (typeof value === 'bigint') {
+    if (type && (DataType.isDate(type) || DataType.isTimestamp(type))) {
+      return new Date(Number(value)).toISOString();
+    }
+    return Number.isSafeInteger(Number(value)) ? Number(value) : value.toString();
+  }
+  if (typeof value === 'number' && type && (DataType.isDate(type) || DataType.isTimestamp(type))) {
+    return new Date(value).toISOString();
+  }
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value.toISOString();
+  }
+  if (Array.isArray(value)) return value.map((item) => toPlainValue(item));
+  if (ArrayBuffer.isView(value)) {
+    return Array.from(value as unknown as ArrayLike<unknown>, (item) => toPlainValue(item));
+  }
+  if (typeof value === 'object') {
+    const nested = value as { toJSON?: () => unknown; toArray?: () => unknown };
+    if (typeof nested.toArray === 'function' && Symbol.iterator in value) {
+      return Array.from(value as Iterable<unknown>, (item) => toPlainValue(item));
+    }
+    if (typeof nested.toJSON === 'function') {
+      return mapValues(nested.toJSON() as Record<string, unknown>, (item) => toPlainValue(item));
+    }
+    return mapValues(value as Record<string, unknown>, (item) => toPlainValue(item));
+  }
+  return value;
+}
+
+export default {
+  readParquetSchema,
+  parseParquetRows,
+  readArrowSchema,
+  parseArrowRows
+};
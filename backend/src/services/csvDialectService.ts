@@ -0,0 +1,362 @@
+import csv from 'csv-parser';
+import fs from 'fs';
+import { Readable, Transform } from 'stream';
+import type { ValidationResult } from './llmService.js';
+import type { DatasetRow } from './datasetRowsService.js';
+
+/**
+ * CSV files come in many dialects: semicolon or tab separated exports,
+ * UTF-16 or Latin-1 text, byte order marks, report titles above the table
+ * and files without a header row. The dialect is detected from the start of
+ * the file when it is processed, stored on the dataset, and can be corrected
+ * by the user before the file is processed again.
+ */
+
+export const CSV_ENCODINGS = ['utf-8', 'utf-16le', 'utf-16be', 'latin1'] as const;
+export type CSVEncoding = (typeof CSV_ENCODINGS)[number];
+
+export interface CSVDialect {
+  delimiter: string;
+  quote: string;
+  encoding: CSVEncoding;
+  // Without a header row, columns are named column_1, column_2, ...
+  hasHeader: boolean;
+  // Lines above the table (titles, notes) that are not part of the data
+  skipLines: number;
+}
+
+export const DEFAULT_CSV_DIALECT: CSVDialect = {
+  delimiter: ',',
+  quote: '"',
+  encoding: 'utf-8',
+  hasHeader: true,
+  skipLines: 0
+};
+
+const DELIMITER_CANDIDATES = [',', ';', '\t', '|'];
+const QUOTE_CANDIDATES = ['"', "'"];
+const SAMPLE_BYTES = 64 * 1024;
+const SAMPLE_LINES = 50;
+const MAX_SKIP_LINES = 1000;
+
+// ============================================
+// Encoding
+// ============================================
+
+/**
+ * Encoding from the byte order mark, else from the bytes themselves: UTF-16
+ * text without a BOM has a zero byte in most ASCII characters, and anything
+ * that is not valid UTF-8 is read as Latin-1
+ */
+export function detectEncoding(buffer: Buffer): CSVEncoding {
+  if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) return 'utf-8';
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) return 'utf-16le';
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) return 'utf-16be';
+
+  const sample = buffer.subarray(0, SAMPLE_BYTES);
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] === 0) {
+      if (i % 2 === 0) evenZeros++;
+      else oddZeros++;
+    }
+  }
+  const pairs = sample.length / 2;
+  if (pairs > 0 && oddZeros / pairs > 0.3 && evenZeros / pairs < 0.05) return 'utf-16le';
+  if (pairs > 0 && evenZeros / pairs > 0.3 && oddZeros / pairs < 0.05) return 'utf-16be';
+
+  try {
+    // A multi-byte character may be cut off at the end of the sample
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: sample.length < buffer.length });
+    return 'utf-8';
+  } catch {
+    return 'latin1';
+  }
+}
+
+/**
+ * File text in the given encoding, without a byte order mark
+ */
+export function decodeCSV(buffer: Buffer, encoding: CSVEncoding): string {
+  return new TextDecoder(encoding).decode(buffer);
+}
+
+/**
+ * Decode text as it streams through and pass it on as UTF-8, without a byte
+ * order mark; characters split across chunks are kept whole
+ */
+function decodingStream(encoding: CSVEncoding): Transform {
+  const decoder = new TextDecoder(encoding);
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      callback(null, Buffer.from(decoder.decode(chunk, { stream: true })));
+    },
+    flush(callback) {
+      callback(null, Buffer.from(decoder.decode()));
+    }
+  });
+}
+
+// ============================================
+// Dialect detection
+// ============================================
+
+/**
+ * Split one line into cells, honouring quoted cells and doubled quotes
+ */
+function splitLine(line: string, delimiter: string, quote: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === quote && line[i + 1] === quote) {
+        cell += quote;
+        i++;
+      } else if (char === quote) {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === quote && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells;
+}
+
+function detectQuote(lines: string[]): string {
+  const counts = QUOTE_CANDIDATES.map((quote) => {
+    const wrapped = new RegExp(`(^|[,;\\t|])${quote}[^${quote}]*${quote}(?=[,;\\t|]|$)`, 'g');
+    return lines.reduce((total, line) => total + (line.match(wrapped)?.length ?? 0), 0);
+  });
+  return counts[1] > counts[0] ? QUOTE_CANDIDATES[1] : QUOTE_CANDIDATES[0];
+}
+
+const looksTyped = (cell: string) => /^\s*(-?[\d.,]+%?|true|false|)\s*$/i.test(cell);
+
+interface DelimiterScore {
+  delimiter: string;
+  // Cells per row of the table
+  width: number;
+  // Lines with that many cells
+  matches: number;
+  // Share of cells that look like numbers or blanks, to break ties such as
+  // commas used as decimal separators in semicolon files
+  typed: number;
+  skipLines: number;
+}
+
+function scoreDelimiter(lines: string[], delimiter: string, quote: string): DelimiterScore | null {
+  const widths = lines.map((line) => (line.trim() === '' ? 0 : splitLine(line, delimiter, quote).length));
+
+  const frequency = new Map<number, number>();
+  for (const width of widths) {
+    if (width > 1) frequency.set(width, (frequency.get(width) ?? 0) + 1);
+  }
+  if (frequency.size === 0) return null;
+
+  const [width, matches] = [...frequency].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0];
+
+  // The table starts at the first line followed by a few more of the same width
+  const isRow = (index: number) => widths[index] === width;
+  let skipLines = widths.findIndex((_, index) => {
+    if (!isRow(index)) return false;
+    const following = widths.slice(index + 1).filter((w) => w > 0).slice(0, 3);
+    return following.every((w) => w === width);
+  });
+  if (skipLines === -1) skipLines = widths.findIndex((_, index) => isRow(index));
+
+  const cells = lines
+    .filter((_, index) => index > skipLines && isRow(index))
+    .flatMap((line) => splitLine(line, delimiter, quote));
+  const typed = cells.length > 0 ? cells.filter(looksTyped).length / cells.length : 0;
+
+  return { delimiter, width, matches, typed, skipLines };
+}
+
+/**
+ * A header row is likely when its cells differ in kind from the rows below:
+ * text above numbers, or text of a different length above fixed-length codes
+ */
+function detectHeader(rows: string[][]): boolean {
+  const [first, ...rest] = rows;
+  if (!first || rest.length === 0) return true;
+  if (first.some((cell) => cell.trim() !== '' && looksTyped(cell))) return false;
+
+  let votes = 0;
+  first.forEach((header, index) => {
+    const values = rest.map((row) => row[index] ?? '').filter((value) => value.trim() !== '');
+    if (values.length === 0) return;
+
+    if (values.every(looksTyped)) {
+      votes++;
+    } else {
+      const lengths = new Set(values.map((value) => value.length));
+      if (lengths.size === 1) votes += lengths.has(header.length) ? -1 : 1;
+    }
+  });
+
+  if (votes !== 0) return votes > 0;
+  // All text: a header row names each column once
+  const names = first.map((cell) => cell.trim());
+  return names.every((name) => name !== '') && new Set(names).size === names.length;
+}
+
+/**
+ * Detect encoding, delimiter, quote character, preamble and header row
+ * from the start of a CSV file
+ */
+export function detectCSVDialect(buffer: Buffer): CSVDialect {
+  const encoding = detectEncoding(buffer);
+  const text = decodeCSV(buffer.subarray(0, SAMPLE_BYTES), encoding);
+
+  let lines = text.split(/\r\n|\n|\r/);
+  // The last line of a partial sample is probably cut off
+  if (buffer.length > SAMPLE_BYTES && lines.length > 1) lines.pop();
+  lines = lines.slice(0, SAMPLE_LINES);
+
+  const quote = detectQuote(lines);
+  const scores = DELIMITER_CANDIDATES.map((delimiter) => scoreDelimiter(lines, delimiter, quote)).filter(
+    (score): score is DelimiterScore => score !== null
+  );
+  if (scores.length === 0) {
+    return { ...DEFAULT_CSV_DIALECT, encoding, quote };
+  }
+
+  const best = scores.sort((a, b) => b.matches - a.matches || b.typed - a.typed || b.width - a.width)[0];
+  const tableRows = lines
+    .slice(best.skipLines)
+    .filter((line) => line.trim() !== '')
+    .slice(0, 20)
+    .map((line) => splitLine(line, best.delimiter, quote));
+
+  return {
+    delimiter: best.delimiter,
+    quote,
+    encoding,
+    hasHeader: detectHeader(tableRows),
+    skipLines: best.skipLines
+  };
+}
+
+// ============================================
+// Overrides
+// ============================================
+
+/**
+ * Shape check for dialect overrides from a request body
+ */
+export function validateCSVDialect(raw: unknown): ValidationResult<Partial<CSVDialect>> {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { errors: ['CSV options must be an object'] };
+  }
+  const { delimiter, quote, encoding, hasHeader, skipLines } = raw as Record<string, unknown>;
+  const errors: string[] = [];
+  const value: Partial<CSVDialect> = {};
+
+  const isSingleChar = (char: unknown): char is string =>
+    typeof char === 'string' && char.length === 1 && char.charCodeAt(0) < 128 && char !== '\n' && char !== '\r';
+
+  if (delimiter !== undefined) {
+    if (isSingleChar(delimiter)) value.delimiter = delimiter;
+    else errors.push('Delimiter must be a single character');
+  }
+  if (quote !== undefined) {
+    if (isSingleChar(quote)) value.quote = quote;
+    else errors.push('Quote must be a single character');
+  }
+  if (value.delimiter !== undefined && value.delimiter === value.quote) {
+    errors.push('Delimiter and quote must differ');
+  }
+  if (encoding !== undefined) {
+    if (CSV_ENCODINGS.includes(encoding as CSVEncoding)) value.encoding = encoding as CSVEncoding;
+    else errors.push(`Encoding must be one of: ${CSV_ENCODINGS.join(', ')}`);
+  }
+  if (hasHeader !== undefined) {
+    if (typeof hasHeader === 'boolean') value.hasHeader = hasHeader;
+    else errors.push('hasHeader must be true or false');
+  }
+  if (skipLines !== undefined) {
+    if (Number.isInteger(skipLines) && (skipLines as number) >= 0 && (skipLines as number) <= MAX_SKIP_LINES) {
+      value.skipLines = skipLines as number;
+    } else {
+      errors.push(`skipLines must be a whole number from 0 to ${MAX_SKIP_LINES}`);
+    }
+  }
+
+  return errors.length > 0 ? { errors } : { value, errors };
+}
+
+/**
+ * Detect the dialect of a file on disk from its first bytes
+ */
+export async function detectCSVDialectFromFile(filePath: string): Promise<CSVDialect> {
+  const file = await fs.promises.open(filePath, 'r');
+  try {
+    // One byte more than the sample, so a cut-off last line is recognised
+    const { buffer, bytesRead } = await file.read(Buffer.alloc(SAMPLE_BYTES + 1), 0, SAMPLE_BYTES + 1, 0);
+    return detectCSVDialect(buffer.subarray(0, bytesRead));
+  } finally {
+    await file.close();
+  }
+}
+
+// ============================================
+// Rows
+// ============================================
+
+/**
+ * Rows of a CSV file read with the given dialect, as an object stream.
+ * The file can be a buffer or a file or download stream; a stream is read
+ * only as far as the rows are consumed. Blank lines are dropped.
+ */
+export function csvRowStream(input: Buffer | Readable, dialect: CSVDialect): Readable {
+  const parser = csv({
+    separator: dialect.delimiter,
+    quote: dialect.quote,
+    headers: dialect.hasHeader ? undefined : false,
+    skipLines: dialect.skipLines || undefined
+  });
+
+  const rows = new Transform({
+    objectMode: true,
+    transform(row: DatasetRow, _encoding, callback) {
+      const entries = Object.entries(row);
+      if (entries.every(([, value]) => value === '')) return callback();
+      callback(
+        null,
+        dialect.hasHeader ? row : Object.fromEntries(entries.map(([index, value]) => [`column_${Number(index) + 1}`, value]))
+      );
+    }
+  });
+
+  // csv-parser reads UTF-8, so the text is decoded on the way in
+  const source = Buffer.isBuffer(input) ? Readable.from([input]) : input;
+  const decoder = decodingStream(dialect.encoding);
+  source.on('error', (error) => rows.destroy(error));
+  decoder.on('error', (error) => rows.destroy(error));
+  parser.on('error', (error) => rows.destroy(error));
+  // Rows no longer wanted (e.g. a row limit was reached): stop reading the file
+  rows.on('close', () => source.destroy());
+  return source.pipe(decoder).pipe(parser).pipe(rows);
+}
+
+export default {
+  CSV_ENCODINGS,
+  detectEncoding,
+  decodeCSV,
+  detectCSVDialect,
+  detectCSVDialectFromFile,
+  validateCSVDialect,
+  csvRowStream
+};
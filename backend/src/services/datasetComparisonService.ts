@@ -0,0 +1,604 @@
+import type { IDataset } from '../models/Dataset.js';
+import type { IInsight } from '../models/Insight.js';
+import type { DatasetRow } from './datasetRowsService.js';
+import { validateInsightResult, type ValidatedInsight } from './insightValidationService.js';
+import {
+  applyColumnPolicies,
+  withheldColumns,
+  type ColumnPolicy,
+  type PrivacyColumn,
+  type WithheldColumn
+} from './privacyService.js';
+import {
+  completeJSON,
+  type ChatMessage,
+  type JSONCompletionOptions,
+  type JSONCompletionResult,
+  type ResolvedProvider
+} from './llmService.js';
+import {
+  classifyColumns,
+  isPresent,
+  mean,
+  quantile,
+  resolveColumnNames,
+  round,
+  standardDeviation,
+  toNumber,
+  valueCounts
+} from './analyticsService.js';
+
+/**
+ * Comparison of two versions of a dataset (e.g. last month's and this
+ * month's export): schema differences, per-column distribution shifts and
+ * changed group aggregates, computed over all rows of both. The report is
+ * the input for the comparison insight's narrative.
+ */
+
+type ComparedDataset = Pick<IDataset, '_id' | 'name' | 'columns'>;
+
+export interface ComparisonSide {
+  datasetId: string;
+  name: string;
+  rowCount: number;
+  columnCount: number;
+}
+
+export interface NumericSummary {
+  count: number;
+  missing: number;
+  sum: number;
+  mean: number;
+  median: number;
+  std: number;
+  min: number;
+  max: number;
+}
+
+export interface NumericShift {
+  column: string;
+  baseline: NumericSummary;
+  current: NumericSummary;
+  meanChangePercent: number | null;
+  sumChangePercent: number | null;
+  // Two-sample Kolmogorov-Smirnov statistic: largest gap between the distributions (0-1)
+  ksStatistic: number;
+  shifted: boolean;
+}
+
+export interface CategoryChange {
+  value: string;
+  baselineShare: number; // percent of rows
+  currentShare: number;
+  change: number; // percentage points
+}
+
+export interface CategoricalShift {
+  column: string;
+  baselineDistinct: number;
+  currentDistinct: number;
+  // Total variation distance between the category shares (0-1)
+  totalVariation: number;
+  shifted: boolean;
+  added: string[];
+  removed: string[];
+  topChanges: CategoryChange[];
+}
+
+export interface AggregateChange {
+  groupBy: string;
+  aggregation: 'count' | 'sum';
+  column?: string;
+  groups: Array<{
+    group: string;
+    baseline: number;
+    current: number;
+    change: number;
+    changePercent: number | null;
+  }>;
+}
+
+export interface DatasetComparison {
+  baseline: ComparisonSide;
+  current: ComparisonSide;
+  rowChangePercent: number | null;
+  schema: {
+    shared: string[];
+    added: string[];
+    removed: string[];
+    typeChanges: Array<{ column: string; from: string; to: string }>;
+  };
+  numeric: NumericShift[];
+  categorical: CategoricalShift[];
+  aggregates: AggregateChange[];
+  withheld: WithheldColumn[];
+}
+
+const MIN_SHARED_SHARE = 0.5;
+const MAX_NUMERIC_COLUMNS = 20;
+const MAX_CATEGORICAL_COLUMNS = 15;
+const MAX_CATEGORIES = 50;
+const MAX_LISTED_CATEGORIES = 10;
+const MAX_AGGREGATE_GROUPS = 3;
+const MAX_AGGREGATE_MEASURES = 3;
+const MAX_AGGREGATE_ROWS = 10;
+// Kolmogorov-Smirnov critical value coefficient at the 5% level
+const KS_ALPHA_COEFFICIENT = 1.358;
+// Shifts smaller than these are not reported however many rows there are
+const MIN_KS_SHIFT = 0.1;
+const MIN_TOTAL_VARIATION = 0.1;
+
+const POLICY_STRICTNESS: Record<ColumnPolicy, number> = { send: 0, mask: 1, hash: 2, exclude: 3 };
+
+// ============================================
+// Compatibility
+// ============================================
+
+/**
+ * Reasons two datasets cannot be compared (empty when compatible).
+ * At least half of the smaller dataset's columns must appear in both.
+ */
+export function checkCompatibility(baselineColumns: string[], currentColumns: string[]): string[] {
+  const shared = baselineColumns.filter((name) => currentColumns.includes(name));
+  if (shared.length === 0) {
+    return ['The datasets have no columns in common'];
+  }
+  const smaller = Math.min(baselineColumns.length, currentColumns.length);
+  if (shared.length < smaller * MIN_SHARED_SHARE) {
+    return [
+      `Only ${shared.length} of ${smaller} columns are shared; at least ${Math.ceil(smaller * MIN_SHARED_SHARE)} are needed`
+    ];
+  }
+  return [];
+}
+
+// ============================================
+// Comparison
+// ============================================
+
+/**
+ * Compare two datasets over all of their rows. Column policies of either
+ * dataset apply (the stricter one wins), with hashes salted per comparison
+ * so hashed values still line up between the two.
+ */
+export function compareDatasets(
+  baseline: { dataset: ComparedDataset; rows: DatasetRow[] },
+  current: { dataset: ComparedDataset; rows: DatasetRow[] }
+): DatasetComparison {
+  const baselineColumns = resolveColumnNames(baseline.dataset, baseline.rows);
+  const currentColumns = resolveColumnNames(current.dataset, current.rows);
+
+  const policies = mergePolicies(baseline.dataset.columns, current.dataset.columns);
+  const salt = `${baseline.dataset._id}:${current.dataset._id}`;
+  const baselineRows = applyColumnPolicies(baseline.rows, policies, salt);
+  const currentRows = applyColumnPolicies(current.rows, policies, salt);
+  const excluded = new Set(policies.filter((c) => c.policy === 'exclude').map((c) => c.name));
+
+  const shared = baselineColumns.filter((name) => currentColumns.includes(name));
+  const analyzed = shared.filter((name) => !excluded.has(name));
+  const baselineGroups = classifyColumns(baselineRows, analyzed, baseline.dataset.columns);
+  const currentGroups = classifyColumns(currentRows, analyzed, current.dataset.columns);
+
+  const storedType = (dataset: ComparedDataset, name: string) =>
+    dataset.columns.find((column) => column.name === name)?.type || 'unknown';
+
+  const numericColumns = baselineGroups.numeric
+    .filter((name) => currentGroups.numeric.includes(name))
+    .slice(0, MAX_NUMERIC_COLUMNS);
+  const categoricalColumns = baselineGroups.categorical
+    .filter((name) => currentGroups.categorical.includes(name))
+    .filter((name) => distinctUnion(baselineRows, currentRows, name) <= MAX_CATEGORIES)
+    .slice(0, MAX_CATEGORICAL_COLUMNS);
+
+  return {
+    baseline: side(baseline.dataset, baseline.rows.length, baselineColumns.length),
+    current: side(current.dataset, current.rows.length, currentColumns.length),
+    rowChangePercent: changePercent(baseline.rows.length, current.rows.length),
+    schema: {
+      shared,
+      added: currentColumns.filter((name) => !baselineColumns.includes(name)),
+      removed: baselineColumns.filter((name) => !currentColumns.includes(name)),
+      typeChanges: shared
+        .map((column) => ({
+          column,
+          from: storedType(baseline.dataset, column),
+          to: storedType(current.dataset, column)
+        }))
+        .filter((change) => change.from !== change.to)
+    },
+    numeric: numericColumns.map((column) => numericShift(column, baselineRows, currentRows)),
+    categorical: categoricalColumns.map((column) => categoricalShift(column, baselineRows, currentRows)),
+    aggregates: aggregateChanges(categoricalColumns, numericColumns, baselineRows, currentRows),
+    withheld: withheldColumns(policies)
+  };
+}
+
+function numericShift(column: string, baselineRows: DatasetRow[], currentRows: DatasetRow[]): NumericShift {
+  const before = numericValues(baselineRows, column);
+  const after = numericValues(currentRows, column);
+  const baseline = summarize(before, baselineRows.length);
+  const current = summarize(after, currentRows.length);
+
+  const ks = ksStatistic(before, after);
+  const critical =
+    before.length > 0 && after.length > 0
+      ? KS_ALPHA_COEFFICIENT * Math.sqrt((before.length + after.length) / (before.length * after.length))
+      : 1;
+
+  return {
+    column,
+    baseline,
+    current,
+    meanChangePercent: changePercent(baseline.mean, current.mean),
+    sumChangePercent: changePercent(baseline.sum, current.sum),
+    ksStatistic: round(ks, 4),
+    shifted: ks > critical && ks >= MIN_KS_SHIFT
+  };
+}
+
+function categoricalShift(column: string, baselineRows: DatasetRow[], currentRows: DatasetRow[]): CategoricalShift {
+  const before = shares(baselineRows, column);
+  const after = shares(currentRows, column);
+  const values = new Set([...before.keys(), ...after.keys()]);
+
+  let distance = 0;
+  const changes: CategoryChange[] = [];
+  values.forEach((value) => {
+    const baselineShare = before.get(value) || 0;
+    const currentShare = after.get(value) || 0;
+    distance += Math.abs(currentShare - baselineShare) / 2;
+    changes.push({
+      value,
+      baselineShare: round(baselineShare * 100, 2),
+      currentShare: round(currentShare * 100, 2),
+      change: round((currentShare - baselineShare) * 100, 2)
+    });
+  });
+
+  return {
+    column,
+    baselineDistinct: before.size,
+    currentDistinct: after.size,
+    totalVariation: round(distance, 4),
+    shifted: distance >= MIN_TOTAL_VARIATION,
+    added: [...after.keys()].filter((value) => !before.has(value)).slice(0, MAX_LISTED_CATEGORIES),
+    removed: [...before.keys()].filter((value) => !after.has(value)).slice(0, MAX_LISTED_CATEGORIES),
+    topChanges: changes
+      .filter((change) => change.change !== 0)
+      .sort((a, b) => Math.abs(b.change) - Math.abs(a.change))
+      .slice(0, MAX_LISTED_CATEGORIES)
+  };
+}
+
+/**
+ * Row counts and sums per category, for the first few category columns
+ */
+function aggregateChanges(
+  categoricalColumns: string[],
+  numericColumns: string[],
+  baselineRows: DatasetRow[],
+  currentRows: DatasetRow[]
+): AggregateChange[] {
+  const measures: Array<{ aggregation: 'count' | 'sum'; column?: string }> = [
+    { aggregation: 'count' },
+    ...numericColumns.slice(0, MAX_AGGREGATE_MEASURES).map((column) => ({ aggregation: 'sum' as const, column }))
+  ];
+
+  return categoricalColumns.slice(0, MAX_AGGREGATE_GROUPS).flatMap((groupBy) =>
+    measures.map((measure) => {
+      const before = groupTotals(baselineRows, groupBy, measure.column);
+      const after = groupTotals(currentRows, groupBy, measure.column);
+      const groups = [...new Set([...before.keys(), ...after.keys()])].map((group) => {
+        const baseline = round(before.get(group) || 0, 4);
+        const current = round(after.get(group) || 0, 4);
+        return {
+          group,
+          baseline,
+          current,
+          change: round(current - baseline, 4),
+          changePercent: changePercent(baseline, current)
+        };
+      });
+      return {
+        groupBy,
+        ...measure,
+        groups: groups
+          .sort((a, b) => Math.abs(b.change) - Math.abs(a.change))
+          .slice(0, MAX_AGGREGATE_ROWS)
+      };
+    })
+  );
+}
+
+// ============================================
+// Charts
+// ============================================
+
+/**
+ * Charts computed from a comparison report
+ */
+export function comparisonVisualizations(report: DatasetComparison): IInsight['visualizations'] {
+  const visualizations: IInsight['visualizations'] = [];
+
+  const meanChanges = report.numeric.filter((shift) => shift.meanChangePercent !== null);
+  if (meanChanges.length > 0) {
+    visualizations.push({
+      type: 'bar',
+      data: meanChanges.map((shift) => ({ name: shift.column, value: shift.meanChangePercent })),
+      config: { title: 'Change in column averages (%)', xKey: 'name', bars: [{ dataKey: 'value', name: 'Mean change %' }] }
+    });
+  }
+
+  const categorical = [...report.categorical].sort((a, b) => b.totalVariation - a.totalVariation)[0];
+  if (categorical && categorical.topChanges.length > 0) {
+    visualizations.push({
+      type: 'bar',
+      data: categorical.topChanges.map((change) => ({
+        name: change.value,
+        baseline: change.baselineShare,
+        current: change.currentShare
+      })),
+      config: {
+        title: `Share of rows by ${categorical.column} (%)`,
+        xKey: 'name',
+        bars: [
+          { dataKey: 'baseline', name: report.baseline.name },
+          { dataKey: 'current', name: report.current.name }
+        ]
+      }
+    });
+  }
+
+  const aggregate = report.aggregates.find((entry) => entry.aggregation === 'sum') || report.aggregates[0];
+  if (aggregate) {
+    visualizations.push({
+      type: 'table',
+      data: aggregate.groups,
+      config: {
+        title: `${aggregateLabel(aggregate)} by ${aggregate.groupBy}`,
+        columns: ['group', 'baseline', 'current', 'change', 'changePercent']
+      }
+    });
+  }
+
+  return visualizations;
+}
+
+// ============================================
+// Narrative
+// ============================================
+
+const NARRATIVE_SCHEMA = `Return your response as a valid JSON object with the following structure:
+{
+  "title": "Brief title naming the most important change",
+  "description": "What changed between the two datasets and why it matters (2-3 paragraphs)",
+  "confidence": 85,
+  "metrics": [{ "name": "Metric name", "value": "value or number", "unit": "optional unit", "trend": "up|down|stable" }],
+  "recommendations": ["Actionable recommendation 1", "Actionable recommendation 2"]
+}
+Rules: confidence is a number from 0 to 100. title is at most 150 characters, description at most 2000,
+each recommendation at most 500. Only cite numbers that appear in the comparison. Charts are added by the server.`;
+
+/**
+ * Messages asking the model to explain a comparison report
+ */
+export function buildComparisonPrompt(report: DatasetComparison): ChatMessage[] {
+  return [
+    {
+      role: 'system',
+      content: `You are a data analysis expert. You explain what changed between two versions of a dataset, using a comparison computed over all rows of both.
+${NARRATIVE_SCHEMA}`
+    },
+    {
+      role: 'user',
+      content: `Baseline: ${report.baseline.name} (${report.baseline.rowCount} rows)
+Current: ${report.current.name} (${report.current.rowCount} rows)
+
+Comparison (shares and changes are in percent; ksStatistic and totalVariation measure distribution shift from 0 to 1, and "shifted" marks significant shifts):
+${JSON.stringify({ ...report, withheld: undefined })}
+
+Describe the most important changes first: schema differences, shifted distributions and the groups whose totals moved most.`
+    }
+  ];
+}
+
+/**
+ * Have the model write the comparison narrative; charts come from the report
+ */
+export async function narrateComparisonWithLLM(
+  llm: ResolvedProvider,
+  report: DatasetComparison,
+  options: JSONCompletionOptions = {}
+): Promise<JSONCompletionResult<ValidatedInsight>> {
+  return completeJSON(
+    llm,
+    buildComparisonPrompt(report),
+    (raw) =>
+      typeof raw === 'object' && raw !== null && !Array.isArray(raw)
+        ? validateInsightResult({ ...raw, visualizations: [] }, [])
+        : { errors: ['Response must be a JSON object'] },
+    options
+  );
+}
+
+/**
+ * Deterministic narrative for when no LLM is configured
+ */
+export function statisticalComparisonNarrative(report: DatasetComparison): ValidatedInsight {
+  const { baseline, current, schema } = report;
+  const shiftedNumeric = report.numeric.filter((shift) => shift.shifted);
+  const shiftedCategorical = report.categorical.filter((shift) => shift.shifted);
+
+  const sentences = [
+    `${current.name} has ${current.rowCount} rows against ${baseline.rowCount} in ${baseline.name}` +
+      (report.rowChangePercent !== null ? ` (${formatSigned(report.rowChangePercent)}%).` : '.')
+  ];
+  if (schema.added.length > 0) sentences.push(`New columns: ${schema.added.join(', ')}.`);
+  if (schema.removed.length > 0) sentences.push(`Removed columns: ${schema.removed.join(', ')}.`);
+  if (schema.typeChanges.length > 0) {
+    sentences.push(
+      `Changed types: ${schema.typeChanges.map((c) => `${c.column} (${c.from} to ${c.to})`).join(', ')}.`
+    );
+  }
+  shiftedNumeric.slice(0, 3).forEach((shift) => {
+    sentences.push(
+      `The distribution of ${shift.column} shifted: its average moved from ${round(shift.baseline.mean, 2)} ` +
+        `to ${round(shift.current.mean, 2)}` +
+        (shift.meanChangePercent !== null ? ` (${formatSigned(shift.meanChangePercent)}%).` : '.')
+    );
+  });
+  shiftedCategorical.slice(0, 3).forEach((shift) => {
+    const top = shift.topChanges[0];
+    if (!top) return;
+    sentences.push(
+      `The mix of ${shift.column} changed most for "${top.value}", from ${top.baselineShare}% to ${top.currentShare}% of rows.`
+    );
+  });
+  if (shiftedNumeric.length === 0 && shiftedCategorical.length === 0) {
+    sentences.push('No column distribution shifted significantly.');
+  }
+
+  const shiftCount = shiftedNumeric.length + shiftedCategorical.length;
+  const recommendations: string[] = [];
+  if (schema.added.length > 0 || schema.removed.length > 0 || schema.typeChanges.length > 0) {
+    recommendations.push('Check that reports and pipelines reading this export handle the schema changes');
+  }
+  if (shiftCount > 0) {
+    recommendations.push(
+      `Investigate the shifted columns (${[...shiftedNumeric, ...shiftedCategorical].map((s) => s.column).join(', ')}) before comparing period totals`
+    );
+  }
+  recommendations.push('Configure an LLM provider for a written explanation of the changes');
+
+  return {
+    title: truncateTitle(`What changed from ${baseline.name} to ${current.name}`),
+    description: sentences.join(' '),
+    confidence: Math.min(95, 60 + Math.round(Math.log10(Math.max(1, Math.min(baseline.rowCount, current.rowCount))) * 10)),
+    visualizations: [],
+    metrics: [
+      {
+        name: 'Row count change',
+        value: report.rowChangePercent ?? 0,
+        unit: '%',
+        trend: trendOf(report.rowChangePercent)
+      },
+      { name: 'Columns added', value: schema.added.length },
+      { name: 'Columns removed', value: schema.removed.length },
+      { name: 'Shifted columns', value: shiftCount }
+    ],
+    recommendations
+  };
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function side(dataset: ComparedDataset, rowCount: number, columnCount: number): ComparisonSide {
+  return { datasetId: String(dataset._id), name: dataset.name, rowCount, columnCount };
+}
+
+/**
+ * Per column, the stricter of the two datasets' policies
+ */
+function mergePolicies(a: PrivacyColumn[], b: PrivacyColumn[]): PrivacyColumn[] {
+  const merged = new Map<string, PrivacyColumn>();
+  [...a, ...b].forEach((column) => {
+    const existing = merged.get(column.name);
+    const policy = column.policy || 'send';
+    if (!existing || POLICY_STRICTNESS[policy] > POLICY_STRICTNESS[existing.policy || 'send']) {
+      merged.set(column.name, { name: column.name, policy, pii: column.pii || existing?.pii });
+    }
+  });
+  return [...merged.values()];
+}
+
+function numericValues(rows: DatasetRow[], column: string): number[] {
+  return rows.map((row) => toNumber(row[column])).filter((value): value is number => value !== null);
+}
+
+function summarize(values: number[], rowCount: number): NumericSummary {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    count: values.length,
+    missing: rowCount - values.length,
+    sum: round(values.reduce((sum, v) => sum + v, 0), 4),
+    mean: round(mean(values), 4),
+    median: round(quantile(sorted, 0.5), 4),
+    std: round(standardDeviation(values), 4),
+    min: sorted.length > 0 ? sorted[0] : 0,
+    max: sorted.length > 0 ? sorted[sorted.length - 1] : 0
+  };
+}
+
+function ksStatistic(a: number[], b: number[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const xs = [...a].sort((x, y) => x - y);
+  const ys = [...b].sort((x, y) => x - y);
+  let i = 0;
+  let j = 0;
+  let max = 0;
+  while (i < xs.length && j < ys.length) {
+    const value = Math.min(xs[i], ys[j]);
+    while (i < xs.length && xs[i] <= value) i++;
+    while (j < ys.length && ys[j] <= value) j++;
+    max = Math.max(max, Math.abs(i / xs.length - j / ys.length));
+  }
+  return max;
+}
+
+function shares(rows: DatasetRow[], column: string): Map<string, number> {
+  const counts = valueCounts(rows, column);
+  const total = counts.reduce((sum, entry) => sum + entry.value, 0);
+  return new Map(counts.map((entry) => [entry.name, total > 0 ? entry.value / total : 0]));
+}
+
+function distinctUnion(a: DatasetRow[], b: DatasetRow[], column: string): number {
+  const values = new Set<string>();
+  [...a, ...b].forEach((row) => {
+    if (isPresent(row[column])) values.add(String(row[column]));
+  });
+  return values.size;
+}
+
+function groupTotals(rows: DatasetRow[], groupBy: string, column?: string): Map<string, number> {
+  const totals = new Map<string, number>();
+  rows.forEach((row) => {
+    if (!isPresent(row[groupBy])) return;
+    const key = String(row[groupBy]);
+    const amount = column ? toNumber(row[column]) : 1;
+    if (amount === null) return;
+    totals.set(key, (totals.get(key) || 0) + amount);
+  });
+  return totals;
+}
+
+function changePercent(before: number, after: number): number | null {
+  if (before === 0) return null;
+  return round(((after - before) / Math.abs(before)) * 100, 2);
+}
+
+function aggregateLabel(aggregate: AggregateChange): string {
+  return aggregate.aggregation === 'count' ? 'Row count' : `Sum of ${aggregate.column}`;
+}
+
+function trendOf(change: number | null): 'up' | 'down' | 'stable' {
+  if (change === null || Math.abs(change) < 1) return 'stable';
+  return change > 0 ? 'up' : 'down';
+}
+
+function formatSigned(value: number): string {
+  return value > 0 ? `+${value}` : `${value}`;
+}
+
+function truncateTitle(text: string): string {
+  return text.length > 150 ? `${text.slice(0, 149)}…` : text;
+}
+
+export default {
+  checkCompatibility,
+  compareDatasets,
+  comparisonVisualizations,
+  narrateComparisonWithLLM,
+  statisticalComparisonNarrative
+};
@@ -0,0 +1,288 @@
+import type { IDataset } from '../models/Dataset.js';
+import { loadDatasetRows, type DatasetRow } from './datasetRowsService.js';
+import { estimateTokens } from './llmService.js';
+import { applyColumnPolicies, withheldColumns, type WithheldColumn } from './privacyService.js';
+import type { ColumnRole } from './schemaService.js';
+import {
+  classifyColumns,
+  isPresent,
+  mean,
+  quantile,
+  resolveColumnNames,
+  round,
+  standardDeviation,
+  toDate,
+  toNumber,
+  valueCounts
+} from './analyticsService.js';
+
+/**
+ * Builds the dataset context sent to the AI: per-column statistics plus a
+ * representative row sample, packed into a token budget.
+ */
+
+export interface ColumnContext {
+  name: string;
+  storedType: string;
+  detectedType: 'numeric' | 'date' | 'categorical';
+  // Set by the user in the dataset schema
+  displayName?: string;
+  description?: string;
+  unit?: string;
+  role?: ColumnRole;
+  nonNull: number;
+  nulls: number;
+  distinct: number;
+  min?: number | string;
+  max?: number | string;
+  mean?: number;
+  median?: number;
+  std?: number;
+  topValues?: Array<{ value: string; count: number }>;
+}
+
+export interface DatasetContext {
+  name: string;
+  description?: string;
+  fileType: string;
+  rowCount: number;
+  columnCount: number;
+  columns: ColumnContext[];
+  sampleRows: DatasetRow[];
+  sampleStrategy: string;
+  truncated: boolean;
+  redactedColumns?: Record<string, 'mask' | 'hash'>;
+}
+
+export interface BuiltDatasetContext {
+  context: DatasetContext;
+  text: string;
+  tokens: number;
+  withheld: WithheldColumn[];
+}
+
+export interface ContextOptions {
+  tokenBudget?: number;
+  maxSampleRows?: number;
+  rows?: DatasetRow[];
+}
+
+const DEFAULT_TOKEN_BUDGET = 3000;
+const DEFAULT_MAX_SAMPLE_ROWS = 25;
+const MAX_CELL_LENGTH = 80;
+const TOP_VALUES = 5;
+
+/**
+ * Fetch the stored dataset file and build a token-bounded context for prompts
+ */
+export async function buildDatasetContext(
+  dataset: Pick<IDataset, '_id' | 'name' | 'description' | 'fileType' | 'fileUrl' | 'fileSize' | 'sheetSelection' | 'csvDialect' | 'columns' | 'rowCount'>,
+  options: ContextOptions = {}
+): Promise<BuiltDatasetContext> {
+  // Column policies apply before anything is profiled, so statistics and samples carry no withheld values
+  const withheld = withheldColumns(dataset.columns);
+  const excluded = new Set(withheld.filter((c) => c.policy === 'exclude').map((c) => c.name));
+  const rows = applyColumnPolicies(
+    options.rows || (await loadDatasetRows(dataset)),
+    dataset.columns,
+    String(dataset._id)
+  );
+  const tokenBudget = options.tokenBudget || parseInt(process.env.AI_CONTEXT_TOKEN_BUDGET || '') || DEFAULT_TOKEN_BUDGET;
+  const maxSampleRows = options.maxSampleRows || DEFAULT_MAX_SAMPLE_ROWS;
+
+  const columnNames = resolveColumnNames(dataset, rows).filter((name) => !excluded.has(name));
+  const schema = new Map(dataset.columns.map((c) => [c.name, c]));
+  const groups = classifyColumns(rows, columnNames, dataset.columns);
+
+  const columns = columnNames.map((name) => {
+    const { type, displayName, description, unit, role } = schema.get(name) ?? {};
+    return {
+      ...profileColumn(
+        rows,
+        name,
+        type || 'unknown',
+        groups.numeric.includes(name) ? 'numeric' : groups.temporal.includes(name) ? 'date' : 'categorical'
+      ),
+      ...(displayName && { displayName }),
+      ...(description && { description }),
+      ...(unit && { unit }),
+      ...(role && { role })
+    };
+  });
+
+  const context: DatasetContext = {
+    name: dataset.name,
+    description: dataset.description || undefined,
+    fileType: dataset.fileType,
+    rowCount: rows.length,
+    columnCount: columnNames.length,
+    columns,
+    sampleRows: [],
+    sampleStrategy: 'first, last, evenly spaced and extreme-value rows',
+    truncated: false
+  };
+
+  // Tell the model which values are placeholders rather than real data
+  const redacted = withheld.filter((c) => c.policy !== 'exclude');
+  if (redacted.length > 0) {
+    context.redactedColumns = Object.fromEntries(redacted.map((c) => [c.name, c.policy as 'mask' | 'hash']));
+  }
+
+  return {
+    ...packIntoBudget(context, selectSampleRows(rows, groups.numeric, maxSampleRows), columnNames, tokenBudget),
+    withheld
+  };
+}
+
+// ============================================
+// Column Statistics
+// ============================================
+
+function profileColumn(
+  rows: DatasetRow[],
+  name: string,
+  storedType: string,
+  detectedType: ColumnContext['detectedType']
+): ColumnContext {
+  const present = rows.map((row) => row[name]).filter(isPresent);
+  const column: ColumnContext = {
+    name,
+    storedType,
+    detectedType,
+    nonNull: present.length,
+    nulls: rows.length - present.length,
+    distinct: new Set(present.map((v) => String(v))).size
+  };
+
+  if (detectedType === 'numeric') {
+    const values = present.map(toNumber).filter((v): v is number => v !== null);
+    const sorted = [...values].sort((a, b) => a - b);
+    if (sorted.length > 0) {
+      column.min = round(sorted[0], 4);
+      column.max = round(sorted[sorted.length - 1], 4);
+      column.mean = round(mean(values), 4);
+      column.median = round(quantile(sorted, 0.5), 4);
+      column.std = round(standardDeviation(values), 4);
+    }
+  } else if (detectedType === 'date') {
+    const times = present
+      .map(toDate)
+      .filter((d): d is Date => d !== null)
+      .map((d) => d.getTime())
+      .sort((a, b) => a - b);
+    if (times.length > 0) {
+      column.min = new Date(times[0]).toISOString();
+      column.max = new Date(times[times.length - 1]).toISOString();
+    }
+  } else {
+    column.topValues = valueCounts(rows, name)
+      .slice(0, TOP_VALUES)
+      .map((c) => ({ value: truncateCell(c.name), count: c.value }));
+  }
+
+  return column;
+}
+
+// ============================================
+// Representative Sampling
+// ============================================
+
+/**
+ * Pick rows that describe the whole file: the head, the tail, evenly spaced
+ * rows in between, and the rows holding each numeric column's min and max.
+ */
+function selectSampleRows(rows: DatasetRow[], numericColumns: string[], maxRows: number): DatasetRow[] {
+  if (rows.length <= maxRows) return rows.map(compactRow);
+
+  const picked = new Set<number>([0, 1, rows.length - 2, rows.length - 1]);
+
+  numericColumns.slice(0, Math.floor(maxRows / 4)).forEach((column) => {
+    let minIndex = -1, maxIndex = -1;
+    let min = Infinity, max = -Infinity;
+    rows.forEach((row, i) => {
+      const value = toNumber(row[column]);
+      if (value === null) return;
+      if (value < min) { min = value; minIndex = i; }
+      if (value > max) { max = value; maxIndex = i; }
+    });
+    if (minIndex >= 0) picked.add(minIndex);
+    if (maxIndex >= 0) picked.add(maxIndex);
+  });
+
+  const remaining = Math.max(0, maxRows - picked.size);
+  const step = rows.length / (remaining + 1);
+  for (let k = 1; k <= remaining; k++) {
+    picked.add(Math.floor(k * step));
+  }
+
+  return Array.from(picked)
+    .sort((a, b) => a - b)
+    .slice(0, maxRows)
+    .map((i) => compactRow(rows[i]));
+}
+
+function compactRow(row: DatasetRow): DatasetRow {
+  const compact: DatasetRow = {};
+  Object.entries(row).forEach(([key, value]) => {
+    compact[key] = typeof value === 'string' ? truncateCell(value) : value;
+  });
+  return compact;
+}
+
+function truncateCell(value: string): string {
+  return value.length > MAX_CELL_LENGTH ? `${value.slice(0, MAX_CELL_LENGTH)}…` : value;
+}
+
+// ============================================
+// Token Budget Packing
+// ============================================
+
+/**
+ * Fit the context into the token budget. Column statistics take priority;
+ * sample rows are added until the budget runs out.
+ */
+function packIntoBudget(
+  context: DatasetContext,
+  sampleRows: DatasetRow[],
+  columnNames: string[],
+  tokenBudget: number
+): Omit<BuiltDatasetContext, 'withheld'> {
+  const measure = (c: DatasetContext) => estimateTokens(JSON.stringify(c));
+
+  // Drop the least important detail first if the statistics alone are too large
+  if (measure(context) > tokenBudget) {
+    context.columns = context.columns.map((c) => ({ ...c, topValues: c.topValues?.slice(0, 2) }));
+    context.truncated = true;
+  }
+  while (measure(context) > tokenBudget && context.columns.length > 1) {
+    context.columns = context.columns.slice(0, Math.max(1, Math.floor(context.columns.length * 0.75)));
+  }
+
+  const keptColumns = new Set(context.columns.map((c) => c.name));
+  const used = measure(context);
+  let remaining = tokenBudget - used;
+
+  for (const row of sampleRows) {
+    const trimmed = keptColumns.size < columnNames.length ? pick(row, keptColumns) : row;
+    const cost = estimateTokens(JSON.stringify(trimmed)) + 1;
+    if (cost > remaining) {
+      context.truncated = true;
+      break;
+    }
+    context.sampleRows.push(trimmed);
+    remaining -= cost;
+  }
+
+  const text = JSON.stringify(context);
+  return { context, text, tokens: estimateTokens(text) };
+}
+
+function pick(row: DatasetRow, keys: Set<string>): DatasetRow {
+  const picked: DatasetRow = {};
+  keys.forEach((key) => { picked[key] = row[key]; });
+  return picked;
+}
+
+export default {
+  buildDatasetContext
+};
@@ -0,0 +1,266 @@
+import crypto from 'crypto';
+import readline from 'readline';
+import { Readable } from 'stream';
+import { downloadStream, downloadToBuffer } from './cloudinaryService.js';
+import { parseArrowRows, parseParquetRows } from './columnarFileService.js';
+import { readSheetRows, readWorkbook, type SheetSelection } from './excelSheetService.js';
+import { csvRowStream, detectCSVDialect, type CSVDialect } from './csvDialectService.js';
+import { applySchemaToRows } from './schemaService.js';
+import type { IDataset } from '../models/Dataset.js';
+
+export type DatasetRow = Record<string, any>;
+
+export interface MalformedLine {
+  line: number;
+  error: string;
+}
+
+export interface JSONLinesSummary {
+  rowCount: number;
+  malformedLines: number;
+  // First few malformed lines, to show the user what went wrong
+  malformedSamples: MalformedLine[];
+}
+
+// How to read a file beyond its type
+export interface ParseOptions {
+  // Excel: which sheets to read
+  sheets?: SheetSelection;
+  // CSV: delimiter, quote, encoding and header row; detected when left out
+  csv?: CSVDialect;
+}
+
+// Files parsed whole (Excel, JSON, Parquet, Arrow) must fit in memory; CSV and JSON Lines are read as streams
+export const MAX_IN_MEMORY_FILE_SIZE = parseInt(process.env.MAX_FILE_SIZE || '') || 10 * 1024 * 1024;
+export const STREAMED_FILE_TYPES = ['csv', 'jsonl'];
+
+// Loading a whole dataset keeps every row in memory, so larger ones are refused rather than cut short
+export const MAX_ANALYSIS_ROWS = parseInt(process.env.MAX_ANALYSIS_ROWS || '') || 500_000;
+
+/**
+ * Raised when a dataset is too large to load into memory; carries its HTTP status
+ */
+export class DatasetTooLargeError extends Error {
+  statusCode = 413;
+}
+
+const MALFORMED_SAMPLE_LIMIT = 10;
+
+/**
+ * Parse the rows of a dataset file held in memory (NO local storage)
+ */
+export async function parseRowsFromBuffer(
+  buffer: Buffer,
+  fileType: string,
+  limit?: number,
+  options: ParseOptions = {}
+): Promise<DatasetRow[]> {
+  switch (fileType) {
+    case 'csv':
+      return parseCSVRows(buffer, options.csv || detectCSVDialect(buffer), limit);
+    case 'json':
+      return takeRows(parseJSONRows(buffer), limit);
+    case 'jsonl':
+      return parseJSONLinesRows(Readable.from([buffer]), limit);
+    case 'excel':
+      return takeRows(readSheetRows(readWorkbook(buffer), options.sheets), limit);
+    case 'parquet':
+      return parseParquetRows(buffer, limit);
+    case 'arrow':
+      return parseArrowRows(buffer, limit);
+    default:
+      throw new Error(`Unsupported file type: ${fileType}`);
+  }
+}
+
+/**
+ * Parse the rows of a file read as a stream (see STREAMED_FILE_TYPES),
+ * reading no further than the limit
+ */
+export async function parseRowsFromStream(
+  source: Readable,
+  fileType: string,
+  limit?: number,
+  options: ParseOptions = {}
+): Promise<DatasetRow[]> {
+  switch (fileType) {
+    case 'csv':
+      if (!options.csv) throw new Error('The CSV dialect must be known to read a file as a stream');
+      return parseCSVRows(source, options.csv, limit);
+    case 'jsonl':
+      return parseJSONLinesRows(source, limit);
+    default:
+      throw new Error(`${fileType} files cannot be read as a stream`);
+  }
+}
+
+/**
+ * Download a dataset file from Cloudinary and parse its rows, with column
+ * types the user has overridden applied. Without a limit every row is loaded,
+ * up to MAX_ANALYSIS_ROWS
+ */
+export async function loadDatasetRows(
+  dataset: Pick<
+    IDataset,
+    'fileUrl' | 'fileType' | 'fileSize' | 'rowCount' | 'sheetSelection' | 'csvDialect' | 'columns'
+  >,
+  limit?: number
+): Promise<DatasetRow[]> {
+  const options = datasetParseOptions(dataset);
+  const tooManyRows = () =>
+    new DatasetTooLargeError(
+      `Dataset has more than ${MAX_ANALYSIS_ROWS.toLocaleString()} rows, too many to analyze at once`
+    );
+  if (limit === undefined && dataset.rowCount > MAX_ANALYSIS_ROWS) throw tooManyRows();
+
+  let rows: DatasetRow[];
+  // A CSV is streamed only once its dialect is known; datasets processed before dialects were stored are read whole
+  if (STREAMED_FILE_TYPES.includes(dataset.fileType) && (dataset.fileType !== 'csv' || options.csv)) {
+    // One row past the cap tells a dataset that grew since its row count was taken
+    const source = await downloadStream(dataset.fileUrl);
+    rows = await parseRowsFromStream(source, dataset.fileType, limit ?? MAX_ANALYSIS_ROWS + 1, options);
+    if (limit === undefined && rows.length > MAX_ANALYSIS_ROWS) throw tooManyRows();
+  } else {
+    if (dataset.fileSize > MAX_IN_MEMORY_FILE_SIZE) {
+      throw new DatasetTooLargeError(
+        `Dataset file is larger than ${Math.round(MAX_IN_MEMORY_FILE_SIZE / 1024 / 1024)} MB, too large to load into memory`
+      );
+    }
+    rows = await parseRowsFromBuffer(await downloadToBuffer(dataset.fileUrl), dataset.fileType, limit, options);
+  }
+  return applySchemaToRows(rows, dataset.columns);
+}
+
+/**
+ * Parse options stored on a dataset, as a plain object (also part of cache keys)
+ */
+export function datasetParseOptions(dataset: Pick<IDataset, 'sheetSelection' | 'csvDialect'>): ParseOptions {
+  const options: ParseOptions = {};
+  if (dataset.sheetSelection?.mode) {
+    options.sheets = { mode: dataset.sheetSelection.mode, sheets: [...dataset.sheetSelection.sheets] };
+  }
+  if (dataset.csvDialect?.delimiter) {
+    const { delimiter, quote, encoding, hasHeader, skipLines } = dataset.csvDialect;
+    options.csv = { delimiter, quote, encoding, hasHeader, skipLines };
+  }
+  return options;
+}
+
+/**
+ * SHA-256 of a dataset file's bytes
+ */
+export function hashContent(buffer: Buffer): string {
+  return crypto.createHash('sha256').update(buffer).digest('hex');
+}
+
+/**
+ * The dataset's content hash, computed and stored on first use for datasets
+ * uploaded before hashes were recorded
+ */
+export async function ensureContentHash(dataset: IDataset): Promise<string> {
+  if (!dataset.contentHash) {
+    // Hashed as it downloads, so the file is never held in memory whole
+    const hash = crypto.createHash('sha256');
+    for await (const chunk of await downloadStream(dataset.fileUrl)) {
+      hash.update(chunk);
+    }
+    dataset.contentHash = hash.digest('hex');
+    await dataset.save();
+  }
+  return dataset.contentHash;
+}
+
+async function parseCSVRows(input: Buffer | Readable, dialect: CSVDialect, limit?: number): Promise<DatasetRow[]> {
+  const rows: DatasetRow[] = [];
+  if (limit === 0) return rows;
+
+  for await (const row of csvRowStream(input, dialect)) {
+    if (limit !== undefined && rows.length >= limit) break;
+    rows.push(row);
+  }
+  return rows;
+}
+
+function parseJSONRows(buffer: Buffer): DatasetRow[] {
+  const data = JSON.parse(buffer.toString('utf-8'));
+
+  if (Array.isArray(data)) return data;
+  if (typeof data === 'object' && data !== null) {
+    const arrayKey = Object.keys(data).find((k) => Array.isArray(data[k]));
+    return arrayKey ? data[arrayKey] : [data];
+  }
+  return [];
+}
+
+/**
+ * Read JSON Lines / NDJSON one line at a time. Each non-blank line must be a
+ * JSON object; anything else is counted as malformed and skipped rather than
+ * failing the whole file. Return false from onRow to stop early.
+ */
+export async function streamJSONLines(
+  source: Readable,
+  onRow: (row: DatasetRow) => boolean | void
+): Promise<JSONLinesSummary> {
+  const lines = readline.createInterface({ input: source, crlfDelay: Infinity });
+  const summary: JSONLinesSummary = { rowCount: 0, malformedLines: 0, malformedSamples: [] };
+  let lineNumber = 0;
+
+  const malformed = (error: string) => {
+    summary.malformedLines++;
+    if (summary.malformedSamples.length < MALFORMED_SAMPLE_LIMIT) {
+      summary.malformedSamples.push({ line: lineNumber, error });
+    }
+  };
+
+  for await (const line of lines) {
+    lineNumber++;
+    const text = (lineNumber === 1 ? line.replace(/^\uFEFF/, '') : line).trim();
+    if (!text) continue;
+
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch (error) {
+      malformed(error instanceof Error ? error.message : 'Invalid JSON');
+      continue;
+    }
+
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      malformed('Line is not a JSON object');
+      continue;
+    }
+
+    summary.rowCount++;
+    if (onRow(value as DatasetRow) === false) break;
+  }
+
+  // Closing the reader leaves the source open; stop reading the rest of the file
+  lines.close();
+  source.destroy();
+  return summary;
+}
+
+async function parseJSONLinesRows(source: Readable, limit?: number): Promise<DatasetRow[]> {
+  const rows: DatasetRow[] = [];
+  if (limit === 0) return rows;
+
+  await streamJSONLines(source, (row) => {
+    rows.push(row);
+    return limit === undefined || rows.length < limit;
+  });
+  return rows;
+}
+
+function takeRows(rows: DatasetRow[], limit?: number): DatasetRow[] {
+  return limit === undefined ? rows : rows.slice(0, limit);
+}
+
+export default {
+  parseRowsFromBuffer,
+  parseRowsFromStream,
+  loadDatasetRows,
+  datasetParseOptions,
+  hashContent,
+  ensureContentHash,
+  streamJSONLines
+};
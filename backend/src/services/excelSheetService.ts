@@ -0,0 +1,173 @@
+import * as XLSX from 'xlsx';
+import type { ValidationResult } from './llmService.js';
+import type { DatasetRow } from './datasetRowsService.js';
+
+/**
+ * Excel workbooks with several sheets. Sheets are discovered while the file
+ * is processed; a dataset then reads one sheet, or stacks sheets that share
+ * the same columns. "split" is a one-off action that turns each sheet into a
+ * dataset of its own, so it is never stored as a selection.
+ */
+
+export const SHEET_MODES = ['single', 'stack', 'split'] as const;
+export type SheetMode = (typeof SHEET_MODES)[number];
+
+// Column added to stacked rows so each row keeps the sheet it came from
+export const STACKED_SHEET_COLUMN = '_sheet';
+
+export interface DatasetSheet {
+  name: string;
+  rowCount: number;
+  columns: string[];
+}
+
+// What a dataset reads from its workbook
+export interface SheetSelection {
+  mode: 'single' | 'stack';
+  sheets: string[];
+}
+
+// Requested at upload or re-process; sheets left out are chosen from the workbook
+export interface SheetRequest {
+  mode: SheetMode;
+  sheets?: string[];
+}
+
+// ============================================
+// Discovery
+// ============================================
+
+export function readWorkbook(buffer: Buffer): XLSX.WorkBook {
+  return XLSX.read(buffer, { type: 'buffer' });
+}
+
+export function listSheets(workbook: XLSX.WorkBook): DatasetSheet[] {
+  return workbook.SheetNames.map((name) => {
+    const [header = [], ...rows] = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], {
+      header: 1,
+      blankrows: false
+    });
+    return {
+      name,
+      rowCount: rows.length,
+      columns: header.filter((cell) => cell !== null && cell !== undefined && cell !== '').map(String)
+    };
+  });
+}
+
+function sameColumns(a: DatasetSheet, b: DatasetSheet): boolean {
+  if (a.columns.length !== b.columns.length) return false;
+  const columns = new Set(a.columns);
+  return b.columns.every((column) => columns.has(column));
+}
+
+// ============================================
+// Selection
+// ============================================
+
+/**
+ * Shape check for a sheet request from a request body
+ */
+export function validateSheetRequest(raw: unknown): ValidationResult<SheetRequest> {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { errors: ['Sheet selection must be an object'] };
+  }
+  const { mode, sheets } = raw as Record<string, unknown>;
+
+  if (!SHEET_MODES.includes(mode as SheetMode)) {
+    return { errors: [`Sheet mode must be one of: ${SHEET_MODES.join(', ')}`] };
+  }
+  if (sheets !== undefined && (!Array.isArray(sheets) || sheets.some((sheet) => typeof sheet !== 'string'))) {
+    return { errors: ['Sheets must be a list of sheet names'] };
+  }
+
+  return { value: { mode: mode as SheetMode, sheets: sheets as string[] | undefined }, errors: [] };
+}
+
+/**
+ * Check a request against the workbook's sheets and fill in the sheets to read.
+ * Defaults: single reads the first non-empty sheet, stack every sheet with the
+ * same columns as that one, split every non-empty sheet.
+ */
+export function resolveSheetRequest(
+  request: SheetRequest,
+  sheets: DatasetSheet[]
+): ValidationResult<{ mode: SheetMode; sheets: string[] }> {
+  const byName = new Map(sheets.map((sheet) => [sheet.name, sheet]));
+  const nonEmpty = sheets.filter((sheet) => sheet.rowCount > 0);
+  const first = nonEmpty[0] || sheets[0];
+  if (!first) return { errors: ['Workbook has no sheets'] };
+
+  if (!request.sheets || request.sheets.length === 0) {
+    switch (request.mode) {
+      case 'single':
+        return { value: { mode: 'single', sheets: [first.name] }, errors: [] };
+      case 'stack':
+        return {
+          value: { mode: 'stack', sheets: nonEmpty.filter((sheet) => sameColumns(first, sheet)).map((sheet) => sheet.name) },
+          errors: []
+        };
+      case 'split':
+        return { value: { mode: 'split', sheets: (nonEmpty.length > 0 ? nonEmpty : [first]).map((sheet) => sheet.name) }, errors: [] };
+    }
+  }
+
+  const names = [...new Set(request.sheets)];
+  const unknown = names.filter((name) => !byName.has(name));
+  if (unknown.length > 0) {
+    return { errors: unknown.map((name) => `Sheet "${name}" does not exist`) };
+  }
+
+  if (request.mode === 'single' && names.length !== 1) {
+    return { errors: ['Pick exactly one sheet'] };
+  }
+
+  if (request.mode === 'stack') {
+    const [reference, ...rest] = names.map((name) => byName.get(name) as DatasetSheet);
+    const mismatched = rest.filter((sheet) => !sameColumns(reference, sheet));
+    if (mismatched.length > 0) {
+      return {
+        errors: mismatched.map(
+          (sheet) => `Sheet "${sheet.name}" does not have the same columns as "${reference.name}"`
+        )
+      };
+    }
+  }
+
+  return { value: { mode: request.mode, sheets: names }, errors: [] };
+}
+
+// ============================================
+// Rows
+// ============================================
+
+/**
+ * Rows of the selected sheets; without a selection, the first sheet (how
+ * workbooks were read before sheets could be chosen)
+ */
+export function readSheetRows(workbook: XLSX.WorkBook, selection?: SheetSelection): DatasetRow[] {
+  if (!selection || selection.sheets.length === 0) {
+    return XLSX.utils.sheet_to_json(workbook.Sheets[workbook.SheetNames[0]]);
+  }
+
+  if (selection.mode === 'single') {
+    const sheet = workbook.Sheets[selection.sheets[0]];
+    if (!sheet) throw new Error(`Sheet "${selection.sheets[0]}" not found in workbook`);
+    return XLSX.utils.sheet_to_json(sheet);
+  }
+
+  return selection.sheets.flatMap((name) => {
+    const sheet = workbook.Sheets[name];
+    if (!sheet) throw new Error(`Sheet "${name}" not found in workbook`);
+    return XLSX.utils.sheet_to_json<DatasetRow>(sheet).map((row) => ({ [STACKED_SHEET_COLUMN]: name, ...row }));
+  });
+}
+
+export default {
+  SHEET_MODES,
+  readWorkbook,
+  listSheets,
+  validateSheetRequest,
+  resolveSheetRequest,
+  readSheetRows
+};
@@ -0,0 +1,505 @@
+import type { DatasetRow } from './datasetRowsService.js';
+import type { SchemaColumn } from './schemaService.js';
+import {
+  classifyColumns,
+  isPresent,
+  mean,
+  pearson,
+  percentChange,
+  quantile,
+  round,
+  standardDeviation,
+  toDate,
+  toNumber,
+  valueCounts
+} from './analyticsService.js';
+
+/**
+ * Fact-checking of generated insights.
+ * Numeric claims are pulled out of the description and metrics, matched to
+ * statistics recomputed from the dataset rows, and marked verified,
+ * contradicted (a single statistic was clearly meant and it disagrees) or
+ * unverifiable (nothing in the data could be matched).
+ */
+
+export type FactCheckStatus = 'verified' | 'unverifiable' | 'contradicted';
+
+export interface FactCheck {
+  source: 'description' | 'metric';
+  text: string; // sentence or metric name the number appeared in
+  claim: string; // the number as written
+  value: number;
+  unit?: 'percent';
+  status: FactCheckStatus;
+  expected?: number; // recomputed value behind a verified or contradicted claim
+  basis?: string; // what was recomputed, e.g. "mean of revenue"
+  start?: number; // offsets of the claim in the description
+  end?: number;
+  metricIndex?: number;
+}
+
+export interface FactCheckInput {
+  description: string;
+  metrics: Array<{ name: string; value: number | string; unit?: string }>;
+}
+
+type Aggregation =
+  | 'count'
+  | 'columns'
+  | 'distinct'
+  | 'sum'
+  | 'mean'
+  | 'median'
+  | 'min'
+  | 'max'
+  | 'std'
+  | 'share'
+  | 'change'
+  | 'correlation';
+
+interface Fact {
+  value: number;
+  percent: boolean;
+  aggregation: Aggregation;
+  columns: string[];
+  category?: string;
+  basis: string;
+}
+
+interface Claim {
+  claim: string;
+  value: number;
+  percent: boolean;
+  step: number; // precision the number was written with
+  window: string; // words around the number that say what it measures
+  context: string; // whole sentence or metric name
+  start?: number;
+  end?: number;
+}
+
+const MAX_NUMERIC_COLUMNS = 15;
+const MAX_CATEGORIES = 50;
+const MAX_CLAIMS = 40;
+// "About" numbers: within 1% of the recomputed value also counts as a match
+const RELATIVE_TOLERANCE = 0.01;
+
+const NUMBER_PATTERN =
+  /(?<![\w.\-/:])(?<sign>[-+]?)(?<currency>[$€£]?)(?<int>\d{1,3}(?:,\d{3})+|\d+)(?<fraction>\.\d+)?(?:(?<percent>\s?%|\s?percent\b)|\s?(?<scale>thousand|million|billion)\b|(?<suffix>k|K|M|bn|B)\b)?(?![\w%]|[-/:]\d)/g;
+
+const SCALES: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  m: 1e6,
+  million: 1e6,
+  b: 1e9,
+  bn: 1e9,
+  billion: 1e9
+};
+
+// Checked in order; the first keyword found decides what a number measures
+const AGGREGATION_KEYWORDS: Array<[Aggregation, RegExp]> = [
+  ['correlation', /\b(correlat\w*|r\s*=|coefficient)/i],
+  ['change', /\b(grew|grow\w*|increas\w*|decreas\w*|declin\w*|rose|rise\w*|fell|fall\w*|drop\w*|chang\w*|moved|shift\w*)\b/i],
+  ['share', /\b(share|of total|of all|accounts? for|proportion|percent of|of the rows|of rows|of records)\b/i],
+  ['median', /\bmedian\b/i],
+  ['std', /\b(standard deviation|std|spread)\b/i],
+  ['mean', /\b(average|mean|avg|typical)\b/i],
+  ['max', /\b(highest|maximum|max|peak\w*|largest|biggest)\b/i],
+  ['min', /\b(lowest|minimum|min|smallest)\b/i],
+  ['sum', /\b(total|sum|overall|combined|cumulative)\b/i],
+  ['distinct', /\b(distinct|unique|different)\b/i],
+  ['columns', /\b(columns|fields|variables)\b/i],
+  ['count', /\b(rows|records|entries|observations|data points|count|number of)\b/i]
+];
+
+// ============================================
+// Entry point
+// ============================================
+
+/**
+ * Check the numeric claims of an insight against the dataset rows
+ */
+export function factCheckInsight(
+  insight: FactCheckInput,
+  rows: DatasetRow[],
+  columns: string[],
+  schema: SchemaColumn[] = []
+): FactCheck[] {
+  const facts = computeFacts(rows, columns, schema);
+  const categories = categoryValues(rows, columns, schema);
+  const checks: FactCheck[] = [];
+
+  extractDescriptionClaims(insight.description).forEach((claim) => {
+    checks.push({ source: 'description', ...checkClaim(claim, facts, columns, categories) });
+  });
+
+  insight.metrics.forEach((metric, metricIndex) => {
+    const claim = extractMetricClaim(metric);
+    if (!claim) return;
+    checks.push({ source: 'metric', metricIndex, ...checkClaim(claim, facts, columns, categories) });
+  });
+
+  return checks.slice(0, MAX_CLAIMS);
+}
+
+/**
+ * Count of checks per status, e.g. for list views
+ */
+export function summarizeFactChecks(checks: FactCheck[]): Record<FactCheckStatus, number> {
+  const summary: Record<FactCheckStatus, number> = { verified: 0, unverifiable: 0, contradicted: 0 };
+  checks.forEach((check) => summary[check.status]++);
+  return summary;
+}
+
+// ============================================
+// Claim extraction
+// ============================================
+
+function extractDescriptionClaims(description: string): Claim[] {
+  const claims: Claim[] = [];
+  // A full stop followed by a non-space (a decimal point, "e.g.") does not end a sentence
+  const sentences = description.matchAll(/(?:[^.!?]|[.!?](?=\S))+[.!?]*/g);
+
+  for (const sentence of sentences) {
+    const offset = sentence.index ?? 0;
+    const text = sentence[0];
+    let previousEnd = 0;
+
+    for (const match of text.matchAll(NUMBER_PATTERN)) {
+      const parsed = parseNumber(match);
+      const start = match.index ?? 0;
+      const end = start + match[0].trimEnd().length;
+      if (parsed) {
+        // What precedes the number since the last one, plus the few words after it
+        const after = text.slice(end).match(/^\s*(\S+\s*){0,3}/)?.[0] || '';
+        claims.push({
+          ...parsed,
+          claim: match[0].trim(),
+          window: `${text.slice(previousEnd, start)} ${after}`,
+          context: text.trim(),
+          start: offset + start,
+          end: offset + end
+        });
+      }
+      previousEnd = end;
+    }
+  }
+
+  return claims;
+}
+
+function extractMetricClaim(metric: FactCheckInput['metrics'][number]): Claim | null {
+  const [match] = String(metric.value).matchAll(NUMBER_PATTERN);
+  const parsed = match ? parseNumber(match) : null;
+  if (!parsed) return null;
+  if (metric.unit && /%|percent/i.test(metric.unit)) parsed.percent = true;
+
+  return {
+    ...parsed,
+    claim: metric.unit ? `${metric.value} ${metric.unit}` : String(metric.value),
+    window: `${metric.name} ${metric.unit || ''}`,
+    context: metric.name
+  };
+}
+
+function parseNumber(match: RegExpMatchArray): Pick<Claim, 'value' | 'percent' | 'step'> | null {
+  const { sign, currency, int, fraction, percent, scale, suffix } = match.groups || {};
+  const digits = int.replace(/,/g, '');
+  const integer = Number(digits);
+
+  // A bare four-digit number between 1900 and 2100 is almost always a year
+  const bare = !sign && !currency && !fraction && !percent && !scale && !suffix && !int.includes(',');
+  if (bare && integer >= 1900 && integer <= 2100) return null;
+
+  // Trailing zeros read as rounding: "15,000 rows" is taken to the nearest hundred
+  const trailingZeros = fraction || integer === 0 ? 0 : digits.length - digits.replace(/0+$/, '').length;
+  const precision = fraction
+    ? Math.pow(10, 1 - fraction.length)
+    : Math.pow(10, Math.max(0, trailingZeros - 1));
+  const multiplier = SCALES[(scale || suffix || '').toLowerCase()] || 1;
+  const magnitude = (integer + (fraction ? Number(fraction) : 0)) * multiplier;
+
+  return {
+    value: sign === '-' ? -magnitude : magnitude,
+    percent: Boolean(percent),
+    step: precision * multiplier
+  };
+}
+
+// ============================================
+// Matching
+// ============================================
+
+function checkClaim(
+  claim: Claim,
+  facts: Fact[],
+  columns: string[],
+  categories: Map<string, string>
+): Omit<FactCheck, 'source'> {
+  const result = {
+    text: claim.context,
+    claim: claim.claim,
+    value: claim.value,
+    ...(claim.percent && { unit: 'percent' as const }),
+    ...(claim.start !== undefined && { start: claim.start, end: claim.end })
+  };
+
+  const aggregation = detectAggregation(claim.window);
+  const mentionedCategories = findCategories(claim.window, categories);
+  let mentionedColumns = findColumns(claim.window, columns);
+  if (mentionedColumns.length === 0) mentionedColumns = findColumns(claim.context, columns);
+  mentionedCategories.forEach((category) => {
+    const column = categories.get(category);
+    if (column && !mentionedColumns.includes(column)) mentionedColumns.push(column);
+  });
+
+  // Dataset-wide facts (row and column counts) are always in scope
+  const scoped = facts.filter((fact) => {
+    if (fact.percent !== claim.percent) return false;
+    if (fact.category && !mentionedCategories.includes(fact.category)) return false;
+    return fact.columns.length === 0 || fact.columns.some((column) => mentionedColumns.includes(column));
+  });
+
+  const rank = (fact: Fact) =>
+    (fact.aggregation === aggregation ? 2 : 0) + (fact.category ? 1 : 0);
+  const match = scoped
+    .filter((fact) => matches(claim, fact))
+    .sort((a, b) => rank(b) - rank(a))[0];
+  if (match) {
+    return { ...result, status: 'verified', expected: round(match.value, 4), basis: match.basis };
+  }
+
+  // Contradicted only when exactly one statistic fits what the claim describes
+  const targets = scoped.filter(
+    (fact) =>
+      fact.aggregation === aggregation &&
+      fact.columns.every((column) => mentionedColumns.includes(column)) &&
+      (mentionedCategories.length === 0 || fact.category !== undefined)
+  );
+  if (aggregation && targets.length === 1) {
+    const [target] = targets;
+    return { ...result, status: 'contradicted', expected: round(target.value, 4), basis: target.basis };
+  }
+
+  return { ...result, status: 'unverifiable' };
+}
+
+function matches(claim: Claim, fact: Fact): boolean {
+  // Direction of a change is carried by the wording ("fell 12%"), not the sign
+  const signless = fact.aggregation === 'change';
+  const actual = signless ? Math.abs(fact.value) : fact.value;
+  const claimed = signless ? Math.abs(claim.value) : claim.value;
+  return Math.abs(actual - claimed) <= Math.max(claim.step / 2, Math.abs(actual) * RELATIVE_TOLERANCE);
+}
+
+function detectAggregation(text: string): Aggregation | undefined {
+  return AGGREGATION_KEYWORDS.find(([, pattern]) => pattern.test(text))?.[0];
+}
+
+function normalizeName(name: string): string {
+  return name
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/[_\-.]+/g, ' ')
+    .toLowerCase()
+    .trim();
+}
+
+function containsPhrase(text: string, phrase: string): boolean {
+  if (!phrase) return false;
+  const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^\\w])${escaped}s?($|[^\\w])`, 'i').test(text);
+}
+
+function findColumns(text: string, columns: string[]): string[] {
+  const normalized = normalizeName(text);
+  return columns.filter((column) => containsPhrase(normalized, normalizeName(column)));
+}
+
+function findCategories(text: string, categories: Map<string, string>): string[] {
+  return Array.from(categories.keys()).filter((category) => containsPhrase(text, category));
+}
+
+// ============================================
+// Facts recomputed from the rows
+// ============================================
+
+/**
+ * Values of low-cardinality text columns, mapped to their column
+ */
+function categoryValues(rows: DatasetRow[], columns: string[], schema: SchemaColumn[]): Map<string, string> {
+  const values = new Map<string, string>();
+  categoricalColumns(rows, columns, schema).forEach(({ column, counts }) => {
+    counts.forEach(({ name }) => {
+      // Short or numeric-looking values would match too much text
+      if (name.length >= 2 && toNumber(name) === null && !values.has(name)) values.set(name, column);
+    });
+  });
+  return values;
+}
+
+function categoricalColumns(rows: DatasetRow[], columns: string[], schema: SchemaColumn[]) {
+  return classifyColumns(rows, columns, schema)
+    .categorical.map((column) => ({ column, counts: valueCounts(rows, column) }))
+    .filter(({ counts }) => counts.length >= 2 && counts.length <= MAX_CATEGORIES);
+}
+
+function computeFacts(rows: DatasetRow[], columns: string[], schema: SchemaColumn[]): Fact[] {
+  const groups = classifyColumns(rows, columns, schema);
+  const numeric = groups.numeric.slice(0, MAX_NUMERIC_COLUMNS);
+  const timeColumn = groups.temporal[0];
+  const facts: Fact[] = [
+    { value: rows.length, percent: false, aggregation: 'count', columns: [], basis: 'number of rows' },
+    { value: columns.length, percent: false, aggregation: 'columns', columns: [], basis: 'number of columns' }
+  ];
+
+  // Time-ordered rows, so changes read from the first to the last period
+  const ordered = timeColumn
+    ? rows
+        .map((row) => ({ row, date: toDate(row[timeColumn]) }))
+        .filter((entry): entry is { row: DatasetRow; date: Date } => entry.date !== null)
+        .sort((a, b) => a.date.getTime() - b.date.getTime())
+    : [];
+
+  numeric.forEach((column) => {
+    const values = rows.map((row) => toNumber(row[column])).filter((v): v is number => v !== null);
+    if (values.length === 0) return;
+    const sorted = [...values].sort((a, b) => a - b);
+    const total = values.reduce((sum, v) => sum + v, 0);
+    const add = (aggregation: Aggregation, value: number, basis: string, percent = false) =>
+      facts.push({ value, percent, aggregation, columns: [column], basis });
+
+    add('sum', total, `sum of ${column}`);
+    add('mean', mean(values), `mean of ${column}`);
+    add('median', quantile(sorted, 0.5), `median of ${column}`);
+    add('min', sorted[0], `minimum of ${column}`);
+    add('max', sorted[sorted.length - 1], `maximum of ${column}`);
+    add('std', standardDeviation(values), `standard deviation of ${column}`);
+    add('count', values.length, `non-empty values of ${column}`);
+    add('distinct', new Set(values).size, `distinct values of ${column}`);
+
+    const series = ordered.length
+      ? ordered.map(({ row }) => toNumber(row[column])).filter((v): v is number => v !== null)
+      : values;
+    add('change', percentChange(series), `change in ${column} from start to end`, true);
+    if (timeColumn) {
+      periodChanges(ordered, column).forEach((fact) => add('change', fact.value, fact.basis, true));
+    }
+  });
+
+  groups.categorical.forEach((column) => {
+    const distinct = valueCounts(rows, column).length;
+    facts.push({ value: distinct, percent: false, aggregation: 'distinct', columns: [column], basis: `distinct values of ${column}` });
+  });
+
+  categoricalColumns(rows, columns, schema).forEach(({ column, counts }) => {
+    const present = counts.reduce((sum, entry) => sum + entry.value, 0);
+    counts.forEach(({ name, value }) => {
+      const where = `${column} = ${name}`;
+      facts.push(
+        { value, percent: false, aggregation: 'count', columns: [column], category: name, basis: `rows where ${where}` },
+        { value: (value / present) * 100, percent: true, aggregation: 'share', columns: [column], category: name, basis: `share of rows where ${where}` }
+      );
+    });
+
+    numeric.forEach((measure) => {
+      const totals = new Map<string, { sum: number; count: number }>();
+      let overall = 0;
+      rows.forEach((row) => {
+        const value = toNumber(row[measure]);
+        if (value === null || !isPresent(row[column])) return;
+        const key = String(row[column]);
+        const entry = totals.get(key) || { sum: 0, count: 0 };
+        entry.sum += value;
+        entry.count++;
+        totals.set(key, entry);
+        overall += value;
+      });
+
+      totals.forEach(({ sum, count }, name) => {
+        const base = { columns: [column, measure], category: name };
+        const where = `where ${column} = ${name}`;
+        facts.push(
+          { ...base, value: sum, percent: false, aggregation: 'sum', basis: `sum of ${measure} ${where}` },
+          { ...base, value: sum / count, percent: false, aggregation: 'mean', basis: `mean of ${measure} ${where}` }
+        );
+        if (overall !== 0) {
+          facts.push({ ...base, value: (sum / overall) * 100, percent: true, aggregation: 'share', basis: `share of ${measure} ${where}` });
+        }
+      });
+    });
+  });
+
+  for (let i = 0; i < numeric.length; i++) {
+    for (let j = i + 1; j < numeric.length; j++) {
+      const xs: number[] = [];
+      const ys: number[] = [];
+      rows.forEach((row) => {
+        const x = toNumber(row[numeric[i]]);
+        const y = toNumber(row[numeric[j]]);
+        if (x !== null && y !== null) {
+          xs.push(x);
+          ys.push(y);
+        }
+      });
+      const r = pearson(xs, ys);
+      if (r !== null) {
+        facts.push({
+          value: r,
+          percent: false,
+          aggregation: 'correlation',
+          columns: [numeric[i], numeric[j]],
+          basis: `correlation of ${numeric[i]} and ${numeric[j]}`
+        });
+      }
+    }
+  }
+
+  return facts;
+}
+
+/**
+ * Period-over-period changes of a column's total, by year and by month
+ */
+function periodChanges(
+  ordered: Array<{ row: DatasetRow; date: Date }>,
+  column: string
+): Array<{ value: number; basis: string }> {
+  const changes: Array<{ value: number; basis: string }> = [];
+  const granularities: Array<[string, (date: Date) => string]> = [
+    ['year', (date) => String(date.getUTCFullYear())],
+    ['month', (date) => date.toISOString().slice(0, 7)]
+  ];
+
+  granularities.forEach(([unit, keyOf]) => {
+    const totals = new Map<string, number>();
+    ordered.forEach(({ row, date }) => {
+      const value = toNumber(row[column]);
+      if (value === null) return;
+      const key = keyOf(date);
+      totals.set(key, (totals.get(key) || 0) + value);
+    });
+
+    const periods = Array.from(totals.entries());
+    if (periods.length < 2) return;
+    const pct = (from: number, to: number) => (from === 0 ? null : ((to - from) / Math.abs(from)) * 100);
+
+    const [firstKey, first] = periods[0];
+    const [previousKey, previous] = periods[periods.length - 2];
+    const [lastKey, last] = periods[periods.length - 1];
+    const latest = pct(previous, last);
+    if (latest !== null) {
+      changes.push({ value: latest, basis: `change in total ${column} from ${previousKey} to ${lastKey} (by ${unit})` });
+    }
+    const overall = pct(first, last);
+    if (overall !== null && periods.length > 2) {
+      changes.push({ value: overall, basis: `change in total ${column} from ${firstKey} to ${lastKey} (by ${unit})` });
+    }
+  });
+
+  return changes;
+}
+
+export default {
+  factCheckInsight,
+  summarizeFactChecks
+};
@@ -0,0 +1,120 @@
+import crypto from 'crypto';
+import GenerationCache, { type IGenerationCache } from '../models/GenerationCache.js';
+
+/**
+ * Cache of AI insight generations. Identical requests on unchanged data
+ * (same content hash, type, query, model, prompt version, temperature and
+ * column policies) reuse the stored result instead of paying for a new completion.
+ */
+
+export interface CacheKeyParts {
+  userId: unknown;
+  contentHash: string;
+  insightType: string;
+  query?: string;
+  structuredQuery?: unknown;
+  provider: string;
+  model: string;
+  promptVersion: string;
+  columnPolicies?: unknown;
+  // How the file is read (e.g. Excel sheets); the same file can hold different data
+  parseOptions?: unknown;
+  // Column types, roles and descriptions set by the user change rows and prompts
+  schema?: unknown;
+  // Temperature asked for in the request; the provider default when left out
+  requestTemperature?: number;
+}
+
+const DEFAULT_TTL_HOURS = 24 * 7;
+
+/**
+ * Case, whitespace and trailing punctuation do not change the question
+ */
+export function normalizeQuery(query?: string): string {
+  return (query || '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/[\s?.!]+$/, '')
+    .trim();
+}
+
+// Stable JSON: object keys sorted so equal queries hash equally
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value as Record<string, unknown>)
+        .sort()
+        .map((key) => [key, canonicalize((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+export function buildCacheKey(parts: CacheKeyParts): string {
+  const parseOptions = canonicalize(parts.parseOptions ?? {}) as Record<string, unknown>;
+  const schema = canonicalize(parts.schema ?? {}) as Record<string, unknown>;
+  const material = JSON.stringify([
+    String(parts.userId),
+    parts.contentHash,
+    parts.insightType,
+    normalizeQuery(parts.query),
+    canonicalize(parts.structuredQuery ?? null),
+    parts.provider,
+    parts.model,
+    parts.promptVersion,
+    canonicalize(parts.columnPolicies ?? []),
+    // Only part of the key when set, so keys for plain files stay unchanged
+    ...(Object.keys(parseOptions).length === 0 ? [] : [parseOptions]),
+    ...(Object.keys(schema).length === 0 ? [] : [{ schema }]),
+    ...(parts.requestTemperature === undefined ? [] : [{ temperature: parts.requestTemperature }])
+  ]);
+  return crypto.createHash('sha256').update(material).digest('hex');
+}
+
+function ttlMs(): number {
+  const hours = parseFloat(process.env.AI_CACHE_TTL_HOURS || '');
+  return (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_TTL_HOURS) * 60 * 60 * 1000;
+}
+
+export function isCacheEnabled(): boolean {
+  return process.env.AI_CACHE_ENABLED !== 'false';
+}
+
+/**
+ * Look up a cached generation and count the hit
+ */
+export async function getCachedGeneration(key: string): Promise<IGenerationCache | null> {
+  return GenerationCache.findOneAndUpdate(
+    { key, expiresAt: { $gt: new Date() } },
+    { $inc: { hits: 1 }, $set: { lastHitAt: new Date() } },
+    { new: true }
+  );
+}
+
+/**
+ * Store (or replace, after a forced regeneration) the result for a key
+ */
+export async function storeGeneration(
+  key: string,
+  entry: Pick<IGenerationCache, 'userId' | 'datasetId' | 'insightType' | 'promptVersion' | 'result'>
+): Promise<void> {
+  await GenerationCache.findOneAndUpdate(
+    { key },
+    { ...entry, key, hits: 0, expiresAt: new Date(Date.now() + ttlMs()) },
+    { upsert: true }
+  );
+}
+
+export async function clearDatasetCache(datasetId: unknown): Promise<void> {
+  await GenerationCache.deleteMany({ datasetId });
+}
+
+export default {
+  normalizeQuery,
+  buildCacheKey,
+  isCacheEnabled,
+  getCachedGeneration,
+  storeGeneration,
+  clearDatasetCache
+};
@@ -0,0 +1,487 @@
+import type { IDataset } from '../models/Dataset.js';
+import type { DatasetRow } from './datasetRowsService.js';
+import { buildDatasetContext, type ColumnContext } from './datasetContextService.js';
+import { matchesFilter, validateFilters } from './chartSpecService.js';
+import { executeStructuredQuery, validateStructuredQuery } from './queryService.js';
+import { validateInsightResult, type ValidatedInsight } from './insightValidationService.js';
+import { OUTPUT_SCHEMA, TYPE_FOCUS, isTemplateInsightType } from './promptTemplateService.js';
+import { applyColumnPolicies, withheldColumns } from './privacyService.js';
+import { describeColumn, type SchemaColumn } from './schemaService.js';
+import {
+  addUsage,
+  completeJSON,
+  estimateTokens,
+  withSpentUsage,
+  type ChatMessage,
+  type CompletionResult,
+  type CompletionUsage,
+  type JSONCompletionResult,
+  type ResolvedProvider,
+  type ValidationResult
+} from './llmService.js';
+import {
+  classifyColumns,
+  pearson,
+  resolveColumnNames,
+  round,
+  toNumber,
+  valueCounts
+} from './analyticsService.js';
+
+/**
+ * Tool-calling analysis agent.
+ * Instead of one prompt holding a data sample, the model works in steps:
+ * each step either calls a server-side tool that runs over the full dataset
+ * (describe_columns, aggregate, filter_rows, correlation, histogram) or
+ * returns the final insight. Steps are bounded by a tool budget and every
+ * call is kept as a trace on the insight.
+ */
+
+export const AGENT_TOOLS = ['describe_columns', 'aggregate', 'filter_rows', 'correlation', 'histogram'] as const;
+export type AgentToolName = (typeof AGENT_TOOLS)[number];
+
+// Changing the agent prompt or tools invalidates cached agent generations
+export const AGENT_PROMPT_VERSION = 'agent@v2';
+
+export interface AgentStep {
+  step: number;
+  tool: AgentToolName;
+  arguments: Record<string, unknown>;
+  reason?: string;
+  result?: unknown;
+  error?: string;
+  durationMs: number;
+}
+
+export interface AgentTrace {
+  maxSteps: number;
+  steps: AgentStep[];
+}
+
+export interface AgentRequest {
+  dataset: Pick<IDataset, '_id' | 'name' | 'description' | 'fileType' | 'fileUrl' | 'fileSize' | 'sheetSelection' | 'csvDialect' | 'columns' | 'rowCount'>;
+  rows: DatasetRow[];
+  insightType: string;
+  query?: string;
+  queryResult?: string;
+}
+
+export interface AgentOptions {
+  maxSteps?: number;
+  temperature?: number;
+  signal?: AbortSignal;
+  onStep?: (step: Pick<AgentStep, 'step' | 'tool' | 'reason'>) => void;
+  onValidate?: (attempt: number) => void;
+  onRepair?: (attempt: number, errors: string[]) => void;
+}
+
+export interface AgentResult {
+  value: ValidatedInsight;
+  completion: CompletionResult;
+  trace: AgentTrace;
+  // Full conversation sent for the final answer
+  messages: ChatMessage[];
+}
+
+type AgentAction =
+  | { action: 'call_tool'; tool: AgentToolName; arguments: Record<string, unknown>; reason?: string }
+  | { action: 'final'; insight: ValidatedInsight };
+
+interface ToolContext {
+  rows: DatasetRow[];
+  columns: string[];
+  schema: SchemaColumn[];
+  describe: () => Promise<ColumnContext[]>;
+}
+
+interface AgentTool {
+  description: string;
+  validate: (args: Record<string, any>, columns: string[]) => ValidationResult<Record<string, any>>;
+  run: (args: Record<string, any>, context: ToolContext) => unknown | Promise<unknown>;
+}
+
+const DEFAULT_MAX_STEPS = 8;
+const MAX_STEPS_LIMIT = 20;
+const MAX_RESULT_TOKENS = 1500;
+const MAX_AGGREGATE_LIMIT = 50;
+const MAX_FILTER_ROWS = 20;
+const MAX_CORRELATION_COLUMNS = 10;
+const MAX_HISTOGRAM_BINS = 30;
+const MAX_CELL_LENGTH = 80;
+
+// ============================================
+// Tools
+// ============================================
+
+const TOOLS: Record<AgentToolName, AgentTool> = {
+  describe_columns: {
+    description:
+      '{"columns": ["optional subset of column names"]} - type, missing values, distinct count, range, mean, median and top values per column',
+    validate: (args, columns) => {
+      const errors: string[] = [];
+      const selected = args.columns === undefined ? columns : args.columns;
+      if (!Array.isArray(selected)) errors.push('columns must be an array of column names');
+      const names = Array.isArray(selected) ? selected : [];
+      names.filter((name) => !columns.includes(name)).forEach((name) => errors.push(`Unknown column "${name}"`));
+      return errors.length > 0 ? { errors } : { value: { columns: names }, errors };
+    },
+    run: async (args, context) =>
+      (await context.describe()).filter((column) => args.columns.includes(column.name))
+  },
+
+  aggregate: {
+    description:
+      '{"groupBy": ["column"], "measures": [{"aggregation": "sum|avg|count|min|max", "column": "numeric column (omit for count)", "alias": "name"}], "filters": [{"column": "...", "operator": "eq|neq|gt|gte|lt|lte|contains|in", "value": "..."}], "sort": [{"column": "groupBy column or alias", "direction": "asc|desc"}], "limit": 20} - grouped aggregation over all rows',
+    validate: (args, columns) => {
+      const result = validateStructuredQuery({ limit: 20, ...args }, columns);
+      if (result.value && result.value.limit > MAX_AGGREGATE_LIMIT) {
+        return { errors: [`limit must be at most ${MAX_AGGREGATE_LIMIT}`] };
+      }
+      return result as ValidationResult<Record<string, any>>;
+    },
+    run: (args, context) => {
+      const result = executeStructuredQuery(args as Parameters<typeof executeStructuredQuery>[0], context.rows);
+      return { matchedRows: result.matchedRows, totalGroups: result.totalGroups, rows: result.rows };
+    }
+  },
+
+  filter_rows: {
+    description:
+      '{"filters": [{"column": "...", "operator": "...", "value": "..."}], "columns": ["optional columns to return"], "limit": 10} - number of matching rows and example rows',
+    validate: (args, columns) => {
+      const errors: string[] = [];
+      const filters = validateFilters(args.filters, columns, 'filters', errors);
+      const selected = args.columns === undefined ? columns : args.columns;
+      if (!Array.isArray(selected)) errors.push('columns must be an array of column names');
+      const names = Array.isArray(selected) ? selected : [];
+      names.filter((name) => !columns.includes(name)).forEach((name) => errors.push(`Unknown column "${name}"`));
+      const limit = args.limit === undefined ? 10 : Number(args.limit);
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_FILTER_ROWS) {
+        errors.push(`limit must be an integer between 1 and ${MAX_FILTER_ROWS}`);
+      }
+      return errors.length > 0 ? { errors } : { value: { filters, columns: names, limit }, errors };
+    },
+    run: (args, context) => {
+      const matched = context.rows.filter((row) =>
+        args.filters.every((filter: Parameters<typeof matchesFilter>[1]) => matchesFilter(row[filter.column], filter))
+      );
+      return {
+        matchedRows: matched.length,
+        rows: matched.slice(0, args.limit).map((row) => pickColumns(row, args.columns))
+      };
+    }
+  },
+
+  correlation: {
+    description: `{"columns": ["2 to ${MAX_CORRELATION_COLUMNS} numeric columns"]} - Pearson correlation for each pair, with the number of rows used`,
+    validate: (args, columns) => {
+      const errors: string[] = [];
+      if (!Array.isArray(args.columns) || args.columns.length < 2 || args.columns.length > MAX_CORRELATION_COLUMNS) {
+        errors.push(`columns must be an array of 2 to ${MAX_CORRELATION_COLUMNS} column names`);
+      } else {
+        args.columns
+          .filter((name: unknown) => !columns.includes(name as string))
+          .forEach((name: unknown) => errors.push(`Unknown column "${name}"`));
+      }
+      return errors.length > 0 ? { errors } : { value: { columns: [...new Set<string>(args.columns)] }, errors };
+    },
+    run: (args, context) => {
+      const numeric = classifyColumns(context.rows, args.columns, context.schema).numeric;
+      const pairs: Array<{ a: string; b: string; r: number | null; n: number }> = [];
+      for (let i = 0; i < numeric.length; i++) {
+        for (let j = i + 1; j < numeric.length; j++) {
+          const xs: number[] = [];
+          const ys: number[] = [];
+          context.rows.forEach((row) => {
+            const x = toNumber(row[numeric[i]]);
+            const y = toNumber(row[numeric[j]]);
+            if (x !== null && y !== null) {
+              xs.push(x);
+              ys.push(y);
+            }
+          });
+          const r = pearson(xs, ys);
+          pairs.push({ a: numeric[i], b: numeric[j], r: r === null ? null : round(r, 4), n: xs.length });
+        }
+      }
+      const skipped = args.columns.filter((name: string) => !numeric.includes(name));
+      return { pairs, ...(skipped.length > 0 && { skippedNonNumeric: skipped }) };
+    }
+  },
+
+  histogram: {
+    description: `{"column": "...", "bins": 10} - distribution of a numeric column in equal-width bins (at most ${MAX_HISTOGRAM_BINS}), or value counts of a text column`,
+    validate: (args, columns) => {
+      const errors: string[] = [];
+      if (!columns.includes(args.column)) errors.push('column must be one of the dataset columns');
+      const bins = args.bins === undefined ? 10 : Number(args.bins);
+      if (!Number.isInteger(bins) || bins < 2 || bins > MAX_HISTOGRAM_BINS) {
+        errors.push(`bins must be an integer between 2 and ${MAX_HISTOGRAM_BINS}`);
+      }
+      return errors.length > 0 ? { errors } : { value: { column: args.column, bins }, errors };
+    },
+    run: (args, context) => histogram(context.rows, args.column, args.bins, context.schema)
+  }
+};
+
+function histogram(rows: DatasetRow[], column: string, bins: number, schema: SchemaColumn[]) {
+  const values = rows.map((row) => toNumber(row[column])).filter((v): v is number => v !== null);
+
+  if (classifyColumns(rows, [column], schema).numeric.length === 0) {
+    const counts = valueCounts(rows, column);
+    const top = counts.slice(0, MAX_HISTOGRAM_BINS);
+    const other = counts.slice(MAX_HISTOGRAM_BINS).reduce((sum, entry) => sum + entry.value, 0);
+    return { kind: 'categorical', distinct: counts.length, counts: top, ...(other > 0 && { other }) };
+  }
+
+  if (values.length === 0) return { kind: 'numeric', count: 0, bins: [] };
+
+  // A loop rather than Math.min(...values), which overflows the stack on large datasets
+  const { min, max } = values.reduce(
+    (range, value) => ({ min: Math.min(range.min, value), max: Math.max(range.max, value) }),
+    { min: values[0], max: values[0] }
+  );
+  const width = (max - min) / bins || 1;
+  const counts = new Array(bins).fill(0);
+  values.forEach((value) => {
+    counts[Math.min(bins - 1, Math.floor((value - min) / width))]++;
+  });
+
+  return {
+    kind: 'numeric',
+    count: values.length,
+    min: round(min, 4),
+    max: round(max, 4),
+    bins: counts.map((count, i) => ({
+      from: round(min + i * width, 4),
+      to: round(min + (i + 1) * width, 4),
+      count
+    }))
+  };
+}
+
+// ============================================
+// Agent loop
+// ============================================
+
+/**
+ * Run the tool-calling loop until the model returns a valid final insight
+ */
+export async function runInsightAgent(
+  llm: ResolvedProvider,
+  request: AgentRequest,
+  options: AgentOptions = {}
+): Promise<AgentResult> {
+  const maxSteps = resolveMaxSteps(options.maxSteps);
+  const { dataset } = request;
+
+  // Tools only ever see rows with the dataset's column policies applied
+  const excluded = new Set(
+    withheldColumns(dataset.columns)
+      .filter((column) => column.policy === 'exclude')
+      .map((column) => column.name)
+  );
+  const rows = applyColumnPolicies(request.rows, dataset.columns, String(dataset._id));
+  const columns = resolveColumnNames(dataset, rows).filter((name) => !excluded.has(name));
+
+  let profiles: Promise<ColumnContext[]> | undefined;
+  const context: ToolContext = {
+    rows,
+    columns,
+    schema: dataset.columns,
+    describe: () => {
+      profiles ??= buildDatasetContext(dataset, { rows: request.rows, maxSampleRows: 1 }).then(
+        (built) => built.context.columns
+      );
+      return profiles;
+    }
+  };
+
+  const messages: ChatMessage[] = [
+    { role: 'system', content: systemPrompt(maxSteps) },
+    { role: 'user', content: userPrompt(request, rows, columns) }
+  ];
+  const trace: AgentTrace = { maxSteps, steps: [] };
+  const usage: CompletionUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+  for (;;) {
+    const budgetLeft = trace.steps.length < maxSteps;
+    let reply: JSONCompletionResult<AgentAction>;
+    try {
+      if (options.signal?.aborted) throw new Error('Request was aborted');
+      reply = await completeJSON(llm, messages, (raw) => validateAction(raw, columns, budgetLeft), {
+        temperature: options.temperature,
+        signal: options.signal,
+        onValidate: options.onValidate,
+        onRepair: options.onRepair
+      });
+    } catch (error) {
+      // The steps already taken are charged even though the run stops here
+      throw withSpentUsage(error, usage);
+    }
+    const { value, completion, messages: sent } = reply;
+    addUsage(usage, completion.usage);
+    messages.push({ role: 'assistant', content: completion.content });
+
+    if (value.action === 'final') {
+      return { value: value.insight, completion: { ...completion, usage }, trace, messages: sent };
+    }
+
+    const step: AgentStep = {
+      step: trace.steps.length + 1,
+      tool: value.tool,
+      arguments: value.arguments,
+      ...(value.reason && { reason: value.reason }),
+      durationMs: 0
+    };
+    options.onStep?.({ step: step.step, tool: step.tool, reason: step.reason });
+
+    const started = Date.now();
+    try {
+      step.result = capResult(await TOOLS[value.tool].run(value.arguments, context));
+    } catch (error: any) {
+      step.error = error.message || 'Tool failed';
+    }
+    step.durationMs = Date.now() - started;
+    trace.steps.push(step);
+
+    const remaining = maxSteps - trace.steps.length;
+    messages.push({
+      role: 'user',
+      content:
+        `Result of ${step.tool} (step ${step.step}):\n` +
+        JSON.stringify(step.error ? { error: step.error } : step.result) +
+        (remaining > 0
+          ? `\n${remaining} tool call(s) left.`
+          : '\nThe tool budget is used up. Return the final insight now.')
+    });
+  }
+}
+
+function validateAction(raw: unknown, columns: string[], budgetLeft: boolean): ValidationResult<AgentAction> {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { errors: ['Response must be a JSON object'] };
+  }
+  const action = raw as Record<string, any>;
+
+  // A bare insight object (no action) is read as the final answer
+  if (action.action === 'final' || (action.action === undefined && 'title' in action)) {
+    const result = validateInsightResult(action.action === 'final' ? action.insight : action, columns);
+    if (!result.value) return { errors: result.errors.map((error) => `insight: ${error}`) };
+    return { value: { action: 'final', insight: result.value }, errors: [] };
+  }
+
+  if (action.action !== 'call_tool') {
+    return { errors: ['action must be "call_tool" or "final"'] };
+  }
+  if (!budgetLeft) {
+    return { errors: ['The tool budget is used up; action must be "final"'] };
+  }
+  if (!(AGENT_TOOLS as readonly string[]).includes(action.tool)) {
+    return { errors: [`tool must be one of: ${AGENT_TOOLS.join(', ')}`] };
+  }
+
+  const args = action.arguments ?? {};
+  if (typeof args !== 'object' || Array.isArray(args)) {
+    return { errors: ['arguments must be a JSON object'] };
+  }
+  const tool = action.tool as AgentToolName;
+  const result = TOOLS[tool].validate(args, columns);
+  if (!result.value) return { errors: result.errors.map((error) => `${tool}.arguments: ${error}`) };
+
+  return {
+    value: {
+      action: 'call_tool',
+      tool,
+      arguments: result.value,
+      ...(typeof action.reason === 'string' && { reason: action.reason.slice(0, 300) })
+    },
+    errors: []
+  };
+}
+
+// ============================================
+// Prompts
+// ============================================
+
+function systemPrompt(maxSteps: number): string {
+  const tools = AGENT_TOOLS.map((name) => `- ${name} ${TOOLS[name].description}`).join('\n');
+  return `You are a data analysis agent. You investigate a dataset by calling tools that run over every row, then write an insight grounded in the tool results.
+Each response is one JSON object, either a tool call:
+{ "action": "call_tool", "tool": "tool name", "arguments": { ... }, "reason": "what you want to find out" }
+or the final answer:
+{ "action": "final", "insight": { ... } }
+
+Tools:
+${tools}
+
+You can call at most ${maxSteps} tools. Plan your calls, and only cite numbers that appear in tool results.
+Column names must match the dataset exactly.
+
+The "insight" object of the final answer follows this contract.
+${OUTPUT_SCHEMA}`;
+}
+
+function userPrompt(request: AgentRequest, rows: DatasetRow[], columns: string[]): string {
+  const schema = new Map(request.dataset.columns.map((c) => [c.name, c]));
+  const focus = isTemplateInsightType(request.insightType) ? TYPE_FOCUS[request.insightType] : TYPE_FOCUS.summary;
+
+  return [
+    `Dataset: ${request.dataset.name} (${rows.length} rows)`,
+    request.dataset.description ? `Description: ${request.dataset.description}` : '',
+    `Columns:\n${columns.map((name) => `- ${describeColumn(schema.get(name), name)}`).join('\n')}`,
+    '',
+    `Insight Type: ${request.insightType}`,
+    request.query ? `Specific Query: ${request.query}` : '',
+    request.queryResult ? `${request.queryResult}\nBase your answer to the query on this result.` : '',
+    '',
+    `Investigate with the tools, then provide:\n${focus}`
+  ]
+    .filter((line, i, lines) => line !== '' || lines[i - 1] !== '')
+    .join('\n');
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function resolveMaxSteps(requested?: number): number {
+  const configured = requested ?? parseInt(process.env.AI_AGENT_MAX_STEPS || '');
+  if (!Number.isInteger(configured) || configured < 1) return DEFAULT_MAX_STEPS;
+  return Math.min(configured, MAX_STEPS_LIMIT);
+}
+
+function pickColumns(row: DatasetRow, columns: string[]): DatasetRow {
+  const picked: DatasetRow = {};
+  columns.forEach((column) => {
+    const value = row[column];
+    picked[column] =
+      typeof value === 'string' && value.length > MAX_CELL_LENGTH ? `${value.slice(0, MAX_CELL_LENGTH)}…` : value;
+  });
+  return picked;
+}
+
+/**
+ * Keep tool results within a token budget by dropping trailing rows
+ */
+function capResult(result: unknown): unknown {
+  if (estimateTokens(JSON.stringify(result)) <= MAX_RESULT_TOKENS) return result;
+  if (typeof result === 'object' && result !== null) {
+    const record = result as Record<string, unknown>;
+    const listKey = ['rows', 'pairs', 'counts', 'bins'].find((key) => Array.isArray(record[key]));
+    if (listKey) {
+      const list = record[listKey] as unknown[];
+      let kept = list.length;
+      while (kept > 1 && estimateTokens(JSON.stringify({ ...record, [listKey]: list.slice(0, kept) })) > MAX_RESULT_TOKENS) {
+        kept = Math.floor(kept / 2);
+      }
+      return { ...record, [listKey]: list.slice(0, kept), truncated: `${list.length - kept} more omitted` };
+    }
+  }
+  return { truncated: true, preview: JSON.stringify(result).slice(0, MAX_RESULT_TOKENS * 4) };
+}
+
+export default {
+  AGENT_TOOLS,
+  runInsightAgent
+};
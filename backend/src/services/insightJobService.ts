@@ -0,0 +1,129 @@
+import InsightJob, { type IInsightJob, type IInsightJobItem, type InsightJobStatus } from '../models/InsightJob.js';
+
+/**
+ * Background "insight pack" jobs: one insight per type for a dataset,
+ * generated one after another. A failed item does not stop the job; it ends
+ * as partial and the failed items can be retried.
+ */
+
+export const INSIGHT_PACK_TYPES = ['summary', 'trend', 'anomaly', 'correlation', 'prediction'] as const;
+
+// Produces the insight for one item and returns its ID
+export type InsightJobGenerator = (insightType: string) => Promise<unknown>;
+
+const ACTIVE_STATUSES: InsightJobStatus[] = ['queued', 'running'];
+
+export function isJobActive(job: Pick<IInsightJob, 'status'>): boolean {
+  return ACTIVE_STATUSES.includes(job.status);
+}
+
+export function finalStatus(items: Pick<IInsightJobItem, 'status'>[]): InsightJobStatus {
+  const completed = items.filter((item) => item.status === 'completed').length;
+  if (completed === items.length) return 'completed';
+  return completed > 0 ? 'partial' : 'failed';
+}
+
+/**
+ * Whether an error is the unique index refusing a second active job for a dataset
+ */
+export function isActiveJobConflict(error: unknown): boolean {
+  return (error as { code?: number } | null)?.code === 11000;
+}
+
+export async function findActiveJob(datasetId: unknown): Promise<IInsightJob | null> {
+  return InsightJob.findOne({ datasetId, status: { $in: ACTIVE_STATUSES } });
+}
+
+export async function createInsightJob(
+  userId: unknown,
+  datasetId: unknown,
+  options: IInsightJob['options'],
+  insightTypes: readonly string[] = INSIGHT_PACK_TYPES
+): Promise<IInsightJob> {
+  return InsightJob.create({
+    userId,
+    datasetId,
+    options,
+    items: insightTypes.map((insightType) => ({ insightType }))
+  });
+}
+
+/**
+ * Run the job's pending items in order, saving progress after each step
+ */
+export async function runInsightJob(jobId: unknown, generate: InsightJobGenerator): Promise<void> {
+  const job = await InsightJob.findById(jobId);
+  if (!job) return;
+
+  job.status = 'running';
+  job.startedAt = job.startedAt || new Date();
+  job.completedAt = undefined;
+  await job.save();
+
+  for (const item of job.items) {
+    if (item.status !== 'pending') continue;
+
+    item.status = 'running';
+    item.startedAt = new Date();
+    item.error = undefined;
+    await job.save();
+
+    try {
+      item.insightId = (await generate(item.insightType)) as IInsightJobItem['insightId'];
+      item.status = 'completed';
+    } catch (error: any) {
+      item.status = 'failed';
+      item.error = error.message || 'Generation failed';
+    }
+    item.completedAt = new Date();
+    await job.save();
+  }
+
+  job.status = finalStatus(job.items);
+  job.completedAt = new Date();
+  await job.save();
+}
+
+/**
+ * Put failed items back in the queue; returns false when there is nothing to retry
+ */
+export async function resetFailedItems(job: IInsightJob): Promise<boolean> {
+  const failed = job.items.filter((item) => item.status === 'failed');
+  if (failed.length === 0) return false;
+
+  for (const item of failed) {
+    item.status = 'pending';
+    item.error = undefined;
+    item.startedAt = undefined;
+    item.completedAt = undefined;
+  }
+  job.status = 'queued';
+  await job.save();
+  return true;
+}
+
+/**
+ * Jobs do not survive a restart; mark the ones that were in flight as failed
+ */
+export async function failInterruptedJobs(): Promise<void> {
+  const jobs = await InsightJob.find({ status: { $in: ACTIVE_STATUSES } });
+  for (const job of jobs) {
+    for (const item of job.items) {
+      if (item.status === 'pending' || item.status === 'running') {
+        item.status = 'failed';
+        item.error = 'Interrupted by a server restart';
+      }
+    }
+    job.status = finalStatus(job.items);
+    job.completedAt = new Date();
+    await job.save();
+  }
+}
+
+export default {
+  INSIGHT_PACK_TYPES,
+  createInsightJob,
+  runInsightJob,
+  resetFailedItems,
+  failInterruptedJobs
+};
@@ -0,0 +1,167 @@
+import type { IInsight } from '../models/Insight.js';
+import type { ValidationResult } from './llmService.js';
+import { validateChartSpec, type ChartSpec } from './chartSpecService.js';
+
+/**
+ * Strict validation of AI insight output against the Insight schema.
+ * Normalizes what can be fixed safely (confidence scale, casing) and reports
+ * everything else as errors the model can be asked to repair.
+ * Visualizations are chart specs only; their data is computed server-side.
+ */
+
+export const METRIC_TRENDS = ['up', 'down', 'stable'] as const;
+
+const TITLE_MAX_LENGTH = 150;
+const DESCRIPTION_MAX_LENGTH = 2000;
+const RECOMMENDATION_MAX_LENGTH = 500;
+
+export interface ValidatedInsight {
+  title: string;
+  description: string;
+  confidence: number; // 0-100
+  visualizations: ChartSpec[];
+  metrics: IInsight['metrics'];
+  recommendations: string[];
+}
+
+/**
+ * Validate a parsed model response and normalize it to the Insight schema.
+ * Chart specs may only reference the given dataset columns.
+ */
+export function validateInsightResult(raw: unknown, columns: string[]): ValidationResult<ValidatedInsight> {
+  const errors: string[] = [];
+
+  if (!isObject(raw)) {
+    return { errors: ['Response must be a JSON object'] };
+  }
+
+  const title = requireString(raw.title, 'title', TITLE_MAX_LENGTH, errors);
+  const description = requireString(raw.description, 'description', DESCRIPTION_MAX_LENGTH, errors);
+  const confidence = normalizeConfidence(raw.confidence, errors);
+
+  const visualizations = validateChartSpecs(raw.visualizations, columns, errors);
+  const metrics = validateMetrics(raw.metrics, errors);
+
+  const recommendations: string[] = [];
+  requireArray(raw.recommendations, 'recommendations', errors).forEach((rec, i) => {
+    if (typeof rec !== 'string' || rec.trim() === '') {
+      errors.push(`recommendations[${i}] must be a non-empty string`);
+    } else if (rec.length > RECOMMENDATION_MAX_LENGTH) {
+      errors.push(`recommendations[${i}] must be at most ${RECOMMENDATION_MAX_LENGTH} characters`);
+    } else {
+      recommendations.push(rec.trim());
+    }
+  });
+
+  if (errors.length > 0) return { errors };
+
+  return {
+    value: { title, description, confidence, visualizations, metrics, recommendations },
+    errors
+  };
+}
+
+/**
+ * Validate a list of chart specs, collecting errors by array position
+ */
+export function validateChartSpecs(value: unknown, columns: string[], errors: string[]): ChartSpec[] {
+  const visualizations: ChartSpec[] = [];
+  requireArray(value, 'visualizations', errors).forEach((viz, i) => {
+    const result = validateChartSpec(viz, columns, `visualizations[${i}]`);
+    if (result.value) {
+      visualizations.push(result.value);
+    } else {
+      errors.push(...result.errors);
+    }
+  });
+  return visualizations;
+}
+
+/**
+ * Validate metric entries (name, value, optional unit and trend)
+ */
+export function validateMetrics(value: unknown, errors: string[]): ValidatedInsight['metrics'] {
+  const metrics: ValidatedInsight['metrics'] = [];
+  requireArray(value, 'metrics', errors).forEach((metric, i) => {
+    const path = `metrics[${i}]`;
+    if (!isObject(metric)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+    if (typeof metric.name !== 'string' || metric.name.trim() === '') {
+      errors.push(`${path}.name must be a non-empty string`);
+      return;
+    }
+    if (typeof metric.value !== 'number' && typeof metric.value !== 'string') {
+      errors.push(`${path}.value must be a number or string`);
+      return;
+    }
+    if (typeof metric.value === 'number' && !Number.isFinite(metric.value)) {
+      errors.push(`${path}.value must be a finite number`);
+      return;
+    }
+    if (metric.unit !== undefined && typeof metric.unit !== 'string') {
+      errors.push(`${path}.unit must be a string`);
+      return;
+    }
+    const trend = typeof metric.trend === 'string' ? metric.trend.trim().toLowerCase() : metric.trend;
+    if (trend !== undefined && !(METRIC_TRENDS as readonly unknown[]).includes(trend)) {
+      errors.push(`${path}.trend must be one of ${METRIC_TRENDS.join(', ')}`);
+      return;
+    }
+    metrics.push({
+      name: metric.name.trim(),
+      value: metric.value,
+      ...(metric.unit ? { unit: metric.unit } : {}),
+      ...(trend ? { trend } : {})
+    });
+  });
+  return metrics;
+}
+
+/**
+ * Accept confidence on a 0-1 or 0-100 scale (or as a "85%" string) and return 0-100
+ */
+export function normalizeConfidence(value: unknown, errors: string[] = []): number {
+  const parsed =
+    typeof value === 'string' ? parseFloat(value.replace('%', '')) : typeof value === 'number' ? value : NaN;
+
+  if (!Number.isFinite(parsed) || parsed < 0 || parsed > 100) {
+    errors.push('confidence must be a number between 0 and 100');
+    return 0;
+  }
+  // Values up to 1 are treated as fractions - a genuine 1% confidence is not useful output
+  const percent = parsed <= 1 ? parsed * 100 : parsed;
+  return Math.round(percent * 10) / 10;
+}
+
+function requireString(value: unknown, field: string, maxLength: number, errors: string[]): string {
+  if (typeof value !== 'string' || value.trim() === '') {
+    errors.push(`${field} must be a non-empty string`);
+    return '';
+  }
+  if (value.trim().length > maxLength) {
+    errors.push(`${field} must be at most ${maxLength} characters (got ${value.trim().length})`);
+  }
+  return value.trim();
+}
+
+function requireArray(value: unknown, field: string, errors: string[]): unknown[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    errors.push(`${field} must be an array`);
+    return [];
+  }
+  return value;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export default {
+  validateInsightResult,
+  validateChartSpecs,
+  validateMetrics,
+  normalizeConfidence
+};
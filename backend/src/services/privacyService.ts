@@ -0,0 +1,258 @@
+import crypto from 'crypto';
+import type { DatasetRow } from './datasetRowsService.js';
+import { isPresent } from './analyticsService.js';
+
+/**
+ * Sensitive-column handling for data sent to AI providers.
+ * Columns are scanned for personal data while a dataset is processed, and
+ * each column carries a policy applied to every row before it reaches a
+ * prompt: send as stored, mask, hash (stable pseudonyms that keep distinct
+ * counts) or exclude entirely.
+ */
+
+export const PII_KINDS = [
+  'email',
+  'phone',
+  'name',
+  'address',
+  'postal_code',
+  'ip_address',
+  'credit_card',
+  'ssn',
+  'date_of_birth'
+] as const;
+export type PIIKind = (typeof PII_KINDS)[number];
+
+export const COLUMN_POLICIES = ['send', 'mask', 'hash', 'exclude'] as const;
+export type ColumnPolicy = (typeof COLUMN_POLICIES)[number];
+
+export interface ColumnPII {
+  kind: PIIKind;
+  confidence: number; // 0-100
+}
+
+export interface PrivacyColumn {
+  name: string;
+  pii?: ColumnPII;
+  policy?: ColumnPolicy;
+}
+
+export interface WithheldColumn {
+  name: string;
+  policy: Exclude<ColumnPolicy, 'send'>;
+  kind?: PIIKind;
+}
+
+interface Detector {
+  kind: PIIKind;
+  columnName: RegExp;
+  value?: (value: string) => boolean;
+  // Values alone are distinctive enough, whatever the column is called
+  valueAlone?: boolean;
+}
+
+export const PII_SAMPLE_ROWS = 500;
+const VALUE_ALONE_SHARE = 0.8;
+const HINTED_SHARE = 0.5;
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[a-z]{2,}$/i;
+const SSN = /^\d{3}-\d{2}-\d{4}$/;
+const IPV4 = /^(25[0-5]|2[0-4]\d|1?\d?\d)(\.(25[0-5]|2[0-4]\d|1?\d?\d)){3}$/;
+const PHONE = /^\+?[\d\s().-]{7,20}$/;
+const PERSON_NAME = /^[A-Z][a-zA-Z'’-]+(?:\s[A-Z][a-zA-Z'’.-]+){0,2}$/;
+
+// Checked in order; the first detector that matches a column wins
+const DETECTORS: Detector[] = [
+  { kind: 'email', columnName: /\be ?mail\b/, value: (v) => EMAIL.test(v), valueAlone: true },
+  { kind: 'ssn', columnName: /\b(ssn|social security|national id)\b/, value: (v) => SSN.test(v), valueAlone: true },
+  { kind: 'credit_card', columnName: /\b(card|credit|cc num\w*)\b/, value: isCardNumber, valueAlone: true },
+  { kind: 'ip_address', columnName: /\bip( address)?\b/, value: (v) => IPV4.test(v), valueAlone: true },
+  { kind: 'phone', columnName: /\b(phone|mobile|cell|tel|telephone|fax)\b/, value: (v) => PHONE.test(v) && v.replace(/\D/g, '').length >= 7 },
+  {
+    kind: 'name',
+    columnName: /^((first|last|full|middle|given|family|customer|contact|user|employee|person|patient|client) )?name$|^surname$/,
+    value: (v) => PERSON_NAME.test(v)
+  },
+  { kind: 'address', columnName: /\b(address|street|addr)\b/ },
+  { kind: 'postal_code', columnName: /\b(zip|postal|post code|postcode)\b/ },
+  { kind: 'date_of_birth', columnName: /\b(dob|birth ?date|date of birth|birthday)\b/ }
+];
+
+const DEFAULT_POLICIES: Record<PIIKind, ColumnPolicy> = {
+  email: 'hash',
+  phone: 'hash',
+  name: 'hash',
+  ip_address: 'hash',
+  address: 'mask',
+  postal_code: 'mask',
+  credit_card: 'exclude',
+  ssn: 'exclude',
+  date_of_birth: 'exclude'
+};
+
+// ============================================
+// Detection
+// ============================================
+
+/**
+ * Guess whether a column holds personal data from its name and values
+ */
+export function detectColumnPII(name: string, values: unknown[]): ColumnPII | null {
+  const normalized = normalizeName(name);
+  const sample = values
+    .filter(isPresent)
+    .slice(0, PII_SAMPLE_ROWS)
+    .map((value) => String(value).trim());
+
+  for (const detector of DETECTORS) {
+    const hinted = detector.columnName.test(normalized);
+    if (!detector.value) {
+      if (hinted) return { kind: detector.kind, confidence: 60 };
+      continue;
+    }
+    if (sample.length === 0) continue;
+
+    const share = sample.filter(detector.value).length / sample.length;
+    if ((detector.valueAlone && share >= VALUE_ALONE_SHARE) || (hinted && share >= HINTED_SHARE)) {
+      return { kind: detector.kind, confidence: Math.round(100 * (hinted ? Math.max(share, 0.6) : share)) };
+    }
+  }
+
+  return null;
+}
+
+export function defaultPolicy(pii?: ColumnPII | null): ColumnPolicy {
+  return pii ? DEFAULT_POLICIES[pii.kind] : 'send';
+}
+
+/**
+ * Scan processed columns for personal data. Policies chosen before a
+ * re-process are kept; new or previously unscanned columns get the default
+ * for what was detected.
+ */
+export function detectDatasetPII<T extends { name: string }>(
+  rows: DatasetRow[],
+  columns: T[],
+  previous: PrivacyColumn[] = []
+): Array<T & { pii?: ColumnPII; policy: ColumnPolicy }> {
+  const sample = rows.slice(0, PII_SAMPLE_ROWS);
+  const kept = new Map(
+    previous
+      .filter((column) => column.pii?.kind || (column.policy && column.policy !== 'send'))
+      .map((column) => [column.name, column.policy || 'send'])
+  );
+
+  return columns.map((column) => {
+    const pii = detectColumnPII(column.name, sample.map((row) => row[column.name]));
+    return {
+      ...column,
+      ...(pii && { pii }),
+      policy: kept.get(column.name) || defaultPolicy(pii)
+    };
+  });
+}
+
+// ============================================
+// Applying policies
+// ============================================
+
+/**
+ * Columns that are not sent as stored
+ */
+export function withheldColumns(columns: PrivacyColumn[]): WithheldColumn[] {
+  return columns
+    .filter((column) => column.policy && column.policy !== 'send')
+    .map((column) => ({
+      name: column.name,
+      policy: column.policy as WithheldColumn['policy'],
+      ...(column.pii?.kind && { kind: column.pii.kind })
+    }));
+}
+
+/**
+ * Copy of the rows with each column's policy applied. The salt (the dataset
+ * ID) keeps hashes stable within a dataset but unlinkable across datasets.
+ */
+export function applyColumnPolicies(rows: DatasetRow[], columns: PrivacyColumn[], salt: string): DatasetRow[] {
+  const withheld = new Map(withheldColumns(columns).map((column) => [column.name, column]));
+  if (withheld.size === 0) return rows;
+
+  return rows.map((row) => {
+    const redacted: DatasetRow = {};
+    Object.entries(row).forEach(([key, value]) => {
+      const column = withheld.get(key);
+      if (!column) {
+        redacted[key] = value;
+      } else if (column.policy !== 'exclude') {
+        redacted[key] = isPresent(value) ? redactValue(String(value), column, salt) : value;
+      }
+    });
+    return redacted;
+  });
+}
+
+function redactValue(value: string, column: WithheldColumn, salt: string): string {
+  if (column.policy === 'hash') {
+    return `anon_${crypto.createHash('sha256').update(`${salt}:${value}`).digest('hex').slice(0, 12)}`;
+  }
+  return maskValue(value, column.kind);
+}
+
+function maskValue(value: string, kind?: PIIKind): string {
+  switch (kind) {
+    case 'email': {
+      const [local, domain = ''] = value.split('@');
+      const tld = domain.includes('.') ? domain.slice(domain.lastIndexOf('.')) : '';
+      return `${local.charAt(0)}***@***${tld}`;
+    }
+    case 'phone':
+      return `***${value.replace(/\D/g, '').slice(-2)}`;
+    case 'credit_card':
+      return `****${value.replace(/\D/g, '').slice(-4)}`;
+    case 'postal_code':
+      return `${value.slice(0, 2)}***`;
+    case 'ssn':
+    case 'date_of_birth':
+      return '***';
+    default:
+      return `${value.charAt(0)}***`;
+  }
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function normalizeName(name: string): string {
+  return name
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/[_\-.]+/g, ' ')
+    .toLowerCase()
+    .trim();
+}
+
+// Luhn checksum over 13-19 digits, ignoring spaces and dashes
+function isCardNumber(value: string): boolean {
+  if (!/^[\d -]+$/.test(value)) return false;
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+export default {
+  PII_KINDS,
+  COLUMN_POLICIES,
+  detectColumnPII,
+  detectDatasetPII,
+  withheldColumns,
+  applyColumnPolicies
+};
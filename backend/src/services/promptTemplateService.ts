@@ -0,0 +1,308 @@
+import mongoose from 'mongoose';
+import PromptTemplate, { type IPromptTemplate } from '../models/PromptTemplate.js';
+
+/**
+ * Versioned prompt templates for insight generation, one history per insight type.
+ * Templates use {{variable}} placeholders and {{#variable}}...{{/variable}}
+ * sections that render only when the variable is non-empty. Version 0 is the
+ * built-in template, used until an admin saves a version of their own.
+ */
+
+export const TEMPLATE_INSIGHT_TYPES = ['trend', 'anomaly', 'correlation', 'prediction', 'summary', 'custom'] as const;
+export type TemplateInsightType = (typeof TEMPLATE_INSIGHT_TYPES)[number];
+
+export const TEMPLATE_VARIABLES = {
+  datasetContext: 'Dataset statistics, column profiles and sample rows',
+  rowCount: 'Number of rows the statistics were computed over',
+  insightType: 'The requested insight type',
+  query: 'The user\'s question (may be empty)',
+  queryResult: 'Result of the structured query, when one was run (may be empty)',
+  outputSchema: 'The JSON response format and rules (appended to the system prompt when omitted)'
+} as const;
+export type TemplateVariable = keyof typeof TEMPLATE_VARIABLES;
+
+export interface PromptTemplateContent {
+  systemPrompt: string;
+  userPrompt: string;
+}
+
+export interface ResolvedPromptTemplate extends PromptTemplateContent {
+  insightType: TemplateInsightType;
+  version: number;
+  notes?: string;
+  isActive: boolean;
+  createdAt?: Date;
+}
+
+const TEMPLATE_MAX_LENGTH = 20000;
+
+// ============================================
+// Built-in Templates
+// ============================================
+
+export const OUTPUT_SCHEMA = `Return your response as a valid JSON object with the following structure:
+{
+  "title": "Brief, descriptive title for the insight",
+  "description": "Detailed analysis and findings (2-3 paragraphs)",
+  "confidence": 85,
+  "visualizations": [
+    {
+      "chartType": "line|area|bar|pie|scatter|table",
+      "title": "Chart title",
+      "xColumn": "column to group by (x axis)",
+      "yColumn": "numeric column to measure (y axis)",
+      "aggregation": "sum|avg|count|min|max|none",
+      "filters": [{ "column": "...", "operator": "eq|neq|gt|gte|lt|lte|contains|in", "value": "..." }],
+      "limit": 20
+    }
+  ],
+  "metrics": [
+    {
+      "name": "Metric name",
+      "value": "value or number",
+      "trend": "up|down|stable"
+    }
+  ],
+  "recommendations": ["Actionable recommendation 1", "Actionable recommendation 2"]
+}
+Rules: confidence is a number from 0 to 100. title is at most 150 characters, description at most 2000,
+each recommendation at most 500. metric trend, when present, is exactly "up", "down" or "stable".
+visualizations are chart specs only: do not include data points, the server computes them from the full dataset.
+xColumn, yColumn and filter columns must be exact column names from the dataset. yColumn may be omitted only
+when aggregation is "count". scatter charts plot raw rows and use aggregation "none".`;
+
+export const TYPE_FOCUS: Record<TemplateInsightType, string> = {
+  trend: `1. How the key measures change over time (direction, rate, seasonality)
+2. Turning points and periods of unusual growth or decline
+3. Line charts over the date column where one exists
+4. Recommendations that act on the trends`,
+  anomaly: `1. Outliers and values far from the typical range, with their magnitude
+2. Unexpected category values, missing data and suspicious records
+3. Charts that make the anomalies visible against normal values
+4. Recommendations for investigating or correcting them`,
+  correlation: `1. Strong positive or negative relationships between numeric columns
+2. How categories differ on the key measures
+3. Scatter charts for the strongest relationships
+4. Caveats where correlation may not imply causation`,
+  prediction: `1. Where the key measures are heading, based on their history
+2. The drivers most likely to influence future values
+3. Confidence that reflects how predictable the data is
+4. Recommendations that prepare for the likely outcome`,
+  summary: `1. Key patterns and trends
+2. Statistical insights
+3. Anomalies or outliers
+4. Correlations between variables
+5. Actionable recommendations`,
+  custom: `1. A direct answer to the query, citing concrete numbers
+2. Context from the rest of the dataset that explains the answer
+3. Charts that support the answer
+4. Actionable recommendations`
+};
+
+function builtinTemplate(insightType: TemplateInsightType): ResolvedPromptTemplate {
+  return {
+    insightType,
+    version: 0,
+    isActive: true,
+    notes: 'Built-in template',
+    systemPrompt: `You are a data analysis expert. Analyze the provided dataset and generate actionable insights.
+{{outputSchema}}`,
+    userPrompt: `Dataset Information (column statistics are computed over all {{rowCount}} rows; sampleRows is a representative subset):
+{{datasetContext}}
+
+Insight Type: {{insightType}}
+{{#query}}Specific Query: {{query}}{{/query}}
+{{#queryResult}}{{queryResult}}
+Base your answer to the query on this result.{{/queryResult}}
+
+Please analyze this dataset and provide:
+${TYPE_FOCUS[insightType]}
+
+Focus on providing specific, data-driven insights with concrete metrics.`
+  };
+}
+
+export function isTemplateInsightType(value: unknown): value is TemplateInsightType {
+  return typeof value === 'string' && (TEMPLATE_INSIGHT_TYPES as readonly string[]).includes(value);
+}
+
+// ============================================
+// Validation & Rendering
+// ============================================
+
+const VARIABLE_PATTERN = /\{\{\s*([#/]?)(\w+)\s*\}\}/g;
+
+/**
+ * Check a template for unknown variables and unbalanced sections
+ */
+export function validateTemplate(raw: unknown): { value?: PromptTemplateContent; errors: string[] } {
+  const errors: string[] = [];
+  const input = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+
+  for (const field of ['systemPrompt', 'userPrompt'] as const) {
+    const text = input[field];
+    if (typeof text !== 'string' || !text.trim()) {
+      errors.push(`${field} is required`);
+      continue;
+    }
+    if (text.length > TEMPLATE_MAX_LENGTH) {
+      errors.push(`${field} cannot be more than ${TEMPLATE_MAX_LENGTH} characters`);
+    }
+
+    const open: string[] = [];
+    for (const [, marker, name] of text.matchAll(VARIABLE_PATTERN)) {
+      if (!(name in TEMPLATE_VARIABLES)) {
+        errors.push(`${field}: unknown variable '{{${name}}}'`);
+      } else if (marker === '#') {
+        open.push(name);
+      } else if (marker === '/' && open.pop() !== name) {
+        errors.push(`${field}: '{{/${name}}}' does not close an open section`);
+      }
+    }
+    for (const name of open) {
+      errors.push(`${field}: section '{{#${name}}}' is never closed`);
+    }
+  }
+
+  if (errors.length > 0) return { errors };
+  return {
+    value: { systemPrompt: input.systemPrompt as string, userPrompt: input.userPrompt as string },
+    errors
+  };
+}
+
+export function renderTemplate(text: string, variables: Partial<Record<TemplateVariable, string>>): string {
+  return text
+    .replace(/\{\{\s*#(\w+)\s*\}\}([\s\S]*?)\{\{\s*\/\1\s*\}\}/g, (_, name: TemplateVariable, inner: string) =>
+      variables[name] ? inner : ''
+    )
+    .replace(VARIABLE_PATTERN, (_, marker: string, name: TemplateVariable) => (marker ? '' : variables[name] ?? ''))
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Render both prompts; the output contract is always sent, even when a template omits it
+ */
+export function renderInsightPrompts(
+  template: PromptTemplateContent,
+  variables: Omit<Record<TemplateVariable, string>, 'outputSchema'>
+): PromptTemplateContent {
+  const all = { ...variables, outputSchema: OUTPUT_SCHEMA };
+  const mentionsSchema = /\{\{\s*outputSchema\s*\}\}/.test(template.systemPrompt + template.userPrompt);
+  const systemPrompt = renderTemplate(template.systemPrompt, all);
+
+  return {
+    systemPrompt: mentionsSchema ? systemPrompt : `${systemPrompt}\n\n${OUTPUT_SCHEMA}`,
+    userPrompt: renderTemplate(template.userPrompt, all)
+  };
+}
+
+/**
+ * Label stored with insights and cache keys, e.g. "trend@v3" (v0 is built-in)
+ */
+export function templateLabel(template: Pick<ResolvedPromptTemplate, 'insightType' | 'version'>): string {
+  return `${template.insightType}@v${template.version}`;
+}
+
+// ============================================
+// Versions
+// ============================================
+
+function toResolved(doc: IPromptTemplate): ResolvedPromptTemplate {
+  return {
+    insightType: doc.insightType as TemplateInsightType,
+    version: doc.version,
+    systemPrompt: doc.systemPrompt,
+    userPrompt: doc.userPrompt,
+    notes: doc.notes,
+    isActive: doc.isActive,
+    createdAt: doc.createdAt
+  };
+}
+
+/**
+ * The template generation uses for an insight type
+ */
+export async function getActiveTemplate(insightType: string): Promise<ResolvedPromptTemplate> {
+  const type = isTemplateInsightType(insightType) ? insightType : 'summary';
+  const active = await PromptTemplate.findOne({ insightType: type, isActive: true }).sort({ version: -1 });
+  return active ? toResolved(active) : builtinTemplate(type);
+}
+
+/**
+ * A specific version of a type's template (0 is built-in), or null if it no longer exists
+ */
+export async function getTemplateVersion(
+  insightType: string,
+  version: number
+): Promise<ResolvedPromptTemplate | null> {
+  const type = isTemplateInsightType(insightType) ? insightType : 'summary';
+  if (version === 0) return builtinTemplate(type);
+  const doc = await PromptTemplate.findOne({ insightType: type, version });
+  return doc ? toResolved(doc) : null;
+}
+
+/**
+ * All versions of a type, newest first, ending with the built-in template
+ */
+export async function getTemplateVersions(insightType: TemplateInsightType): Promise<ResolvedPromptTemplate[]> {
+  const versions = (await PromptTemplate.find({ insightType }).sort({ version: -1 })).map(toResolved);
+  return [...versions, { ...builtinTemplate(insightType), isActive: !versions.some((v) => v.isActive) }];
+}
+
+/**
+ * Save an edit as the next version and make it the active one
+ */
+export async function createTemplateVersion(
+  insightType: TemplateInsightType,
+  content: PromptTemplateContent,
+  createdBy: unknown,
+  notes?: string
+): Promise<ResolvedPromptTemplate> {
+  const latest = await PromptTemplate.findOne({ insightType }).sort({ version: -1 });
+  const created = await PromptTemplate.create({
+    insightType,
+    version: (latest?.version || 0) + 1,
+    systemPrompt: content.systemPrompt,
+    userPrompt: content.userPrompt,
+    notes,
+    isActive: true,
+    createdBy: createdBy as mongoose.Types.ObjectId
+  });
+  await PromptTemplate.updateMany({ insightType, _id: { $ne: created._id } }, { isActive: false });
+  return toResolved(created);
+}
+
+/**
+ * Make an earlier version active again (0 restores the built-in template)
+ */
+export async function activateTemplateVersion(
+  insightType: TemplateInsightType,
+  version: number
+): Promise<ResolvedPromptTemplate | null> {
+  if (version === 0) {
+    await PromptTemplate.updateMany({ insightType }, { isActive: false });
+    return builtinTemplate(insightType);
+  }
+
+  const target = await PromptTemplate.findOne({ insightType, version });
+  if (!target) return null;
+
+  await PromptTemplate.updateMany({ insightType, _id: { $ne: target._id } }, { isActive: false });
+  target.isActive = true;
+  await target.save();
+  return toResolved(target);
+}
+
+export default {
+  validateTemplate,
+  renderTemplate,
+  renderInsightPrompts,
+  templateLabel,
+  getActiveTemplate,
+  getTemplateVersion,
+  getTemplateVersions,
+  createTemplateVersion,
+  activateTemplateVersion
+};
@@ -0,0 +1,414 @@
+import type { IDataset } from '../models/Dataset.js';
+import type { IInsight } from '../models/Insight.js';
+import type { DatasetRow } from './datasetRowsService.js';
+import { buildDatasetContext } from './datasetContextService.js';
+import {
+  aggregate,
+  compare,
+  matchesFilter,
+  validateFilters,
+  type ChartFilter
+} from './chartSpecService.js';
+import {
+  completeJSON,
+  type CompletionResult,
+  type ResolvedProvider,
+  type ValidationResult
+} from './llmService.js';
+import {
+  classifyColumns,
+  isPresent,
+  resolveColumnNames,
+  round,
+  toNumber,
+  valueCounts,
+  type DatasetInfo
+} from './analyticsService.js';
+
+/**
+ * Natural-language questions become structured queries (filters, group-by,
+ * measures, sort, limit) that are validated against the dataset columns and
+ * executed on the real rows.
+ */
+
+export const QUERY_AGGREGATIONS = ['sum', 'avg', 'count', 'min', 'max'] as const;
+export type QueryAggregation = (typeof QUERY_AGGREGATIONS)[number];
+
+export interface QueryMeasure {
+  aggregation: QueryAggregation;
+  column?: string;
+  alias: string;
+}
+
+export interface QuerySort {
+  column: string;
+  direction: 'asc' | 'desc';
+}
+
+export interface StructuredQuery {
+  filters: ChartFilter[];
+  groupBy: string[];
+  measures: QueryMeasure[];
+  sort: QuerySort[];
+  limit: number;
+}
+
+export interface QueryResult {
+  columns: string[];
+  rows: DatasetRow[];
+  matchedRows: number;
+  totalGroups: number;
+}
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+const MAX_GROUP_BY = 3;
+
+// ============================================
+// Validation
+// ============================================
+
+/**
+ * Validate a structured query against the dataset's columns and fill defaults
+ */
+export function validateStructuredQuery(raw: unknown, columns: string[]): ValidationResult<StructuredQuery> {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { errors: ['Query must be a JSON object'] };
+  }
+  const query = raw as Record<string, any>;
+  const known = new Set(columns);
+  const columnList = columns.join(', ');
+  const errors: string[] = [];
+
+  const filters = validateFilters(query.filters, columns, 'filters', errors);
+
+  const groupBy: string[] = [];
+  if (query.groupBy !== undefined && !Array.isArray(query.groupBy)) {
+    errors.push('groupBy must be an array of column names');
+  }
+  (Array.isArray(query.groupBy) ? query.groupBy : []).forEach((column: unknown, i: number) => {
+    if (typeof column !== 'string' || !known.has(column)) {
+      errors.push(`groupBy[${i}] must be one of the dataset columns: ${columnList}`);
+    } else if (!groupBy.includes(column)) {
+      groupBy.push(column);
+    }
+  });
+  if (groupBy.length > MAX_GROUP_BY) {
+    errors.push(`groupBy can have at most ${MAX_GROUP_BY} columns`);
+  }
+
+  const measures: QueryMeasure[] = [];
+  if (!Array.isArray(query.measures) || query.measures.length === 0) {
+    errors.push('measures must be a non-empty array');
+  }
+  (Array.isArray(query.measures) ? query.measures : []).forEach((measure: any, i: number) => {
+    const path = `measures[${i}]`;
+    if (typeof measure !== 'object' || measure === null) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+    const aggregation = String(measure.aggregation || '').trim().toLowerCase();
+    if (!(QUERY_AGGREGATIONS as readonly string[]).includes(aggregation)) {
+      errors.push(`${path}.aggregation must be one of ${QUERY_AGGREGATIONS.join(', ')}`);
+      return;
+    }
+    if (measure.column !== undefined && measure.column !== null && !known.has(measure.column)) {
+      errors.push(`${path}.column must be one of the dataset columns: ${columnList}`);
+      return;
+    }
+    if (!measure.column && aggregation !== 'count') {
+      errors.push(`${path}.column is required unless aggregation is "count"`);
+      return;
+    }
+    const alias =
+      typeof measure.alias === 'string' && measure.alias.trim()
+        ? measure.alias.trim()
+        : measure.column
+          ? `${aggregation}_${measure.column}`
+          : 'count';
+    if (groupBy.includes(alias) || measures.some((m) => m.alias === alias)) {
+      errors.push(`${path}.alias "${alias}" is already used`);
+      return;
+    }
+    measures.push({
+      aggregation: aggregation as QueryAggregation,
+      ...(measure.column ? { column: measure.column } : {}),
+      alias
+    });
+  });
+
+  const outputColumns = [...groupBy, ...measures.map((m) => m.alias)];
+  const sort: QuerySort[] = [];
+  if (query.sort !== undefined && !Array.isArray(query.sort)) {
+    errors.push('sort must be an array');
+  }
+  (Array.isArray(query.sort) ? query.sort : []).forEach((entry: any, i: number) => {
+    if (typeof entry !== 'object' || entry === null || !outputColumns.includes(entry.column)) {
+      errors.push(`sort[${i}].column must be a groupBy column or measure alias: ${outputColumns.join(', ')}`);
+    } else if (entry.direction !== undefined && entry.direction !== 'asc' && entry.direction !== 'desc') {
+      errors.push(`sort[${i}].direction must be "asc" or "desc"`);
+    } else {
+      sort.push({ column: entry.column, direction: entry.direction || 'asc' });
+    }
+  });
+
+  const limit = query.limit === undefined ? DEFAULT_LIMIT : Number(query.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    errors.push(`limit must be an integer between 1 and ${MAX_LIMIT}`);
+  }
+
+  if (errors.length > 0) return { errors };
+  return { value: { filters, groupBy, measures, sort, limit }, errors };
+}
+
+// ============================================
+// Execution
+// ============================================
+
+/**
+ * Run a validated query against the dataset rows
+ */
+export function executeStructuredQuery(query: StructuredQuery, rows: DatasetRow[]): QueryResult {
+  const matched = rows.filter((row) => query.filters.every((filter) => matchesFilter(row[filter.column], filter)));
+
+  const groups = new Map<string, DatasetRow[]>();
+  matched.forEach((row) => {
+    const key = JSON.stringify(query.groupBy.map((column) => row[column] ?? null));
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(row);
+  });
+  // Aggregating everything still yields one row, even when no rows match
+  if (query.groupBy.length === 0 && groups.size === 0) groups.set('[]', []);
+
+  const resultRows = Array.from(groups.entries()).map(([key, groupRows]) => {
+    const values = JSON.parse(key) as any[];
+    const result: DatasetRow = {};
+    query.groupBy.forEach((column, i) => { result[column] = values[i]; });
+    query.measures.forEach((measure) => { result[measure.alias] = measureValue(measure, groupRows); });
+    return result;
+  });
+
+  if (query.sort.length > 0) {
+    resultRows.sort((a, b) => {
+      for (const { column, direction } of query.sort) {
+        const diff = compareNullsLast(a[column], b[column], direction);
+        if (diff !== 0) return diff;
+      }
+      return 0;
+    });
+  }
+
+  return {
+    columns: [...query.groupBy, ...query.measures.map((m) => m.alias)],
+    rows: resultRows.slice(0, query.limit),
+    matchedRows: matched.length,
+    totalGroups: resultRows.length
+  };
+}
+
+function measureValue(measure: QueryMeasure, rows: DatasetRow[]): number | null {
+  if (measure.aggregation === 'count') {
+    return measure.column ? rows.filter((row) => isPresent(row[measure.column!])).length : rows.length;
+  }
+  const values = rows.map((row) => toNumber(row[measure.column!])).filter((v): v is number => v !== null);
+  return values.length > 0 ? round(aggregate(values, measure.aggregation), 4) : null;
+}
+
+function compareNullsLast(a: any, b: any, direction: QuerySort['direction']): number {
+  if (!isPresent(a) && !isPresent(b)) return 0;
+  if (!isPresent(a)) return 1;
+  if (!isPresent(b)) return -1;
+  return direction === 'asc' ? compare(a, b) : compare(b, a);
+}
+
+/**
+ * Plain-language summary, e.g. "sum of revenue by region where date >= 2024-01-01"
+ */
+export function describeStructuredQuery(query: StructuredQuery): string {
+  const measures = query.measures
+    .map((m) => (m.column ? `${m.aggregation} of ${m.column}` : 'count of rows'))
+    .join(', ');
+  const groupBy = query.groupBy.length > 0 ? ` by ${query.groupBy.join(', ')}` : '';
+  const filters =
+    query.filters.length > 0
+      ? ` where ${query.filters.map((f) => `${f.column} ${f.operator} ${JSON.stringify(f.value)}`).join(' and ')}`
+      : '';
+  return `${measures}${groupBy}${filters}`;
+}
+
+/**
+ * Columns to apply privacy policies to a query result with. Group-by values
+ * keep their column's name, but measures are named by alias, so a measure
+ * over a column takes that column's policy under its alias (max_email is
+ * withheld like email). Counts reveal no values and are left as they are.
+ */
+export function queryResultPolicyColumns<T extends { name: string }>(query: StructuredQuery, columns: T[]): T[] {
+  const byName = new Map(columns.map((column) => [column.name, column]));
+  const measures = query.measures.flatMap((measure) => {
+    const source = measure.column && measure.aggregation !== 'count' ? byName.get(measure.column) : undefined;
+    return source ? [{ ...source, name: measure.alias }] : [];
+  });
+  return [...columns, ...measures];
+}
+
+/**
+ * Charts for a query result: always a table, plus a bar chart for one group-by and one measure
+ */
+export function queryResultVisualizations(query: StructuredQuery, result: QueryResult): IInsight['visualizations'] {
+  const title = describeStructuredQuery(query);
+  const visualizations: IInsight['visualizations'] = [
+    { type: 'table', data: result.rows, config: { title, columns: result.columns } }
+  ];
+
+  if (query.groupBy.length === 1 && query.measures.length === 1 && result.rows.length > 1) {
+    const [groupBy] = query.groupBy;
+    const [measure] = query.measures;
+    visualizations.unshift({
+      type: 'bar',
+      data: result.rows.map((row) => ({ name: String(row[groupBy]), value: row[measure.alias] })),
+      config: { title, xKey: 'name', bars: [{ dataKey: 'value', name: measure.alias }] }
+    });
+  }
+  return visualizations;
+}
+
+// ============================================
+// Translation
+// ============================================
+
+/**
+ * Translate a question into a structured query with the LLM
+ */
+export async function translateWithLLM(
+  llm: ResolvedProvider,
+  dataset: IDataset,
+  rows: DatasetRow[],
+  question: string
+): Promise<{ query: StructuredQuery; completion: CompletionResult }> {
+  const columns = resolveColumnNames(dataset, rows);
+  const datasetContext = await buildDatasetContext(dataset, { rows, maxSampleRows: 5 });
+
+  const systemPrompt = `You translate questions about a dataset into a structured query. Return only a JSON object:
+{
+  "filters": [{ "column": "...", "operator": "eq|neq|gt|gte|lt|lte|contains|in", "value": "..." }],
+  "groupBy": ["column"],
+  "measures": [{ "aggregation": "sum|avg|count|min|max", "column": "numeric column (omit for count of rows)", "alias": "output name" }],
+  "sort": [{ "column": "groupBy column or measure alias", "direction": "asc|desc" }],
+  "limit": 100
+}
+Rules: every column must be an exact column name from the dataset. Date ranges use gte/lt filters with ISO dates
+(e.g. the year 2024 is gte "2024-01-01" and lt "2025-01-01"). Use count without a column to count rows.
+
+Dataset Information:
+${datasetContext.text}`;
+
+  const { value, completion } = await completeJSON(
+    llm,
+    [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: question }
+    ],
+    (raw) => validateStructuredQuery(raw, columns),
+    { temperature: 0 }
+  );
+
+  return { query: value, completion };
+}
+
+const AGGREGATION_KEYWORDS: Array<[RegExp, QueryAggregation]> = [
+  [/\b(average|avg|mean)\b/, 'avg'],
+  [/\b(count|number of|how many)\b/, 'count'],
+  [/\b(min|minimum|lowest|smallest|least)\b/, 'min'],
+  [/\b(max|maximum|highest|largest)\b/, 'max'],
+  [/\b(total|sum)\b/, 'sum']
+];
+
+/**
+ * Keyword-based translation used when no LLM is configured. Recognizes
+ * aggregation words, "by <column>", category values and "in/for <year>".
+ */
+export function translateHeuristically(dataset: DatasetInfo, rows: DatasetRow[], question: string): StructuredQuery {
+  const text = question.toLowerCase();
+  const columns = resolveColumnNames(dataset, rows);
+  const groups = classifyColumns(rows, columns, dataset.columns);
+
+  const displayNames = new Map(dataset.columns.map((c) => [c.name, c.displayName?.toLowerCase()]));
+  const positionOf = (column: string) => {
+    const names = [column.toLowerCase(), column.toLowerCase().replace(/[_-]+/g, ' ')];
+    // Columns can also be named by the display name set in the schema
+    const displayName = displayNames.get(column);
+    if (displayName) names.push(displayName);
+    const positions = names.map((name) => text.indexOf(name)).filter((p) => p >= 0);
+    return positions.length > 0 ? Math.min(...positions) : -1;
+  };
+  const mentioned = columns
+    .map((column) => ({ column, position: positionOf(column) }))
+    .filter((m) => m.position >= 0)
+    .sort((a, b) => a.position - b.position);
+
+  // "top 5 region by revenue" ranks regions; otherwise group by the column after "by", "per" or "for each"
+  const rankMatch = /\b(top|bottom)\s+(\d+)\s+/.exec(text);
+  const rankedColumn = rankMatch
+    ? mentioned.find((m) => m.position === rankMatch.index + rankMatch[0].length)?.column
+    : undefined;
+  const byMatch = /\b(by|per|for each)\s+/.exec(text);
+  const groupColumn =
+    rankedColumn ||
+    (byMatch ? mentioned.find((m) => m.position >= byMatch.index + byMatch[0].length)?.column : undefined);
+
+  const aggregation = AGGREGATION_KEYWORDS.find(([pattern]) => pattern.test(text))?.[1];
+  const measureColumn = mentioned.find(
+    (m) => m.column !== groupColumn && groups.numeric.includes(m.column)
+  )?.column;
+
+  const measure: QueryMeasure =
+    measureColumn && aggregation !== 'count'
+      ? { aggregation: aggregation || 'sum', column: measureColumn, alias: `${aggregation || 'sum'}_${measureColumn}` }
+      : { aggregation: 'count', alias: 'count' };
+
+  const filters: ChartFilter[] = [];
+
+  const year = /\b(19|20)\d{2}\b/.exec(text);
+  const dateColumn = mentioned.find((m) => groups.temporal.includes(m.column))?.column || groups.temporal[0];
+  if (year && dateColumn && !groups.numeric.includes(dateColumn)) {
+    const y = parseInt(year[0]);
+    filters.push(
+      { column: dateColumn, operator: 'gte', value: `${y}-01-01` },
+      { column: dateColumn, operator: 'lt', value: `${y + 1}-01-01` }
+    );
+  }
+
+  // Category values named in the question become equality filters
+  groups.categorical
+    .filter((column) => column !== groupColumn)
+    .forEach((column) => {
+      const value = valueCounts(rows, column)
+        .slice(0, 50)
+        .find((c) => c.name.length >= 2 && new RegExp(`\\b${escapeRegExp(c.name.toLowerCase())}\\b`).test(text));
+      if (value) filters.push({ column, operator: 'eq', value: value.name });
+    });
+
+  const sortDirection = rankMatch?.[1] === 'bottom' ? 'asc' : 'desc';
+
+  return {
+    filters,
+    groupBy: groupColumn ? [groupColumn] : [],
+    measures: [measure],
+    sort: groupColumn ? [{ column: measure.alias, direction: sortDirection }] : [],
+    limit: rankMatch ? Math.max(1, Math.min(parseInt(rankMatch[2]), MAX_LIMIT)) : DEFAULT_LIMIT
+  };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export default {
+  validateStructuredQuery,
+  executeStructuredQuery,
+  describeStructuredQuery,
+  queryResultPolicyColumns,
+  queryResultVisualizations,
+  translateWithLLM,
+  translateHeuristically
+};
@@ -0,0 +1,288 @@
+import type { ValidationResult } from './llmService.js';
+import type { DatasetRow } from './datasetRowsService.js';
+import { parseValue, type ValueFormat } from './typeInferenceService.js';
+
+/**
+ * User corrections to a dataset's inferred schema. A column's type and
+ * nullable flag can be overridden, and display name, description, unit and
+ * semantic role added. Overridden types and inferred value formats are
+ * applied to the rows whenever they are loaded, and roles decide how analytics treats a column, so
+ * previews, aggregations and AI prompts all follow the user's schema.
+ * Overrides survive re-processing the file.
+ */
+
+export const COLUMN_ROLES = ['dimension', 'measure', 'time', 'id'] as const;
+export type ColumnRole = (typeof COLUMN_ROLES)[number];
+
+// Types a column can be set to; array, object, null and unknown are only inferred
+export const SCHEMA_TYPES = ['string', 'integer', 'float', 'number', 'boolean', 'date'] as const;
+export type SchemaType = (typeof SCHEMA_TYPES)[number];
+
+export const SCHEMA_FIELDS = ['type', 'nullable', 'displayName', 'description', 'unit', 'role'] as const;
+export type SchemaField = (typeof SCHEMA_FIELDS)[number];
+
+export interface SchemaOverride {
+  type?: SchemaType;
+  nullable?: boolean;
+  displayName?: string;
+  description?: string;
+  unit?: string;
+  role?: ColumnRole;
+}
+
+// A field set to null goes back to the inferred value, or is removed
+export type SchemaUpdate = { [K in keyof SchemaOverride]?: SchemaOverride[K] | null };
+
+// A stored column as far as its schema is concerned
+export interface SchemaColumn {
+  name: string;
+  type: string;
+  nullable?: boolean;
+  format?: ValueFormat;
+  displayName?: string;
+  description?: string;
+  unit?: string;
+  role?: ColumnRole;
+  // What inference found, kept while the user overrides it
+  inferredType?: string;
+  inferredNullable?: boolean;
+  // Fields the user has set
+  overridden?: SchemaField[];
+}
+
+export type ColumnGroup = 'numeric' | 'temporal' | 'categorical';
+
+const TEXT_LIMITS = { displayName: 100, description: 500, unit: 30 } as const;
+
+// ============================================
+// Updates
+// ============================================
+
+/**
+ * Shape check for a schema update: { columns: { [name]: SchemaUpdate } }
+ */
+export function validateSchemaUpdate(
+  raw: unknown,
+  columnNames: string[]
+): ValidationResult<Record<string, SchemaUpdate>> {
+  const columns = (raw as Record<string, unknown> | null)?.columns;
+  if (typeof columns !== 'object' || columns === null || Array.isArray(columns)) {
+    return { errors: ['columns must be an object mapping column names to schema changes'] };
+  }
+
+  const errors: string[] = [];
+  const value: Record<string, SchemaUpdate> = {};
+
+  Object.entries(columns).forEach(([name, changes]) => {
+    if (!columnNames.includes(name)) {
+      errors.push(`Unknown column "${name}"`);
+      return;
+    }
+    if (typeof changes !== 'object' || changes === null || Array.isArray(changes)) {
+      errors.push(`Changes for "${name}" must be an object`);
+      return;
+    }
+
+    const update: SchemaUpdate = {};
+    Object.entries(changes as Record<string, unknown>).forEach(([field, fieldValue]) => {
+      if (!SCHEMA_FIELDS.includes(field as SchemaField)) {
+        errors.push(`"${field}" cannot be changed (allowed: ${SCHEMA_FIELDS.join(', ')})`);
+        return;
+      }
+      if (fieldValue === null) {
+        update[field as SchemaField] = null;
+        return;
+      }
+
+      switch (field) {
+        case 'type':
+          if (SCHEMA_TYPES.includes(fieldValue as SchemaType)) update.type = fieldValue as SchemaType;
+          else errors.push(`Type of "${name}" must be one of: ${SCHEMA_TYPES.join(', ')}`);
+          break;
+        case 'nullable':
+          if (typeof fieldValue === 'boolean') update.nullable = fieldValue;
+          else errors.push(`nullable of "${name}" must be true or false`);
+          break;
+        case 'role':
+          if (COLUMN_ROLES.includes(fieldValue as ColumnRole)) update.role = fieldValue as ColumnRole;
+          else errors.push(`Role of "${name}" must be one of: ${COLUMN_ROLES.join(', ')}`);
+          break;
+        default: {
+          const limit = TEXT_LIMITS[field as keyof typeof TEXT_LIMITS];
+          if (typeof fieldValue !== 'string') {
+            errors.push(`${field} of "${name}" must be text`);
+          } else if (fieldValue.trim().length > limit) {
+            errors.push(`${field} of "${name}" cannot be more than ${limit} characters`);
+          } else {
+            // Clearing the text removes the field
+            update[field as keyof typeof TEXT_LIMITS] = fieldValue.trim() || null;
+          }
+        }
+      }
+    });
+    value[name] = update;
+  });
+
+  return errors.length > 0 ? { errors } : { value, errors };
+}
+
+/**
+ * Apply an update to a stored column, remembering the inferred type and
+ * nullable flag so they can be restored
+ */
+export function applySchemaUpdate(column: SchemaColumn, update: SchemaUpdate): void {
+  const overridden = new Set(column.overridden ?? []);
+
+  if (update.type !== undefined) {
+    if (!overridden.has('type')) column.inferredType = column.type;
+    if (update.type === null) {
+      column.type = column.inferredType ?? column.type;
+      column.inferredType = undefined;
+      overridden.delete('type');
+    } else {
+      column.type = update.type;
+      overridden.add('type');
+    }
+  }
+
+  if (update.nullable !== undefined) {
+    if (!overridden.has('nullable')) column.inferredNullable = column.nullable;
+    if (update.nullable === null) {
+      column.nullable = column.inferredNullable ?? column.nullable;
+      column.inferredNullable = undefined;
+      overridden.delete('nullable');
+    } else {
+      column.nullable = update.nullable;
+      overridden.add('nullable');
+    }
+  }
+
+  const setField = <K extends 'displayName' | 'description' | 'unit' | 'role'>(field: K) => {
+    const value = update[field];
+    if (value === undefined) return;
+    column[field] = (value ?? undefined) as SchemaColumn[K];
+    if (value === null) overridden.delete(field);
+    else overridden.add(field);
+  };
+  setField('displayName');
+  setField('description');
+  setField('unit');
+  setField('role');
+
+  column.overridden = SCHEMA_FIELDS.filter((field) => overridden.has(field));
+}
+
+/**
+ * Columns from a fresh inference with the user's overrides of the previous
+ * columns put back, so re-processing a file keeps the edited schema
+ */
+export function carryOverSchema<T extends { name: string; type: string; nullable: boolean }>(
+  columns: T[],
+  previous: SchemaColumn[] = []
+): Array<T & Partial<SchemaColumn>> {
+  const edited = new Map(
+    previous.filter((column) => column.overridden?.length).map((column) => [column.name, column])
+  );
+
+  return columns.map((column) => {
+    const before = edited.get(column.name);
+    if (!before) return column;
+
+    const carried: T & Partial<SchemaColumn> = { ...column, overridden: [...before.overridden!] };
+    before.overridden!.forEach((field) => {
+      if (field === 'type') carried.inferredType = column.type;
+      if (field === 'nullable') carried.inferredNullable = column.nullable;
+      (carried as Record<string, unknown>)[field] = before[field];
+    });
+    return carried;
+  });
+}
+
+// ============================================
+// Using the schema
+// ============================================
+
+/**
+ * Rows with the values of overridden-type columns read as that type, and of
+ * columns written in a particular format (decimal comma, currency, percent,
+ * date pattern) read the way inference found them; values that do not fit
+ * become null. Rows are returned as they are otherwise.
+ */
+export function applySchemaToRows(rows: DatasetRow[], columns: SchemaColumn[]): DatasetRow[] {
+  const retyped = columns.filter((column) => column.overridden?.includes('type') || hasTextFormat(column.format));
+  if (retyped.length === 0) return rows;
+
+  return rows.map((row) => {
+    const typed: DatasetRow = { ...row };
+    retyped.forEach((column) => {
+      if (column.name in typed) typed[column.name] = parseValue(typed[column.name], column.type, column.format);
+    });
+    return typed;
+  });
+}
+
+// Whether values need the column's format to be read correctly
+function hasTextFormat(format: ValueFormat | undefined): boolean {
+  return Boolean(format && (format.decimalSeparator === ',' || format.currency || format.percent || format.datePattern));
+}
+
+/**
+ * How analytics must treat a column, when the user has said so: a role
+ * decides first, then an overridden type. Undefined leaves it to the values.
+ */
+export function columnGroup(column: SchemaColumn | undefined): ColumnGroup | undefined {
+  if (!column) return undefined;
+
+  switch (column.role) {
+    case 'measure':
+      return 'numeric';
+    case 'time':
+      return 'temporal';
+    case 'dimension':
+    case 'id':
+      return 'categorical';
+  }
+
+  if (!column.overridden?.includes('type')) return undefined;
+  if (['integer', 'float', 'number'].includes(column.type)) return 'numeric';
+  if (column.type === 'date') return 'temporal';
+  return 'categorical';
+}
+
+/**
+ * The user's overrides per column, as a plain object (part of cache keys)
+ */
+export function schemaOverrides(columns: SchemaColumn[]): Record<string, SchemaOverride> {
+  return Object.fromEntries(
+    columns
+      .filter((column) => column.overridden?.length)
+      .map((column) => [
+        column.name,
+        Object.fromEntries(column.overridden!.map((field) => [field, column[field]])) as SchemaOverride
+      ])
+  );
+}
+
+/**
+ * One-line description of a column for prompts, e.g.
+ * revenue (float, measure, in USD) "Net revenue": Revenue after refunds
+ */
+export function describeColumn(column: SchemaColumn | undefined, name: string): string {
+  if (!column) return `${name} (unknown)`;
+  const details = [column.type, column.role, column.unit && `in ${column.unit}`].filter(Boolean).join(', ');
+  const label = column.displayName ? ` "${column.displayName}"` : '';
+  const description = column.description ? `: ${column.description}` : '';
+  return `${name} (${details})${label}${description}`;
+}
+
+export default {
+  COLUMN_ROLES,
+  SCHEMA_TYPES,
+  validateSchemaUpdate,
+  applySchemaUpdate,
+  carryOverSchema,
+  applySchemaToRows,
+  columnGroup,
+  schemaOverrides,
+  describeColumn
+};
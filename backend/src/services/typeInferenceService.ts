@@ -0,0 +1,555 @@
+import type { DatasetRow } from './datasetRowsService.js';
+
+/**
+ * Column type inference. Every value is classified on its own and counted,
+ * so a column's type is the one most of its values agree on, with that share
+ * kept as the type's confidence. Text values are read the way people write
+ * them: thousands separators and decimal commas, currency amounts,
+ * percentages, yes/no flags and dates in common formats. Plain numbers are
+ * never taken for dates, and numbers with leading zeros (zip codes, IDs)
+ * stay text.
+ */
+
+export type ColumnType = 'string' | 'integer' | 'float' | 'boolean' | 'date' | 'array' | 'object' | 'null';
+
+// How text values of a column are written, so they can be read back
+export interface ValueFormat {
+  // Numbers written with a decimal comma (1.234,5)
+  decimalSeparator?: '.' | ',';
+  currency?: string;
+  percent?: boolean;
+  // Dates: YYYY-MM-DD, DD/MM/YYYY, MM/DD/YYYY, D MMM YYYY, ...
+  datePattern?: string;
+}
+
+export interface InferredColumn {
+  name: string;
+  type: ColumnType;
+  nullable: boolean;
+  // Share of non-empty values that fit the type (0-100)
+  confidence: number;
+  examples: string[];
+  format?: ValueFormat;
+}
+
+// Share of non-empty values a type needs before the column gets that type
+const TYPE_THRESHOLD = 0.8;
+const EXAMPLE_LIMIT = 5;
+const EXAMPLE_LENGTH = 60;
+
+const NULL_TOKENS = new Set(['', 'null', 'na', 'n/a', 'nan', 'none', '-']);
+const TRUE_TOKENS = new Set(['true', 'yes', 'y', 't']);
+const FALSE_TOKENS = new Set(['false', 'no', 'n', 'f']);
+
+const CURRENCY_SYMBOLS = '$€£¥₹';
+const CURRENCY_CODES = ['USD', 'EUR', 'GBP', 'JPY', 'CNY', 'INR', 'CHF', 'CAD', 'AUD'];
+const CURRENCY_PREFIX = new RegExp(`^([${CURRENCY_SYMBOLS}]|(?:${CURRENCY_CODES.join('|')})\\s)\\s*`);
+const CURRENCY_SUFFIX = new RegExp(`\\s*([${CURRENCY_SYMBOLS}]|\\s(?:${CURRENCY_CODES.join('|')}))$`);
+
+// 1,234.5 and 1234.5 (also 1e6)
+const DOT_DECIMAL = /^[+-]?(?:\d{1,3}(?:,\d{3})+|\d+)?(?:\.\d+)?(?:[eE][+-]?\d+)?$/;
+// 1.234,5 and 1 234,5 and 1234,5
+const COMMA_DECIMAL = /^[+-]?(?:\d{1,3}(?:[.\s  ]\d{3})+|\d+)(?:,\d+)?$/;
+const LEADING_ZERO = /^[+-]?0\d/;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH = '(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\\.?';
+const WEEKDAY = '(?:(?:mon|tue|wed|thu|fri|sat|sun)[a-z]*,?\\s+)?';
+const TIME = '(?:[T\\s]\\d{1,2}:\\d{2}(?::\\d{2}(?:\\.\\d+)?)?(?:\\s?[AP]M)?(?:Z|\\s?[+-]\\d{2}:?\\d{2})?)?';
+
+const UTC_OFFSET = /(?:Z|[+-]\d{2}:?\d{2})$/i;
+const ISO_DATE = new RegExp(`^(\\d{4})-(\\d{2})-(\\d{2})(${TIME})$`, 'i');
+const YEAR_FIRST = new RegExp(`^(\\d{4})([/.])(\\d{1,2})\\2(\\d{1,2})${TIME}$`, 'i');
+const NUMERIC_DATE = new RegExp(`^(\\d{1,2})([/.-])(\\d{1,2})\\2(\\d{4}|\\d{2})(${TIME})$`, 'i');
+const DAY_MONTH_NAME = new RegExp(`^${WEEKDAY}(\\d{1,2})(?:st|nd|rd|th)?[\\s-]+${MONTH},?[\\s-]+(\\d{4})${TIME}$`, 'i');
+const MONTH_NAME_DAY = new RegExp(`^${WEEKDAY}${MONTH}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})${TIME}$`, 'i');
+const MONTH_NAME_YEAR = new RegExp(`^${MONTH}\\s+(\\d{4})$`, 'i');
+
+// ============================================
+// Single values
+// ============================================
+
+interface NumberReading {
+  // Value read with a decimal point, and with a decimal comma
+  dot?: number;
+  comma?: number;
+  // Written with decimals (500.00 is a float amount, not a count)
+  dotFraction: boolean;
+  commaFraction: boolean;
+  currency?: string;
+  percent: boolean;
+}
+
+/**
+ * Read a text value as a number, in both decimal conventions where they apply
+ */
+function readNumber(text: string): NumberReading | null {
+  let core = text.trim();
+  let negative = false;
+
+  // Accounting negatives: (1,200.00)
+  const parenthesised = core.match(/^\((.+)\)$/);
+  if (parenthesised) {
+    negative = true;
+    core = parenthesised[1].trim();
+  }
+
+  const percent = core.endsWith('%');
+  if (percent) core = core.slice(0, -1).trim();
+
+  let currency: string | undefined;
+  if (core.startsWith('-') || core.startsWith('+')) {
+    const sign = core[0];
+    const rest = core.slice(1).trimStart();
+    const prefix = rest.match(CURRENCY_PREFIX);
+    if (prefix) {
+      currency = prefix[1].trim();
+      core = sign + rest.slice(prefix[0].length);
+    }
+  }
+  if (!currency) {
+    const prefix = core.match(CURRENCY_PREFIX);
+    if (prefix) {
+      currency = prefix[1].trim();
+      core = core.slice(prefix[0].length);
+    }
+  }
+  if (!currency) {
+    const suffix = core.match(CURRENCY_SUFFIX);
+    if (suffix) {
+      currency = suffix[1].trim();
+      core = core.slice(0, -suffix[0].length);
+    }
+  }
+
+  if (!/\d/.test(core)) return null;
+  // Leading zeros mark codes such as zip codes and IDs, not quantities
+  if (LEADING_ZERO.test(core)) return null;
+
+  const sign = negative ? -1 : 1;
+  const reading: NumberReading = {
+    currency,
+    percent,
+    dotFraction: /\.\d+(?:[eE]|$)/.test(core),
+    commaFraction: /,\d+$/.test(core)
+  };
+  if (DOT_DECIMAL.test(core)) reading.dot = sign * Number(core.replace(/,/g, ''));
+  if (COMMA_DECIMAL.test(core)) {
+    reading.comma = sign * Number(core.replace(/[.\s  ]/g, '').replace(',', '.'));
+  }
+
+  const valid = (value?: number) => value !== undefined && Number.isFinite(value);
+  if (!valid(reading.dot)) delete reading.dot;
+  if (!valid(reading.comma)) delete reading.comma;
+  return reading.dot === undefined && reading.comma === undefined ? null : reading;
+}
+
+interface DateReading {
+  pattern: string;
+  // Numeric dates such as 03/04/2024 may be day-first, month-first or both
+  dayFirst?: boolean;
+  monthFirst?: boolean;
+}
+
+const validDay = (day: number) => day >= 1 && day <= 31;
+const validMonth = (month: number) => month >= 1 && month <= 12;
+const isMonthName = (name: string) => MONTHS.includes(name.slice(0, 3).toLowerCase());
+
+function readDate(text: string): DateReading | null {
+  const value = text.trim();
+  let match: RegExpMatchArray | null;
+
+  if ((match = value.match(ISO_DATE))) {
+    if (!validMonth(Number(match[2])) || !validDay(Number(match[3]))) return null;
+    return { pattern: match[4] ? 'YYYY-MM-DD HH:mm' : 'YYYY-MM-DD' };
+  }
+  if ((match = value.match(YEAR_FIRST))) {
+    if (!validMonth(Number(match[3])) || !validDay(Number(match[4]))) return null;
+    return { pattern: `YYYY${match[2]}MM${match[2]}DD` };
+  }
+  if ((match = value.match(NUMERIC_DATE))) {
+    const [first, separator, second, year, time] = [Number(match[1]), match[2], Number(match[3]), match[4], match[5]];
+    const dayFirst = validDay(first) && validMonth(second);
+    const monthFirst = validMonth(first) && validDay(second);
+    if (!dayFirst && !monthFirst) return null;
+    // The same digits in either order; the column decides which
+    const years = year.length === 4 ? 'YYYY' : 'YY';
+    return { pattern: `${separator}${years}${time ? ' HH:mm' : ''}`, dayFirst, monthFirst };
+  }
+  if ((match = value.match(DAY_MONTH_NAME)) && isMonthName(match[2])) {
+    return validDay(Number(match[1])) ? { pattern: 'D MMM YYYY' } : null;
+  }
+  if ((match = value.match(MONTH_NAME_DAY)) && isMonthName(match[1])) {
+    return validDay(Number(match[2])) ? { pattern: 'MMM D, YYYY' } : null;
+  }
+  if ((match = value.match(MONTH_NAME_YEAR)) && isMonthName(match[1])) {
+    return { pattern: 'MMM YYYY' };
+  }
+  return null;
+}
+
+/**
+ * Pattern for numeric dates once the column has settled on the order
+ */
+function numericDatePattern(pattern: string, dayFirst: boolean): string {
+  const [separator, rest] = [pattern[0], pattern.slice(1)];
+  const [years, time = ''] = rest.split(' ');
+  const order = dayFirst ? ['DD', 'MM'] : ['MM', 'DD'];
+  return `${order.join(separator)}${separator}${years}${time ? ` ${time}` : ''}`;
+}
+
+// ============================================
+// Columns
+// ============================================
+
+interface ColumnTally {
+  name: string;
+  missing: number;
+  present: number;
+  booleans: number;
+  arrays: number;
+  objects: number;
+  // JavaScript numbers and dates (JSON, Excel, Parquet)
+  nativeNumbers: number;
+  nativeFractions: boolean;
+  nativeDates: number;
+  // Text numbers under each decimal convention
+  dotNumbers: number;
+  dotFractions: boolean;
+  commaNumbers: number;
+  commaFractions: boolean;
+  currencies: Map<string, number>;
+  percents: number;
+  // Text dates by pattern
+  dates: Map<string, { count: number; dayFirst: number; monthFirst: number }>;
+  examples: string[];
+}
+
+function newTally(name: string, missing: number): ColumnTally {
+  return {
+    name,
+    missing,
+    present: 0,
+    booleans: 0,
+    arrays: 0,
+    objects: 0,
+    nativeNumbers: 0,
+    nativeFractions: false,
+    nativeDates: 0,
+    dotNumbers: 0,
+    dotFractions: false,
+    commaNumbers: 0,
+    commaFractions: false,
+    currencies: new Map(),
+    percents: 0,
+    dates: new Map(),
+    examples: []
+  };
+}
+
+function addExample(tally: ColumnTally, value: unknown): void {
+  if (tally.examples.length >= EXAMPLE_LIMIT) return;
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  const example = text.length > EXAMPLE_LENGTH ? `${text.slice(0, EXAMPLE_LENGTH - 1)}…` : text;
+  if (!tally.examples.includes(example)) tally.examples.push(example);
+}
+
+function tallyValue(tally: ColumnTally, value: unknown): void {
+  if (value === null || value === undefined || (typeof value === 'string' && NULL_TOKENS.has(value.trim().toLowerCase()))) {
+    tally.missing++;
+    return;
+  }
+  tally.present++;
+  addExample(tally, value);
+
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) return;
+    tally.nativeNumbers++;
+    if (!Number.isInteger(value)) tally.nativeFractions = true;
+    return;
+  }
+  if (typeof value === 'boolean') {
+    tally.booleans++;
+    return;
+  }
+  if (value instanceof Date) {
+    if (!isNaN(value.getTime())) tally.nativeDates++;
+    return;
+  }
+  if (Array.isArray(value)) {
+    tally.arrays++;
+    return;
+  }
+  if (typeof value === 'object') {
+    tally.objects++;
+    return;
+  }
+
+  const text = String(value).trim();
+  const lower = text.toLowerCase();
+  if (TRUE_TOKENS.has(lower) || FALSE_TOKENS.has(lower)) {
+    tally.booleans++;
+    return;
+  }
+
+  const number = readNumber(text);
+  if (number) {
+    if (number.dot !== undefined) {
+      tally.dotNumbers++;
+      if (number.dotFraction) tally.dotFractions = true;
+    }
+    if (number.comma !== undefined) {
+      tally.commaNumbers++;
+      if (number.commaFraction) tally.commaFractions = true;
+    }
+    if (number.currency) tally.currencies.set(number.currency, (tally.currencies.get(number.currency) ?? 0) + 1);
+    if (number.percent) tally.percents++;
+    return;
+  }
+
+  const date = readDate(text);
+  if (date) {
+    const counts = tally.dates.get(date.pattern) ?? { count: 0, dayFirst: 0, monthFirst: 0 };
+    counts.count++;
+    if (date.dayFirst) counts.dayFirst++;
+    if (date.monthFirst) counts.monthFirst++;
+    tally.dates.set(date.pattern, counts);
+  }
+}
+
+interface Candidate {
+  type: ColumnType;
+  count: number;
+  format?: ValueFormat;
+}
+
+function numberCandidate(tally: ColumnTally, preferComma: boolean): Candidate {
+  // Decimal comma only when more values read that way, or the dataset leans that way on a tie
+  const comma =
+    tally.commaNumbers > tally.dotNumbers || (tally.commaNumbers === tally.dotNumbers && preferComma && tally.commaFractions);
+  const textNumbers = comma ? tally.commaNumbers : tally.dotNumbers;
+  const fractions = tally.nativeFractions || (comma ? tally.commaFractions : tally.dotFractions);
+  const count = tally.nativeNumbers + textNumbers;
+
+  const format: ValueFormat = {};
+  if (comma && tally.commaFractions) format.decimalSeparator = ',';
+  const [currency, currencyCount = 0] = [...tally.currencies].sort((a, b) => b[1] - a[1])[0] ?? [];
+  if (currency && currencyCount * 2 >= textNumbers) format.currency = currency;
+  if (tally.percents * 2 >= textNumbers && tally.percents > 0) format.percent = true;
+
+  return {
+    type: fractions || format.percent ? 'float' : 'integer',
+    count,
+    format: Object.keys(format).length > 0 ? format : undefined
+  };
+}
+
+function dateCandidate(tally: ColumnTally, preferDayFirst: boolean): Candidate {
+  let count = tally.nativeDates;
+  let best: { pattern: string; count: number } | undefined;
+
+  tally.dates.forEach((counts, pattern) => {
+    let matched = counts.count;
+    let resolved = pattern;
+    if (/^[/.-]/.test(pattern)) {
+      // Numeric dates: the order every value allows, else the one most allow
+      const dayFirst =
+        counts.dayFirst > counts.monthFirst ||
+        (counts.dayFirst === counts.monthFirst && (preferDayFirst || pattern[0] !== '/'));
+      matched = dayFirst ? counts.dayFirst : counts.monthFirst;
+      resolved = numericDatePattern(pattern, dayFirst);
+    }
+    count += matched;
+    if (!best || matched > best.count) best = { pattern: resolved, count: matched };
+  });
+
+  return { type: 'date', count, format: best ? { datePattern: best.pattern } : undefined };
+}
+
+function resolveColumn(tally: ColumnTally, hints: { decimalComma: boolean }): InferredColumn {
+  const base = {
+    name: tally.name,
+    nullable: tally.missing > 0,
+    examples: tally.examples
+  };
+  if (tally.present === 0) return { ...base, type: 'null', confidence: 0 };
+
+  const candidates: Candidate[] = [
+    numberCandidate(tally, hints.decimalComma),
+    dateCandidate(tally, hints.decimalComma),
+    { type: 'boolean', count: tally.booleans },
+    { type: 'array', count: tally.arrays },
+    { type: 'object', count: tally.objects }
+  ];
+  const best = candidates.sort((a, b) => b.count - a.count)[0];
+  const share = best.count / tally.present;
+
+  if (share >= TYPE_THRESHOLD) {
+    return { ...base, type: best.type, confidence: Math.round(share * 100), format: best.format };
+  }
+  // Text, as sure as the other types are unlikely
+  return { ...base, type: 'string', confidence: Math.round((1 - share) * 100) };
+}
+
+export interface TypeInference {
+  observe(row: DatasetRow): void;
+  rowCount(): number;
+  columns(): InferredColumn[];
+}
+
+/**
+ * Tally rows one at a time (streamed files) and infer column types at the end.
+ * A column first seen after some rows was missing from those rows.
+ */
+export function createTypeInference(): TypeInference {
+  const tallies = new Map<string, ColumnTally>();
+  let rows = 0;
+
+  return {
+    observe(row) {
+      Object.keys(row).forEach((name) => {
+        if (!tallies.has(name)) tallies.set(name, newTally(name, rows));
+      });
+      tallies.forEach((tally, name) => tallyValue(tally, row[name]));
+      rows++;
+    },
+
+    rowCount() {
+      return rows;
+    },
+
+    columns() {
+      const all = [...tallies.values()];
+      // Numbers like 1,5 elsewhere in the file make 03/04/2024 read day-first
+      const decimalComma = all.some((tally) => tally.commaFractions && tally.commaNumbers > tally.dotNumbers);
+      return all.map((tally) => resolveColumn(tally, { decimalComma }));
+    }
+  };
+}
+
+export function inferColumnTypes(rows: DatasetRow[]): InferredColumn[] {
+  const inference = createTypeInference();
+  rows.forEach((row) => {
+    if (typeof row === 'object' && row !== null) inference.observe(row);
+  });
+  return inference.columns();
+}
+
+/**
+ * Example values of a column, for files whose types come from their schema
+ */
+export function exampleValues(rows: DatasetRow[], name: string): string[] {
+  const tally = newTally(name, 0);
+  rows.forEach((row) => {
+    const value = row[name];
+    if (value !== null && value !== undefined && value !== '') addExample(tally, value);
+  });
+  return tally.examples;
+}
+
+// ============================================
+// Reading values back
+// ============================================
+
+const twoDigits = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * ISO string for a date, without the time when it is midnight UTC
+ */
+function toISODate(date: Date): string {
+  const iso = date.toISOString();
+  return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+}
+
+function parseDateText(text: string, pattern?: string): string | null {
+  const value = text.trim();
+  const numeric = value.match(NUMERIC_DATE);
+
+  if (numeric) {
+    const dayFirst = pattern ? pattern.startsWith('DD') : !validMonth(Number(numeric[1]));
+    const [day, month] = dayFirst
+      ? [Number(numeric[1]), Number(numeric[3])]
+      : [Number(numeric[3]), Number(numeric[1])];
+    let year = Number(numeric[4]);
+    if (numeric[4].length === 2) year += year < 50 ? 2000 : 1900;
+    if (!validDay(day) || !validMonth(month)) return null;
+    const time = numeric[5].match(/(\d{1,2}):(\d{2})(?::(\d{2}))?/);
+    const date = new Date(Date.UTC(year, month - 1, day, Number(time?.[1] ?? 0), Number(time?.[2] ?? 0), Number(time?.[3] ?? 0)));
+    return date.getUTCDate() === day ? toISODate(date) : null;
+  }
+
+  const yearFirst = value.match(YEAR_FIRST);
+  if (yearFirst) {
+    return `${yearFirst[1]}-${twoDigits(Number(yearFirst[3]))}-${twoDigits(Number(yearFirst[4]))}`;
+  }
+
+  const iso = value.match(ISO_DATE);
+  if (iso && UTC_OFFSET.test(iso[4])) {
+    const time = Date.parse(value);
+    return isNaN(time) ? null : toISODate(new Date(time));
+  }
+  if (iso) {
+    // No offset: read as UTC like the other formats, not in the server's time zone
+    const [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+    const time = iso[4].match(/(\d{1,2}):(\d{2})(?::(\d{2})(\.\d+)?)?\s?([AP]M)?/i);
+    let hours = Number(time?.[1] ?? 0);
+    if (time?.[5]) hours = (hours % 12) + (time[5].toUpperCase() === 'PM' ? 12 : 0);
+    const date = new Date(
+      Date.UTC(year, month - 1, day, hours, Number(time?.[2] ?? 0), Number(time?.[3] ?? 0), Math.round(Number(time?.[4] ?? 0) * 1000))
+    );
+    return validMonth(month) && hours < 24 && date.getUTCDate() === day ? toISODate(date) : null;
+  }
+
+  // Month names: read as written, without shifting to the server's time zone
+  if (!readDate(value)) return null;
+  const local = new Date(value.replace(/(\d)(st|nd|rd|th)\b/i, '$1'));
+  if (isNaN(local.getTime())) return null;
+  return toISODate(
+    new Date(Date.UTC(local.getFullYear(), local.getMonth(), local.getDate(), local.getHours(), local.getMinutes(), local.getSeconds()))
+  );
+}
+
+/**
+ * A value as the given type, reading text the way the column writes it
+ * (decimal comma, currency, percent, date pattern). Values that do not fit
+ * the type become null; dates become ISO strings.
+ */
+export function parseValue(value: unknown, type: string, format: ValueFormat = {}): unknown {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'string' && NULL_TOKENS.has(value.trim().toLowerCase())) return null;
+
+  switch (type) {
+    case 'integer':
+    case 'float':
+    case 'number': {
+      if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+      if (typeof value === 'boolean') return value ? 1 : 0;
+      const reading = readNumber(String(value));
+      if (!reading) return null;
+      const preferred = format.decimalSeparator === ',' ? reading.comma : reading.dot;
+      return preferred ?? reading.dot ?? reading.comma ?? null;
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return value;
+      if (typeof value === 'number') return value === 1 ? true : value === 0 ? false : null;
+      const token = String(value).trim().toLowerCase();
+      if (TRUE_TOKENS.has(token) || token === '1') return true;
+      if (FALSE_TOKENS.has(token) || token === '0') return false;
+      return null;
+    }
+    case 'date':
+      if (value instanceof Date) return isNaN(value.getTime()) ? null : toISODate(value);
+      return typeof value === 'string' ? parseDateText(value, format.datePattern) : null;
+    case 'string':
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    default:
+      return value;
+  }
+}
+
+export default {
+  createTypeInference,
+  inferColumnTypes,
+  exampleValues,
+  parseValue
+};
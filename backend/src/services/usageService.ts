@@ -0,0 +1,315 @@
+import mongoose from 'mongoose';
+import UsageRecord from '../models/UsageRecord.js';
+import type { IUser } from '../models/User.js';
+import { spentUsage, type CompletionResult, type CompletionUsage, type ResolvedProvider } from './llmService.js';
+
+/**
+ * Token usage ledger, cost estimates and monthly AI quotas.
+ * Every model call is recorded, failed and cancelled ones with the tokens
+ * they had already used; quotas are checked against the current calendar
+ * month (UTC) before a provider is called.
+ */
+
+export const USAGE_OPERATIONS = ['insight', 'chat', 'query'] as const;
+export type UsageOperation = (typeof USAGE_OPERATIONS)[number];
+
+export interface UsageCost extends CompletionUsage {
+  cost: number;
+}
+
+export interface UsageTotals extends UsageCost {
+  requests: number;
+}
+
+export interface ModelPrice {
+  // USD per 1M tokens
+  input: number;
+  output: number;
+}
+
+export interface Quota {
+  // null means unlimited
+  monthlyTokens: number | null;
+  monthlyCost: number | null;
+  source: 'user' | 'role';
+}
+
+export interface QuotaStatus {
+  exceeded: boolean;
+  reason?: string;
+  usage: UsageTotals;
+  quota: Quota;
+  periodStart: Date;
+  resetsAt: Date;
+}
+
+export interface UsageContext {
+  userId: unknown;
+  operation: UsageOperation;
+  datasetId?: unknown;
+  insightId?: unknown;
+  conversationId?: unknown;
+}
+
+// ============================================
+// Pricing
+// ============================================
+
+// Published OpenAI list prices; served model names are matched by longest prefix
+const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 }
+};
+
+let modelPrices: Record<string, ModelPrice> | undefined;
+
+/**
+ * Price table, extended or overridden by AI_MODEL_PRICES
+ * (JSON: {"model": {"input": 0.15, "output": 0.6}})
+ */
+function getModelPrices(): Record<string, ModelPrice> {
+  if (!modelPrices) {
+    modelPrices = { ...DEFAULT_MODEL_PRICES };
+    if (process.env.AI_MODEL_PRICES) {
+      try {
+        Object.assign(modelPrices, JSON.parse(process.env.AI_MODEL_PRICES));
+      } catch (error) {
+        console.error('Ignoring invalid AI_MODEL_PRICES:', error);
+      }
+    }
+  }
+  return modelPrices;
+}
+
+export function getModelPrice(model: string): ModelPrice | undefined {
+  const prices = getModelPrices();
+  const match = Object.keys(prices)
+    .filter((name) => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? prices[match] : undefined;
+}
+
+/**
+ * Estimated cost in USD; local and fake models, and unknown models, cost nothing
+ */
+export function estimateCost(completion: Pick<CompletionResult, 'provider' | 'model'>, usage: CompletionUsage): number {
+  if (completion.provider !== 'openai') return 0;
+  const price = getModelPrice(completion.model);
+  if (!price) return 0;
+  const cost = (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+export function emptyUsage(): UsageCost {
+  return { promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 };
+}
+
+/**
+ * Sum the usage of several model calls (e.g. query translation and generation)
+ */
+export function mergeUsage(...items: Array<UsageCost | undefined>): UsageCost {
+  const total = emptyUsage();
+  for (const item of items) {
+    if (!item) continue;
+    total.promptTokens += item.promptTokens;
+    total.completionTokens += item.completionTokens;
+    total.totalTokens += item.totalTokens;
+    total.cost = Math.round((total.cost + item.cost) * 1_000_000) / 1_000_000;
+  }
+  return total;
+}
+
+// ============================================
+// Ledger
+// ============================================
+
+/**
+ * Record a completed model call and return its usage with the estimated cost
+ */
+export async function recordUsage(completion: CompletionResult, context: UsageContext): Promise<UsageCost> {
+  const usage = completion.usage || { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  const result: UsageCost = { ...usage, cost: estimateCost(completion, usage) };
+
+  await UsageRecord.create({
+    userId: context.userId,
+    datasetId: context.datasetId,
+    insightId: context.insightId,
+    conversationId: context.conversationId,
+    operation: context.operation,
+    provider: completion.provider,
+    aiModel: completion.model,
+    ...result
+  });
+
+  return result;
+}
+
+/**
+ * Record the tokens a failed or cancelled model call had already used, so
+ * invalid output and cancelled generations still count towards the quota.
+ * A ledger error is logged rather than hiding the generation's own error.
+ */
+export async function recordSpentUsage(
+  error: unknown,
+  llm: ResolvedProvider | null,
+  context: UsageContext
+): Promise<void> {
+  const usage = spentUsage(error);
+  if (!llm || !usage || usage.totalTokens === 0) return;
+  try {
+    await recordUsage({ content: '', provider: llm.provider.name, model: llm.model, usage }, context);
+  } catch (ledgerError) {
+    console.error('Failed to record usage:', ledgerError);
+  }
+}
+
+const totalsStage = {
+  promptTokens: { $sum: '$promptTokens' },
+  completionTokens: { $sum: '$completionTokens' },
+  totalTokens: { $sum: '$totalTokens' },
+  cost: { $sum: '$cost' },
+  requests: { $sum: 1 }
+};
+
+function toTotals(row?: Partial<UsageTotals>): UsageTotals {
+  return {
+    promptTokens: row?.promptTokens || 0,
+    completionTokens: row?.completionTokens || 0,
+    totalTokens: row?.totalTokens || 0,
+    cost: Math.round((row?.cost || 0) * 1_000_000) / 1_000_000,
+    requests: row?.requests || 0
+  };
+}
+
+export async function getUsageSince(userId: mongoose.Types.ObjectId, since: Date): Promise<UsageTotals> {
+  const [row] = await UsageRecord.aggregate([
+    { $match: { userId, createdAt: { $gte: since } } },
+    { $group: { _id: null, ...totalsStage } }
+  ]);
+  return toTotals(row);
+}
+
+// ============================================
+// Quotas
+// ============================================
+
+// Monthly defaults per role; AI_QUOTA_<ROLE>_TOKENS / AI_QUOTA_<ROLE>_COST override them
+const DEFAULT_ROLE_QUOTAS: Record<IUser['role'], Omit<Quota, 'source'>> = {
+  user: { monthlyTokens: 500_000, monthlyCost: 5 },
+  admin: { monthlyTokens: null, monthlyCost: null }
+};
+
+function quotaFromEnv(name: string, fallback: number | null): number | null {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return fallback;
+  if (raw.toLowerCase() === 'unlimited') return null;
+  const value = parseFloat(raw);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * The user's monthly limits: per-user overrides first, then the role's quota
+ */
+export function resolveQuota(user: IUser): Quota {
+  const role = user.role || 'user';
+  const defaults = DEFAULT_ROLE_QUOTAS[role] || DEFAULT_ROLE_QUOTAS.user;
+  const prefix = `AI_QUOTA_${role.toUpperCase()}`;
+  const roleTokens = quotaFromEnv(`${prefix}_TOKENS`, defaults.monthlyTokens);
+  const roleCost = quotaFromEnv(`${prefix}_COST`, defaults.monthlyCost);
+  const override = user.aiQuota || {};
+  const hasOverride = typeof override.monthlyTokens === 'number' || typeof override.monthlyCost === 'number';
+
+  return {
+    monthlyTokens: typeof override.monthlyTokens === 'number' ? override.monthlyTokens : roleTokens,
+    monthlyCost: typeof override.monthlyCost === 'number' ? override.monthlyCost : roleCost,
+    source: hasOverride ? 'user' : 'role'
+  };
+}
+
+export function currentPeriod(now = new Date()): { start: Date; resetsAt: Date } {
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    resetsAt: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+  };
+}
+
+/**
+ * Compare this month's usage with the user's quota
+ */
+export async function checkQuota(user: IUser): Promise<QuotaStatus> {
+  const { start, resetsAt } = currentPeriod();
+  const quota = resolveQuota(user);
+  const usage = await getUsageSince(user._id as mongoose.Types.ObjectId, start);
+
+  let reason: string | undefined;
+  if (quota.monthlyTokens !== null && usage.totalTokens >= quota.monthlyTokens) {
+    reason = `Monthly AI token quota of ${quota.monthlyTokens.toLocaleString('en-US')} tokens reached`;
+  } else if (quota.monthlyCost !== null && usage.cost >= quota.monthlyCost) {
+    reason = `Monthly AI spending quota of $${quota.monthlyCost.toFixed(2)} reached`;
+  }
+
+  return { exceeded: !!reason, reason, usage, quota, periodStart: start, resetsAt };
+}
+
+// ============================================
+// Reporting
+// ============================================
+
+/**
+ * This month's totals and daily series, plus monthly totals for earlier months
+ */
+export async function getUsageSummary(user: IUser, months = 6) {
+  const userId = user._id as mongoose.Types.ObjectId;
+  const status = await checkQuota(user);
+  const { start } = currentPeriod();
+  const historyStart = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() - (months - 1), 1));
+
+  const [daily, monthly, byModel, byOperation] = await Promise.all([
+    UsageRecord.aggregate([
+      { $match: { userId, createdAt: { $gte: start } } },
+      { $group: { _id: { $dateToString: { format: '%Y-%m-%d', date: '$createdAt' } }, ...totalsStage } },
+      { $sort: { _id: 1 } }
+    ]),
+    UsageRecord.aggregate([
+      { $match: { userId, createdAt: { $gte: historyStart } } },
+      { $group: { _id: { $dateToString: { format: '%Y-%m', date: '$createdAt' } }, ...totalsStage } },
+      { $sort: { _id: 1 } }
+    ]),
+    UsageRecord.aggregate([
+      { $match: { userId, createdAt: { $gte: start } } },
+      { $group: { _id: { provider: '$provider', model: '$aiModel' }, ...totalsStage } },
+      { $sort: { totalTokens: -1 } }
+    ]),
+    UsageRecord.aggregate([
+      { $match: { userId, createdAt: { $gte: start } } },
+      { $group: { _id: '$operation', ...totalsStage } },
+      { $sort: { totalTokens: -1 } }
+    ])
+  ]);
+
+  return {
+    period: { start: status.periodStart, resetsAt: status.resetsAt },
+    usage: status.usage,
+    quota: status.quota,
+    exceeded: status.exceeded,
+    daily: daily.map((row) => ({ date: row._id as string, ...toTotals(row) })),
+    monthly: monthly.map((row) => ({ month: row._id as string, ...toTotals(row) })),
+    byModel: byModel.map((row) => ({ provider: row._id.provider as string, model: row._id.model as string, ...toTotals(row) })),
+    byOperation: byOperation.map((row) => ({ operation: row._id as UsageOperation, ...toTotals(row) }))
+  };
+}
+
+export default {
+  estimateCost,
+  mergeUsage,
+  recordUsage,
+  recordSpentUsage,
+  resolveQuota,
+  checkQuota,
+  getUsageSummary
+};
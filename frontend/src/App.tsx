@@ -11,6 +11,7 @@ import { Provider } from "react-redux";
 import { store } from "./store/store";
 import DatasetDetail from "./pages/DatasetDetail";
 import InsightDetail from "./pages/InsightDetail";
+import PromptTemplates from "./pages/PromptTemplates";
 import { TooltipProvider } from "./components/ui/tooltip";
 import { ProtectedRoute } from "./components/ProtectedRoute";
 
@@ -73,6 +74,14 @@ const App = () => (
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/admin/prompts"
+              element={
+                <ProtectedRoute>
+                  <PromptTemplates />
+                </ProtectedRoute>
+              }
+            />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </BrowserRouter>
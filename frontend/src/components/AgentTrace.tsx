@@ -0,0 +1,61 @@
+import { Badge } from "@/components/ui/badge";
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "@/components/ui/accordion";
+import type { AgentTrace as AgentTraceData } from "@/types/api";
+import { CircleX, Wrench } from "lucide-react";
+
+/**
+ * Tool calls the analysis agent made before writing the insight
+ */
+export function AgentTrace({ trace }: { trace: AgentTraceData }) {
+  if (trace.steps.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        The agent answered without calling any tools.
+      </p>
+    );
+  }
+
+  return (
+    <Accordion type="multiple" className="w-full">
+      {trace.steps.map((step) => (
+        <AccordionItem key={step.step} value={`step-${step.step}`}>
+          <AccordionTrigger className="hover:no-underline">
+            <div className="flex items-center gap-2 text-left">
+              {step.error ? (
+                <CircleX className="h-4 w-4 text-destructive" />
+              ) : (
+                <Wrench className="h-4 w-4" />
+              )}
+              <Badge variant="outline">
+                {step.step}/{trace.maxSteps}
+              </Badge>
+              <span className="font-mono text-sm">{step.tool}</span>
+              {step.reason && (
+                <span className="text-sm text-muted-foreground">
+                  {step.reason}
+                </span>
+              )}
+            </div>
+          </AccordionTrigger>
+          <AccordionContent className="space-y-2">
+            <p className="text-xs text-muted-foreground">Arguments</p>
+            <pre className="max-h-48 overflow-auto rounded-md bg-muted p-3 text-xs">
+              {JSON.stringify(step.arguments, null, 2)}
+            </pre>
+            <p className="text-xs text-muted-foreground">
+              {step.error ? "Error" : "Result"} · {step.durationMs} ms
+            </p>
+            <pre className="max-h-72 overflow-auto rounded-md bg-muted p-3 text-xs">
+              {step.error ?? JSON.stringify(step.result, null, 2)}
+            </pre>
+          </AccordionContent>
+        </AccordionItem>
+      ))}
+    </Accordion>
+  );
+}
@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { uploadApi } from "@/lib/api";
+import type { CSVDialect, CSVEncoding, Dataset } from "@/types/api";
+import { FileText } from "lucide-react";
+import { toast } from "sonner";
+
+interface CSVDialectEditorProps {
+  dataset: Dataset;
+  dialect: CSVDialect;
+}
+
+const delimiterLabels: Record<string, string> = {
+  ",": "Comma (,)",
+  ";": "Semicolon (;)",
+  "\t": "Tab",
+  "|": "Pipe (|)",
+};
+
+const quoteLabels: Record<string, string> = {
+  '"': 'Double quote (")',
+  "'": "Single quote (')",
+};
+
+const encodingLabels: Record<CSVEncoding, string> = {
+  "utf-8": "UTF-8",
+  "utf-16le": "UTF-16 LE",
+  "utf-16be": "UTF-16 BE",
+  latin1: "Latin-1 (Windows-1252)",
+};
+
+// How a CSV file is read; values are detected and can be corrected here
+export function CSVDialectEditor({ dataset, dialect }: CSVDialectEditorProps) {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<CSVDialect>(dialect);
+
+  const processMutation = useMutation({
+    // An empty object detects everything again
+    mutationFn: (csv: Partial<CSVDialect>) => uploadApi.process(dataset._id, { csv }),
+    onSuccess: () => {
+      toast.success("Re-processing with the new CSV settings");
+      queryClient.invalidateQueries({ queryKey: ["dataset", dataset._id] });
+      queryClient.invalidateQueries({ queryKey: ["dataset-preview", dataset._id] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to re-process dataset");
+    },
+  });
+
+  const update = <K extends keyof CSVDialect>(key: K, value: CSVDialect[K]) =>
+    setDraft((current) => ({ ...current, [key]: value }));
+
+  const changed = (Object.keys(dialect) as Array<keyof CSVDialect>).some(
+    (key) => draft[key] !== dialect[key]
+  );
+  const busy =
+    processMutation.isPending || dataset.metadata.processingStatus === "processing";
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <FileText className="h-4 w-4" />
+          CSV format
+        </CardTitle>
+        <CardDescription>
+          Detected from the file. Correct any value and re-process if columns look wrong.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          <div className="space-y-2">
+            <Label htmlFor="csvDelimiter">Delimiter</Label>
+            <Select
+              value={draft.delimiter}
+              onValueChange={(delimiter) => update("delimiter", delimiter)}
+            >
+              <SelectTrigger id="csvDelimiter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries({
+                  ...delimiterLabels,
+                  [dialect.delimiter]: delimiterLabels[dialect.delimiter] ?? dialect.delimiter,
+                }).map(([delimiter, label]) => (
+                  <SelectItem key={delimiter} value={delimiter}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="csvQuote">Quote</Label>
+            <Select value={draft.quote} onValueChange={(quote) => update("quote", quote)}>
+              <SelectTrigger id="csvQuote">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries({
+                  ...quoteLabels,
+                  [dialect.quote]: quoteLabels[dialect.quote] ?? dialect.quote,
+                }).map(([quote, label]) => (
+                  <SelectItem key={quote} value={quote}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="csvEncoding">Encoding</Label>
+            <Select
+              value={draft.encoding}
+              onValueChange={(encoding) => update("encoding", encoding as CSVEncoding)}
+            >
+              <SelectTrigger id="csvEncoding">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(encodingLabels).map(([encoding, label]) => (
+                  <SelectItem key={encoding} value={encoding}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="csvSkipLines">Lines to skip</Label>
+            <Input
+              id="csvSkipLines"
+              type="number"
+              min={0}
+              max={1000}
+              value={draft.skipLines}
+              onChange={(e) => update("skipLines", Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+            />
+          </div>
+        </div>
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={draft.hasHeader}
+            onChange={(e) => update("hasHeader", e.target.checked)}
+          />
+          First row is a header (otherwise columns are named column_1, column_2, ...)
+        </label>
+        <div className="flex flex-wrap gap-2">
+          <Button size="sm" onClick={() => processMutation.mutate(draft)} disabled={busy || !changed}>
+            Re-process
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => processMutation.mutate({})} disabled={busy}>
+            Detect again
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,74 @@
+import type { ColumnProfile } from "@/types/api";
+
+interface ColumnProfileSummaryProps {
+  profile: ColumnProfile;
+  unit?: string;
+}
+
+const formatValue = (value: number | string | undefined, kind: ColumnProfile["kind"]) => {
+  if (value === undefined) return "—";
+  if (kind === "date") return new Date(value).toLocaleDateString();
+  return typeof value === "number" ? value.toLocaleString(undefined, { maximumFractionDigits: 2 }) : value;
+};
+
+// Statistics of one column with a small histogram, or its most common values
+export function ColumnProfileSummary({ profile, unit }: ColumnProfileSummaryProps) {
+  const { kind } = profile;
+  const format = (value: number | string | undefined) => formatValue(value, kind);
+  const suffix = unit && kind === "numeric" ? ` ${unit}` : "";
+  const nullShare = profile.count > 0 ? Math.round((profile.nulls / profile.count) * 100) : 0;
+  const tallest = Math.max(0, ...(profile.histogram ?? []).map((bin) => bin.count));
+
+  return (
+    <div className="min-w-48 space-y-1 text-xs">
+      <p className="text-muted-foreground">
+        {profile.nulls.toLocaleString()} null{profile.nulls > 0 && ` (${nullShare}%)`} ·{" "}
+        {profile.distinct.toLocaleString()} distinct
+      </p>
+
+      {kind !== "categorical" && profile.min !== undefined && (
+        <>
+          <p>
+            {format(profile.min)} – {format(profile.max)}
+            {suffix}
+          </p>
+          <p className="text-muted-foreground">
+            mean {format(profile.mean)} · median {format(profile.median)}
+            {profile.std !== undefined &&
+              ` · std ${profile.std.toLocaleString(undefined, { maximumFractionDigits: 2 })}${kind === "date" ? " days" : ""}`}
+          </p>
+        </>
+      )}
+
+      {profile.histogram && profile.histogram.length > 0 ? (
+        <div className="flex h-8 items-end gap-px" aria-label="Histogram">
+          {profile.histogram.map((bin, i) => (
+            <div
+              key={i}
+              className="flex-1 rounded-sm bg-primary/70"
+              style={{ height: `${Math.max(4, (bin.count / Math.max(1, tallest)) * 100)}%` }}
+              title={`${format(bin.from)} – ${format(bin.to)}: ${bin.count.toLocaleString()}`}
+            />
+          ))}
+        </div>
+      ) : (
+        profile.topValues.length > 0 && (
+          <ul className="space-y-0.5">
+            {profile.topValues.map((top) => (
+              <li key={top.value} className="flex items-center gap-2" title={`${top.value}: ${top.count.toLocaleString()}`}>
+                <span className="w-20 truncate">{top.value}</span>
+                <span className="h-2 flex-1 rounded-sm bg-muted">
+                  <span
+                    className="block h-2 rounded-sm bg-primary/70"
+                    style={{ width: `${(top.count / Math.max(1, profile.count - profile.nulls)) * 100}%` }}
+                  />
+                </span>
+                <span className="text-muted-foreground">{top.count.toLocaleString()}</span>
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { datasetApi } from "@/lib/api";
+import type { ColumnRole, ColumnSchemaUpdate, Dataset, SchemaType } from "@/types/api";
+import { Pencil } from "lucide-react";
+import { toast } from "sonner";
+
+type DatasetColumn = Dataset["columns"][number];
+
+interface ColumnSchemaEditorProps {
+  datasetId: string;
+  column: DatasetColumn;
+  disabled?: boolean;
+}
+
+// Select value for "use what was detected" / "no role"
+const DETECTED = "detected";
+
+const typeLabels: Record<SchemaType, string> = {
+  string: "Text",
+  integer: "Integer",
+  float: "Decimal",
+  number: "Number",
+  boolean: "Boolean",
+  date: "Date",
+};
+
+const roleLabels: Record<ColumnRole, string> = {
+  dimension: "Dimension",
+  measure: "Measure",
+  time: "Time",
+  id: "Identifier",
+};
+
+const roleDescriptions: Record<ColumnRole, string> = {
+  dimension: "grouped and filtered by",
+  measure: "summed, averaged and charted",
+  time: "orders rows and trends",
+  id: "identifies rows, never aggregated",
+};
+
+const draftOf = (column: DatasetColumn) => ({
+  type: column.overridden?.includes("type") ? column.type : DETECTED,
+  nullable: column.overridden?.includes("nullable") ? String(column.nullable) : DETECTED,
+  displayName: column.displayName ?? "",
+  description: column.description ?? "",
+  unit: column.unit ?? "",
+  role: column.role ?? DETECTED,
+});
+
+// Corrects the inferred schema of one column; previews, analytics and AI prompts follow it
+export function ColumnSchemaEditor({ datasetId, column, disabled }: ColumnSchemaEditorProps) {
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState(() => draftOf(column));
+
+  const detectedType = column.inferredType ?? column.type;
+  const detectedNullable = column.inferredNullable ?? column.nullable;
+
+  const schemaMutation = useMutation({
+    mutationFn: (update: ColumnSchemaUpdate) =>
+      datasetApi.updateSchema(datasetId, { [column.name]: update }),
+    onSuccess: (response) => {
+      queryClient.setQueryData(["dataset", datasetId], response);
+      queryClient.invalidateQueries({ queryKey: ["dataset-preview", datasetId] });
+      toast.success(response.message || "Dataset schema updated");
+      setOpen(false);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to update schema");
+    },
+  });
+
+  const update = <K extends keyof ReturnType<typeof draftOf>>(key: K, value: string) =>
+    setDraft((current) => ({ ...current, [key]: value }));
+
+  // Only fields that differ from the stored column are sent
+  const changes = (): ColumnSchemaUpdate => {
+    const initial = draftOf(column);
+    const changed: ColumnSchemaUpdate = {};
+    if (draft.type !== initial.type) {
+      changed.type = draft.type === DETECTED ? null : (draft.type as SchemaType);
+    }
+    if (draft.nullable !== initial.nullable) {
+      changed.nullable = draft.nullable === DETECTED ? null : draft.nullable === "true";
+    }
+    if (draft.role !== initial.role) {
+      changed.role = draft.role === DETECTED ? null : (draft.role as ColumnRole);
+    }
+    (["displayName", "description", "unit"] as const).forEach((field) => {
+      if (draft[field].trim() !== initial[field]) changed[field] = draft[field].trim() || null;
+    });
+    return changed;
+  };
+  const hasChanges = Object.keys(changes()).length > 0;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (next) setDraft(draftOf(column));
+        setOpen(next);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" disabled={disabled} title="Edit column schema">
+          <Pencil className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit column "{column.name}"</DialogTitle>
+          <DialogDescription>
+            Overrides apply to previews, analytics and AI prompts, and are kept when the file is
+            processed again. Values that do not fit a new type are read as empty.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="schemaDisplayName">Display name</Label>
+            <Input
+              id="schemaDisplayName"
+              maxLength={100}
+              placeholder={column.name}
+              value={draft.displayName}
+              onChange={(e) => update("displayName", e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="schemaDescription">Description</Label>
+            <Input
+              id="schemaDescription"
+              maxLength={500}
+              placeholder="What the column holds"
+              value={draft.description}
+              onChange={(e) => update("description", e.target.value)}
+            />
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="schemaType">Type</Label>
+              <Select value={draft.type} onValueChange={(type) => update("type", type)}>
+                <SelectTrigger id="schemaType">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DETECTED}>Detected ({detectedType})</SelectItem>
+                  {Object.entries(typeLabels).map(([type, label]) => (
+                    <SelectItem key={type} value={type}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="schemaRole">Role</Label>
+              <Select value={draft.role} onValueChange={(role) => update("role", role)}>
+                <SelectTrigger id="schemaRole">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DETECTED}>From the values</SelectItem>
+                  {Object.entries(roleLabels).map(([role, label]) => (
+                    <SelectItem key={role} value={role}>
+                      {label} - {roleDescriptions[role as ColumnRole]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="schemaUnit">Unit</Label>
+              <Input
+                id="schemaUnit"
+                maxLength={30}
+                placeholder="e.g. USD, kg, %"
+                value={draft.unit}
+                onChange={(e) => update("unit", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="schemaNullable">Nullable</Label>
+              <Select value={draft.nullable} onValueChange={(nullable) => update("nullable", nullable)}>
+                <SelectTrigger id="schemaNullable">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DETECTED}>Detected ({detectedNullable ? "Yes" : "No"})</SelectItem>
+                  <SelectItem value="true">Yes</SelectItem>
+                  <SelectItem value="false">No</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => schemaMutation.mutate(changes())}
+            disabled={!hasChanges || schemaMutation.isPending}
+          >
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,219 @@
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { DatasetComparison } from "@/types/api";
+
+const formatNumber = (value: number) =>
+  value.toLocaleString("en-US", { maximumFractionDigits: 2 });
+
+const formatChange = (value: number | null, unit = "%") =>
+  value === null ? "—" : `${value > 0 ? "+" : ""}${formatNumber(value)}${unit}`;
+
+function ShiftBadge({ shifted }: { shifted: boolean }) {
+  return shifted ? (
+    <Badge variant="destructive">Shifted</Badge>
+  ) : (
+    <Badge variant="outline">Stable</Badge>
+  );
+}
+
+/**
+ * Schema differences, distribution shifts and changed aggregates between two datasets
+ */
+export function ComparisonReport({ report }: { report: DatasetComparison }) {
+  const { schema } = report;
+  const schemaChanged =
+    schema.added.length > 0 ||
+    schema.removed.length > 0 ||
+    schema.typeChanges.length > 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 text-sm md:grid-cols-3">
+        <div>
+          <p className="text-muted-foreground">Baseline</p>
+          <p className="font-medium">{report.baseline.name}</p>
+          <p>{formatNumber(report.baseline.rowCount)} rows</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Current</p>
+          <p className="font-medium">{report.current.name}</p>
+          <p>{formatNumber(report.current.rowCount)} rows</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Row count change</p>
+          <p className="text-2xl font-bold">
+            {formatChange(report.rowChangePercent)}
+          </p>
+        </div>
+      </div>
+
+      <section className="space-y-2">
+        <h3 className="font-semibold">Schema</h3>
+        {schemaChanged ? (
+          <ul className="space-y-1 text-sm">
+            {schema.added.length > 0 && (
+              <li>
+                <span className="text-green-600">Added:</span>{" "}
+                {schema.added.join(", ")}
+              </li>
+            )}
+            {schema.removed.length > 0 && (
+              <li>
+                <span className="text-destructive">Removed:</span>{" "}
+                {schema.removed.join(", ")}
+              </li>
+            )}
+            {schema.typeChanges.map((change) => (
+              <li key={change.column}>
+                <span className="text-amber-600">Type changed:</span>{" "}
+                {change.column} ({change.from} → {change.to})
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Same {schema.shared.length} columns in both datasets
+          </p>
+        )}
+      </section>
+
+      {report.numeric.length > 0 && (
+        <section className="space-y-2">
+          <h3 className="font-semibold">Numeric columns</h3>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Column</TableHead>
+                <TableHead className="text-right">Mean</TableHead>
+                <TableHead className="text-right">Mean change</TableHead>
+                <TableHead className="text-right">Sum change</TableHead>
+                <TableHead className="text-right">KS</TableHead>
+                <TableHead>Distribution</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.numeric.map((shift) => (
+                <TableRow key={shift.column}>
+                  <TableCell className="font-medium">{shift.column}</TableCell>
+                  <TableCell className="text-right">
+                    {formatNumber(shift.baseline.mean)} →{" "}
+                    {formatNumber(shift.current.mean)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatChange(shift.meanChangePercent)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatChange(shift.sumChangePercent)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {shift.ksStatistic.toFixed(2)}
+                  </TableCell>
+                  <TableCell>
+                    <ShiftBadge shifted={shift.shifted} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </section>
+      )}
+
+      {report.categorical.length > 0 && (
+        <section className="space-y-2">
+          <h3 className="font-semibold">Category columns</h3>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Column</TableHead>
+                <TableHead>Largest share changes</TableHead>
+                <TableHead>New / gone values</TableHead>
+                <TableHead className="text-right">Shift</TableHead>
+                <TableHead>Distribution</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.categorical.map((shift) => (
+                <TableRow key={shift.column}>
+                  <TableCell className="font-medium">{shift.column}</TableCell>
+                  <TableCell className="text-sm">
+                    {shift.topChanges.length === 0
+                      ? "—"
+                      : shift.topChanges
+                          .slice(0, 3)
+                          .map(
+                            (change) =>
+                              `${change.value} ${formatChange(change.change, " pts")}`
+                          )
+                          .join(", ")}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {shift.added.length === 0 && shift.removed.length === 0
+                      ? "—"
+                      : [
+                          ...shift.added.map((value) => `+${value}`),
+                          ...shift.removed.map((value) => `−${value}`),
+                        ].join(", ")}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {shift.totalVariation.toFixed(2)}
+                  </TableCell>
+                  <TableCell>
+                    <ShiftBadge shifted={shift.shifted} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </section>
+      )}
+
+      {report.aggregates.map((aggregate) => (
+        <section
+          key={`${aggregate.groupBy}-${aggregate.column ?? "count"}`}
+          className="space-y-2"
+        >
+          <h3 className="font-semibold">
+            {aggregate.aggregation === "count"
+              ? "Row count"
+              : `Sum of ${aggregate.column}`}{" "}
+            by {aggregate.groupBy}
+          </h3>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{aggregate.groupBy}</TableHead>
+                <TableHead className="text-right">Baseline</TableHead>
+                <TableHead className="text-right">Current</TableHead>
+                <TableHead className="text-right">Change</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {aggregate.groups.map((group) => (
+                <TableRow key={group.group}>
+                  <TableCell>{group.group}</TableCell>
+                  <TableCell className="text-right">
+                    {formatNumber(group.baseline)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatNumber(group.current)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatChange(group.change, "")} (
+                    {formatChange(group.changePercent)})
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </section>
+      ))}
+    </div>
+  );
+}
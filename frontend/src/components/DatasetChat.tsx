@@ -0,0 +1,280 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { ChartRenderer } from "@/components/charts/ChartRenderer";
+import { chatApi } from "@/lib/api";
+import type { ChatMessage } from "@/types/api";
+import {
+  Loader2,
+  MessageSquare,
+  Plus,
+  Save,
+  Send,
+  Sparkles,
+  Trash2,
+} from "lucide-react";
+import { toast } from "sonner";
+
+interface DatasetChatProps {
+  datasetId: string;
+  disabled?: boolean;
+}
+
+export function DatasetChat({ datasetId, disabled }: DatasetChatProps) {
+  const queryClient = useQueryClient();
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+
+  const { data: conversationsResponse } = useQuery({
+    queryKey: ["conversations", datasetId],
+    queryFn: () => chatApi.getAll(datasetId),
+  });
+
+  const { data: conversationResponse } = useQuery({
+    queryKey: ["conversation", datasetId, activeId],
+    queryFn: () => chatApi.getById(datasetId, activeId!),
+    enabled: !!activeId,
+  });
+
+  const conversations = conversationsResponse?.data || [];
+  const conversation = activeId ? conversationResponse?.data : undefined;
+
+  const sendMutation = useMutation({
+    mutationFn: async (content: string) => {
+      // The first question of a new thread creates it
+      const conversationId =
+        activeId || (await chatApi.create(datasetId)).data!._id;
+      return chatApi.sendMessage(datasetId, conversationId, content);
+    },
+    onSuccess: (response) => {
+      const updated = response.data!;
+      setActiveId(updated._id);
+      setDraft("");
+      queryClient.setQueryData(
+        ["conversation", datasetId, updated._id],
+        response
+      );
+      queryClient.invalidateQueries({ queryKey: ["conversations", datasetId] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to get an answer");
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (conversationId: string) =>
+      chatApi.delete(datasetId, conversationId),
+    onSuccess: () => {
+      toast.success("Conversation deleted");
+      setActiveId(null);
+      queryClient.invalidateQueries({ queryKey: ["conversations", datasetId] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to delete conversation");
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (messageId: string) =>
+      chatApi.saveAsInsight(datasetId, activeId!, messageId),
+    onSuccess: () => {
+      toast.success("Answer saved as insight");
+      queryClient.invalidateQueries({
+        queryKey: ["conversation", datasetId, activeId],
+      });
+      queryClient.invalidateQueries({ queryKey: ["insights"] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to save insight");
+    },
+  });
+
+  const handleSend = () => {
+    const content = draft.trim();
+    if (!content || sendMutation.isPending) return;
+    sendMutation.mutate(content);
+  };
+
+  return (
+    <div className="grid gap-4 md:grid-cols-[240px_1fr]">
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-sm">Conversations</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-1">
+          <Button
+            variant={activeId ? "ghost" : "secondary"}
+            size="sm"
+            className="w-full justify-start"
+            onClick={() => setActiveId(null)}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New conversation
+          </Button>
+          {conversations.map((c) => (
+            <Button
+              key={c._id}
+              variant={c._id === activeId ? "secondary" : "ghost"}
+              size="sm"
+              className="w-full justify-start"
+              onClick={() => setActiveId(c._id)}
+            >
+              <MessageSquare className="h-4 w-4 mr-2 shrink-0" />
+              <span className="truncate">{c.title}</span>
+            </Button>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>{conversation?.title || "Ask about this dataset"}</CardTitle>
+            <CardDescription>
+              Follow-up questions keep the context of earlier answers
+            </CardDescription>
+          </div>
+          {conversation && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                if (confirm("Delete this conversation?")) {
+                  deleteMutation.mutate(conversation._id);
+                }
+              }}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-4 max-h-[600px] overflow-y-auto">
+            {(conversation?.messages || []).map((message) => (
+              <ChatBubble
+                key={message._id}
+                message={message}
+                onSave={() => saveMutation.mutate(message._id)}
+                saving={
+                  saveMutation.isPending &&
+                  saveMutation.variables === message._id
+                }
+              />
+            ))}
+            {sendMutation.isPending && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Analyzing...
+              </div>
+            )}
+            {!conversation && !sendMutation.isPending && (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                e.g. "Which region has the highest average revenue?"
+              </p>
+            )}
+          </div>
+
+          <div className="flex gap-2">
+            <Input
+              placeholder={
+                disabled
+                  ? "Dataset must finish processing first"
+                  : "Ask a question..."
+              }
+              value={draft}
+              disabled={disabled}
+              maxLength={2000}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") handleSend();
+              }}
+            />
+            <Button
+              onClick={handleSend}
+              disabled={disabled || !draft.trim() || sendMutation.isPending}
+            >
+              <Send className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function ChatBubble({
+  message,
+  onSave,
+  saving,
+}: {
+  message: ChatMessage;
+  onSave: () => void;
+  saving: boolean;
+}) {
+  if (message.role === "user") {
+    return (
+      <div className="flex justify-end">
+        <div className="rounded-lg bg-primary text-primary-foreground px-4 py-2 max-w-[80%]">
+          {message.content}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg bg-muted p-4 space-y-3">
+      <p className="whitespace-pre-wrap">{message.content}</p>
+
+      {message.metrics.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {message.metrics.map((metric, i) => (
+            <Badge key={i} variant="outline">
+              {metric.name}: {metric.value}
+              {metric.unit ? ` ${metric.unit}` : ""}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {message.visualizations.map((viz, i) => (
+        <ChartRenderer
+          key={i}
+          type={viz.type}
+          data={viz.data}
+          config={viz.config}
+        />
+      ))}
+
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <Sparkles className="h-3 w-3" />
+          {message.aiProvider && `${message.aiProvider} · `}
+          {message.aiModel}
+        </span>
+        {message.savedInsightId ? (
+          <Link
+            to={`/insights/${message.savedInsightId}`}
+            className="underline"
+          >
+            View saved insight
+          </Link>
+        ) : (
+          <Button variant="ghost" size="sm" onClick={onSave} disabled={saving}>
+            <Save className="h-3 w-3 mr-1" />
+            Save as insight
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
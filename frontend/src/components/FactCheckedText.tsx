@@ -0,0 +1,158 @@
+import type { ReactElement, ReactNode } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import type { FactCheck } from "@/types/api";
+import { CircleCheck, CircleHelp, CircleX, RefreshCw } from "lucide-react";
+
+const statusStyles: Record<
+  FactCheck["status"],
+  { label: string; highlight: string; icon: ReactNode }
+> = {
+  verified: {
+    label: "Verified",
+    highlight: "bg-green-500/15 decoration-green-600",
+    icon: <CircleCheck className="h-4 w-4 text-green-600" />,
+  },
+  unverifiable: {
+    label: "Unverifiable",
+    highlight: "bg-amber-500/15 decoration-amber-600",
+    icon: <CircleHelp className="h-4 w-4 text-amber-600" />,
+  },
+  contradicted: {
+    label: "Contradicted",
+    highlight: "bg-red-500/15 decoration-red-600",
+    icon: <CircleX className="h-4 w-4 text-destructive" />,
+  },
+};
+
+const formatNumber = (value: number) =>
+  value.toLocaleString("en-US", { maximumFractionDigits: 4 });
+
+function explain(check: FactCheck) {
+  if (check.status === "unverifiable") {
+    return "No statistic in the dataset could be matched to this number";
+  }
+  const expected =
+    check.expected !== undefined
+      ? `${formatNumber(check.expected)}${check.unit === "percent" ? "%" : ""}`
+      : "";
+  return check.status === "verified"
+    ? `Matches ${check.basis} (${expected})`
+    : `The data gives ${expected} for ${check.basis}`;
+}
+
+function FactCheckTooltip({
+  check,
+  children,
+}: {
+  check: FactCheck;
+  children: ReactElement;
+}) {
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>{children}</TooltipTrigger>
+      <TooltipContent className="max-w-xs">
+        <p className="font-medium">{statusStyles[check.status].label}</p>
+        <p>{explain(check)}</p>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
+
+/**
+ * Text with its checked numeric claims highlighted by status
+ */
+export function FactCheckedText({
+  text,
+  checks = [],
+}: {
+  text: string;
+  checks?: FactCheck[];
+}) {
+  const claims = checks
+    .filter(
+      (check) =>
+        check.source === "description" &&
+        check.start !== undefined &&
+        check.end !== undefined
+    )
+    .sort((a, b) => (a.start ?? 0) - (b.start ?? 0));
+
+  const parts: ReactNode[] = [];
+  let position = 0;
+  claims.forEach((check, i) => {
+    const start = check.start ?? 0;
+    const end = check.end ?? 0;
+    if (start < position || end > text.length) return;
+    parts.push(text.slice(position, start));
+    parts.push(
+      <FactCheckTooltip key={i} check={check}>
+        <span
+          className={`rounded px-0.5 underline decoration-dotted underline-offset-4 ${statusStyles[check.status].highlight}`}
+        >
+          {text.slice(start, end)}
+        </span>
+      </FactCheckTooltip>
+    );
+    position = end;
+  });
+  parts.push(text.slice(position));
+
+  return <>{parts}</>;
+}
+
+export function FactCheckIcon({ check }: { check?: FactCheck }) {
+  if (!check) return null;
+  return (
+    <FactCheckTooltip check={check}>
+      <span className="inline-flex">{statusStyles[check.status].icon}</span>
+    </FactCheckTooltip>
+  );
+}
+
+export function FactCheckSummary({
+  checks = [],
+  onRecheck,
+  rechecking,
+}: {
+  checks?: FactCheck[];
+  onRecheck: () => void;
+  rechecking?: boolean;
+}) {
+  const counts = (["verified", "unverifiable", "contradicted"] as const)
+    .map((status) => ({
+      status,
+      count: checks.filter((check) => check.status === status).length,
+    }))
+    .filter(({ count }) => count > 0);
+
+  return (
+    <span className="flex items-center gap-2">
+      {counts.length === 0 ? (
+        <span>No numbers checked</span>
+      ) : (
+        counts.map(({ status, count }) => (
+          <Badge key={status} variant="outline" className="gap-1">
+            {statusStyles[status].icon}
+            {count} {statusStyles[status].label.toLowerCase()}
+          </Badge>
+        ))
+      )}
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 px-2"
+        onClick={onRecheck}
+        disabled={rechecking}
+        title="Re-check numbers against the dataset"
+      >
+        <RefreshCw className={`h-3 w-3 ${rechecking ? "animate-spin" : ""}`} />
+      </Button>
+    </span>
+  );
+}
@@ -0,0 +1,69 @@
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import type { GenerationStage } from "@/types/api";
+import { Check, Loader2 } from "lucide-react";
+
+interface GenerationProgressProps {
+  stage: GenerationStage | null;
+  detail?: string;
+  partialText: string;
+  onCancel: () => void;
+}
+
+// Stages in pipeline order; token, repair and agent tool events belong to "prompting"
+const stages: Array<{ key: GenerationStage; label: string }> = [
+  { key: "loading", label: "Loading dataset" },
+  { key: "profiling", label: "Profiling columns" },
+  { key: "prompting", label: "Asking the model" },
+  { key: "validating", label: "Validating output" },
+  { key: "verifying", label: "Checking numbers against the data" },
+  { key: "saving", label: "Saving insight" },
+];
+
+const stageIndex = (stage: GenerationStage | null) => {
+  if (!stage) return -1;
+  if (stage === "querying") return 0;
+  if (stage === "token" || stage === "repairing" || stage === "tool") return 2;
+  return stages.findIndex((s) => s.key === stage);
+};
+
+export function GenerationProgress({
+  stage,
+  detail,
+  partialText,
+  onCancel,
+}: GenerationProgressProps) {
+  const current = stageIndex(stage);
+
+  return (
+    <div className="space-y-4">
+      <Progress value={((current + 1) / (stages.length + 1)) * 100} />
+      <ul className="space-y-1 text-sm">
+        {stages.map((s, i) => (
+          <li
+            key={s.key}
+            className={`flex items-center gap-2 ${i > current ? "text-muted-foreground" : ""}`}
+          >
+            {i < current ? (
+              <Check className="h-4 w-4 text-green-600" />
+            ) : i === current ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <span className="h-4 w-4" />
+            )}
+            {s.label}
+          </li>
+        ))}
+      </ul>
+      {detail && <p className="text-xs text-muted-foreground">{detail}</p>}
+      {partialText && (
+        <pre className="max-h-40 overflow-y-auto whitespace-pre-wrap rounded-md bg-muted p-3 text-xs">
+          {partialText.slice(-2000)}
+        </pre>
+      )}
+      <Button variant="outline" className="w-full" onClick={onCancel}>
+        Cancel
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import type { InsightJob } from "@/types/api";
+import { Check, Circle, Loader2, RotateCcw, X } from "lucide-react";
+
+interface InsightJobProgressProps {
+  job: InsightJob;
+  onRetry: () => void;
+  retrying?: boolean;
+}
+
+const statusIcon = {
+  pending: <Circle className="h-3 w-3 text-muted-foreground" />,
+  running: <Loader2 className="h-3 w-3 animate-spin" />,
+  completed: <Check className="h-3 w-3 text-green-600" />,
+  failed: <X className="h-3 w-3 text-destructive" />,
+};
+
+export function InsightJobProgress({
+  job,
+  onRetry,
+  retrying,
+}: InsightJobProgressProps) {
+  const done = job.items.filter(
+    (item) => item.status === "completed" || item.status === "failed"
+  ).length;
+  const failed = job.items.filter((item) => item.status === "failed").length;
+  const active = job.status === "queued" || job.status === "running";
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-muted-foreground">
+          {active
+            ? `Generating insight pack (${done}/${job.items.length})`
+            : failed > 0
+              ? `Insight pack: ${failed} of ${job.items.length} failed`
+              : "Insight pack ready"}
+        </span>
+        {!active && failed > 0 && (
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-6 gap-1 px-2"
+            onClick={onRetry}
+            disabled={retrying}
+          >
+            <RotateCcw className="h-3 w-3" />
+            Retry
+          </Button>
+        )}
+      </div>
+      <Progress value={(done / job.items.length) * 100} className="h-1" />
+      <div className="flex flex-wrap gap-2 text-xs">
+        {job.items.map((item) => {
+          const label = (
+            <span className="flex items-center gap-1 capitalize">
+              {statusIcon[item.status]}
+              {item.insightType}
+            </span>
+          );
+          if (item.status === "completed" && item.insightId) {
+            return (
+              <Link key={item._id} to={`/insights/${item.insightId}`}>
+                {label}
+              </Link>
+            );
+          }
+          if (item.status === "failed") {
+            return (
+              <Tooltip key={item._id}>
+                <TooltipTrigger asChild>{label}</TooltipTrigger>
+                <TooltipContent>{item.error}</TooltipContent>
+              </Tooltip>
+            );
+          }
+          return <span key={item._id}>{label}</span>;
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+import { Badge } from "@/components/ui/badge";
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "@/components/ui/accordion";
+import type {
+  InsightProvenance as InsightProvenanceData,
+  InsightRevision,
+} from "@/types/api";
+
+function Field({ label, value }: { label: string; value?: string | number }) {
+  if (value === undefined || value === "") return null;
+  return (
+    <div className="flex justify-between gap-4 text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="text-right font-mono break-all">{value}</span>
+    </div>
+  );
+}
+
+/**
+ * "How was this generated?" details: parameters, dataset version, exact
+ * prompt and raw model response
+ */
+export function InsightProvenance({
+  provenance,
+}: {
+  provenance: InsightProvenanceData;
+}) {
+  const { parameters, dataset } = provenance;
+  const template = parameters.promptTemplate;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-x-8 gap-y-1 md:grid-cols-2">
+        <Field
+          label="Generated"
+          value={new Date(provenance.generatedAt).toLocaleString()}
+        />
+        <Field
+          label="Duration"
+          value={`${(provenance.durationMs / 1000).toFixed(1)} s`}
+        />
+        <Field label="Provider" value={parameters.provider} />
+        <Field label="Model" value={parameters.model} />
+        <Field label="Mode" value={parameters.mode} />
+        <Field label="Temperature" value={parameters.temperature} />
+        <Field label="Max tokens" value={parameters.maxTokens} />
+        <Field label="Attempts" value={provenance.attempts} />
+        <Field
+          label="Prompt template"
+          value={
+            template &&
+            (template.version === 0
+              ? "built-in"
+              : `${template.insightType} v${template.version}`)
+          }
+        />
+        <Field label="Insight type" value={parameters.insightType} />
+        <Field label="Query" value={parameters.query} />
+        <Field
+          label="Dataset version"
+          value={dataset.contentHash?.slice(0, 12)}
+        />
+        <Field
+          label="Dataset size"
+          value={`${dataset.rowCount.toLocaleString("en-US")} rows · ${dataset.columnCount} columns`}
+        />
+        <Field
+          label="Baseline dataset"
+          value={
+            provenance.baselineDataset &&
+            `${provenance.baselineDataset.contentHash?.slice(0, 12) ?? "unknown"} · ${provenance.baselineDataset.rowCount.toLocaleString("en-US")} rows`
+          }
+        />
+        <Field
+          label="Dataset modified"
+          value={
+            dataset.lastModified &&
+            new Date(dataset.lastModified).toLocaleString()
+          }
+        />
+      </div>
+
+      {provenance.messages.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Computed by the statistical engine from the dataset rows; no prompt
+          was sent.
+        </p>
+      ) : (
+        <Accordion type="multiple" className="w-full">
+          {provenance.messages.map((message, index) => (
+            <AccordionItem key={index} value={`message-${index}`}>
+              <AccordionTrigger className="hover:no-underline">
+                <span className="flex items-center gap-2">
+                  <Badge variant="outline" className="capitalize">
+                    {message.role}
+                  </Badge>
+                  <span className="text-sm text-muted-foreground">
+                    {message.content.length.toLocaleString("en-US")} characters
+                  </span>
+                </span>
+              </AccordionTrigger>
+              <AccordionContent>
+                <pre className="max-h-96 overflow-auto whitespace-pre-wrap rounded-md bg-muted p-3 text-xs">
+                  {message.content}
+                </pre>
+              </AccordionContent>
+            </AccordionItem>
+          ))}
+          {provenance.rawResponse && (
+            <AccordionItem value="response">
+              <AccordionTrigger className="hover:no-underline">
+                <span className="flex items-center gap-2">
+                  <Badge>response</Badge>
+                  <span className="text-sm text-muted-foreground">
+                    Raw model output
+                  </span>
+                </span>
+              </AccordionTrigger>
+              <AccordionContent>
+                <pre className="max-h-96 overflow-auto whitespace-pre-wrap rounded-md bg-muted p-3 text-xs">
+                  {provenance.rawResponse}
+                </pre>
+              </AccordionContent>
+            </AccordionItem>
+          )}
+        </Accordion>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Earlier results of a regenerated insight, newest first
+ */
+export function InsightHistory({ history }: { history: InsightRevision[] }) {
+  return (
+    <Accordion type="single" collapsible className="w-full">
+      {[...history].reverse().map((revision, index) => (
+        <AccordionItem key={revision.replacedAt} value={`revision-${index}`}>
+          <AccordionTrigger className="hover:no-underline">
+            <span className="flex flex-wrap items-center gap-2 text-left">
+              <span className="font-medium">{revision.title}</span>
+              <Badge variant="outline">
+                {Math.round(revision.confidence || 0)}%
+              </Badge>
+              <span className="text-sm text-muted-foreground">
+                replaced {new Date(revision.replacedAt).toLocaleString()}
+                {revision.aiModel && ` · ${revision.aiModel}`}
+              </span>
+            </span>
+          </AccordionTrigger>
+          <AccordionContent className="space-y-3">
+            <p className="text-sm">{revision.description}</p>
+            {revision.metrics.length > 0 && (
+              <ul className="grid gap-1 text-sm md:grid-cols-2">
+                {revision.metrics.map((metric, i) => (
+                  <li key={i} className="flex justify-between gap-4">
+                    <span className="text-muted-foreground">{metric.name}</span>
+                    <span>
+                      {metric.value}
+                      {metric.unit && ` ${metric.unit}`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {revision.recommendations.length > 0 && (
+              <ul className="list-disc pl-5 text-sm">
+                {revision.recommendations.map((rec, i) => (
+                  <li key={i}>{rec}</li>
+                ))}
+              </ul>
+            )}
+          </AccordionContent>
+        </AccordionItem>
+      ))}
+    </Accordion>
+  );
+}
@@ -16,6 +16,7 @@ import {
   LogOut,
   User,
   Menu,
+  FileText,
 } from "lucide-react";
 import { useEffect, useState } from "react";
 import { useDispatch, useSelector } from "react-redux";
@@ -50,6 +51,9 @@ export const Layout: React.FC<{ children: React.ReactNode }> = ({
     { path: "/dashboard", label: "Dashboard", icon: BarChart3 },
     { path: "/datasets", label: "Datasets", icon: Database },
     { path: "/insights", label: "Insights", icon: Lightbulb },
+    ...(user?.role === "admin"
+      ? [{ path: "/admin/prompts", label: "Prompts", icon: FileText }]
+      : []),
   ];
 
   const isActive = (path: string) => location.pathname === path;
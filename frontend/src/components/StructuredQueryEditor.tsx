@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ApiRequestError, insightApi } from "@/lib/api";
+import type { AIPreferences, StructuredQuery } from "@/types/api";
+import { Loader2, Play, Wand2 } from "lucide-react";
+
+interface StructuredQueryEditorProps {
+  datasetId: string;
+  question: string;
+  value: string;
+  onChange: (value: string) => void;
+  options?: AIPreferences;
+}
+
+export function StructuredQueryEditor({
+  datasetId,
+  question,
+  value,
+  onChange,
+  options,
+}: StructuredQueryEditorProps) {
+  const [errors, setErrors] = useState<string[]>([]);
+  const [description, setDescription] = useState("");
+
+  const reportError = (error: Error) => {
+    const details = error instanceof ApiRequestError ? error.details : undefined;
+    setErrors(details?.length ? details : [error.message]);
+  };
+
+  const translateMutation = useMutation({
+    mutationFn: () => insightApi.translateQuery(datasetId, question, options),
+    onSuccess: (response) => {
+      onChange(JSON.stringify(response.data!.structuredQuery, null, 2));
+      setDescription(
+        `${response.data!.description} (translated by ${response.data!.translatedBy})`
+      );
+      setErrors([]);
+      runMutation.reset();
+    },
+    onError: reportError,
+  });
+
+  const runMutation = useMutation({
+    mutationFn: (query: StructuredQuery) =>
+      insightApi.runQuery(datasetId, query),
+    onSuccess: (response) => {
+      setDescription(response.data!.description);
+      setErrors([]);
+    },
+    onError: reportError,
+  });
+
+  const handleRun = () => {
+    try {
+      runMutation.mutate(JSON.parse(value) as StructuredQuery);
+    } catch (error) {
+      setErrors([`Query is not valid JSON: ${(error as Error).message}`]);
+    }
+  };
+
+  const result = runMutation.data?.data?.result;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="structured-query">Structured Query</Label>
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => translateMutation.mutate()}
+            disabled={!datasetId || !question.trim() || translateMutation.isPending}
+          >
+            {translateMutation.isPending ? (
+              <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+            ) : (
+              <Wand2 className="h-3 w-3 mr-1" />
+            )}
+            Translate
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={handleRun}
+            disabled={!datasetId || !value.trim() || runMutation.isPending}
+          >
+            <Play className="h-3 w-3 mr-1" />
+            Run
+          </Button>
+        </div>
+      </div>
+      <textarea
+        id="structured-query"
+        className="flex min-h-[140px] w-full rounded-md border border-input bg-background px-3 py-2 font-mono text-xs ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="Translate the query above, then edit filters, groupBy, measures, sort and limit"
+        spellCheck={false}
+      />
+      {description && (
+        <p className="text-xs text-muted-foreground">{description}</p>
+      )}
+      {errors.length > 0 && (
+        <ul className="text-xs text-destructive list-disc pl-4">
+          {errors.map((error, i) => (
+            <li key={i}>{error}</li>
+          ))}
+        </ul>
+      )}
+      {result && (
+        <div className="max-h-48 overflow-auto rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {result.columns.map((column) => (
+                  <TableHead key={column}>{column}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {result.rows.map((row, i) => (
+                <TableRow key={i}>
+                  {result.columns.map((column) => (
+                    <TableCell key={column}>
+                      {String(row[column] ?? "")}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <p className="text-xs text-muted-foreground p-2">
+            {result.matchedRows} matching rows · {result.totalGroups} groups
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import { useQuery } from "@tanstack/react-query";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { authApi } from "@/lib/api";
+import { Loader2 } from "lucide-react";
+
+const formatTokens = (value: number) => value.toLocaleString("en-US");
+const formatCost = (value: number) =>
+  `$${value < 0.01 && value > 0 ? value.toFixed(4) : value.toFixed(2)}`;
+
+function QuotaBar({
+  label,
+  used,
+  limit,
+  format,
+}: {
+  label: string;
+  used: number;
+  limit: number | null;
+  format: (value: number) => string;
+}) {
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-sm">
+        <span>{label}</span>
+        <span className="text-muted-foreground">
+          {format(used)} / {limit === null ? "unlimited" : format(limit)}
+        </span>
+      </div>
+      <Progress
+        value={limit === null ? 0 : limit === 0 ? 100 : Math.min((used / limit) * 100, 100)}
+      />
+    </div>
+  );
+}
+
+export function UsageOverview() {
+  const { data: response, isLoading } = useQuery({
+    queryKey: ["ai-usage"],
+    queryFn: () => authApi.getUsage(6),
+  });
+  const summary = response?.data;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>AI Usage</CardTitle>
+        <CardDescription>
+          {summary
+            ? `Tokens and estimated cost this month. Quota resets on ${new Date(
+                summary.period.resetsAt
+              ).toLocaleDateString()}.`
+            : "Tokens and estimated cost of AI requests"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !summary ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-3">
+              <QuotaBar
+                label="Tokens"
+                used={summary.usage.totalTokens}
+                limit={summary.quota.monthlyTokens}
+                format={formatTokens}
+              />
+              <QuotaBar
+                label="Estimated cost"
+                used={summary.usage.cost}
+                limit={summary.quota.monthlyCost}
+                format={formatCost}
+              />
+              <p className="text-xs text-muted-foreground">
+                {summary.usage.requests} requests this month ·{" "}
+                {summary.quota.source === "user"
+                  ? "custom quota set by an administrator"
+                  : "default quota for your role"}
+              </p>
+              {summary.exceeded && (
+                <p className="text-sm text-destructive">
+                  Your monthly quota is used up. AI requests are blocked until
+                  it resets.
+                </p>
+              )}
+            </div>
+
+            <Tabs defaultValue="daily">
+              <TabsList>
+                <TabsTrigger value="daily">This month</TabsTrigger>
+                <TabsTrigger value="monthly">Last 6 months</TabsTrigger>
+              </TabsList>
+              <TabsContent value="daily">
+                <ResponsiveContainer width="100%" height={220}>
+                  <BarChart data={summary.daily}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                    <XAxis
+                      dataKey="date"
+                      stroke="hsl(var(--muted-foreground))"
+                      tickFormatter={(date: string) => date.slice(8)}
+                    />
+                    <YAxis stroke="hsl(var(--muted-foreground))" />
+                    <Tooltip />
+                    <Bar dataKey="totalTokens" name="Tokens" fill="#8884d8" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </TabsContent>
+              <TabsContent value="monthly">
+                <ResponsiveContainer width="100%" height={220}>
+                  <BarChart data={summary.monthly}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                    <XAxis dataKey="month" stroke="hsl(var(--muted-foreground))" />
+                    <YAxis stroke="hsl(var(--muted-foreground))" />
+                    <Tooltip />
+                    <Bar dataKey="totalTokens" name="Tokens" fill="#8884d8" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </TabsContent>
+            </Tabs>
+
+            {summary.byModel.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Model</TableHead>
+                    <TableHead className="text-right">Requests</TableHead>
+                    <TableHead className="text-right">Tokens</TableHead>
+                    <TableHead className="text-right">Cost</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {summary.byModel.map((row) => (
+                    <TableRow key={`${row.provider}:${row.model}`}>
+                      <TableCell>
+                        {row.provider} · {row.model}
+                      </TableCell>
+                      <TableCell className="text-right">{row.requests}</TableCell>
+                      <TableCell className="text-right">
+                        {formatTokens(row.totalTokens)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatCost(row.cost)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
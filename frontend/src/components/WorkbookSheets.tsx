@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { uploadApi } from "@/lib/api";
+import type { Dataset, DatasetSheet, SheetMode } from "@/types/api";
+import { Layers } from "lucide-react";
+import { toast } from "sonner";
+
+interface WorkbookSheetsProps {
+  dataset: Dataset;
+  sheets: DatasetSheet[];
+}
+
+const sameColumns = (a: DatasetSheet, b: DatasetSheet) =>
+  a.columns.length === b.columns.length &&
+  b.columns.every((column) => a.columns.includes(column));
+
+const successMessages: Record<SheetMode, string> = {
+  single: "Reading the selected sheet",
+  stack: "Stacking the selected sheets",
+  split: "Creating a dataset for each selected sheet",
+};
+
+// Sheets of an Excel workbook and which ones the dataset reads
+export function WorkbookSheets({ dataset, sheets }: WorkbookSheetsProps) {
+  const queryClient = useQueryClient();
+  const current = dataset.sheetSelection?.sheets ?? [];
+  const [selected, setSelected] = useState<string[]>(current);
+
+  const processMutation = useMutation({
+    mutationFn: (mode: SheetMode) =>
+      uploadApi.process(dataset._id, { sheets: { mode, sheets: selected } }),
+    onSuccess: (_, mode) => {
+      toast.success(successMessages[mode]);
+      queryClient.invalidateQueries({ queryKey: ["dataset", dataset._id] });
+      queryClient.invalidateQueries({ queryKey: ["dataset-preview", dataset._id] });
+      queryClient.invalidateQueries({ queryKey: ["datasets"] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to change sheets");
+    },
+  });
+
+  const toggle = (name: string, checked: boolean) =>
+    setSelected((names) =>
+      checked ? [...names, name] : names.filter((n) => n !== name)
+    );
+
+  const chosen = sheets.filter((sheet) => selected.includes(sheet.name));
+  const stackable =
+    chosen.length > 1 && chosen.every((sheet) => sameColumns(chosen[0], sheet));
+  const busy =
+    processMutation.isPending || dataset.metadata.processingStatus === "processing";
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Layers className="h-4 w-4" />
+          {sheets.length} sheets in this workbook
+        </CardTitle>
+        <CardDescription>
+          {dataset.sheetSelection?.mode === "stack"
+            ? "Rows of the selected sheets are stacked, with a _sheet column naming their sheet."
+            : "The dataset reads one sheet. Stack sheets with the same columns, or split the workbook into datasets."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <ul className="space-y-1 text-sm">
+          {sheets.map((sheet) => (
+            <li key={sheet.name}>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(sheet.name)}
+                  onChange={(e) => toggle(sheet.name, e.target.checked)}
+                  disabled={busy}
+                />
+                <span className="font-medium">{sheet.name}</span>
+                <span className="text-muted-foreground">
+                  {sheet.rowCount.toLocaleString()} rows, {sheet.columns.length} columns
+                </span>
+                {current.includes(sheet.name) && <Badge variant="secondary">In use</Badge>}
+              </label>
+            </li>
+          ))}
+        </ul>
+        <div className="flex flex-wrap gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => processMutation.mutate("single")}
+            disabled={busy || chosen.length !== 1}
+          >
+            Use selected sheet
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => processMutation.mutate("stack")}
+            disabled={busy || !stackable}
+          >
+            Stack selected
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => processMutation.mutate("split")}
+            disabled={busy || chosen.length < 2}
+          >
+            Split into datasets
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
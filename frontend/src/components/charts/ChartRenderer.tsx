@@ -2,6 +2,8 @@ import { LineChartViz } from "./LineChartViz";
 import { BarChartViz } from "./BarChartViz";
 import { PieChartViz } from "./PieChartViz";
 import { AreaChartViz } from "./AreaChartViz";
+import { ScatterChartViz } from "./ScatterChartViz";
+import { TableViz } from "./TableViz";
 
 interface ChartRendererProps {
   type: string;
@@ -55,6 +57,10 @@ export function ChartRenderer({ type, data, config }: ChartRendererProps) {
       return <PieChartViz data={chartData} config={config} />;
     case "area":
       return <AreaChartViz data={chartData} config={config} />;
+    case "scatter":
+      return <ScatterChartViz data={chartData} config={config} />;
+    case "table":
+      return <TableViz data={chartData} config={config} />;
     default:
       return (
         <div className="flex items-center justify-center h-64 bg-muted/50 rounded-lg">
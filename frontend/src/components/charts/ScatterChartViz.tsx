@@ -0,0 +1,73 @@
+import {
+  ScatterChart,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+interface ScatterChartVizProps {
+  data: Record<string, unknown>[];
+  config?: {
+    title?: string;
+    description?: string;
+    xKey?: string;
+    yKey?: string;
+    xLabel?: string;
+    yLabel?: string;
+  };
+}
+
+export function ScatterChartViz({ data, config }: ScatterChartVizProps) {
+  const title = config?.title || "Scatter Chart";
+  const xKey = config?.xKey || "x";
+  const yKey = config?.yKey || "y";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+        {config?.description && (
+          <CardDescription>{config.description}</CardDescription>
+        )}
+      </CardHeader>
+      <CardContent>
+        <ResponsiveContainer width="100%" height={300}>
+          <ScatterChart>
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+            <XAxis
+              type="number"
+              dataKey={xKey}
+              name={config?.xLabel || xKey}
+              stroke="hsl(var(--muted-foreground))"
+            />
+            <YAxis
+              type="number"
+              dataKey={yKey}
+              name={config?.yLabel || yKey}
+              stroke="hsl(var(--muted-foreground))"
+            />
+            <Tooltip
+              cursor={{ strokeDasharray: "3 3" }}
+              contentStyle={{
+                backgroundColor: "hsl(var(--card))",
+                border: "1px solid hsl(var(--border))",
+                borderRadius: "var(--radius)",
+              }}
+            />
+            <Scatter data={data} fill="#8884d8" />
+          </ScatterChart>
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,62 @@
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+interface TableVizProps {
+  data: Record<string, unknown>[];
+  config?: {
+    title?: string;
+    description?: string;
+    columns?: string[];
+  };
+}
+
+export function TableViz({ data, config }: TableVizProps) {
+  const title = config?.title || "Table";
+  const keys = Object.keys(data[0] || {});
+  // Column headings are display labels for the row keys, in order
+  const headings = config?.columns?.length === keys.length ? config.columns : keys;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+        {config?.description && (
+          <CardDescription>{config.description}</CardDescription>
+        )}
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {headings.map((heading) => (
+                <TableHead key={heading}>{heading}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data.map((row, index) => (
+              <TableRow key={index}>
+                {keys.map((key) => (
+                  <TableCell key={key}>{String(row[key] ?? "")}</TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,4 +1,25 @@
-import { AuthResponse, User, Dataset, Insight, ApiResponse } from "@/types/api";
+import {
+  AuthResponse,
+  User,
+  Dataset,
+  Insight,
+  ApiResponse,
+  AIPreferences,
+  AIProviderInfo,
+  Conversation,
+  StructuredQuery,
+  QueryResult,
+  GenerationEvent,
+  GenerateOptions,
+  InsightJob,
+  PromptTemplate,
+  UsageSummary,
+  ColumnPolicy,
+  UploadSession,
+  SheetMode,
+  CSVDialect,
+  ColumnSchemaUpdate,
+} from "@/types/api";
 
 const API_BASE_URL = "http://localhost:4000/api";
 
@@ -11,6 +32,16 @@ export const setToken = (token: string) => localStorage.setItem("token", token);
 // Remove token from localStorage
 export const removeToken = () => localStorage.removeItem("token");
 
+// Request error with the server's validation details, when it sends any
+export class ApiRequestError extends Error {
+  details?: string[];
+
+  constructor(message: string, details?: string[]) {
+    super(message);
+    this.details = details;
+  }
+}
+
 // Generic fetch wrapper
 async function fetchApi<T>(
   endpoint: string,
@@ -27,7 +58,9 @@ async function fetchApi<T>(
   }
 
   // Add content-type for JSON if body exists and not FormData
-  if (options.body && !(options.body instanceof FormData)) {
+  if (options.body instanceof Blob) {
+    headers["Content-Type"] = "application/octet-stream";
+  } else if (options.body && !(options.body instanceof FormData)) {
     headers["Content-Type"] = "application/json";
   }
 
@@ -40,7 +73,7 @@ async function fetchApi<T>(
     const data = await response.json();
 
     if (!response.ok) {
-      throw new Error(data.error || "Request failed");
+      throw new ApiRequestError(data.error || "Request failed", data.details);
     }
 
     return data;
@@ -51,6 +84,60 @@ async function fetchApi<T>(
 }
 
 // Auth API
+// Server-Sent Events over a POST request (EventSource cannot send a body or auth header)
+async function streamApi<T>(
+  endpoint: string,
+  body: unknown,
+  onEvent: (event: GenerationEvent) => void,
+  signal?: AbortSignal
+): Promise<T> {
+  const token = getToken();
+  const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => ({}));
+    throw new ApiRequestError(data.error || "Request failed", data.details);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary >= 0) {
+      const message = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+
+      const event = /^event: (.*)$/m.exec(message)?.[1] || "message";
+      const data = JSON.parse(
+        message
+          .split("\n")
+          .filter((line) => line.startsWith("data: "))
+          .map((line) => line.slice(6))
+          .join("\n")
+      );
+
+      if (event === "done") return data as T;
+      if (event === "error") throw new ApiRequestError(data.error, data.details);
+      onEvent({ event, data } as GenerationEvent);
+    }
+  }
+
+  throw new Error("Connection closed before generation finished");
+}
+
 export const authApi = {
   register: (name: string, email: string, password: string) =>
     fetchApi<AuthResponse["data"]>("/user/register", {
@@ -71,7 +158,7 @@ export const authApi = {
     }),
 
   updateProfile: (data: Partial<User>) =>
-    fetchApi<User>("/users/profile", {
+    fetchApi<User>("/user/profile", {
       method: "PUT",
       body: JSON.stringify(data),
     }),
@@ -86,6 +173,9 @@ export const authApi = {
     fetchApi<void>("/users/account", {
       method: "DELETE",
     }),
+
+  getUsage: (months?: number) =>
+    fetchApi<UsageSummary>(`/user/usage${months ? `?months=${months}` : ""}`),
 };
 
 // Dataset API
@@ -116,6 +206,19 @@ export const datasetApi = {
       body: JSON.stringify(data),
     }),
 
+  updatePrivacy: (id: string, policies: Record<string, ColumnPolicy>) =>
+    fetchApi<Dataset>(`/datasets/${id}/privacy`, {
+      method: "PUT",
+      body: JSON.stringify({ policies }),
+    }),
+
+  // Column name to changed schema fields
+  updateSchema: (id: string, columns: Record<string, ColumnSchemaUpdate>) =>
+    fetchApi<Dataset>(`/datasets/${id}/schema`, {
+      method: "PUT",
+      body: JSON.stringify({ columns }),
+    }),
+
   delete: (id: string) =>
     fetchApi<void>(`/datasets/${id}`, {
       method: "DELETE",
@@ -125,10 +228,11 @@ export const datasetApi = {
 
   getPreview: (id: string) => fetchApi<any>(`/datasets/${id}/preview`),
 
-  download: (id: string) => {
+  // format "csv" converts non-CSV files on the server
+  download: (id: string, format?: "csv") => {
     const token = getToken();
     window.open(
-      `${API_BASE_URL}/datasets/${id}/download?token=${token}`,
+      `${API_BASE_URL}/datasets/${id}/download?token=${token}${format ? `&format=${format}` : ""}`,
       "_blank"
     );
   },
@@ -139,6 +243,46 @@ export const datasetApi = {
     }),
 };
 
+// Dataset chat API
+export const chatApi = {
+  getAll: (datasetId: string) =>
+    fetchApi<Conversation[]>(`/datasets/${datasetId}/chat`),
+
+  getById: (datasetId: string, conversationId: string) =>
+    fetchApi<Conversation>(`/datasets/${datasetId}/chat/${conversationId}`),
+
+  create: (datasetId: string, title?: string) =>
+    fetchApi<Conversation>(`/datasets/${datasetId}/chat`, {
+      method: "POST",
+      body: JSON.stringify({ title }),
+    }),
+
+  delete: (datasetId: string, conversationId: string) =>
+    fetchApi<void>(`/datasets/${datasetId}/chat/${conversationId}`, {
+      method: "DELETE",
+    }),
+
+  sendMessage: (
+    datasetId: string,
+    conversationId: string,
+    content: string,
+    options?: AIPreferences
+  ) =>
+    fetchApi<Conversation>(
+      `/datasets/${datasetId}/chat/${conversationId}/messages`,
+      {
+        method: "POST",
+        body: JSON.stringify({ content, ...options }),
+      }
+    ),
+
+  saveAsInsight: (datasetId: string, conversationId: string, messageId: string) =>
+    fetchApi<Insight>(
+      `/datasets/${datasetId}/chat/${conversationId}/messages/${messageId}/insight`,
+      { method: "POST" }
+    ),
+};
+
 // Insight API
 export const insightApi = {
   getAll: (params?: {
@@ -168,12 +312,75 @@ export const insightApi = {
       body: JSON.stringify(data),
     }),
 
-  generate: (datasetId: string, query?: string, type?: string) =>
+  generate: (
+    datasetId: string,
+    query?: string,
+    type?: string,
+    options?: GenerateOptions
+  ) =>
     fetchApi<Insight>("/insights/generate", {
       method: "POST",
-      body: JSON.stringify({ datasetId, query, type }),
+      body: JSON.stringify({ datasetId, query, type, ...options }),
+    }),
+
+  generateStream: (
+    datasetId: string,
+    query: string | undefined,
+    type: string | undefined,
+    options: GenerateOptions | undefined,
+    onEvent: (event: GenerationEvent) => void,
+    signal?: AbortSignal
+  ) =>
+    streamApi<Insight>(
+      "/insights/generate/stream",
+      { datasetId, query, type, ...options },
+      onEvent,
+      signal
+    ),
+
+  translateQuery: (datasetId: string, query: string, options?: AIPreferences) =>
+    fetchApi<{
+      structuredQuery: StructuredQuery;
+      description: string;
+      translatedBy: string;
+    }>("/insights/query/translate", {
+      method: "POST",
+      body: JSON.stringify({ datasetId, query, ...options }),
+    }),
+
+  runQuery: (datasetId: string, structuredQuery: StructuredQuery) =>
+    fetchApi<{
+      structuredQuery: StructuredQuery;
+      description: string;
+      result: QueryResult;
+    }>("/insights/query/run", {
+      method: "POST",
+      body: JSON.stringify({ datasetId, structuredQuery }),
+    }),
+
+  createJob: (datasetId: string, options?: AIPreferences) =>
+    fetchApi<InsightJob>("/insights/jobs", {
+      method: "POST",
+      body: JSON.stringify({ datasetId, ...options }),
     }),
 
+  getJobs: (datasetId?: string) =>
+    fetchApi<InsightJob[]>(
+      `/insights/jobs${datasetId ? `?datasetId=${datasetId}` : ""}`
+    ),
+
+  getJob: (jobId: string) => fetchApi<InsightJob>(`/insights/jobs/${jobId}`),
+
+  retryJob: (jobId: string) =>
+    fetchApi<InsightJob>(`/insights/jobs/${jobId}/retry`, {
+      method: "POST",
+    }),
+
+  getProviders: () =>
+    fetchApi<{ providers: AIProviderInfo[]; preference: AIPreferences }>(
+      "/insights/providers"
+    ),
+
   update: (id: string, data: Partial<Insight>) =>
     fetchApi<Insight>(`/insights/${id}`, {
       method: "PUT",
@@ -190,12 +397,64 @@ export const insightApi = {
       method: "POST",
     }),
 
+  refreshVisualizations: (id: string) =>
+    fetchApi<Insight>(`/insights/${id}/visualizations/refresh`, {
+      method: "POST",
+    }),
+
+  factCheck: (id: string) =>
+    fetchApi<Insight>(`/insights/${id}/fact-check`, {
+      method: "POST",
+    }),
+
+  compare: (
+    datasetId: string,
+    baselineDatasetId: string,
+    options?: AIPreferences
+  ) =>
+    fetchApi<Insight>("/insights/compare", {
+      method: "POST",
+      body: JSON.stringify({ datasetId, baselineDatasetId, ...options }),
+    }),
+
+  // Same provider, model, prompt and query against the current data
+  regenerate: (id: string) =>
+    fetchApi<Insight>(`/insights/${id}/regenerate`, {
+      method: "POST",
+    }),
+
   getByDataset: (datasetId: string) =>
     fetchApi<Insight[]>(`/insights/dataset/${datasetId}`),
 
   getStats: () => fetchApi<any>("/insights/stats"),
 };
 
+// Prompt template API (admin only)
+export const promptTemplateApi = {
+  getAll: () =>
+    fetchApi<{ templates: PromptTemplate[]; variables: Record<string, string> }>(
+      "/prompt-templates"
+    ),
+
+  getVersions: (insightType: string) =>
+    fetchApi<PromptTemplate[]>(`/prompt-templates/${insightType}`),
+
+  create: (
+    insightType: string,
+    data: Pick<PromptTemplate, "systemPrompt" | "userPrompt" | "notes">
+  ) =>
+    fetchApi<PromptTemplate>(`/prompt-templates/${insightType}`, {
+      method: "POST",
+      body: JSON.stringify(data),
+    }),
+
+  activate: (insightType: string, version: number) =>
+    fetchApi<PromptTemplate>(
+      `/prompt-templates/${insightType}/versions/${version}/activate`,
+      { method: "POST" }
+    ),
+};
+
 // Upload API
 export const uploadApi = {
   upload: (
@@ -226,11 +485,52 @@ export const uploadApi = {
     });
   },
 
-  process: (datasetId: string) =>
+  process: (
+    datasetId: string,
+    options?: {
+      sheets?: { mode: SheetMode; sheets?: string[] };
+      csv?: Partial<CSVDialect>;
+    }
+  ) =>
     fetchApi<any>(`/upload/${datasetId}/process`, {
       method: "POST",
+      body: options ? JSON.stringify(options) : undefined,
     }),
 
   getStatus: (datasetId: string) =>
     fetchApi<any>(`/upload/${datasetId}/status`),
+
+  // Resumable chunked uploads
+  createSession: (data: {
+    fileName: string;
+    fileSize: number;
+    lastModified?: number;
+    name?: string;
+    description?: string;
+    tags?: string[];
+    sheetMode?: SheetMode;
+  }) =>
+    fetchApi<UploadSession>("/upload/sessions", {
+      method: "POST",
+      body: JSON.stringify(data),
+    }),
+
+  getSession: (sessionId: string) =>
+    fetchApi<UploadSession>(`/upload/sessions/${sessionId}`),
+
+  uploadPart: (sessionId: string, index: number, part: Blob) =>
+    fetchApi<UploadSession>(`/upload/sessions/${sessionId}/parts/${index}`, {
+      method: "PUT",
+      body: part,
+    }),
+
+  completeSession: (sessionId: string) =>
+    fetchApi<Dataset>(`/upload/sessions/${sessionId}/complete`, {
+      method: "POST",
+    }),
+
+  cancelSession: (sessionId: string) =>
+    fetchApi<void>(`/upload/sessions/${sessionId}`, {
+      method: "DELETE",
+    }),
 };
@@ -0,0 +1,131 @@
+import { uploadApi } from "@/lib/api";
+import type { Dataset, SheetMode, UploadSession } from "@/types/api";
+
+// Unfinished upload remembered across page reloads
+export interface PendingUpload {
+  sessionId: string;
+  fileName: string;
+  fileSize: number;
+  lastModified: number;
+  progress: number;
+}
+
+export interface UploadDetails {
+  name?: string;
+  description?: string;
+  sheetMode?: SheetMode;
+}
+
+const PENDING_UPLOAD_KEY = "pendingUpload";
+const MAX_PART_ATTEMPTS = 3;
+
+export const getPendingUpload = (): PendingUpload | null => {
+  try {
+    const stored = localStorage.getItem(PENDING_UPLOAD_KEY);
+    return stored ? (JSON.parse(stored) as PendingUpload) : null;
+  } catch {
+    return null;
+  }
+};
+
+const savePendingUpload = (pending: PendingUpload) =>
+  localStorage.setItem(PENDING_UPLOAD_KEY, JSON.stringify(pending));
+
+export const clearPendingUpload = () =>
+  localStorage.removeItem(PENDING_UPLOAD_KEY);
+
+// The browser cannot reopen a file after a reload, so the user picks it again
+export const isSameFile = (file: File, pending: PendingUpload) =>
+  file.name === pending.fileName &&
+  file.size === pending.fileSize &&
+  file.lastModified === pending.lastModified;
+
+const percent = (session: UploadSession) =>
+  Math.round((session.uploadedBytes / session.fileSize) * 100);
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Session to continue: the pending one for this file if the server still has it
+async function resumeOrStart(
+  file: File,
+  details: UploadDetails
+): Promise<UploadSession> {
+  const pending = getPendingUpload();
+
+  if (pending && isSameFile(file, pending)) {
+    try {
+      const response = await uploadApi.getSession(pending.sessionId);
+      if (response.data) return response.data;
+    } catch {
+      // Expired or deleted; start over below
+    }
+  } else if (pending) {
+    uploadApi.cancelSession(pending.sessionId).catch(() => undefined);
+  }
+
+  const response = await uploadApi.createSession({
+    fileName: file.name,
+    fileSize: file.size,
+    lastModified: file.lastModified,
+    name: details.name || undefined,
+    description: details.description || undefined,
+    sheetMode: details.sheetMode,
+  });
+  if (!response.data) throw new Error("Failed to start upload");
+  return response.data;
+}
+
+async function uploadPartWithRetry(
+  session: UploadSession,
+  file: File,
+  index: number
+): Promise<UploadSession> {
+  const start = index * session.chunkSize;
+  const part = file.slice(start, start + session.chunkSize);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const response = await uploadApi.uploadPart(session._id, index, part);
+      if (response.data) return response.data;
+      throw new Error(`Part ${index} was not stored`);
+    } catch (error) {
+      if (attempt >= MAX_PART_ATTEMPTS) throw error;
+      await wait(1000 * attempt);
+    }
+  }
+}
+
+/**
+ * Upload a file in parts, continuing a previous attempt for the same file.
+ * Progress is kept in localStorage so the upload can resume after a reload.
+ */
+export async function uploadInChunks(
+  file: File,
+  details: UploadDetails,
+  onProgress: (progress: number) => void
+): Promise<Dataset> {
+  let session = await resumeOrStart(file, details);
+
+  const remember = () =>
+    savePendingUpload({
+      sessionId: session._id,
+      fileName: file.name,
+      fileSize: file.size,
+      lastModified: file.lastModified,
+      progress: percent(session),
+    });
+
+  remember();
+  onProgress(percent(session));
+
+  for (const index of session.missingParts) {
+    session = await uploadPartWithRetry(session, file, index);
+    remember();
+    onProgress(percent(session));
+  }
+
+  const response = await uploadApi.completeSession(session._id);
+  if (!response.data) throw new Error("Failed to complete upload");
+  clearPendingUpload();
+  return response.data;
+}
@@ -1,10 +1,10 @@
 import { useParams, useNavigate } from "react-router-dom";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Layout } from "@/components/Layout";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { datasetApi } from "@/lib/api";
-import { ArrowLeft, Download, Trash2, FileText, Database, Calendar } from "lucide-react";
+import { ArrowLeft, Download, Trash2, FileText, Database, Calendar, ShieldAlert, TriangleAlert } from "lucide-react";
 import { toast } from "sonner";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -17,10 +17,41 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { DatasetChat } from "@/components/DatasetChat";
+import { WorkbookSheets } from "@/components/WorkbookSheets";
+import { CSVDialectEditor } from "@/components/CSVDialectEditor";
+import { ColumnSchemaEditor } from "@/components/ColumnSchemaEditor";
+import { ColumnProfileSummary } from "@/components/ColumnProfileSummary";
+import type { ColumnPolicy, ValueFormat } from "@/types/api";
+
+const policyLabels: Record<ColumnPolicy, string> = {
+  send: "Send",
+  mask: "Mask",
+  hash: "Hash",
+  exclude: "Exclude",
+};
+
+const describeFormat = (format?: ValueFormat) =>
+  [
+    format?.currency && `${format.currency} currency`,
+    format?.percent && "percent",
+    format?.decimalSeparator === "," && "decimal comma",
+    format?.datePattern,
+  ]
+    .filter(Boolean)
+    .join(", ");
 
 export default function DatasetDetail() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
 
   const { data: datasetResponse, isLoading } = useQuery({
     queryKey: ["dataset", id],
@@ -35,7 +66,22 @@ export default function DatasetDetail() {
   });
 
   const dataset = datasetResponse?.data;
-  const preview = previewResponse?.data;
+  const preview: Record<string, unknown>[] | undefined = previewResponse?.data?.rows;
+  const displayNames = new Map(
+    dataset?.columns.map((col) => [col.name, col.displayName || col.name])
+  );
+
+  const privacyMutation = useMutation({
+    mutationFn: (policies: Record<string, ColumnPolicy>) =>
+      datasetApi.updatePrivacy(id!, policies),
+    onSuccess: (response) => {
+      queryClient.setQueryData(["dataset", id], response);
+      toast.success(response.message || "Column privacy updated");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to update column privacy");
+    },
+  });
 
   if (isLoading) {
     return (
@@ -96,6 +142,12 @@ export default function DatasetDetail() {
               <Download className="h-4 w-4" />
               Download
             </Button>
+            {dataset.fileType !== "csv" && (
+              <Button variant="outline" size="sm" onClick={() => datasetApi.download(dataset._id, "csv")} className="gap-2">
+                <Download className="h-4 w-4" />
+                CSV
+              </Button>
+            )}
             <Button variant="outline" size="sm" onClick={() => {
               if (confirm("Delete this dataset?")) {
                 datasetApi.delete(dataset._id).then(() => {
@@ -138,16 +190,65 @@ export default function DatasetDetail() {
           </Card>
         </div>
 
+        {!!dataset.metadata.malformedLines && (
+          <Card className="border-amber-500/50">
+            <CardHeader className="pb-2">
+              <CardTitle className="flex items-center gap-2 text-base">
+                <TriangleAlert className="h-4 w-4 text-amber-600" />
+                {dataset.metadata.malformedLines.toLocaleString()} malformed{" "}
+                {dataset.metadata.malformedLines === 1 ? "line was" : "lines were"} skipped
+              </CardTitle>
+              <CardDescription>
+                Lines that are not valid JSON objects are left out of the dataset.
+              </CardDescription>
+            </CardHeader>
+            {dataset.metadata.malformedLineSamples && dataset.metadata.malformedLineSamples.length > 0 && (
+              <CardContent>
+                <ul className="space-y-1 text-sm">
+                  {dataset.metadata.malformedLineSamples.map((sample) => (
+                    <li key={sample.line}>
+                      <span className="font-mono text-muted-foreground">Line {sample.line}:</span> {sample.error}
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            )}
+          </Card>
+        )}
+
+        {dataset.fileType === "csv" && dataset.csvDialect && (
+          <CSVDialectEditor
+            key={JSON.stringify(dataset.csvDialect)}
+            dataset={dataset}
+            dialect={dataset.csvDialect}
+          />
+        )}
+
+        {dataset.sheets && dataset.sheets.length > 1 && (
+          <WorkbookSheets
+            key={dataset.sheetSelection?.sheets.join("\n")}
+            dataset={dataset}
+            sheets={dataset.sheets}
+          />
+        )}
+
         <Tabs defaultValue="columns">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="columns">Columns</TabsTrigger>
             <TabsTrigger value="preview">Preview</TabsTrigger>
+            <TabsTrigger value="chat">Chat</TabsTrigger>
           </TabsList>
           <TabsContent value="columns" className="mt-4">
             <Card>
               <CardHeader>
                 <CardTitle>Schema</CardTitle>
-                <CardDescription>Column information and data types</CardDescription>
+                <CardDescription>
+                  Column information and data types. Edit a column to correct its type or
+                  describe it; previews, analytics and AI prompts use your changes. The AI
+                  column sets how values are treated before they are sent to an AI provider.
+                  {!!dataset.metadata.profiledRows && dataset.metadata.profiledRows < dataset.rowCount &&
+                    ` Profiles cover the first ${dataset.metadata.profiledRows.toLocaleString()} rows.`}
+                </CardDescription>
               </CardHeader>
               <CardContent>
                 <Table>
@@ -155,15 +256,96 @@ export default function DatasetDetail() {
                     <TableRow>
                       <TableHead>Name</TableHead>
                       <TableHead>Type</TableHead>
+                      <TableHead>Examples</TableHead>
+                      <TableHead>Profile</TableHead>
                       <TableHead>Nullable</TableHead>
+                      <TableHead>Personal Data</TableHead>
+                      <TableHead>AI</TableHead>
+                      <TableHead />
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {dataset.columns.map((col, i) => (
                       <TableRow key={i}>
-                        <TableCell className="font-medium">{col.name}</TableCell>
-                        <TableCell><Badge variant="outline">{col.type}</Badge></TableCell>
+                        <TableCell>
+                          <div className="font-medium">{col.displayName || col.name}</div>
+                          {col.displayName && (
+                            <div className="font-mono text-xs text-muted-foreground">{col.name}</div>
+                          )}
+                          {col.description && (
+                            <p className="mt-1 max-w-xs text-xs text-muted-foreground">{col.description}</p>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap items-center gap-2">
+                            <Badge variant="outline">{col.type}</Badge>
+                            {col.role && <Badge variant="secondary">{col.role}</Badge>}
+                            {col.unit && <span className="text-xs text-muted-foreground">{col.unit}</span>}
+                            {col.overridden?.includes("type") ? (
+                              <span className="text-xs text-muted-foreground" title="Type set by you">
+                                detected {col.inferredType}
+                              </span>
+                            ) : col.confidence !== undefined && (
+                              <span
+                                className={`text-xs ${col.confidence < 90 ? "text-amber-600" : "text-muted-foreground"}`}
+                                title="Share of values that fit this type"
+                              >
+                                {col.confidence}%
+                              </span>
+                            )}
+                          </div>
+                          {describeFormat(col.format) && (
+                            <p className="mt-1 text-xs text-muted-foreground">{describeFormat(col.format)}</p>
+                          )}
+                        </TableCell>
+                        <TableCell className="max-w-xs truncate text-sm text-muted-foreground" title={col.examples?.join(", ")}>
+                          {col.examples?.length ? col.examples.join(", ") : "—"}
+                        </TableCell>
+                        <TableCell>
+                          {col.profile?.kind ? (
+                            <ColumnProfileSummary profile={col.profile} unit={col.unit} />
+                          ) : (
+                            <span className="text-muted-foreground">—</span>
+                          )}
+                        </TableCell>
                         <TableCell><Badge variant={col.nullable ? "secondary" : "default"}>{col.nullable ? "Yes" : "No"}</Badge></TableCell>
+                        <TableCell>
+                          {col.pii ? (
+                            <Badge variant="destructive" className="gap-1" title={`${col.pii.confidence}% confidence`}>
+                              <ShieldAlert className="h-3 w-3" />
+                              {col.pii.kind.replace(/_/g, " ")}
+                            </Badge>
+                          ) : (
+                            <span className="text-muted-foreground">—</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={col.policy || "send"}
+                            onValueChange={(policy) =>
+                              privacyMutation.mutate({ [col.name]: policy as ColumnPolicy })
+                            }
+                            disabled={privacyMutation.isPending}
+                          >
+                            <SelectTrigger className="h-8 w-28">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {Object.entries(policyLabels).map(([policy, label]) => (
+                                <SelectItem key={policy} value={policy}>
+                                  {label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <ColumnSchemaEditor
+                            datasetId={dataset._id}
+                            column={col}
+                            disabled={dataset.metadata.processingStatus !== "completed"}
+                          />
+                        </TableCell>
                       </TableRow>
                     ))}
                   </TableBody>
@@ -183,7 +365,9 @@ export default function DatasetDetail() {
                     <Table>
                       <TableHeader>
                         <TableRow>
-                          {Object.keys(preview[0]).map((key) => <TableHead key={key}>{key}</TableHead>)}
+                          {Object.keys(preview[0]).map((key) => (
+                            <TableHead key={key} title={key}>{displayNames.get(key) ?? key}</TableHead>
+                          ))}
                         </TableRow>
                       </TableHeader>
                       <TableBody>
@@ -201,6 +385,12 @@ export default function DatasetDetail() {
               <Card><CardContent className="py-12 text-center text-muted-foreground">No preview available</CardContent></Card>
             )}
           </TabsContent>
+          <TabsContent value="chat" className="mt-4">
+            <DatasetChat
+              datasetId={dataset._id}
+              disabled={dataset.metadata.processingStatus !== "completed"}
+            />
+          </TabsContent>
         </Tabs>
       </div>
     </Layout>
@@ -4,8 +4,17 @@ import { Layout } from "@/components/Layout";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
-import { datasetApi, uploadApi } from "@/lib/api";
-import { Upload, Search, Database, Trash2, Download, Eye, FileText, Copy } from "lucide-react";
+import { datasetApi, insightApi, uploadApi } from "@/lib/api";
+import {
+  clearPendingUpload,
+  getPendingUpload,
+  isSameFile,
+  uploadInChunks,
+  type UploadDetails,
+} from "@/lib/chunkedUpload";
+import { Upload, Search, Database, Trash2, Download, Eye, FileText, Copy, Sparkles } from "lucide-react";
+import { InsightJobProgress } from "@/components/InsightJobProgress";
+import type { InsightJob, SheetMode } from "@/types/api";
 import { toast } from "sonner";
 import { useNavigate } from "react-router-dom";
 import { Badge } from "@/components/ui/badge";
@@ -31,13 +40,34 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const sheetModeLabels: Record<SheetMode, string> = {
+  single: "First sheet",
+  stack: "Stack sheets with matching columns",
+  split: "One dataset per sheet",
+};
+
+const isWorkbook = (file: File | null) => !!file && /\.xlsx?$/i.test(file.name);
 
 export default function Datasets() {
   const [search, setSearch] = useState("");
-  const [uploadDialogOpen, setUploadDialogOpen] = useState(false);
+  // An upload interrupted by a reload reopens the dialog so it can be resumed
+  const [pendingUpload, setPendingUpload] = useState(getPendingUpload);
+  const [uploadDialogOpen, setUploadDialogOpen] = useState(
+    () => pendingUpload !== null
+  );
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
   const [file, setFile] = useState<File | null>(null);
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
+  const [sheetMode, setSheetMode] = useState<SheetMode>("single");
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [datasetToDelete, setDatasetToDelete] = useState<string | null>(null);
   const queryClient = useQueryClient();
@@ -48,9 +78,60 @@ export default function Datasets() {
     queryFn: () => datasetApi.getAll({ search, limit: 50 }),
   });
 
+  // Poll while an insight pack is being generated
+  const { data: jobsResponse } = useQuery({
+    queryKey: ["insight-jobs"],
+    queryFn: () => insightApi.getJobs(),
+    refetchInterval: (query) =>
+      query.state.data?.data?.some(
+        (job) => job.status === "queued" || job.status === "running"
+      )
+        ? 2000
+        : false,
+  });
+
+  // Latest job per dataset (the list is newest first)
+  const latestJobs = new Map<string, InsightJob>();
+  for (const job of jobsResponse?.data || []) {
+    const id = typeof job.datasetId === "string" ? job.datasetId : job.datasetId._id;
+    if (!latestJobs.has(id)) latestJobs.set(id, job);
+  }
+
+  const onJobStarted = () => {
+    queryClient.invalidateQueries({ queryKey: ["insight-jobs"] });
+    queryClient.invalidateQueries({ queryKey: ["insights"] });
+  };
+
+  const analyzeMutation = useMutation({
+    mutationFn: (datasetId: string) => insightApi.createJob(datasetId),
+    onSuccess: () => {
+      toast.success("Insight pack queued");
+      onJobStarted();
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to queue insight pack");
+    },
+  });
+
+  const retryJobMutation = useMutation({
+    mutationFn: (jobId: string) => insightApi.retryJob(jobId),
+    onSuccess: onJobStarted,
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to retry insight pack");
+    },
+  });
+
   const uploadMutation = useMutation({
-    mutationFn: (data: { file: File; name?: string; description?: string }) =>
-      uploadApi.upload(data.file, data.name, data.description),
+    mutationFn: (data: { file: File } & UploadDetails) =>
+      uploadInChunks(
+        data.file,
+        {
+          name: data.name,
+          description: data.description,
+          sheetMode: data.sheetMode,
+        },
+        setUploadProgress
+      ),
     onSuccess: () => {
       toast.success("Dataset uploaded successfully!");
       queryClient.invalidateQueries({ queryKey: ["datasets"] });
@@ -58,12 +139,27 @@ export default function Datasets() {
       setFile(null);
       setName("");
       setDescription("");
+      setSheetMode("single");
+      setUploadProgress(null);
+      setPendingUpload(null);
     },
-    onError: (error: any) => {
+    onError: (error: Error) => {
       toast.error(error.message || "Failed to upload dataset");
+      setUploadProgress(null);
+      setPendingUpload(getPendingUpload());
     },
   });
 
+  const discardPendingUpload = () => {
+    if (!pendingUpload) return;
+    uploadApi.cancelSession(pendingUpload.sessionId).catch(() => undefined);
+    clearPendingUpload();
+    setPendingUpload(null);
+  };
+
+  const resuming =
+    file !== null && pendingUpload !== null && isSameFile(file, pendingUpload);
+
   const deleteMutation = useMutation({
     mutationFn: (id: string) => datasetApi.delete(id),
     onSuccess: () => {
@@ -93,7 +189,12 @@ export default function Datasets() {
       toast.error("Please select a file");
       return;
     }
-    uploadMutation.mutate({ file, name, description });
+    uploadMutation.mutate({
+      file,
+      name,
+      description,
+      sheetMode: isWorkbook(file) ? sheetMode : undefined,
+    });
   };
 
   const datasets = datasetsResponse?.data || [];
@@ -120,19 +221,65 @@ export default function Datasets() {
               <DialogHeader>
                 <DialogTitle>Upload New Dataset</DialogTitle>
                 <DialogDescription>
-                  Upload CSV, JSON, or Excel files (max 10MB)
+                  Upload CSV, JSON, JSON Lines, Excel, Parquet or Arrow files. Large files are sent in
+                  parts and resume where they left off if interrupted.
                 </DialogDescription>
               </DialogHeader>
               <div className="space-y-4 mt-4">
+                {pendingUpload && uploadProgress === null && (
+                  <div className="space-y-2 rounded-md border p-3">
+                    <div className="flex items-center justify-between gap-2 text-sm">
+                      <span className="truncate">
+                        Unfinished upload: {pendingUpload.fileName}
+                      </span>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={discardPendingUpload}
+                      >
+                        Discard
+                      </Button>
+                    </div>
+                    <Progress value={pendingUpload.progress} className="h-2" />
+                    <p className="text-xs text-muted-foreground">
+                      {resuming
+                        ? `Resumes at ${pendingUpload.progress}%`
+                        : "Select the same file again to resume"}
+                    </p>
+                  </div>
+                )}
                 <div className="space-y-2">
                   <Label htmlFor="file">File *</Label>
                   <Input
                     id="file"
                     type="file"
-                    accept=".csv,.json,.xlsx,.xls"
+                    accept=".csv,.json,.jsonl,.ndjson,.xlsx,.xls,.parquet,.arrow,.feather"
                     onChange={(e) => setFile(e.target.files?.[0] || null)}
                   />
                 </div>
+                {isWorkbook(file) && (
+                  <div className="space-y-2">
+                    <Label htmlFor="sheetMode">Sheets</Label>
+                    <Select
+                      value={sheetMode}
+                      onValueChange={(mode) => setSheetMode(mode as SheetMode)}
+                    >
+                      <SelectTrigger id="sheetMode">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(sheetModeLabels).map(([mode, label]) => (
+                          <SelectItem key={mode} value={mode}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      Sheets can be changed later from the dataset page.
+                    </p>
+                  </div>
+                )}
                 <div className="space-y-2">
                   <Label htmlFor="name">Dataset Name (Optional)</Label>
                   <Input
@@ -151,12 +298,27 @@ export default function Datasets() {
                     placeholder="Dataset description"
                   />
                 </div>
+                {uploadProgress !== null && (
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-muted-foreground">
+                        {uploadProgress < 100 ? "Uploading..." : "Finishing..."}
+                      </span>
+                      <span>{uploadProgress}%</span>
+                    </div>
+                    <Progress value={uploadProgress} className="h-2" />
+                  </div>
+                )}
                 <Button
                   onClick={handleUpload}
                   className="w-full"
                   disabled={uploadMutation.isPending || !file}
                 >
-                  {uploadMutation.isPending ? "Uploading..." : "Upload"}
+                  {uploadMutation.isPending
+                    ? "Uploading..."
+                    : resuming
+                    ? "Resume Upload"
+                    : "Upload"}
                 </Button>
               </div>
             </DialogContent>
@@ -251,6 +413,15 @@ export default function Datasets() {
                       <Progress value={50} className="h-1" />
                     </div>
                   )}
+                  {latestJobs.has(dataset._id) && (
+                    <InsightJobProgress
+                      job={latestJobs.get(dataset._id)!}
+                      onRetry={() =>
+                        retryJobMutation.mutate(latestJobs.get(dataset._id)!._id)
+                      }
+                      retrying={retryJobMutation.isPending}
+                    />
+                  )}
                   <div className="flex flex-wrap gap-2">
                     <Badge variant="outline" className="gap-1">
                       <FileText className="h-3 w-3" />
@@ -280,6 +451,25 @@ export default function Datasets() {
                     </TooltipTrigger>
                     <TooltipContent>View dataset details</TooltipContent>
                   </Tooltip>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => analyzeMutation.mutate(dataset._id)}
+                        disabled={
+                          dataset.metadata.processingStatus !== "completed" ||
+                          analyzeMutation.isPending ||
+                          ["queued", "running"].includes(
+                            latestJobs.get(dataset._id)?.status || ""
+                          )
+                        }
+                      >
+                        <Sparkles className="h-4 w-4" />
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>Generate all insight types</TooltipContent>
+                  </Tooltip>
                   <Tooltip>
                     <TooltipTrigger asChild>
                       <Button
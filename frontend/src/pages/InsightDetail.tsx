@@ -1,5 +1,5 @@
 import { useParams, useNavigate } from "react-router-dom";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Layout } from "@/components/Layout";
 import { Button } from "@/components/ui/button";
 import {
@@ -14,9 +14,15 @@ import {
   ArrowLeft,
   Trash2,
   TrendingUp,
+  TrendingDown,
+  Minus,
   Sparkles,
   Calendar,
   BarChart,
+  RefreshCw,
+  ShieldCheck,
+  History,
+  Info,
 } from "lucide-react";
 import { toast } from "sonner";
 import { Badge } from "@/components/ui/badge";
@@ -30,10 +36,49 @@ import {
   AccordionTrigger,
 } from "@/components/ui/accordion";
 import { ChartRenderer } from "@/components/charts/ChartRenderer";
+import {
+  FactCheckIcon,
+  FactCheckSummary,
+  FactCheckedText,
+} from "@/components/FactCheckedText";
+import { AgentTrace } from "@/components/AgentTrace";
+import { ComparisonReport } from "@/components/ComparisonReport";
+import {
+  InsightHistory,
+  InsightProvenance,
+} from "@/components/InsightProvenance";
+import type { ChartSpec, WithheldColumn } from "@/types/api";
+
+const aggregationLabels: Record<ChartSpec["aggregation"], string> = {
+  sum: "Sum",
+  avg: "Average",
+  count: "Count",
+  min: "Minimum",
+  max: "Maximum",
+  none: "Value",
+};
+
+const withheldLabels: Record<WithheldColumn["policy"], string> = {
+  mask: "masked",
+  hash: "hashed",
+  exclude: "excluded",
+};
+
+function describeSpec(spec: ChartSpec) {
+  const measure =
+    spec.aggregation === "count"
+      ? "Count of rows"
+      : `${aggregationLabels[spec.aggregation]} of ${spec.yColumn}`;
+  const filters = spec.filters
+    .map((f) => `${f.column} ${f.operator} ${JSON.stringify(f.value)}`)
+    .join(", ");
+  return `${measure} by ${spec.xColumn}${filters ? ` where ${filters}` : ""} · limit ${spec.limit}`;
+}
 
 export default function InsightDetail() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
 
   const { data: insightResponse, isLoading } = useQuery({
     queryKey: ["insight", id],
@@ -43,6 +88,40 @@ export default function InsightDetail() {
 
   const insight = insightResponse?.data;
 
+  const refreshMutation = useMutation({
+    mutationFn: () => insightApi.refreshVisualizations(id!),
+    onSuccess: (response) => {
+      queryClient.setQueryData(["insight", id], response);
+      toast.success("Charts recomputed from the dataset");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to refresh charts");
+    },
+  });
+
+  const factCheckMutation = useMutation({
+    mutationFn: () => insightApi.factCheck(id!),
+    onSuccess: (response) => {
+      queryClient.setQueryData(["insight", id], response);
+      toast.success("Numbers re-checked against the dataset");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to check numbers");
+    },
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: () => insightApi.regenerate(id!),
+    onSuccess: (response) => {
+      queryClient.setQueryData(["insight", id], response);
+      queryClient.invalidateQueries({ queryKey: ["insights"] });
+      toast.success("Insight regenerated against the current data");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to regenerate insight");
+    },
+  });
+
   if (isLoading) {
     return (
       <Layout>
@@ -109,7 +188,10 @@ export default function InsightDetail() {
                 )}
               </div>
               <p className="text-muted-foreground mb-2">
-                {insight.description}
+                <FactCheckedText
+                  text={insight.description}
+                  checks={insight.factChecks}
+                />
               </p>
               <div className="flex items-center gap-4 text-sm text-muted-foreground">
                 <span className="flex items-center gap-1">
@@ -119,26 +201,82 @@ export default function InsightDetail() {
                 {insight.aiModel && (
                   <span className="flex items-center gap-1">
                     <Sparkles className="h-4 w-4" />
+                    {insight.aiProvider && `${insight.aiProvider} · `}
                     {insight.aiModel}
                   </span>
                 )}
+                {insight.cached && <Badge variant="outline">Cached</Badge>}
+                {insight.promptTemplate && (
+                  <span>
+                    Prompt{" "}
+                    {insight.promptTemplate.version === 0
+                      ? "built-in"
+                      : `${insight.promptTemplate.insightType} v${insight.promptTemplate.version}`}
+                  </span>
+                )}
+                {insight.usage && insight.usage.totalTokens > 0 && (
+                  <span>
+                    {insight.usage.totalTokens.toLocaleString("en-US")} tokens
+                    {insight.usage.cost > 0 &&
+                      ` · ~$${insight.usage.cost.toFixed(4)}`}
+                  </span>
+                )}
               </div>
+              {insight.withheldColumns && insight.withheldColumns.length > 0 && (
+                <p className="mt-2 flex items-center gap-1 text-sm text-muted-foreground">
+                  <ShieldCheck className="h-4 w-4" />
+                  Withheld from the AI provider:{" "}
+                  {insight.withheldColumns
+                    .map((column) => `${column.name} (${withheldLabels[column.policy]})`)
+                    .join(", ")}
+                </p>
+              )}
+              {insight.comparison ? (
+                <p className="mt-2 text-sm text-muted-foreground">
+                  Compares {insight.comparison.current.name} with{" "}
+                  {insight.comparison.baseline.name}
+                </p>
+              ) : (
+                <div className="mt-2 text-sm text-muted-foreground">
+                  <FactCheckSummary
+                    checks={insight.factChecks}
+                    onRecheck={() => factCheckMutation.mutate()}
+                    rechecking={factCheckMutation.isPending}
+                  />
+                </div>
+              )}
             </div>
           </div>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={() => {
-              if (confirm("Are you sure you want to delete this insight?")) {
-                insightApi.delete(insight._id).then(() => {
-                  toast.success("Insight deleted");
-                  navigate("/insights");
-                });
-              }
-            }}
-          >
-            <Trash2 className="h-4 w-4 text-destructive" />
-          </Button>
+          <div className="flex items-center gap-2">
+            {insight.aiGenerated && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => regenerateMutation.mutate()}
+                disabled={regenerateMutation.isPending}
+                title="Replay the same setup against the current data"
+              >
+                <RefreshCw
+                  className={`h-4 w-4 mr-2 ${regenerateMutation.isPending ? "animate-spin" : ""}`}
+                />
+                {regenerateMutation.isPending ? "Regenerating..." : "Regenerate"}
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                if (confirm("Are you sure you want to delete this insight?")) {
+                  insightApi.delete(insight._id).then(() => {
+                    toast.success("Insight deleted");
+                    navigate("/insights");
+                  });
+                }
+              }}
+            >
+              <Trash2 className="h-4 w-4 text-destructive" />
+            </Button>
+          </div>
         </div>
 
         {/* Stats Grid */}
@@ -165,7 +303,7 @@ export default function InsightDetail() {
             </CardHeader>
             <CardContent>
               <div className="text-3xl font-bold">
-                {Math.round((insight.confidence || 0) * 100)}%
+                {Math.round(insight.confidence || 0)}%
               </div>
             </CardContent>
           </Card>
@@ -185,13 +323,40 @@ export default function InsightDetail() {
         </div>
 
         {/* Tabs for different sections */}
-        <Tabs defaultValue="metrics" className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
+        <Tabs
+          defaultValue={insight.comparison ? "comparison" : "metrics"}
+          className="w-full"
+        >
+          <TabsList
+            className={`grid w-full ${insight.agentTrace || insight.comparison ? "grid-cols-4" : "grid-cols-3"}`}
+          >
+            {insight.comparison && (
+              <TabsTrigger value="comparison">Comparison</TabsTrigger>
+            )}
             <TabsTrigger value="metrics">Metrics</TabsTrigger>
             <TabsTrigger value="visualizations">Visualizations</TabsTrigger>
             <TabsTrigger value="recommendations">Recommendations</TabsTrigger>
+            {insight.agentTrace && (
+              <TabsTrigger value="agent">Agent Trace</TabsTrigger>
+            )}
           </TabsList>
 
+          {insight.comparison && (
+            <TabsContent value="comparison" className="mt-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Dataset Comparison</CardTitle>
+                  <CardDescription>
+                    Computed over all rows of both datasets
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ComparisonReport report={insight.comparison} />
+                </CardContent>
+              </Card>
+            </TabsContent>
+          )}
+
           <TabsContent value="metrics" className="mt-4">
             {insight.metrics && insight.metrics.length > 0 ? (
               <Card>
@@ -209,11 +374,24 @@ export default function InsightDetail() {
                         className="flex items-center gap-3 p-4 bg-gradient-to-br from-primary/5 to-primary/10 rounded-lg border"
                       >
                         <div className="p-3 bg-primary/10 rounded-full">
-                          <TrendingUp className="h-6 w-6 text-primary" />
+                          {metric.trend === "down" ? (
+                            <TrendingDown className="h-6 w-6 text-primary" />
+                          ) : metric.trend === "stable" ? (
+                            <Minus className="h-6 w-6 text-primary" />
+                          ) : (
+                            <TrendingUp className="h-6 w-6 text-primary" />
+                          )}
                         </div>
                         <div className="flex-1">
-                          <p className="text-sm font-medium text-muted-foreground">
+                          <p className="flex items-center gap-1 text-sm font-medium text-muted-foreground">
                             {metric.name}
+                            <FactCheckIcon
+                              check={insight.factChecks?.find(
+                                (check) =>
+                                  check.source === "metric" &&
+                                  check.metricIndex === index
+                              )}
+                            />
                           </p>
                           <p className="text-2xl font-bold">
                             {metric.value}
@@ -242,11 +420,26 @@ export default function InsightDetail() {
           <TabsContent value="visualizations" className="mt-4">
             {insight.visualizations && insight.visualizations.length > 0 ? (
               <Card>
-                <CardHeader>
-                  <CardTitle>Data Visualizations</CardTitle>
-                  <CardDescription>
-                    Charts and graphs generated from the analysis
-                  </CardDescription>
+                <CardHeader className="flex flex-row items-start justify-between gap-4">
+                  <div className="space-y-1.5">
+                    <CardTitle>Data Visualizations</CardTitle>
+                    <CardDescription>
+                      Charts computed from the dataset rows
+                    </CardDescription>
+                  </div>
+                  {insight.visualizations.some((viz) => viz.spec) && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => refreshMutation.mutate()}
+                      disabled={refreshMutation.isPending}
+                    >
+                      <RefreshCw
+                        className={`h-4 w-4 mr-2 ${refreshMutation.isPending ? "animate-spin" : ""}`}
+                      />
+                      Re-run
+                    </Button>
+                  )}
                 </CardHeader>
                 <CardContent>
                   <Accordion type="single" collapsible className="w-full">
@@ -265,6 +458,11 @@ export default function InsightDetail() {
                         </AccordionTrigger>
                         <AccordionContent>
                           <div className="p-4 bg-muted rounded-lg mt-2">
+                            {viz.spec && (
+                              <p className="text-xs text-muted-foreground mb-2">
+                                {describeSpec(viz.spec)}
+                              </p>
+                            )}
                             {/* <pre className="text-xs overflow-x-auto">
                               {JSON.stringify(viz.data, null, 2)}
                               {JSON.stringify(viz.config, null, 2)}
@@ -328,18 +526,78 @@ export default function InsightDetail() {
               </Card>
             )}
           </TabsContent>
+
+          {insight.agentTrace && (
+            <TabsContent value="agent" className="mt-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Agent Trace</CardTitle>
+                  <CardDescription>
+                    Tools the model called over the full dataset,{" "}
+                    {insight.agentTrace.steps.length} of{" "}
+                    {insight.agentTrace.maxSteps} allowed
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <AgentTrace trace={insight.agentTrace} />
+                </CardContent>
+              </Card>
+            </TabsContent>
+          )}
         </Tabs>
 
+        {insight.provenance && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Info className="h-5 w-5" />
+                How was this generated?
+              </CardTitle>
+              <CardDescription>
+                The exact prompt, parameters and data version behind this
+                result
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <InsightProvenance provenance={insight.provenance} />
+            </CardContent>
+          </Card>
+        )}
+
+        {insight.history && insight.history.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <History className="h-5 w-5" />
+                Previous Results
+              </CardTitle>
+              <CardDescription>
+                Kept each time the insight was regenerated
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <InsightHistory history={insight.history} />
+            </CardContent>
+          </Card>
+        )}
+
         {/* Query Section if available */}
-        {insight.query && (
+        {(insight.query || insight.structuredQuery) && (
           <Card>
             <CardHeader>
               <CardTitle>Analysis Query</CardTitle>
             </CardHeader>
-            <CardContent>
-              <div className="p-4 bg-muted rounded-lg">
-                <p className="text-sm italic">&ldquo;{insight.query}&rdquo;</p>
-              </div>
+            <CardContent className="space-y-2">
+              {insight.query && (
+                <div className="p-4 bg-muted rounded-lg">
+                  <p className="text-sm italic">&ldquo;{insight.query}&rdquo;</p>
+                </div>
+              )}
+              {insight.structuredQuery && (
+                <pre className="p-4 bg-muted rounded-lg text-xs overflow-x-auto">
+                  {JSON.stringify(insight.structuredQuery, null, 2)}
+                </pre>
+              )}
             </CardContent>
           </Card>
         )}
@@ -1,6 +1,8 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Layout } from "@/components/Layout";
+import { StructuredQueryEditor } from "@/components/StructuredQueryEditor";
+import { GenerationProgress } from "@/components/GenerationProgress";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -12,6 +14,14 @@ import {
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { insightApi, datasetApi } from "@/lib/api";
+import {
+  AIPreferences,
+  AIProviderName,
+  GenerateOptions,
+  GenerationEvent,
+  GenerationStage,
+  StructuredQuery,
+} from "@/types/api";
 import {
   Lightbulb,
   Search,
@@ -58,12 +68,28 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 
+const providerLabels: Record<AIProviderName, string> = {
+  openai: "OpenAI",
+  local: "Local model",
+  fake: "Fake (testing)",
+};
+
 export default function Insights() {
   const [search, setSearch] = useState("");
   const [generateDialogOpen, setGenerateDialogOpen] = useState(false);
   const [selectedDataset, setSelectedDataset] = useState("");
   const [query, setQuery] = useState("");
   const [insightType, setInsightType] = useState("trend");
+  const [provider, setProvider] = useState("default");
+  const [model, setModel] = useState("");
+  const [structuredQuery, setStructuredQuery] = useState("");
+  const [force, setForce] = useState(false);
+  const [agentMode, setAgentMode] = useState(false);
+  const [baselineDataset, setBaselineDataset] = useState("");
+  const [stage, setStage] = useState<GenerationStage | null>(null);
+  const [stageDetail, setStageDetail] = useState("");
+  const [partialText, setPartialText] = useState("");
+  const abortRef = useRef<AbortController | null>(null);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [insightToDelete, setInsightToDelete] = useState<string | null>(null);
   const queryClient = useQueryClient();
@@ -79,21 +105,92 @@ export default function Insights() {
     queryFn: () => datasetApi.getAll({ limit: 100 }),
   });
 
+  const { data: providersResponse } = useQuery({
+    queryKey: ["ai-providers"],
+    queryFn: () => insightApi.getProviders(),
+  });
+
   const generateMutation = useMutation({
-    mutationFn: (data: { datasetId: string; query?: string; type?: string }) =>
-      insightApi.generate(data.datasetId, data.query, data.type),
-    onSuccess: () => {
-      toast.success("AI Insight generated successfully!");
+    mutationFn: (data: {
+      datasetId: string;
+      query?: string;
+      type?: string;
+      options?: GenerateOptions;
+    }) => {
+      abortRef.current = new AbortController();
+      setStage(null);
+      setStageDetail("");
+      setPartialText("");
+      return insightApi.generateStream(
+        data.datasetId,
+        data.query,
+        data.type,
+        data.options,
+        handleProgress,
+        abortRef.current.signal
+      );
+    },
+    onSuccess: (insight) => {
+      toast.success(
+        insight.cached
+          ? "AI Insight served from cache"
+          : "AI Insight generated successfully!"
+      );
       queryClient.invalidateQueries({ queryKey: ["insights"] });
       setGenerateDialogOpen(false);
       setSelectedDataset("");
       setQuery("");
+      setStructuredQuery("");
+      setForce(false);
     },
-    onError: (error: any) => {
+    onError: (error: Error) => {
+      if (error.name === "AbortError") {
+        toast.info("Generation cancelled");
+        return;
+      }
       toast.error(error.message || "Failed to generate insight");
     },
   });
 
+  const compareMutation = useMutation({
+    mutationFn: (data: { datasetId: string; baselineDatasetId: string }) =>
+      insightApi.compare(data.datasetId, data.baselineDatasetId, aiOptions),
+    onSuccess: () => {
+      toast.success("Comparison insight generated successfully!");
+      queryClient.invalidateQueries({ queryKey: ["insights"] });
+      setGenerateDialogOpen(false);
+      setSelectedDataset("");
+      setBaselineDataset("");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to compare datasets");
+    },
+  });
+
+  function handleProgress(event: GenerationEvent) {
+    if (event.event === "token") {
+      setPartialText((text) => text + event.data.delta);
+      return;
+    }
+    const { stage, ...data } = event.data;
+    setStage(stage);
+    if (stage === "prompting") {
+      setStageDetail(`${data.provider} · ${data.model}`);
+    } else if (stage === "tool") {
+      setPartialText("");
+      setStageDetail(
+        `Step ${data.step}: ${data.tool}${data.reason ? ` (${data.reason})` : ""}`
+      );
+    } else if (stage === "repairing") {
+      // The model is asked again, so its previous output is discarded
+      setPartialText("");
+      setStageDetail(`Output failed validation, retrying (attempt ${data.attempt})`);
+    }
+  }
+
+  // Aborting the request closes the stream, which aborts the model call server-side
+  const cancelGeneration = () => abortRef.current?.abort();
+
   const deleteMutation = useMutation({
     mutationFn: (id: string) => insightApi.delete(id),
     onSuccess: () => {
@@ -118,20 +215,57 @@ export default function Insights() {
     },
   });
 
+  const aiOptions: AIPreferences = {
+    provider: provider === "default" ? undefined : (provider as AIProviderName),
+    model: model || undefined,
+  };
+
   const handleGenerate = () => {
     if (!selectedDataset) {
       toast.error("Please select a dataset");
       return;
     }
+    if (insightType === "comparison") {
+      if (!baselineDataset) {
+        toast.error("Please select a dataset to compare against");
+        return;
+      }
+      compareMutation.mutate({
+        datasetId: selectedDataset,
+        baselineDatasetId: baselineDataset,
+      });
+      return;
+    }
+    let parsedQuery: StructuredQuery | undefined;
+    try {
+      // Empty editor: the server translates the question itself
+      parsedQuery =
+        insightType === "custom" && structuredQuery.trim()
+          ? (JSON.parse(structuredQuery) as StructuredQuery)
+          : undefined;
+    } catch (error) {
+      toast.error(`Structured query is not valid JSON: ${(error as Error).message}`);
+      return;
+    }
     generateMutation.mutate({
       datasetId: selectedDataset,
       query: query || undefined,
       type: insightType,
+      options: {
+        ...aiOptions,
+        structuredQuery: parsedQuery,
+        force: force || undefined,
+        mode: agentMode ? "agent" : undefined,
+      },
     });
   };
 
   const insights = insightsResponse?.data || [];
   const datasets = datasetsResponse?.data || [];
+  const providers = (providersResponse?.data?.providers || []).filter(
+    (p) => p.configured
+  );
+  const selectedProvider = providers.find((p) => p.name === provider);
 
   return (
     <Layout>
@@ -146,7 +280,10 @@ export default function Insights() {
           </div>
           <Dialog
             open={generateDialogOpen}
-            onOpenChange={setGenerateDialogOpen}
+            onOpenChange={(open) => {
+              if (!open) cancelGeneration();
+              setGenerateDialogOpen(open);
+            }}
           >
             <DialogTrigger asChild>
               <Button className="gap-2">
@@ -161,63 +298,171 @@ export default function Insights() {
                   Let AI analyze your dataset and generate insights
                 </DialogDescription>
               </DialogHeader>
-              <div className="space-y-4 mt-4">
-                <div className="space-y-2">
-                  <Label htmlFor="dataset">Select Dataset *</Label>
-                  <Select
-                    value={selectedDataset}
-                    onValueChange={setSelectedDataset}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Choose a dataset" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {datasets
-                        .filter(
-                          (d) => d.metadata.processingStatus === "completed"
-                        )
-                        .map((dataset) => (
-                          <SelectItem key={dataset._id} value={dataset._id}>
-                            {dataset.name}
-                          </SelectItem>
-                        ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="type">Insight Type</Label>
-                  <Select value={insightType} onValueChange={setInsightType}>
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="trend">Trend Analysis</SelectItem>
-                      <SelectItem value="anomaly">Anomaly Detection</SelectItem>
-                      <SelectItem value="correlation">Correlation</SelectItem>
-                      <SelectItem value="prediction">Prediction</SelectItem>
-                      <SelectItem value="summary">Summary</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="query">Query (Optional)</Label>
-                  <Input
-                    id="query"
-                    value={query}
-                    onChange={(e) => setQuery(e.target.value)}
-                    placeholder="What trends do you see?"
+              {generateMutation.isPending ? (
+                <div className="mt-4">
+                  <GenerationProgress
+                    stage={stage}
+                    detail={stageDetail}
+                    partialText={partialText}
+                    onCancel={cancelGeneration}
                   />
                 </div>
-                <Button
-                  onClick={handleGenerate}
-                  className="w-full"
-                  disabled={generateMutation.isPending || !selectedDataset}
-                >
-                  {generateMutation.isPending
-                    ? "Generating..."
-                    : "Generate Insight"}
-                </Button>
-              </div>
+              ) : (
+                <div className="space-y-4 mt-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="dataset">
+                      {insightType === "comparison"
+                        ? "Current Dataset *"
+                        : "Select Dataset *"}
+                    </Label>
+                    <Select
+                      value={selectedDataset}
+                      onValueChange={setSelectedDataset}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose a dataset" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {datasets
+                          .filter(
+                            (d) => d.metadata.processingStatus === "completed"
+                          )
+                          .map((dataset) => (
+                            <SelectItem key={dataset._id} value={dataset._id}>
+                              {dataset.name}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="type">Insight Type</Label>
+                    <Select value={insightType} onValueChange={setInsightType}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="trend">Trend Analysis</SelectItem>
+                        <SelectItem value="anomaly">Anomaly Detection</SelectItem>
+                        <SelectItem value="correlation">Correlation</SelectItem>
+                        <SelectItem value="prediction">Prediction</SelectItem>
+                        <SelectItem value="summary">Summary</SelectItem>
+                        <SelectItem value="comparison">
+                          Compare Two Datasets
+                        </SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {insightType === "comparison" && (
+                    <div className="space-y-2">
+                      <Label htmlFor="baseline">Compare Against (Earlier) *</Label>
+                      <Select
+                        value={baselineDataset}
+                        onValueChange={setBaselineDataset}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Choose the earlier dataset" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {datasets
+                            .filter(
+                              (d) =>
+                                d.metadata.processingStatus === "completed" &&
+                                d._id !== selectedDataset
+                            )
+                            .map((dataset) => (
+                              <SelectItem key={dataset._id} value={dataset._id}>
+                                {dataset.name}
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="provider">AI Provider</Label>
+                      <Select value={provider} onValueChange={setProvider}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="default">Default</SelectItem>
+                          {providers.map((p) => (
+                            <SelectItem key={p.name} value={p.name}>
+                              {providerLabels[p.name]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="model">Model (Optional)</Label>
+                      <Input
+                        id="model"
+                        value={model}
+                        onChange={(e) => setModel(e.target.value)}
+                        placeholder={selectedProvider?.defaultModel || "Default"}
+                      />
+                    </div>
+                  </div>
+                  {insightType !== "comparison" && (
+                    <>
+                      <div className="space-y-2">
+                        <Label htmlFor="query">Query (Optional)</Label>
+                        <Input
+                          id="query"
+                          value={query}
+                          onChange={(e) => setQuery(e.target.value)}
+                          placeholder={
+                            insightType === "custom"
+                              ? "Total revenue by region for 2024"
+                              : "What trends do you see?"
+                          }
+                        />
+                      </div>
+                      {insightType === "custom" && (
+                        <StructuredQueryEditor
+                          datasetId={selectedDataset}
+                          question={query}
+                          value={structuredQuery}
+                          onChange={setStructuredQuery}
+                          options={aiOptions}
+                        />
+                      )}
+                      <label className="flex items-center gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={force}
+                          onChange={(e) => setForce(e.target.checked)}
+                        />
+                        Regenerate even if a cached result exists
+                      </label>
+                      <label className="flex items-center gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={agentMode}
+                          onChange={(e) => setAgentMode(e.target.checked)}
+                        />
+                        Let the model explore the full dataset with analysis tools
+                      </label>
+                    </>
+                  )}
+                  <Button
+                    onClick={handleGenerate}
+                    className="w-full"
+                    disabled={
+                      generateMutation.isPending ||
+                      compareMutation.isPending ||
+                      !selectedDataset
+                    }
+                  >
+                    {compareMutation.isPending
+                      ? "Comparing datasets..."
+                      : "Generate Insight"}
+                  </Button>
+                </div>
+              )}
             </DialogContent>
           </Dialog>
         </div>
@@ -305,9 +550,10 @@ export default function Insights() {
                       <TrendingUp className="h-3 w-3" />
                       {insight.type}
                     </Badge>
-                    {insight.confidence && (
+                    {insight.cached && <Badge variant="outline">Cached</Badge>}
+                    {insight.confidence > 0 && (
                       <Badge variant="outline">
-                        {Math.round(insight.confidence * 100)}% confidence
+                        {Math.round(insight.confidence)}% confidence
                       </Badge>
                     )}
                     {insight.visualizations.length > 0 && (
@@ -16,7 +16,18 @@ import { toast } from "sonner";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { AppDispatch } from "@/store/store";
 import { useDispatch, useSelector } from "react-redux";
-import { getProfile } from "@/store/slices/authSlice";
+import { getProfile, updateProfile } from "@/store/slices/authSlice";
+import { useQuery } from "@tanstack/react-query";
+import { insightApi } from "@/lib/api";
+import { AIProviderName } from "@/types/api";
+import { UsageOverview } from "@/components/UsageOverview";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 
 export default function Profile() {
   const dispatch = useDispatch<AppDispatch>();
@@ -27,6 +38,14 @@ export default function Profile() {
   const [newPassword, setNewPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
   const [loading, setLoading] = useState(false);
+  const [aiProvider, setAiProvider] = useState("default");
+  const [aiModel, setAiModel] = useState("");
+
+  const { data: providersResponse } = useQuery({
+    queryKey: ["ai-providers"],
+    queryFn: () => insightApi.getProviders(),
+  });
+  const providers = providersResponse?.data?.providers || [];
 
   // 🧩 1️⃣ Fetch user profile once on mount
   useEffect(() => {
@@ -49,6 +68,8 @@ export default function Profile() {
     if (user) {
       setName(user.name ?? "");
       setEmail(user.email ?? "");
+      setAiProvider(user.aiPreferences?.provider ?? "default");
+      setAiModel(user.aiPreferences?.model ?? "");
     }
   }, [user]);
 
@@ -69,6 +90,30 @@ export default function Profile() {
     }
   };
 
+  const handleUpdateAIPreferences = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    try {
+      await dispatch(
+        updateProfile({
+          aiPreferences: {
+            provider:
+              aiProvider === "default"
+                ? undefined
+                : (aiProvider as AIProviderName),
+            model: aiModel || undefined,
+          },
+        })
+      ).unwrap();
+      toast.success("AI preferences saved!");
+    } catch (error) {
+      toast.error((error as Error).message || "Failed to save AI preferences");
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleUpdatePassword = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -149,6 +194,59 @@ export default function Profile() {
           </CardContent>
         </Card>
 
+        {/* AI Preferences Card */}
+        <Card>
+          <CardHeader>
+            <CardTitle>AI Preferences</CardTitle>
+            <CardDescription>
+              Default provider and model used when generating insights
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleUpdateAIPreferences} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="aiProvider">Provider</Label>
+                <Select value={aiProvider} onValueChange={setAiProvider}>
+                  <SelectTrigger id="aiProvider">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="default">Server default</SelectItem>
+                    {providers.map((p) => (
+                      <SelectItem
+                        key={p.name}
+                        value={p.name}
+                        disabled={!p.configured}
+                      >
+                        {p.name}
+                        {!p.configured && " (not configured)"}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="aiModel">Model</Label>
+                <Input
+                  id="aiModel"
+                  value={aiModel}
+                  onChange={(e) => setAiModel(e.target.value)}
+                  placeholder={
+                    providers.find((p) => p.name === aiProvider)
+                      ?.defaultModel || "Provider default"
+                  }
+                />
+              </div>
+              <Button type="submit" disabled={loading}>
+                {loading ? "Saving..." : "Save Preferences"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {/* AI Usage Card */}
+        <UsageOverview />
+
         {/* Password Card */}
         <Card>
           <CardHeader>
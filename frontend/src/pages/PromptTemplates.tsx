@@ -0,0 +1,261 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Layout } from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ApiRequestError, promptTemplateApi } from "@/lib/api";
+import type { PromptTemplate } from "@/types/api";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+
+const insightTypes = [
+  "summary",
+  "trend",
+  "anomaly",
+  "correlation",
+  "prediction",
+  "custom",
+];
+
+const textareaClassName =
+  "flex min-h-[180px] w-full rounded-md border border-input bg-background px-3 py-2 font-mono text-xs ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring";
+
+const versionLabel = (template: PromptTemplate) =>
+  template.version === 0 ? "Built-in" : `v${template.version}`;
+
+export default function PromptTemplates() {
+  const queryClient = useQueryClient();
+  const [insightType, setInsightType] = useState("summary");
+  const [systemPrompt, setSystemPrompt] = useState("");
+  const [userPrompt, setUserPrompt] = useState("");
+  const [notes, setNotes] = useState("");
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const { data: templatesResponse } = useQuery({
+    queryKey: ["prompt-templates"],
+    queryFn: () => promptTemplateApi.getAll(),
+  });
+  const variables = templatesResponse?.data?.variables || {};
+
+  const { data: versionsResponse, isLoading } = useQuery({
+    queryKey: ["prompt-templates", insightType],
+    queryFn: () => promptTemplateApi.getVersions(insightType),
+  });
+  const versions = versionsResponse?.data || [];
+  const active = versions.find((v) => v.isActive);
+
+  const loadIntoEditor = (template: PromptTemplate) => {
+    setSystemPrompt(template.systemPrompt);
+    setUserPrompt(template.userPrompt);
+    setNotes("");
+    setErrors([]);
+  };
+
+  // Start editing from the active version whenever the type changes
+  useEffect(() => {
+    if (active) loadIntoEditor(active);
+  }, [active]);
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({ queryKey: ["prompt-templates"] });
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      promptTemplateApi.create(insightType, {
+        systemPrompt,
+        userPrompt,
+        notes: notes || undefined,
+      }),
+    onSuccess: (response) => {
+      toast.success(response.message || "Template saved");
+      invalidate();
+    },
+    onError: (error: Error) => {
+      const details =
+        error instanceof ApiRequestError ? error.details : undefined;
+      setErrors(details?.length ? details : [error.message]);
+    },
+  });
+
+  const activateMutation = useMutation({
+    mutationFn: (version: number) =>
+      promptTemplateApi.activate(insightType, version),
+    onSuccess: (response) => {
+      toast.success(response.message || "Template activated");
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to activate template");
+    },
+  });
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Prompt Templates</h1>
+          <p className="text-muted-foreground">
+            Versioned prompts used to generate each insight type
+          </p>
+        </div>
+
+        <Tabs value={insightType} onValueChange={setInsightType}>
+          <TabsList>
+            {insightTypes.map((type) => (
+              <TabsTrigger key={type} value={type} className="capitalize">
+                {type}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Edit Template</CardTitle>
+              <CardDescription>
+                Saving creates a new version and makes it active. Insights record
+                the version they were generated with.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="systemPrompt">System Prompt</Label>
+                <textarea
+                  id="systemPrompt"
+                  className={textareaClassName}
+                  value={systemPrompt}
+                  onChange={(e) => setSystemPrompt(e.target.value)}
+                  spellCheck={false}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="userPrompt">User Prompt</Label>
+                <textarea
+                  id="userPrompt"
+                  className={`${textareaClassName} min-h-[280px]`}
+                  value={userPrompt}
+                  onChange={(e) => setUserPrompt(e.target.value)}
+                  spellCheck={false}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="notes">Change Notes (Optional)</Label>
+                <Input
+                  id="notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="What changed and why"
+                />
+              </div>
+              {errors.length > 0 && (
+                <ul className="text-xs text-destructive list-disc pl-4">
+                  {errors.map((error, i) => (
+                    <li key={i}>{error}</li>
+                  ))}
+                </ul>
+              )}
+              <Button
+                onClick={() => saveMutation.mutate()}
+                disabled={saveMutation.isPending || !systemPrompt || !userPrompt}
+              >
+                {saveMutation.isPending ? "Saving..." : "Save as New Version"}
+              </Button>
+            </CardContent>
+          </Card>
+
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Versions</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {isLoading ? (
+                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                ) : (
+                  <ul className="space-y-3">
+                    {versions.map((template) => (
+                      <li
+                        key={template.version}
+                        className="flex items-start justify-between gap-2 text-sm"
+                      >
+                        <div>
+                          <div className="flex items-center gap-2 font-medium">
+                            {versionLabel(template)}
+                            {template.isActive && <Badge>Active</Badge>}
+                          </div>
+                          {template.createdAt && (
+                            <p className="text-xs text-muted-foreground">
+                              {new Date(template.createdAt).toLocaleString()}
+                            </p>
+                          )}
+                          {template.notes && (
+                            <p className="text-xs text-muted-foreground">
+                              {template.notes}
+                            </p>
+                          )}
+                        </div>
+                        <div className="flex gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => loadIntoEditor(template)}
+                          >
+                            Load
+                          </Button>
+                          {!template.isActive && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => activateMutation.mutate(template.version)}
+                              disabled={activateMutation.isPending}
+                            >
+                              Activate
+                            </Button>
+                          )}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Variables</CardTitle>
+                <CardDescription>
+                  Use {"{{name}}"}, or {"{{#name}}...{{/name}}"} for text shown
+                  only when the variable is not empty
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ul className="space-y-2 text-sm">
+                  {Object.entries(variables).map(([name, description]) => (
+                    <li key={name}>
+                      <code className="text-xs">{`{{${name}}}`}</code>
+                      <p className="text-xs text-muted-foreground">
+                        {description}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+}
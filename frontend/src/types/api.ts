@@ -5,10 +5,34 @@ export interface User {
   role: "user" | "admin";
   avatar?: string;
   isActive: boolean;
+  aiPreferences?: AIPreferences;
   createdAt: string;
   updatedAt: string;
 }
 
+export type AIProviderName = "openai" | "local" | "fake";
+
+export interface AIPreferences {
+  provider?: AIProviderName;
+  model?: string;
+}
+
+export interface GenerateOptions extends AIPreferences {
+  structuredQuery?: StructuredQuery;
+  // Skip the generation cache and pay for a fresh completion
+  force?: boolean;
+  // "agent" lets the model call analysis tools over the full dataset
+  mode?: GenerationMode;
+}
+
+export type GenerationMode = "single" | "agent";
+
+export interface AIProviderInfo {
+  name: AIProviderName;
+  configured: boolean;
+  defaultModel: string;
+}
+
 export interface AuthResponse {
   success: boolean;
   data: {
@@ -17,6 +41,84 @@ export interface AuthResponse {
   };
 }
 
+export type PIIKind =
+  | "email"
+  | "phone"
+  | "name"
+  | "address"
+  | "postal_code"
+  | "ip_address"
+  | "credit_card"
+  | "ssn"
+  | "date_of_birth";
+
+// How a column's values are treated before they are sent to an AI provider
+export type ColumnPolicy = "send" | "mask" | "hash" | "exclude";
+
+export interface WithheldColumn {
+  name: string;
+  policy: Exclude<ColumnPolicy, "send">;
+  kind?: PIIKind;
+}
+
+// Excel: how a workbook's sheets become datasets
+export type SheetMode = "single" | "stack" | "split";
+
+export interface DatasetSheet {
+  name: string;
+  rowCount: number;
+  columns: string[];
+}
+
+// CSV: how the file is read, detected while processing or set by the user
+export type CSVEncoding = "utf-8" | "utf-16le" | "utf-16be" | "latin1";
+
+export interface CSVDialect {
+  delimiter: string;
+  quote: string;
+  encoding: CSVEncoding;
+  hasHeader: boolean;
+  skipLines: number;
+}
+
+// How a column's text values are written
+export interface ValueFormat {
+  decimalSeparator?: "." | ",";
+  currency?: string;
+  percent?: boolean;
+  datePattern?: string;
+}
+
+// Schema set by the user on top of what was inferred
+export type ColumnRole = "dimension" | "measure" | "time" | "id";
+export type SchemaType = "string" | "integer" | "float" | "number" | "boolean" | "date";
+export type SchemaField = "type" | "nullable" | "displayName" | "description" | "unit" | "role";
+
+// A field set to null goes back to the inferred value, or is removed
+export interface ColumnSchemaUpdate {
+  type?: SchemaType | null;
+  nullable?: boolean | null;
+  displayName?: string | null;
+  description?: string | null;
+  unit?: string | null;
+  role?: ColumnRole | null;
+}
+
+// Statistics computed while processing; dates as ISO strings, std in days
+export interface ColumnProfile {
+  kind: "numeric" | "date" | "categorical";
+  count: number;
+  nulls: number;
+  distinct: number;
+  min?: number | string;
+  max?: number | string;
+  mean?: number | string;
+  median?: number | string;
+  std?: number;
+  topValues: Array<{ value: string; count: number }>;
+  histogram?: Array<{ from: number | string; to: number | string; count: number }>;
+}
+
 export interface Dataset {
   _id: string;
   userId: string;
@@ -25,18 +127,41 @@ export interface Dataset {
   fileUrl: string;
   fileName: string;
   fileSize: number;
-  fileType: "csv" | "json" | "excel" | "other";
+  fileType: "csv" | "json" | "jsonl" | "excel" | "parquet" | "arrow" | "other";
   columns: Array<{
     name: string;
     type: string;
     nullable: boolean;
+    // Share of values that fit the type (0-100), and a few of them
+    confidence?: number;
+    examples?: string[];
+    format?: ValueFormat;
+    displayName?: string;
+    description?: string;
+    unit?: string;
+    role?: ColumnRole;
+    inferredType?: string;
+    inferredNullable?: boolean;
+    overridden?: SchemaField[];
+    profile?: ColumnProfile;
+    pii?: { kind: PIIKind; confidence: number };
+    policy?: ColumnPolicy;
   }>;
   rowCount: number;
+  // Excel: every sheet in the workbook, and the ones this dataset reads
+  sheets?: DatasetSheet[];
+  sheetSelection?: { mode: Exclude<SheetMode, "split">; sheets: string[] };
+  csvDialect?: CSVDialect;
   metadata: {
     uploadDate: string;
     lastModified: string;
     processingStatus: "pending" | "processing" | "completed" | "failed";
     errorMessage?: string;
+    // JSON Lines skipped while processing
+    malformedLines?: number;
+    malformedLineSamples?: Array<{ line: number; error: string }>;
+    // Rows the column profiles were computed from
+    profiledRows?: number;
   };
   tags: string[];
   isPublic: boolean;
@@ -44,36 +169,355 @@ export interface Dataset {
   updatedAt: string;
 }
 
+// Resumable chunked upload in progress
+export interface UploadSession {
+  _id: string;
+  fileName: string;
+  fileSize: number;
+  fileType: "csv" | "json" | "jsonl" | "excel" | "parquet" | "arrow";
+  lastModified?: number;
+  chunkSize: number;
+  totalParts: number;
+  receivedParts: number[];
+  missingParts: number[];
+  uploadedBytes: number;
+  status: "uploading" | "completing" | "completed";
+  datasetId?: string;
+  expiresAt: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ChartSpec {
+  chartType: "line" | "area" | "bar" | "pie" | "scatter" | "table";
+  title?: string;
+  xColumn: string;
+  yColumn?: string;
+  aggregation: "sum" | "avg" | "count" | "min" | "max" | "none";
+  filters: Array<{
+    column: string;
+    operator: "eq" | "neq" | "gt" | "gte" | "lt" | "lte" | "contains" | "in";
+    value: unknown;
+  }>;
+  limit: number;
+}
+
+export interface StructuredQuery {
+  filters: ChartSpec["filters"];
+  groupBy: string[];
+  measures: Array<{
+    aggregation: "sum" | "avg" | "count" | "min" | "max";
+    column?: string;
+    alias: string;
+  }>;
+  sort: Array<{ column: string; direction: "asc" | "desc" }>;
+  limit: number;
+}
+
+export interface QueryResult {
+  columns: string[];
+  rows: Record<string, unknown>[];
+  matchedRows: number;
+  totalGroups: number;
+}
+
+export interface FactCheck {
+  source: "description" | "metric";
+  text: string;
+  claim: string;
+  value: number;
+  unit?: "percent";
+  status: "verified" | "unverifiable" | "contradicted";
+  expected?: number;
+  basis?: string;
+  start?: number;
+  end?: number;
+  metricIndex?: number;
+}
+
+export type AgentToolName =
+  | "describe_columns"
+  | "aggregate"
+  | "filter_rows"
+  | "correlation"
+  | "histogram";
+
+export interface AgentStep {
+  step: number;
+  tool: AgentToolName;
+  arguments: Record<string, unknown>;
+  reason?: string;
+  result?: unknown;
+  error?: string;
+  durationMs: number;
+}
+
+export interface AgentTrace {
+  maxSteps: number;
+  steps: AgentStep[];
+}
+
+// How an AI insight was produced, as recorded at generation time
+export interface InsightProvenance {
+  generatedAt: string;
+  durationMs: number;
+  parameters: {
+    provider: AIProviderName | "statistical";
+    model: string;
+    mode?: GenerationMode;
+    temperature?: number;
+    maxTokens?: number;
+    insightType: string;
+    query?: string;
+    structuredQuery?: StructuredQuery;
+    promptTemplate?: { insightType: string; version: number };
+  };
+  messages: Array<{ role: "system" | "user" | "assistant"; content: string }>;
+  rawResponse?: string;
+  attempts?: number;
+  dataset: DatasetVersion;
+  baselineDataset?: DatasetVersion;
+}
+
+export interface DatasetVersion {
+  contentHash?: string;
+  rowCount: number;
+  columnCount: number;
+  lastModified?: string;
+}
+
+export interface NumericSummary {
+  count: number;
+  missing: number;
+  sum: number;
+  mean: number;
+  median: number;
+  std: number;
+  min: number;
+  max: number;
+}
+
+// Two versions of a dataset compared over all rows
+export interface DatasetComparison {
+  baseline: { datasetId: string; name: string; rowCount: number; columnCount: number };
+  current: { datasetId: string; name: string; rowCount: number; columnCount: number };
+  rowChangePercent: number | null;
+  schema: {
+    shared: string[];
+    added: string[];
+    removed: string[];
+    typeChanges: Array<{ column: string; from: string; to: string }>;
+  };
+  numeric: Array<{
+    column: string;
+    baseline: NumericSummary;
+    current: NumericSummary;
+    meanChangePercent: number | null;
+    sumChangePercent: number | null;
+    ksStatistic: number;
+    shifted: boolean;
+  }>;
+  categorical: Array<{
+    column: string;
+    baselineDistinct: number;
+    currentDistinct: number;
+    totalVariation: number;
+    shifted: boolean;
+    added: string[];
+    removed: string[];
+    topChanges: Array<{
+      value: string;
+      baselineShare: number;
+      currentShare: number;
+      change: number;
+    }>;
+  }>;
+  aggregates: Array<{
+    groupBy: string;
+    aggregation: "count" | "sum";
+    column?: string;
+    groups: Array<{
+      group: string;
+      baseline: number;
+      current: number;
+      change: number;
+      changePercent: number | null;
+    }>;
+  }>;
+  withheld: WithheldColumn[];
+}
+
+export interface InsightRevision {
+  title: string;
+  description: string;
+  confidence: number;
+  visualizations: Insight["visualizations"];
+  metrics: Insight["metrics"];
+  recommendations: string[];
+  factChecks?: FactCheck[];
+  aiModel?: string;
+  aiProvider?: AIProviderName | "statistical";
+  provenance?: InsightProvenance;
+  usage?: TokenUsage;
+  replacedAt: string;
+}
+
 export interface Insight {
   _id: string;
   userId: string;
   datasetId: string;
   title: string;
   description: string;
-  type: "trend" | "anomaly" | "correlation" | "prediction" | "summary" | "custom";
+  type:
+    | "trend"
+    | "anomaly"
+    | "correlation"
+    | "prediction"
+    | "summary"
+    | "custom"
+    | "comparison";
+  // Comparison insights: the earlier dataset datasetId is compared against
+  baselineDatasetId?: string | { _id: string; name: string; fileType: string };
   aiGenerated: boolean;
+  cached?: boolean;
   confidence: number;
   visualizations: Array<{
-    type: "line" | "bar" | "pie" | "scatter" | "heatmap" | "table";
+    type: "line" | "area" | "bar" | "pie" | "scatter" | "heatmap" | "table";
     data: any;
     config: any;
+    spec?: ChartSpec;
   }>;
   metrics: Array<{
     name: string;
     value: number | string;
     unit?: string;
+    trend?: "up" | "down" | "stable";
   }>;
   recommendations: string[];
+  factChecks?: FactCheck[];
   query?: string;
+  structuredQuery?: StructuredQuery;
+  aiModel?: string;
+  aiProvider?: AIProviderName | "statistical";
+  promptTemplate?: { insightType: string; version: number };
+  withheldColumns?: WithheldColumn[];
+  agentTrace?: AgentTrace;
+  comparison?: DatasetComparison;
+  provenance?: InsightProvenance;
+  history?: InsightRevision[];
+  usage?: TokenUsage;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface InsightJobItem {
+  _id: string;
+  insightType: Insight["type"];
+  status: "pending" | "running" | "completed" | "failed";
+  insightId?: string;
+  error?: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+export interface InsightJob {
+  _id: string;
+  userId: string;
+  datasetId: string | { _id: string; name: string };
+  // partial: some items failed; failed: none succeeded
+  status: "queued" | "running" | "completed" | "partial" | "failed";
+  items: InsightJobItem[];
+  options: AIPreferences;
+  error?: string;
+  startedAt?: string;
+  completedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PromptTemplate {
+  insightType: Insight["type"];
+  // 0 is the built-in template
+  version: number;
+  systemPrompt: string;
+  userPrompt: string;
+  notes?: string;
+  isActive: boolean;
+  createdAt?: string;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // Estimated cost in USD
+  cost: number;
+}
+
+export interface UsageTotals extends TokenUsage {
+  requests: number;
+}
+
+export interface UsageSummary {
+  period: { start: string; resetsAt: string };
+  usage: UsageTotals;
+  // null limits are unlimited
+  quota: {
+    monthlyTokens: number | null;
+    monthlyCost: number | null;
+    source: "user" | "role";
+  };
+  exceeded: boolean;
+  daily: Array<UsageTotals & { date: string }>;
+  monthly: Array<UsageTotals & { month: string }>;
+  byModel: Array<UsageTotals & { provider: string; model: string }>;
+  byOperation: Array<UsageTotals & { operation: "insight" | "chat" | "query" }>;
+}
+
+export interface ChatMessage {
+  _id: string;
+  role: "user" | "assistant";
+  content: string;
+  visualizations: Insight["visualizations"];
+  metrics: Insight["metrics"];
   aiModel?: string;
+  aiProvider?: Insight["aiProvider"];
+  savedInsightId?: string;
+  createdAt: string;
+}
+
+export interface Conversation {
+  _id: string;
+  userId: string;
+  datasetId: string;
+  title: string;
+  messages: ChatMessage[];
+  lastMessageAt: string;
   createdAt: string;
   updatedAt: string;
 }
 
+export type GenerationStage =
+  | "loading"
+  | "querying"
+  | "profiling"
+  | "prompting"
+  | "token"
+  | "validating"
+  | "repairing"
+  | "tool"
+  | "verifying"
+  | "saving";
+
+export type GenerationEvent =
+  | { event: "stage"; data: { stage: GenerationStage } & Record<string, unknown> }
+  | { event: "token"; data: { delta: string } };
+
 export interface ApiResponse<T> {
   success: boolean;
   data?: T;
   error?: string;
+  message?: string;
   count?: number;
   total?: number;
   page?: number;